@@ -11,6 +11,10 @@ import Dashboard from "./pages/Dashboard";
 import Messages from "./pages/Messages";
 import Informations from "./pages/Informations";
 import Appointments from "./pages/Appointments";
+import Contacts from "./pages/Contacts";
+import Statistics from "./pages/Statistics";
+import MessageTemplates from "./pages/MessageTemplates";
+import AssistantSandbox from "./pages/AssistantSandbox";
 import NotFound from "./pages/NotFound";
 import SuperadminDashboard from "./pages/superadmin/Dashboard";
 import SuperadminUsers from "./pages/superadmin/Users";
@@ -34,6 +38,10 @@ const App = () => (
           <Route path="/messages" element={<Messages />} />
           <Route path="/informations" element={<Informations />} />
           <Route path="/appointments" element={<Appointments />} />
+          <Route path="/contacts" element={<Contacts />} />
+          <Route path="/statistics" element={<Statistics />} />
+          <Route path="/message-templates" element={<MessageTemplates />} />
+          <Route path="/assistant-sandbox" element={<AssistantSandbox />} />
           <Route
             path="/superadmin"
             element={
@@ -1,4 +1,4 @@
-import { MessageSquare, Home, LogOut, FileText, Calendar, Trash2, Shield } from "lucide-react";
+import { MessageSquare, Home, LogOut, FileText, Calendar, Trash2, Shield, Users, BarChart3, MessageSquareText, FlaskConical } from "lucide-react";
 import { NavLink, useNavigate } from "react-router-dom";
 import { useState } from "react";
 import { supabase } from "@/integrations/supabase/client";
@@ -56,6 +56,22 @@ export function AppSidebar() {
                   </NavLink>
                 </SidebarMenuButton>
               </SidebarMenuItem>
+              <SidebarMenuItem>
+                <SidebarMenuButton asChild>
+                  <NavLink to="/message-templates">
+                    <MessageSquareText className="h-4 w-4" />
+                    <span>Messages automatiques</span>
+                  </NavLink>
+                </SidebarMenuButton>
+              </SidebarMenuItem>
+              <SidebarMenuItem>
+                <SidebarMenuButton asChild>
+                  <NavLink to="/assistant-sandbox">
+                    <FlaskConical className="h-4 w-4" />
+                    <span>Tester mon assistant</span>
+                  </NavLink>
+                </SidebarMenuButton>
+              </SidebarMenuItem>
               <SidebarMenuItem>
                 <SidebarMenuButton asChild>
                   <NavLink to="/appointments">
@@ -64,6 +80,22 @@ export function AppSidebar() {
                   </NavLink>
                 </SidebarMenuButton>
               </SidebarMenuItem>
+              <SidebarMenuItem>
+                <SidebarMenuButton asChild>
+                  <NavLink to="/contacts">
+                    <Users className="h-4 w-4" />
+                    <span>Clients</span>
+                  </NavLink>
+                </SidebarMenuButton>
+              </SidebarMenuItem>
+              <SidebarMenuItem>
+                <SidebarMenuButton asChild>
+                  <NavLink to="/statistics">
+                    <BarChart3 className="h-4 w-4" />
+                    <span>Statistiques</span>
+                  </NavLink>
+                </SidebarMenuButton>
+              </SidebarMenuItem>
               {profile?.role === "superadmin" && (
                 <SidebarMenuItem>
                   <SidebarMenuButton asChild>
@@ -0,0 +1,204 @@
+import { useState } from "react";
+import { format, parseISO } from "date-fns";
+import { fr } from "date-fns/locale";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Plus, Trash2, CalendarOff, CalendarPlus, Ban } from "lucide-react";
+import {
+  useAvailabilityExceptions,
+  type AvailabilityException,
+} from "@/hooks/useAvailabilityExceptions";
+
+// "day_off" and "blocked_slot" are both stored as exception_type "blocked",
+// the difference is whether times are set
+type ExceptionKind = "day_off" | "blocked_slot" | "extra_hours";
+
+const KIND_LABELS: Record<ExceptionKind, string> = {
+  day_off: "Fermé toute la journée / congés",
+  blocked_slot: "Créneau bloqué",
+  extra_hours: "Heures supplémentaires",
+};
+
+const todayInParis = () => new Date().toLocaleDateString("sv-SE", { timeZone: "Europe/Paris" });
+
+const formatDate = (date: string) => format(parseISO(date), "EEE d MMM yyyy", { locale: fr });
+
+const getKind = (exception: AvailabilityException): ExceptionKind => {
+  if (exception.exception_type === "extra_hours") return "extra_hours";
+  return exception.start_time ? "blocked_slot" : "day_off";
+};
+
+export const AvailabilityExceptionsManager = () => {
+  const { exceptions, isLoading, addException, deleteException, isAdding } =
+    useAvailabilityExceptions();
+  const [kind, setKind] = useState<ExceptionKind>("day_off");
+  const [startDate, setStartDate] = useState(todayInParis());
+  const [endDate, setEndDate] = useState(todayInParis());
+  const [startTime, setStartTime] = useState("09:00");
+  const [endTime, setEndTime] = useState("18:00");
+  const [reason, setReason] = useState("");
+
+  const needsTimes = kind !== "day_off";
+  const isValid =
+    !!startDate && !!endDate && endDate >= startDate && (!needsTimes || (!!startTime && !!endTime));
+
+  const handleAdd = () => {
+    if (!isValid) return;
+
+    addException({
+      exception_type: kind === "extra_hours" ? "extra_hours" : "blocked",
+      start_date: startDate,
+      end_date: endDate,
+      start_time: needsTimes ? startTime : null,
+      end_time: needsTimes ? endTime : null,
+      reason: reason.trim() || null,
+    });
+    setReason("");
+  };
+
+  if (isLoading) {
+    return <div className="text-muted-foreground">Chargement des exceptions...</div>;
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Exceptions et congés</CardTitle>
+        <CardDescription>
+          Bloquez un jour férié, une période de vacances ou un créneau précis, ou ajoutez des heures
+          d'ouverture exceptionnelles. Ces exceptions priment sur vos disponibilités hebdomadaires.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="grid gap-4 md:grid-cols-3">
+          <div className="space-y-2">
+            <Label>Type</Label>
+            <select
+              value={kind}
+              onChange={(e) => setKind(e.target.value as ExceptionKind)}
+              className="w-full h-10 px-3 rounded-md border border-input bg-background"
+            >
+              {(Object.keys(KIND_LABELS) as ExceptionKind[]).map((value) => (
+                <option key={value} value={value}>
+                  {KIND_LABELS[value]}
+                </option>
+              ))}
+            </select>
+          </div>
+          <div className="space-y-2">
+            <Label>Du</Label>
+            <Input
+              type="date"
+              value={startDate}
+              min={todayInParis()}
+              onChange={(e) => {
+                setStartDate(e.target.value);
+                if (endDate < e.target.value) setEndDate(e.target.value);
+              }}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label>Au (inclus)</Label>
+            <Input
+              type="date"
+              value={endDate}
+              min={startDate}
+              onChange={(e) => setEndDate(e.target.value)}
+            />
+          </div>
+          {needsTimes && (
+            <>
+              <div className="space-y-2">
+                <Label>Heure de début</Label>
+                <Input
+                  type="time"
+                  value={startTime}
+                  onChange={(e) => setStartTime(e.target.value)}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label>Heure de fin</Label>
+                <Input type="time" value={endTime} onChange={(e) => setEndTime(e.target.value)} />
+              </div>
+            </>
+          )}
+          <div className={`space-y-2 ${needsTimes ? "" : "md:col-span-2"}`}>
+            <Label>Note (optionnel, jamais communiquée aux clients)</Label>
+            <Input
+              value={reason}
+              onChange={(e) => setReason(e.target.value)}
+              placeholder="Vacances, jour férié..."
+            />
+          </div>
+          <div className="flex items-end">
+            <Button onClick={handleAdd} className="w-full" disabled={!isValid || isAdding}>
+              <Plus className="mr-2 h-4 w-4" />
+              Ajouter
+            </Button>
+          </div>
+        </div>
+
+        <div className="bg-muted/50 p-3 rounded-lg">
+          <p className="text-sm text-muted-foreground">
+            💡 <strong>Astuce :</strong> Pendant vos congés, l'assistant indique aux clients que
+            vous êtes absent(e) et à partir de quand ils peuvent de nouveau réserver.
+          </p>
+        </div>
+
+        <div className="space-y-2">
+          {exceptions.map((exception) => {
+            const exceptionKind = getKind(exception);
+            const Icon =
+              exceptionKind === "extra_hours"
+                ? CalendarPlus
+                : exceptionKind === "blocked_slot"
+                  ? Ban
+                  : CalendarOff;
+
+            return (
+              <div
+                key={exception.id}
+                className="flex items-center justify-between p-3 rounded-lg border bg-card"
+              >
+                <div className="flex items-center gap-4">
+                  <Icon className="h-4 w-4 text-muted-foreground" />
+                  <div className="space-y-1">
+                    <div className="text-sm">
+                      {exception.start_date === exception.end_date
+                        ? formatDate(exception.start_date)
+                        : `${formatDate(exception.start_date)} → ${formatDate(exception.end_date)}`}
+                      {exception.start_time && exception.end_time && (
+                        <span className="text-muted-foreground">
+                          {" "}
+                          · {exception.start_time.substring(0, 5)} -{" "}
+                          {exception.end_time.substring(0, 5)}
+                        </span>
+                      )}
+                    </div>
+                    {exception.reason && (
+                      <p className="text-xs text-muted-foreground">{exception.reason}</p>
+                    )}
+                  </div>
+                  <Badge variant={exceptionKind === "extra_hours" ? "secondary" : "outline"}>
+                    {KIND_LABELS[exceptionKind]}
+                  </Badge>
+                </div>
+                <Button variant="ghost" size="sm" onClick={() => deleteException(exception.id)}>
+                  <Trash2 className="h-4 w-4 text-destructive" />
+                </Button>
+              </div>
+            );
+          })}
+          {exceptions.length === 0 && (
+            <p className="text-sm text-muted-foreground text-center py-4">
+              Aucune exception à venir. Votre planning hebdomadaire s'applique.
+            </p>
+          )}
+        </div>
+      </CardContent>
+    </Card>
+  );
+};
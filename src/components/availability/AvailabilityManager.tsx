@@ -6,6 +6,8 @@ import { Label } from "@/components/ui/label";
 import { Switch } from "@/components/ui/switch";
 import { Plus, Trash2, Clock } from "lucide-react";
 import { useAvailabilities } from "@/hooks/useAvailabilities";
+import { AvailabilityExceptionsManager } from "@/components/availability/AvailabilityExceptionsManager";
+import { ExternalCalendarsManager } from "@/components/availability/ExternalCalendarsManager";
 
 const DAYS = ["Dimanche", "Lundi", "Mardi", "Mercredi", "Jeudi", "Vendredi", "Samedi"];
 
@@ -83,115 +85,121 @@ export const AvailabilityManager = () => {
   }
 
   return (
-    <Card>
-      <CardHeader>
-        <CardTitle>Disponibilités hebdomadaires</CardTitle>
-        <CardDescription>
-          Définissez vos horaires de disponibilité pour chaque jour de la semaine. Vous pouvez
-          ajouter plusieurs créneaux horaires pour un même jour.
-        </CardDescription>
-      </CardHeader>
-      <CardContent className="space-y-6">
-        <div className="grid gap-4 md:grid-cols-4">
-          <div className="space-y-2">
-            <Label>Jour</Label>
-            <select
-              value={selectedDay}
-              onChange={(e) => setSelectedDay(Number(e.target.value))}
-              className="w-full h-10 px-3 rounded-md border border-input bg-background"
-            >
-              {DAYS.map((day, index) => (
-                <option key={index} value={index}>
-                  {day}
-                </option>
-              ))}
-            </select>
+    <div className="space-y-6">
+      <Card>
+        <CardHeader>
+          <CardTitle>Disponibilités hebdomadaires</CardTitle>
+          <CardDescription>
+            Définissez vos horaires de disponibilité pour chaque jour de la semaine. Vous pouvez
+            ajouter plusieurs créneaux horaires pour un même jour.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-6">
+          <div className="grid gap-4 md:grid-cols-4">
+            <div className="space-y-2">
+              <Label>Jour</Label>
+              <select
+                value={selectedDay}
+                onChange={(e) => setSelectedDay(Number(e.target.value))}
+                className="w-full h-10 px-3 rounded-md border border-input bg-background"
+              >
+                {DAYS.map((day, index) => (
+                  <option key={index} value={index}>
+                    {day}
+                  </option>
+                ))}
+              </select>
+            </div>
+            <div className="space-y-2">
+              <Label>Heure de début</Label>
+              <Input type="time" value={startTime} onChange={(e) => setStartTime(e.target.value)} />
+            </div>
+            <div className="space-y-2">
+              <Label>Heure de fin</Label>
+              <Input type="time" value={endTime} onChange={(e) => setEndTime(e.target.value)} />
+            </div>
+            <div className="flex items-end">
+              <Button onClick={handleAdd} className="w-full">
+                <Plus className="mr-2 h-4 w-4" />
+                Ajouter un créneau
+              </Button>
+            </div>
           </div>
-          <div className="space-y-2">
-            <Label>Heure de début</Label>
-            <Input type="time" value={startTime} onChange={(e) => setStartTime(e.target.value)} />
-          </div>
-          <div className="space-y-2">
-            <Label>Heure de fin</Label>
-            <Input type="time" value={endTime} onChange={(e) => setEndTime(e.target.value)} />
-          </div>
-          <div className="flex items-end">
-            <Button onClick={handleAdd} className="w-full">
-              <Plus className="mr-2 h-4 w-4" />
-              Ajouter un créneau
-            </Button>
+
+          <div className="bg-muted/50 p-3 rounded-lg">
+            <p className="text-sm text-muted-foreground">
+              💡 <strong>Astuce :</strong> Vous pouvez ajouter plusieurs créneaux horaires pour le
+              même jour. Les créneaux traversant minuit sont supportés (ex: Lundi 22h-02h passera au
+              Mardi à minuit).
+            </p>
           </div>
-        </div>
-
-        <div className="bg-muted/50 p-3 rounded-lg">
-          <p className="text-sm text-muted-foreground">
-            💡 <strong>Astuce :</strong> Vous pouvez ajouter plusieurs créneaux horaires pour le
-            même jour. Les créneaux traversant minuit sont supportés (ex: Lundi 22h-02h passera au
-            Mardi à minuit).
-          </p>
-        </div>
-
-        <div className="space-y-4">
-          {DAYS.map((day, dayIndex) => {
-            const dayAvails = groupedByDay[dayIndex] || [];
-            if (dayAvails.length === 0) return null;
-
-            return (
-              <div key={dayIndex} className="space-y-2">
-                <h4 className="font-medium text-sm">{day}</h4>
-                <div className="space-y-2">
-                  {dayAvails.map((avail) => {
-                    const crossesMidnight = avail.end_time <= avail.start_time;
-                    const nextDay = (dayIndex + 1) % 7;
-
-                    return (
-                      <div
-                        key={avail.id}
-                        className="flex items-center justify-between p-3 rounded-lg border bg-card"
-                      >
-                        <div className="flex items-center gap-4">
-                          <span className="text-sm flex items-center gap-2">
-                            <Clock className="h-3 w-3" />
-                            {avail.start_time.substring(0, 5)} - {avail.end_time.substring(0, 5)}
-                            {crossesMidnight && (
+
+          <div className="space-y-4">
+            {DAYS.map((day, dayIndex) => {
+              const dayAvails = groupedByDay[dayIndex] || [];
+              if (dayAvails.length === 0) return null;
+
+              return (
+                <div key={dayIndex} className="space-y-2">
+                  <h4 className="font-medium text-sm">{day}</h4>
+                  <div className="space-y-2">
+                    {dayAvails.map((avail) => {
+                      const crossesMidnight = avail.end_time <= avail.start_time;
+                      const nextDay = (dayIndex + 1) % 7;
+
+                      return (
+                        <div
+                          key={avail.id}
+                          className="flex items-center justify-between p-3 rounded-lg border bg-card"
+                        >
+                          <div className="flex items-center gap-4">
+                            <span className="text-sm flex items-center gap-2">
+                              <Clock className="h-3 w-3" />
+                              {avail.start_time.substring(0, 5)} - {avail.end_time.substring(0, 5)}
+                              {crossesMidnight && (
+                                <span className="text-xs text-muted-foreground">
+                                  (→ {DAYS[nextDay]})
+                                </span>
+                              )}
+                            </span>
+                            <div className="flex items-center gap-2">
+                              <Switch
+                                checked={avail.is_active}
+                                onCheckedChange={(checked) =>
+                                  updateAvailability({ id: avail.id, is_active: checked })
+                                }
+                              />
                               <span className="text-xs text-muted-foreground">
-                                (→ {DAYS[nextDay]})
+                                {avail.is_active ? "Actif" : "Inactif"}
                               </span>
-                            )}
-                          </span>
-                          <div className="flex items-center gap-2">
-                            <Switch
-                              checked={avail.is_active}
-                              onCheckedChange={(checked) =>
-                                updateAvailability({ id: avail.id, is_active: checked })
-                              }
-                            />
-                            <span className="text-xs text-muted-foreground">
-                              {avail.is_active ? "Actif" : "Inactif"}
-                            </span>
+                            </div>
                           </div>
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            onClick={() => deleteAvailability(avail.id)}
+                          >
+                            <Trash2 className="h-4 w-4 text-destructive" />
+                          </Button>
                         </div>
-                        <Button
-                          variant="ghost"
-                          size="sm"
-                          onClick={() => deleteAvailability(avail.id)}
-                        >
-                          <Trash2 className="h-4 w-4 text-destructive" />
-                        </Button>
-                      </div>
-                    );
-                  })}
+                      );
+                    })}
+                  </div>
                 </div>
-              </div>
-            );
-          })}
-          {availabilities.length === 0 && (
-            <p className="text-sm text-muted-foreground text-center py-4">
-              Aucune disponibilité configurée. Ajoutez vos premiers horaires ci-dessus.
-            </p>
-          )}
-        </div>
-      </CardContent>
-    </Card>
+              );
+            })}
+            {availabilities.length === 0 && (
+              <p className="text-sm text-muted-foreground text-center py-4">
+                Aucune disponibilité configurée. Ajoutez vos premiers horaires ci-dessus.
+              </p>
+            )}
+          </div>
+        </CardContent>
+      </Card>
+
+      <AvailabilityExceptionsManager />
+
+      <ExternalCalendarsManager />
+    </div>
   );
 };
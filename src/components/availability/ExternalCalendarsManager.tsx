@@ -0,0 +1,170 @@
+import { useState } from "react";
+import { format, parseISO } from "date-fns";
+import { fr } from "date-fns/locale";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { CalendarClock, FileUp, Link, Plus, RefreshCw, Trash2 } from "lucide-react";
+import { useExternalCalendars, type ExternalCalendarSource } from "@/hooks/useExternalCalendars";
+
+const SOURCE_LABELS: Record<ExternalCalendarSource, string> = {
+  url: "Lien d'abonnement (ICS)",
+  file: "Fichier .ics",
+};
+
+export const ExternalCalendarsManager = () => {
+  const { calendars, isLoading, addCalendar, syncCalendar, deleteCalendar, isAdding, isSyncing } =
+    useExternalCalendars();
+  const [source, setSource] = useState<ExternalCalendarSource>("url");
+  const [name, setName] = useState("");
+  const [url, setUrl] = useState("");
+  const [file, setFile] = useState<File | null>(null);
+
+  const isValid = !!name.trim() && (source === "url" ? /^(https|webcal):\/\//i.test(url) : !!file);
+
+  const handleAdd = async () => {
+    if (!isValid) return;
+
+    if (source === "url") {
+      addCalendar({ name: name.trim(), source_type: "url", url: url.trim() });
+    } else if (file) {
+      addCalendar({ name: name.trim(), source_type: "file", ics_content: await file.text() });
+    }
+    setName("");
+    setUrl("");
+    setFile(null);
+  };
+
+  if (isLoading) {
+    return <div className="text-muted-foreground">Chargement des agendas...</div>;
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Agendas externes</CardTitle>
+        <CardDescription>
+          Importez votre agenda personnel (Google, Apple, Outlook) : ses événements comptent comme
+          des créneaux occupés et l'assistant ne propose pas de RDV par-dessus. Les liens sont
+          resynchronisés automatiquement plusieurs fois par heure.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="grid gap-4 md:grid-cols-3">
+          <div className="space-y-2">
+            <Label>Source</Label>
+            <select
+              value={source}
+              onChange={(e) => setSource(e.target.value as ExternalCalendarSource)}
+              className="w-full h-10 px-3 rounded-md border border-input bg-background"
+            >
+              {(Object.keys(SOURCE_LABELS) as ExternalCalendarSource[]).map((value) => (
+                <option key={value} value={value}>
+                  {SOURCE_LABELS[value]}
+                </option>
+              ))}
+            </select>
+          </div>
+          <div className="space-y-2">
+            <Label>Nom</Label>
+            <Input
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              placeholder="Agenda perso, travail..."
+            />
+          </div>
+          {source === "url" ? (
+            <div className="space-y-2">
+              <Label>Lien ICS</Label>
+              <Input
+                value={url}
+                onChange={(e) => setUrl(e.target.value)}
+                placeholder="https://calendar.google.com/.../basic.ics"
+              />
+            </div>
+          ) : (
+            <div className="space-y-2">
+              <Label>Fichier</Label>
+              <Input
+                type="file"
+                accept=".ics,text/calendar"
+                onChange={(e) => setFile(e.target.files?.[0] ?? null)}
+              />
+            </div>
+          )}
+          <div className="flex items-end md:col-start-3">
+            <Button onClick={handleAdd} className="w-full" disabled={!isValid || isAdding}>
+              <Plus className="mr-2 h-4 w-4" />
+              Ajouter
+            </Button>
+          </div>
+        </div>
+
+        <div className="bg-muted/50 p-3 rounded-lg">
+          <p className="text-sm text-muted-foreground">
+            💡 <strong>Astuce :</strong> Dans Google Agenda, le lien se trouve dans Paramètres →
+            votre agenda → « Adresse secrète au format iCal ». Seules les heures occupées sont
+            utilisées, jamais le titre ni le détail des événements.
+          </p>
+        </div>
+
+        <div className="space-y-2">
+          {calendars.map((calendar) => {
+            const Icon = calendar.source_type === "url" ? Link : FileUp;
+
+            return (
+              <div
+                key={calendar.id}
+                className="flex items-center justify-between p-3 rounded-lg border bg-card"
+              >
+                <div className="flex items-center gap-4">
+                  <Icon className="h-4 w-4 text-muted-foreground" />
+                  <div className="space-y-1">
+                    <div className="text-sm">{calendar.name}</div>
+                    {calendar.last_sync_error ? (
+                      <p className="text-xs text-destructive">
+                        Dernière synchro en échec : {calendar.last_sync_error}
+                      </p>
+                    ) : (
+                      <p className="text-xs text-muted-foreground">
+                        {calendar.last_synced_at
+                          ? `${calendar.busy_count} créneau(x) occupé(s) · synchronisé le ${format(
+                              parseISO(calendar.last_synced_at),
+                              "d MMM à HH:mm",
+                              { locale: fr }
+                            )}`
+                          : "Pas encore synchronisé"}
+                      </p>
+                    )}
+                  </div>
+                  <Badge variant="outline">{SOURCE_LABELS[calendar.source_type]}</Badge>
+                </div>
+                <div className="flex items-center gap-1">
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => syncCalendar(calendar.id)}
+                    disabled={isSyncing}
+                  >
+                    <RefreshCw className="h-4 w-4" />
+                  </Button>
+                  <Button variant="ghost" size="sm" onClick={() => deleteCalendar(calendar.id)}>
+                    <Trash2 className="h-4 w-4 text-destructive" />
+                  </Button>
+                </div>
+              </div>
+            );
+          })}
+          {calendars.length === 0 && (
+            <p className="text-sm text-muted-foreground text-center py-4 flex items-center justify-center gap-2">
+              <CalendarClock className="h-4 w-4" />
+              Aucun agenda externe. Seuls vos RDV et exceptions bloquent vos disponibilités.
+            </p>
+          )}
+        </div>
+      </CardContent>
+    </Card>
+  );
+};
@@ -2,7 +2,8 @@ import { ScrollArea } from "@/components/ui/scroll-area";
 import { Badge } from "@/components/ui/badge";
 import { formatDistanceToNow } from "date-fns";
 import { fr } from "date-fns/locale";
-import { Clock, Pin } from "lucide-react";
+import { AlertTriangle, Ban, Clock, Pin } from "lucide-react";
+import { FLAG_LABELS, type ContactFlagReason } from "@/hooks/useContacts";
 
 // Format phone number for display
 function formatPhoneNumber(phone: string): string {
@@ -29,6 +30,8 @@ interface Conversation {
   unread_count: number;
   is_pinned?: boolean;
   appointment_time?: string | null;
+  blocked?: boolean;
+  flag_reason?: ContactFlagReason | null;
 }
 
 interface ConversationListProps {
@@ -56,6 +59,16 @@ export function ConversationList({
             <div className="flex-1 min-w-0">
               <div className="flex items-center gap-2">
                 {conv.is_pinned && <Pin className="h-3 w-3 text-blue-600 flex-shrink-0" />}
+                {conv.blocked && (
+                  <span title="Numéro bloqué">
+                    <Ban className="h-3 w-3 text-destructive flex-shrink-0" />
+                  </span>
+                )}
+                {conv.flag_reason && (
+                  <span title={`Signalé : ${FLAG_LABELS[conv.flag_reason]}`}>
+                    <AlertTriangle className="h-3 w-3 text-orange-500 flex-shrink-0" />
+                  </span>
+                )}
                 <div className="font-semibold truncate">
                   {conv.contact_name || formatPhoneNumber(conv.contact_phone) || "Contact"}
                 </div>
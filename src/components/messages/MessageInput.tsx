@@ -1,15 +1,40 @@
-import { useState } from "react";
+import { useRef, useState } from "react";
 import { Button } from "@/components/ui/button";
 import { Textarea } from "@/components/ui/textarea";
-import { Send } from "lucide-react";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Dialog,
+  DialogContent,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { FileText, Image, MapPin, Paperclip, Send, UserRound } from "lucide-react";
+import type { MessageAttachment } from "@/hooks/useMessages";
 
 interface MessageInputProps {
   onSend: (message: string) => void;
+  onSendAttachment?: (attachment: MessageAttachment, caption: string) => void;
   disabled?: boolean;
 }
 
-export function MessageInput({ onSend, disabled }: MessageInputProps) {
+// WhatsApp limit for media sent through Evolution
+const MAX_FILE_SIZE = 16 * 1024 * 1024;
+
+export function MessageInput({ onSend, onSendAttachment, disabled }: MessageInputProps) {
   const [message, setMessage] = useState("");
+  const [contactOpen, setContactOpen] = useState(false);
+  const [contactName, setContactName] = useState("");
+  const [contactPhone, setContactPhone] = useState("");
+  const [fileError, setFileError] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
 
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
@@ -26,9 +51,73 @@ export function MessageInput({ onSend, disabled }: MessageInputProps) {
     }
   };
 
+  const openFilePicker = (accept: string) => {
+    if (!fileInputRef.current) return;
+    fileInputRef.current.accept = accept;
+    fileInputRef.current.click();
+  };
+
+  // The text typed so far becomes the caption of the file
+  const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = "";
+    if (!file || !onSendAttachment) return;
+
+    if (file.size > MAX_FILE_SIZE) {
+      setFileError("Fichier trop lourd (16 Mo maximum)");
+      return;
+    }
+
+    setFileError(null);
+    onSendAttachment({ type: "file", file }, message.trim());
+    setMessage("");
+  };
+
+  const handleSendContact = () => {
+    if (!onSendAttachment || !contactName.trim() || !contactPhone.trim()) return;
+
+    onSendAttachment(
+      { type: "contact", full_name: contactName.trim(), phone: contactPhone.trim() },
+      ""
+    );
+    setContactOpen(false);
+    setContactName("");
+    setContactPhone("");
+  };
+
   return (
     <form onSubmit={handleSubmit} className="p-4 border-t">
       <div className="flex gap-2">
+        {onSendAttachment && (
+          <>
+            <input ref={fileInputRef} type="file" className="hidden" onChange={handleFileChange} />
+            <DropdownMenu>
+              <DropdownMenuTrigger asChild>
+                <Button type="button" variant="ghost" size="icon" disabled={disabled}>
+                  <Paperclip className="h-4 w-4" />
+                </Button>
+              </DropdownMenuTrigger>
+              <DropdownMenuContent align="start">
+                <DropdownMenuItem onClick={() => openFilePicker("image/*,video/*")}>
+                  <Image className="mr-2 h-4 w-4" />
+                  Photo ou vidéo
+                </DropdownMenuItem>
+                <DropdownMenuItem onClick={() => openFilePicker("*/*")}>
+                  <FileText className="mr-2 h-4 w-4" />
+                  Document
+                </DropdownMenuItem>
+                <DropdownMenuItem onClick={() => onSendAttachment({ type: "address" }, "")}>
+                  <MapPin className="mr-2 h-4 w-4" />
+                  Mon adresse (position)
+                </DropdownMenuItem>
+                <DropdownMenuItem onClick={() => setContactOpen(true)}>
+                  <UserRound className="mr-2 h-4 w-4" />
+                  Contact
+                </DropdownMenuItem>
+              </DropdownMenuContent>
+            </DropdownMenu>
+          </>
+        )}
         <Textarea
           value={message}
           onChange={(e) => setMessage(e.target.value)}
@@ -41,6 +130,43 @@ export function MessageInput({ onSend, disabled }: MessageInputProps) {
           <Send className="h-4 w-4" />
         </Button>
       </div>
+      {fileError && <p className="text-sm text-destructive mt-2">{fileError}</p>}
+
+      <Dialog open={contactOpen} onOpenChange={setContactOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Envoyer un contact</DialogTitle>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="contact-name">Nom</Label>
+              <Input
+                id="contact-name"
+                value={contactName}
+                onChange={(e) => setContactName(e.target.value)}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="contact-phone">Téléphone</Label>
+              <Input
+                id="contact-phone"
+                placeholder="+41791234567"
+                value={contactPhone}
+                onChange={(e) => setContactPhone(e.target.value)}
+              />
+            </div>
+          </div>
+          <DialogFooter>
+            <Button
+              type="button"
+              onClick={handleSendContact}
+              disabled={!contactName.trim() || !contactPhone.trim()}
+            >
+              Envoyer
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
     </form>
   );
 }
@@ -2,8 +2,22 @@ import { useEffect, useRef, useState } from "react";
 import { ScrollArea } from "@/components/ui/scroll-area";
 import { Switch } from "@/components/ui/switch";
 import { Label } from "@/components/ui/label";
-import { formatDistanceToNow } from "date-fns";
+import { Button } from "@/components/ui/button";
+import { format, formatDistanceToNow } from "date-fns";
 import { fr } from "date-fns/locale";
+import {
+  FileText,
+  Image,
+  MapPin,
+  Mic,
+  PauseCircle,
+  Sticker,
+  UserRound,
+  Video,
+  type LucideIcon,
+} from "lucide-react";
+import { supabase } from "@/integrations/supabase/client";
+import type { Json } from "@/integrations/supabase/types";
 
 interface Message {
   id: string;
@@ -11,6 +25,147 @@ interface Message {
   direction: "incoming" | "outgoing";
   timestamp: string;
   status: string;
+  message_type?: string;
+  media_metadata?: Json | null;
+  location?: Json | null;
+  contact?: Json | null;
+}
+
+interface MediaMetadata {
+  seconds?: number;
+  file_name?: string;
+  storage_path?: string;
+  transcript?: string;
+}
+
+interface ContactData {
+  full_name: string;
+  phone: string | null;
+}
+
+interface LocationData {
+  latitude: number;
+  longitude: number;
+  name?: string | null;
+  address?: string | null;
+}
+
+const MEDIA_LABELS: Record<string, { icon: LucideIcon; label: string }> = {
+  image: { icon: Image, label: "Photo" },
+  video: { icon: Video, label: "Vidéo" },
+  document: { icon: FileText, label: "Document" },
+  sticker: { icon: Sticker, label: "Sticker" },
+};
+
+const formatSeconds = (seconds: number) =>
+  `${Math.floor(seconds / 60)}:${String(Math.round(seconds % 60)).padStart(2, "0")}`;
+
+// content starts with the "[Photo]" / "[Message vocal]" label written with the message
+const stripLabel = (content: string) => content.replace(/^\[[^\]]+\]\s*/, "");
+
+// Files sent from the dashboard live in the private message-media bucket
+function StoredMedia({ path, isImage }: { path: string; isImage: boolean }) {
+  const [url, setUrl] = useState<string | null>(null);
+
+  useEffect(() => {
+    supabase.storage
+      .from("message-media")
+      .createSignedUrl(path, 60 * 60)
+      .then(({ data }) => setUrl(data?.signedUrl ?? null));
+  }, [path]);
+
+  if (!url) return null;
+
+  return isImage ? (
+    <a href={url} target="_blank" rel="noopener noreferrer">
+      <img src={url} alt="" className="max-h-60 rounded-md" />
+    </a>
+  ) : (
+    <a href={url} target="_blank" rel="noopener noreferrer" className="text-sm underline">
+      Ouvrir le fichier
+    </a>
+  );
+}
+
+function MessageBody({ msg }: { msg: Message }) {
+  const media = (msg.media_metadata ?? {}) as MediaMetadata;
+
+  if (msg.message_type === "audio") {
+    return (
+      <div className="space-y-1">
+        <p className="flex items-center gap-1.5 text-sm font-medium">
+          <Mic className="h-4 w-4" />
+          Message vocal
+          {media.seconds ? (
+            <span className="opacity-70">({formatSeconds(media.seconds)})</span>
+          ) : null}
+        </p>
+        {media.transcript ? (
+          <p className="break-words italic">« {media.transcript} »</p>
+        ) : (
+          <p className="text-sm opacity-70">Transcription indisponible</p>
+        )}
+      </div>
+    );
+  }
+
+  if (msg.message_type === "location" && msg.location) {
+    const location = msg.location as unknown as LocationData;
+    const place = [location.name, location.address].filter(Boolean).join(", ");
+
+    return (
+      <div className="space-y-1">
+        <p className="flex items-center gap-1.5 text-sm font-medium">
+          <MapPin className="h-4 w-4" />
+          Localisation
+        </p>
+        {place && <p className="break-words">{place}</p>}
+        <a
+          href={`https://www.google.com/maps?q=${location.latitude},${location.longitude}`}
+          target="_blank"
+          rel="noopener noreferrer"
+          className="text-sm underline"
+        >
+          Voir sur la carte
+        </a>
+      </div>
+    );
+  }
+
+  if (msg.message_type === "contact" && msg.contact) {
+    const contact = msg.contact as unknown as ContactData;
+
+    return (
+      <div className="space-y-1">
+        <p className="flex items-center gap-1.5 text-sm font-medium">
+          <UserRound className="h-4 w-4" />
+          {contact.full_name}
+        </p>
+        {contact.phone && <p className="text-sm">{contact.phone}</p>}
+      </div>
+    );
+  }
+
+  const mediaLabel = msg.message_type ? MEDIA_LABELS[msg.message_type] : undefined;
+  if (mediaLabel) {
+    const Icon = mediaLabel.icon;
+    const caption = stripLabel(msg.content);
+
+    return (
+      <div className="space-y-1">
+        <p className="flex items-center gap-1.5 text-sm font-medium">
+          <Icon className="h-4 w-4" />
+          {msg.message_type === "document" && media.file_name ? media.file_name : mediaLabel.label}
+        </p>
+        {media.storage_path && (
+          <StoredMedia path={media.storage_path} isImage={msg.message_type === "image"} />
+        )}
+        {caption && caption !== media.file_name && <p className="break-words">{caption}</p>}
+      </div>
+    );
+  }
+
+  return <p className="break-words">{msg.content}</p>;
 }
 
 interface MessageThreadProps {
@@ -20,6 +175,22 @@ interface MessageThreadProps {
   conversationId: string;
   aiEnabled: boolean;
   onToggleAI: (enabled: boolean) => void;
+  aiPausedUntil?: string | null;
+  onResumeAI?: () => void;
+}
+
+// True while the provider's takeover pause runs, flips back by itself when it ends
+function useIsPaused(pausedUntil: string | null | undefined): boolean {
+  const [now, setNow] = useState(() => Date.now());
+  const end = pausedUntil ? new Date(pausedUntil).getTime() : 0;
+
+  useEffect(() => {
+    if (end <= Date.now()) return;
+    const timer = setTimeout(() => setNow(Date.now()), end - Date.now() + 1000);
+    return () => clearTimeout(timer);
+  }, [end]);
+
+  return end > now;
 }
 
 export function MessageThread({
@@ -29,8 +200,11 @@ export function MessageThread({
   conversationId: _conversationId,
   aiEnabled,
   onToggleAI,
+  aiPausedUntil,
+  onResumeAI,
 }: MessageThreadProps) {
   const scrollRef = useRef<HTMLDivElement>(null);
+  const aiPaused = useIsPaused(aiPausedUntil);
   const [isInitialLoad, setIsInitialLoad] = useState(true);
 
   // Reset initial load flag when conversation changes
@@ -83,6 +257,19 @@ export function MessageThread({
         </div>
 
         <div className="flex items-center space-x-2">
+          {aiEnabled && aiPaused && aiPausedUntil && (
+            <>
+              <span className="flex items-center gap-1 text-xs text-muted-foreground">
+                <PauseCircle className="h-4 w-4" />
+                En pause jusqu'à {format(new Date(aiPausedUntil), "HH:mm")}
+              </span>
+              {onResumeAI && (
+                <Button type="button" variant="outline" size="sm" onClick={onResumeAI}>
+                  Reprendre
+                </Button>
+              )}
+            </>
+          )}
           <Label htmlFor="ai-toggle" className="text-sm">
             IA
           </Label>
@@ -101,7 +288,7 @@ export function MessageThread({
                   msg.direction === "outgoing" ? "bg-primary text-primary-foreground" : "bg-muted"
                 }`}
               >
-                <p className="break-words">{msg.content}</p>
+                <MessageBody msg={msg} />
                 <p
                   className={`text-xs mt-1 ${
                     msg.direction === "outgoing"
@@ -0,0 +1,153 @@
+import { useState } from "react";
+import { ChevronDown, RotateCcw, Send } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Collapsible, CollapsibleContent, CollapsibleTrigger } from "@/components/ui/collapsible";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import type { AiPersona } from "@/hooks/useUserInformations";
+import {
+  usePersonaPreview,
+  type PreviewMessage,
+  type PreviewMode,
+} from "@/hooks/usePersonaPreview";
+
+interface PersonaPreviewProps {
+  // Persona as currently typed in the form, not the saved one
+  persona: AiPersona | null;
+}
+
+export const PersonaPreview = ({ persona }: PersonaPreviewProps) => {
+  const { runPreview, isPreviewing } = usePersonaPreview();
+  const [mode, setMode] = useState<PreviewMode>("WORKFLOW");
+  const [messages, setMessages] = useState<PreviewMessage[]>([]);
+  const [draft, setDraft] = useState("");
+  const [systemPrompt, setSystemPrompt] = useState("");
+
+  const lastIsIncoming = messages[messages.length - 1]?.direction === "incoming";
+
+  const handleSend = async () => {
+    const content = draft.trim();
+    // Empty draft after a failed answer: retry the same conversation
+    if ((!content && !lastIsIncoming) || isPreviewing) return;
+
+    const conversation: PreviewMessage[] = content
+      ? [...messages, { direction: "incoming", content }]
+      : messages;
+    setMessages(conversation);
+    setDraft("");
+
+    try {
+      const preview = await runPreview({ persona, mode, messages: conversation });
+      setMessages([...conversation, { direction: "outgoing", content: preview.reply }]);
+      setSystemPrompt(preview.system_prompt);
+    } catch {
+      // Toast shown by the hook, the client message stays so it can be retried
+    }
+  };
+
+  const handleReset = () => {
+    setMessages([]);
+    setSystemPrompt("");
+  };
+
+  const handleModeChange = (value: string) => {
+    setMode(value as PreviewMode);
+    handleReset();
+  };
+
+  return (
+    <div className="space-y-4 rounded-md border p-4">
+      <div className="flex flex-wrap items-end justify-between gap-4">
+        <div className="space-y-1">
+          <p className="text-sm font-medium">Tester la personnalité</p>
+          <p className="text-xs text-muted-foreground">
+            Écrivez comme un client : l'assistant répond avec les réglages ci-dessus, vos tarifs et vos
+            disponibilités. Rien n'est envoyé ni enregistré, aucun RDV n'est créé.
+          </p>
+        </div>
+        <div className="flex items-end gap-2">
+          <div className="space-y-1">
+            <Label className="text-xs">Situation</Label>
+            <Select value={mode} onValueChange={handleModeChange}>
+              <SelectTrigger className="w-56">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="WORKFLOW">Nouveau client</SelectItem>
+                <SelectItem value="WAITING">Client avec RDV dans 30 min</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+          <Button type="button" variant="outline" size="icon" onClick={handleReset} title="Recommencer">
+            <RotateCcw className="h-4 w-4" />
+          </Button>
+        </div>
+      </div>
+
+      <div className="min-h-32 space-y-2 rounded-md bg-muted/50 p-3">
+        {messages.length === 0 && (
+          <p className="text-center text-xs text-muted-foreground">
+            Exemple : « Salut, t'es dispo ce soir ? »
+          </p>
+        )}
+        {messages.map((message, index) => (
+          <div
+            key={index}
+            className={`flex ${message.direction === "incoming" ? "justify-start" : "justify-end"}`}
+          >
+            <div
+              className={`max-w-[80%] whitespace-pre-wrap rounded-lg px-3 py-2 text-sm ${
+                message.direction === "incoming" ? "bg-background" : "bg-primary text-primary-foreground"
+              }`}
+            >
+              {message.content}
+            </div>
+          </div>
+        ))}
+        {isPreviewing && <p className="text-right text-xs text-muted-foreground">L'assistant écrit...</p>}
+      </div>
+
+      <div className="flex gap-2">
+        <Input
+          value={draft}
+          onChange={(e) => setDraft(e.target.value)}
+          onKeyDown={(e) => {
+            if (e.key === "Enter") {
+              // Enter would submit the Informations form
+              e.preventDefault();
+              handleSend();
+            }
+          }}
+          placeholder="Message du client"
+          maxLength={500}
+          disabled={isPreviewing}
+        />
+        <Button type="button" onClick={handleSend} disabled={isPreviewing || (!draft.trim() && !lastIsIncoming)}>
+          <Send className="mr-2 h-4 w-4" />
+          Tester
+        </Button>
+      </div>
+
+      {systemPrompt && (
+        <Collapsible>
+          <CollapsibleTrigger asChild>
+            <Button type="button" variant="ghost" size="sm" className="gap-1 px-0 text-xs text-muted-foreground">
+              <ChevronDown className="h-3 w-3" />
+              Voir les instructions envoyées à l'assistant
+              <Badge variant="secondary" className="ml-1">
+                {mode === "WAITING" ? "Attente" : "Réservation"}
+              </Badge>
+            </Button>
+          </CollapsibleTrigger>
+          <CollapsibleContent>
+            <pre className="mt-2 max-h-80 overflow-auto whitespace-pre-wrap rounded-md bg-muted p-3 text-xs">
+              {systemPrompt}
+            </pre>
+          </CollapsibleContent>
+        </Collapsible>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,162 @@
+import { ChevronDown } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Collapsible, CollapsibleContent, CollapsibleTrigger } from "@/components/ui/collapsible";
+import type { SandboxToolCall, SandboxTrace } from "@/hooks/useAssistantSandbox";
+
+const TOOL_LABELS: Record<string, string> = {
+  check_availability: "Vérification des disponibilités",
+  create_appointment_summary: "Réservation",
+  cancel_appointment: "Annulation",
+  reschedule_appointment: "Déplacement du RDV",
+  share_address_location: "Envoi de la position",
+  report_abusive_client: "Signalement du client",
+};
+
+const SKIPPED_LABELS: Record<string, string> = {
+  whatsapp_message: "Message WhatsApp au client",
+  "whatsapp_attachment:location": "Position de l'adresse sur WhatsApp",
+  payment_link: "Lien de paiement",
+  contact_flag: "Signalement du numéro",
+  "provider_notification:approval_request": "Notification « RDV à valider »",
+  "provider_notification:appointment_cancelled": "Notification « RDV annulé »",
+  "provider_notification:appointment_rescheduled": "Notification « RDV déplacé »",
+};
+
+const CONFIDENCE_LABELS = {
+  high: "élevée",
+  medium: "moyenne",
+  low: "faible",
+};
+
+const formatArguments = (raw: string) => {
+  try {
+    return JSON.stringify(JSON.parse(raw), null, 2);
+  } catch {
+    return raw;
+  }
+};
+
+// Validation failures come back as { success: false, error, details }, lookups as { available, ... }
+const toolOutcome = (output: Record<string, unknown>) => {
+  if (output.success === false) {
+    return { ok: false, label: String(output.error ?? "échec"), details: output.details ?? output.reason ?? null };
+  }
+  if (output.available === false) {
+    return { ok: false, label: "indisponible", details: output.reason ?? null };
+  }
+  return { ok: true, label: output.available === true ? "disponible" : "OK", details: null };
+};
+
+const ToolCallRow = ({ call }: { call: SandboxToolCall }) => {
+  const outcome = toolOutcome(call.output);
+
+  return (
+    <div className="space-y-1 rounded-md border bg-background p-2">
+      <div className="flex flex-wrap items-center gap-2">
+        <span className="text-xs font-medium">{TOOL_LABELS[call.name] ?? call.name}</span>
+        <Badge variant={outcome.ok ? "secondary" : "destructive"}>{outcome.label}</Badge>
+      </div>
+      {outcome.details !== null && (
+        <p className="text-xs text-muted-foreground">
+          {typeof outcome.details === "string" ? outcome.details : JSON.stringify(outcome.details)}
+        </p>
+      )}
+      <Collapsible>
+        <CollapsibleTrigger asChild>
+          <Button variant="ghost" size="sm" className="h-6 gap-1 px-0 text-xs text-muted-foreground">
+            <ChevronDown className="h-3 w-3" />
+            Paramètres et résultat
+          </Button>
+        </CollapsibleTrigger>
+        <CollapsibleContent>
+          <pre className="max-h-60 overflow-auto whitespace-pre-wrap rounded bg-muted p-2 text-xs">
+            {formatArguments(call.arguments)}
+          </pre>
+          <pre className="mt-1 max-h-60 overflow-auto whitespace-pre-wrap rounded bg-muted p-2 text-xs">
+            {JSON.stringify(call.output, null, 2)}
+          </pre>
+        </CollapsibleContent>
+      </Collapsible>
+    </div>
+  );
+};
+
+interface TurnTraceProps {
+  trace: SandboxTrace;
+}
+
+// How the assistant built one answer: temporal parsing, mode, tools and what the test did not do
+export const TurnTrace = ({ trace }: TurnTraceProps) => (
+  <Collapsible>
+    <CollapsibleTrigger asChild>
+      <Button variant="ghost" size="sm" className="gap-1 px-0 text-xs text-muted-foreground">
+        <ChevronDown className="h-3 w-3" />
+        Détails
+        <Badge variant="outline" className="ml-1">
+          {trace.ai_mode === "WAITING" ? "Attente" : "Réservation"}
+        </Badge>
+        {trace.tool_calls.length > 0 && (
+          <Badge variant="outline">
+            {trace.tool_calls.length} outil{trace.tool_calls.length > 1 ? "s" : ""}
+          </Badge>
+        )}
+      </Button>
+    </CollapsibleTrigger>
+    <CollapsibleContent>
+      <div className="mt-1 space-y-3 rounded-md border bg-muted/30 p-3 text-xs">
+        <div className="space-y-1">
+          <p className="font-medium">Mode</p>
+          <p className="text-muted-foreground">{trace.ai_mode_description}</p>
+          <p className="text-muted-foreground">
+            Langue : {trace.language} · Modèle : {trace.model} · {trace.llm_calls} appel
+            {trace.llm_calls > 1 ? "s" : ""} en {(trace.latency_ms / 1000).toFixed(1)} s
+          </p>
+        </div>
+
+        <div className="space-y-1">
+          <p className="font-medium">Message enrichi</p>
+          <pre className="whitespace-pre-wrap rounded bg-muted p-2">{trace.enriched_message}</pre>
+          <p className="text-muted-foreground">
+            Contexte : {trace.context_type} · Analyse : {trace.parsing_method}
+            {trace.entities.length > 0 && ` · Repères temporels : ${trace.entities.join(", ")}`}
+          </p>
+        </div>
+
+        <div className="space-y-1">
+          <p className="font-medium">Outils</p>
+          {trace.tool_calls.length === 0 ? (
+            <p className="text-muted-foreground">
+              Aucun outil appelé (disponibles : {trace.tools.map((name) => TOOL_LABELS[name] ?? name).join(", ")})
+            </p>
+          ) : (
+            trace.tool_calls.map((call, index) => <ToolCallRow key={index} call={call} />)
+          )}
+        </div>
+
+        {trace.arrival && (
+          <div className="space-y-1">
+            <p className="font-medium">Arrivée du client</p>
+            <p className="text-muted-foreground">
+              {trace.arrival.client_has_arrived ? "Détectée" : "Non détectée"}
+              {trace.arrival.confidence && ` (confiance ${CONFIDENCE_LABELS[trace.arrival.confidence]})`}
+            </p>
+          </div>
+        )}
+
+        {trace.skipped.length > 0 && (
+          <div className="space-y-1">
+            <p className="font-medium">Non effectué (test)</p>
+            <div className="flex flex-wrap gap-1">
+              {trace.skipped.map((action, index) => (
+                <Badge key={index} variant="outline">
+                  {SKIPPED_LABELS[action] ?? action}
+                </Badge>
+              ))}
+            </div>
+          </div>
+        )}
+      </div>
+    </CollapsibleContent>
+  </Collapsible>
+);
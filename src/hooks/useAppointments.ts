@@ -18,7 +18,7 @@ export interface Appointment {
   end_time: string;
   duration_minutes: number;
   service?: string;
-  status: "pending" | "confirmed" | "cancelled" | "completed";
+  status: "pending" | "confirmed" | "cancelled" | "completed" | "no_show";
   notes?: string;
   selected_extras?: AppointmentExtra[];
   base_price?: number;
@@ -29,6 +29,11 @@ export interface Appointment {
   client_arrived?: boolean;
   client_arrival_detected_at?: string;
   provider_ready_to_receive?: boolean;
+  closed_by?: string | null; // "provider" or "auto" (check-late-clients)
+  payment_status?: "not_required" | "unpaid" | "paid" | "failed";
+  payment_kind?: "deposit" | "full" | null;
+  payment_amount?: number | null;
+  payment_url?: string | null;
 }
 
 export const useAppointments = () => {
@@ -130,14 +135,45 @@ export const useAppointments = () => {
     },
   });
 
+  // Approval mode: the edge function updates the status and tells the client on WhatsApp
+  const reviewMutation = useMutation({
+    mutationFn: async ({ id, decision }: { id: string; decision: "approve" | "decline" }) => {
+      const { data, error } = await supabase.functions.invoke("review-appointment", {
+        body: { appointment_id: id, decision },
+      });
+
+      if (error) throw error;
+      if (!data?.success) throw new Error(data?.error || "Erreur inconnue");
+      return { decision, clientNotified: Boolean(data.client_notified) };
+    },
+    onSuccess: ({ decision, clientNotified }) => {
+      queryClient.invalidateQueries({ queryKey: ["appointments"] });
+      toast({
+        title: decision === "approve" ? "Rendez-vous accepté" : "Rendez-vous refusé",
+        description: clientNotified
+          ? "Le client a été prévenu sur WhatsApp."
+          : "Le client n'a pas pu être prévenu automatiquement.",
+      });
+    },
+    onError: (error) => {
+      toast({
+        variant: "destructive",
+        title: "Erreur",
+        description: `Impossible de traiter la demande: ${error.message}`,
+      });
+    },
+  });
+
   return {
     appointments: appointments || [],
     isLoading,
     addAppointment: addMutation.mutate,
     updateAppointment: updateMutation.mutate,
     deleteAppointment: deleteMutation.mutate,
+    reviewAppointment: reviewMutation.mutate,
     isAdding: addMutation.isPending,
     isUpdating: updateMutation.isPending,
     isDeleting: deleteMutation.isPending,
+    isReviewing: reviewMutation.isPending,
   };
 };
@@ -0,0 +1,95 @@
+import { useMutation } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import { useToast } from "@/hooks/use-toast";
+
+export interface SandboxMessage {
+  direction: "incoming" | "outgoing";
+  content: string;
+}
+
+export interface SandboxAppointment {
+  id: string;
+  appointment_date: string;
+  start_time: string;
+  end_time: string;
+  duration_minutes: number;
+  service: string;
+  selected_extras: Array<{ name: string; price: number }>;
+  total_price: number;
+  status: "pending" | "confirmed" | "cancelled";
+  client_arrived?: boolean;
+}
+
+export interface SandboxToolCall {
+  name: string;
+  arguments: string;
+  output: Record<string, unknown>;
+}
+
+export interface SandboxTrace {
+  message: string;
+  language: string;
+  context_type: string;
+  parsing_method: string;
+  entities: string[];
+  enriched_message: string;
+  ai_mode: "WORKFLOW" | "WAITING";
+  ai_mode_description: string;
+  model: string;
+  tools: string[];
+  tool_calls: SandboxToolCall[];
+  arrival: { client_has_arrived: boolean; confidence: "high" | "medium" | "low" | null } | null;
+  llm_calls: number;
+  latency_ms: number;
+  skipped: string[];
+}
+
+export interface SandboxTurnResponse {
+  success: boolean;
+  reply: string;
+  language: string;
+  trace: SandboxTrace;
+  appointments: SandboxAppointment[];
+  error?: string;
+}
+
+interface SandboxTurnInput {
+  messages: SandboxMessage[];
+  // Sandbox appointments and language returned by the previous turn
+  appointments: SandboxAppointment[];
+  language: string | null;
+}
+
+// The whole ai-auto-reply pipeline in dry-run mode: nothing is sent, test appointments
+// only exist in the page state
+export const useAssistantSandbox = () => {
+  const { toast } = useToast();
+
+  const turnMutation = useMutation({
+    mutationFn: async (input: SandboxTurnInput) => {
+      const { data, error } = await supabase.functions.invoke<SandboxTurnResponse>("ai-auto-reply", {
+        body: { sandbox: input },
+      });
+
+      if (error) {
+        // Non-2xx: the edge function puts the reason in the body
+        const body = await error.context?.json?.().catch(() => null);
+        throw new Error(body?.error ?? body?.message ?? error.message);
+      }
+      if (!data?.success) throw new Error(data?.error ?? "Erreur inconnue");
+      return data;
+    },
+    onError: (error) => {
+      toast({
+        variant: "destructive",
+        title: "Erreur",
+        description: `Impossible de tester l'assistant: ${error.message}`,
+      });
+    },
+  });
+
+  return {
+    runTurn: turnMutation.mutateAsync,
+    isRunning: turnMutation.isPending,
+  };
+};
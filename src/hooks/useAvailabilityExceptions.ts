@@ -0,0 +1,109 @@
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import { useToast } from "@/hooks/use-toast";
+
+export type AvailabilityExceptionType = "blocked" | "extra_hours";
+
+export interface AvailabilityException {
+  id: string;
+  user_id: string;
+  exception_type: AvailabilityExceptionType;
+  start_date: string;
+  end_date: string;
+  start_time: string | null;
+  end_time: string | null;
+  reason: string | null;
+  created_at?: string;
+  updated_at?: string;
+}
+
+export const useAvailabilityExceptions = () => {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const { data: exceptions, isLoading } = useQuery({
+    queryKey: ["availability_exceptions"],
+    queryFn: async () => {
+      const {
+        data: { user },
+      } = await supabase.auth.getUser();
+      if (!user) throw new Error("Not authenticated");
+
+      // Past exceptions are useless for scheduling, only keep current and upcoming ones
+      const today = new Date().toLocaleDateString("sv-SE", { timeZone: "Europe/Paris" });
+
+      const { data, error } = await supabase
+        .from("availability_exceptions")
+        .select("*")
+        .eq("user_id", user.id)
+        .gte("end_date", today)
+        .order("start_date, start_time");
+
+      if (error) throw error;
+      return data as AvailabilityException[];
+    },
+  });
+
+  const addMutation = useMutation({
+    mutationFn: async (
+      exception: Omit<AvailabilityException, "id" | "user_id" | "created_at" | "updated_at">
+    ) => {
+      const {
+        data: { user },
+      } = await supabase.auth.getUser();
+      if (!user) throw new Error("Not authenticated");
+
+      const { error } = await supabase.from("availability_exceptions").insert({
+        user_id: user.id,
+        ...exception,
+      });
+
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["availability_exceptions"] });
+      toast({
+        title: "Exception ajoutée",
+        description: "Votre planning a été mis à jour.",
+      });
+    },
+    onError: (error) => {
+      toast({
+        variant: "destructive",
+        title: "Erreur",
+        description: `Impossible d'ajouter l'exception: ${error.message}`,
+      });
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (id: string) => {
+      const { error } = await supabase.from("availability_exceptions").delete().eq("id", id);
+
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["availability_exceptions"] });
+      toast({
+        title: "Exception supprimée",
+        description: "Votre planning habituel s'applique de nouveau.",
+      });
+    },
+    onError: (error) => {
+      toast({
+        variant: "destructive",
+        title: "Erreur",
+        description: `Impossible de supprimer l'exception: ${error.message}`,
+      });
+    },
+  });
+
+  return {
+    exceptions: exceptions || [],
+    isLoading,
+    addException: addMutation.mutate,
+    deleteException: deleteMutation.mutate,
+    isAdding: addMutation.isPending,
+    isDeleting: deleteMutation.isPending,
+  };
+};
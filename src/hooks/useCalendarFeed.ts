@@ -0,0 +1,84 @@
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import { useToast } from "@/hooks/use-toast";
+
+const CALENDAR_FEED_URL = `${import.meta.env.VITE_SUPABASE_URL}/functions/v1/calendar-feed`;
+
+export const useCalendarFeed = () => {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const { data: token, isLoading } = useQuery({
+    queryKey: ["calendar-feed"],
+    queryFn: async () => {
+      const { data, error } = await supabase.from("calendar_feeds").select("token").maybeSingle();
+
+      if (error) throw error;
+
+      return data?.token ?? null;
+    },
+  });
+
+  const rotateMutation = useMutation({
+    mutationFn: async () => {
+      const { data, error } = await supabase.rpc("rotate_calendar_feed_token");
+
+      if (error) throw error;
+      return data;
+    },
+    onSuccess: () => {
+      const hadToken = !!token;
+      queryClient.invalidateQueries({ queryKey: ["calendar-feed"] });
+      toast({
+        title: hadToken ? "Nouveau lien généré" : "Lien d'abonnement créé",
+        description: hadToken
+          ? "L'ancien lien ne fonctionne plus, abonnez de nouveau votre agenda."
+          : "Ajoutez-le à votre agenda pour y voir vos rendez-vous.",
+      });
+    },
+    onError: (error) => {
+      toast({
+        variant: "destructive",
+        title: "Erreur",
+        description: `Impossible de générer le lien: ${error.message}`,
+      });
+    },
+  });
+
+  const exportMutation = useMutation({
+    mutationFn: async () => {
+      // Without a token, calendar-feed answers with the whole history of the logged-in user
+      const { data, error } = await supabase.functions.invoke("calendar-feed", { method: "GET" });
+
+      if (error) throw error;
+
+      const blob = new Blob([data as string], { type: "text/calendar;charset=utf-8" });
+      const url = URL.createObjectURL(blob);
+      const link = document.createElement("a");
+      link.href = url;
+      link.download = "rendez-vous.ics";
+      link.click();
+      URL.revokeObjectURL(url);
+    },
+    onError: (error) => {
+      toast({
+        variant: "destructive",
+        title: "Erreur",
+        description: `Impossible d'exporter les rendez-vous: ${error.message}`,
+      });
+    },
+  });
+
+  const feedUrl = token ? `${CALENDAR_FEED_URL}?token=${token}` : null;
+
+  return {
+    feedUrl,
+    // webcal:// opens the subscription dialog of Apple Calendar and most phone calendars
+    webcalUrl: feedUrl?.replace(/^https?:\/\//, "webcal://") ?? null,
+    isLoading,
+    rotateToken: rotateMutation.mutate,
+    isRotating: rotateMutation.isPending,
+    exportIcs: exportMutation.mutate,
+    isExporting: exportMutation.isPending,
+  };
+};
@@ -0,0 +1,135 @@
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import { useToast } from "@/hooks/use-toast";
+
+// Contact row + history computed from the appointments (contact_summaries view)
+export interface Contact {
+  id: string;
+  phone: string;
+  name: string | null;
+  notes: string | null;
+  tags: string[];
+  visit_count: number;
+  total_spent: number;
+  last_visit_date: string | null;
+  next_appointment_date: string | null;
+  cancelled_count: number;
+  no_show_count: number;
+  blocked: boolean;
+  flag_reason: ContactFlagReason | null;
+  created_at: string;
+}
+
+// Set automatically: repeated no-shows (check-late-clients) or abusive messages (AI)
+export type ContactFlagReason = "no_show" | "abuse";
+
+export const FLAG_LABELS: Record<ContactFlagReason, string> = {
+  no_show: "Lapins répétés",
+  abuse: "Messages déplacés",
+};
+
+export type ContactUpdate = Pick<Contact, "id"> &
+  Partial<Pick<Contact, "name" | "notes" | "tags" | "flag_reason">>;
+
+// Tags offered in the contact sheet, any other tag can be typed
+export const SUGGESTED_TAGS = ["Régulier", "VIP", "No-show", "À éviter"];
+
+// Same format as conversations.contact_phone and contacts.phone
+export const normalizePhone = (phone: string) => phone.split("@")[0].replace(/\D/g, "");
+
+export const useContacts = () => {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const { data: contacts, isLoading } = useQuery({
+    queryKey: ["contacts"],
+    queryFn: async () => {
+      const {
+        data: { user },
+      } = await supabase.auth.getUser();
+      if (!user) throw new Error("Not authenticated");
+
+      const { data, error } = await supabase
+        .from("contact_summaries")
+        .select("*")
+        .eq("user_id", user.id)
+        .order("last_visit_date", { ascending: false, nullsFirst: false })
+        .order("created_at", { ascending: false });
+
+      if (error) throw error;
+
+      return (data || []).map((contact) => ({
+        ...contact,
+        tags: contact.tags || [],
+        visit_count: contact.visit_count ?? 0,
+        total_spent: Number(contact.total_spent) || 0,
+        cancelled_count: contact.cancelled_count ?? 0,
+        no_show_count: contact.no_show_count ?? 0,
+        blocked: contact.blocked ?? false,
+      })) as Contact[];
+    },
+  });
+
+  const updateMutation = useMutation({
+    mutationFn: async ({ id, ...updates }: ContactUpdate) => {
+      const { error } = await supabase.from("contacts").update(updates).eq("id", id);
+
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["contacts"] });
+      toast({
+        title: "Fiche client mise à jour",
+        description: "Les modifications ont été enregistrées.",
+      });
+    },
+    onError: (error) => {
+      toast({
+        variant: "destructive",
+        title: "Erreur",
+        description: `Impossible de modifier la fiche client: ${error.message}`,
+      });
+    },
+  });
+
+  const blockMutation = useMutation({
+    mutationFn: async ({ id, blocked }: { id: string; blocked: boolean }) => {
+      // A new block sends the refusal message again (user_informations.blocked_contact_reply)
+      const { error } = await supabase
+        .from("contacts")
+        .update({
+          blocked,
+          blocked_at: blocked ? new Date().toISOString() : null,
+          block_reply_sent_at: null,
+        })
+        .eq("id", id);
+
+      if (error) throw error;
+    },
+    onSuccess: (_, { blocked }) => {
+      queryClient.invalidateQueries({ queryKey: ["contacts"] });
+      toast({
+        title: blocked ? "Numéro bloqué" : "Numéro débloqué",
+        description: blocked
+          ? "L'assistant ne répondra plus à ce client."
+          : "L'assistant répond de nouveau à ce client.",
+      });
+    },
+    onError: (error) => {
+      toast({
+        variant: "destructive",
+        title: "Erreur",
+        description: `Impossible de modifier le blocage: ${error.message}`,
+      });
+    },
+  });
+
+  return {
+    contacts: contacts || [],
+    isLoading,
+    updateContact: updateMutation.mutate,
+    isUpdating: updateMutation.isPending,
+    setBlocked: blockMutation.mutate,
+    isBlocking: blockMutation.isPending,
+  };
+};
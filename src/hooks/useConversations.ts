@@ -9,6 +9,7 @@ interface Conversation {
   last_message_text: string | null;
   unread_count: number;
   ai_enabled: boolean;
+  ai_paused_until?: string | null; // Provider took over, the AI resumes at that time
   is_pinned?: boolean;
   pinned_at?: string | null;
   appointment_time?: string | null; // For today's appointments
@@ -111,6 +112,7 @@ export function useConversations(instanceId: string | undefined) {
         last_message_text: conv.last_message_text,
         unread_count: conv.unread_count,
         ai_enabled: conv.ai_enabled,
+        ai_paused_until: conv.ai_paused_until,
         is_pinned: conv.is_pinned,
         pinned_at: conv.pinned_at,
         appointment_time: appointmentMap.get(conv.id) || null,
@@ -0,0 +1,151 @@
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import { useToast } from "@/hooks/use-toast";
+
+export type ExternalCalendarSource = "url" | "file";
+
+export interface ExternalCalendar {
+  id: string;
+  name: string;
+  source_type: ExternalCalendarSource;
+  url: string | null;
+  last_synced_at: string | null;
+  last_sync_error: string | null;
+  busy_count: number;
+  created_at: string;
+}
+
+export type NewExternalCalendar =
+  | { name: string; source_type: "url"; url: string }
+  | { name: string; source_type: "file"; ics_content: string };
+
+interface SyncResponse {
+  success: boolean;
+  results?: Array<{ calendar_id: string; busy_count?: number; error?: string }>;
+  error?: string;
+}
+
+// Busy times are computed by the edge function, the page only shows the outcome
+const syncCalendar = async (calendarId: string) => {
+  const { data, error } = await supabase.functions.invoke<SyncResponse>("sync-external-calendars", {
+    body: { calendar_id: calendarId },
+  });
+
+  if (error) throw error;
+
+  const result = data?.results?.[0];
+  if (!data?.success || !result) throw new Error(data?.error ?? "Synchronisation impossible");
+  if (result.error) throw new Error(result.error);
+
+  return result.busy_count ?? 0;
+};
+
+export const useExternalCalendars = () => {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const { data: calendars, isLoading } = useQuery({
+    queryKey: ["external_calendars"],
+    queryFn: async () => {
+      // ics_content can be large and is never shown
+      const { data, error } = await supabase
+        .from("external_calendars")
+        .select(
+          "id, name, source_type, url, last_synced_at, last_sync_error, busy_count, created_at"
+        )
+        .order("created_at");
+
+      if (error) throw error;
+      return data as ExternalCalendar[];
+    },
+  });
+
+  const addMutation = useMutation({
+    mutationFn: async (calendar: NewExternalCalendar) => {
+      const {
+        data: { user },
+      } = await supabase.auth.getUser();
+      if (!user) throw new Error("Not authenticated");
+
+      const { data, error } = await supabase
+        .from("external_calendars")
+        .insert({ user_id: user.id, ...calendar })
+        .select("id")
+        .single();
+
+      if (error) throw error;
+
+      try {
+        return await syncCalendar(data.id);
+      } finally {
+        queryClient.invalidateQueries({ queryKey: ["external_calendars"] });
+      }
+    },
+    onSuccess: (busyCount) => {
+      toast({
+        title: "Agenda ajouté",
+        description: `${busyCount} créneau(x) occupé(s) importé(s), l'assistant n'y proposera pas de RDV.`,
+      });
+    },
+    onError: (error) => {
+      toast({
+        variant: "destructive",
+        title: "Erreur",
+        description: `Impossible d'importer l'agenda: ${error.message}`,
+      });
+    },
+  });
+
+  const syncMutation = useMutation({
+    mutationFn: syncCalendar,
+    onSettled: () => {
+      queryClient.invalidateQueries({ queryKey: ["external_calendars"] });
+    },
+    onSuccess: (busyCount) => {
+      toast({
+        title: "Agenda synchronisé",
+        description: `${busyCount} créneau(x) occupé(s) à venir.`,
+      });
+    },
+    onError: (error) => {
+      toast({
+        variant: "destructive",
+        title: "Erreur",
+        description: `Impossible de synchroniser l'agenda: ${error.message}`,
+      });
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (id: string) => {
+      // Its busy times are deleted with it (ON DELETE CASCADE)
+      const { error } = await supabase.from("external_calendars").delete().eq("id", id);
+
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["external_calendars"] });
+      toast({
+        title: "Agenda retiré",
+        description: "Ses événements ne bloquent plus vos disponibilités.",
+      });
+    },
+    onError: (error) => {
+      toast({
+        variant: "destructive",
+        title: "Erreur",
+        description: `Impossible de retirer l'agenda: ${error.message}`,
+      });
+    },
+  });
+
+  return {
+    calendars: calendars || [],
+    isLoading,
+    addCalendar: addMutation.mutate,
+    syncCalendar: syncMutation.mutate,
+    deleteCalendar: deleteMutation.mutate,
+    isAdding: addMutation.isPending,
+    isSyncing: syncMutation.isPending,
+  };
+};
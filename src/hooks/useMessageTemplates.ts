@@ -0,0 +1,111 @@
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import { useToast } from "@/hooks/use-toast";
+
+export type TemplateLanguage = "fr" | "en" | "de" | "it";
+
+export interface MessageTemplate {
+  key: string;
+  label: string;
+  description: string;
+  audience: "client" | "provider";
+  // One message per line, one picked at random
+  variants: boolean;
+  variables: Array<{ name: string; label: string }>;
+  languages: Array<{ language: TemplateLanguage; default: string; override: string | null }>;
+}
+
+interface TemplateChange {
+  key: string;
+  language: TemplateLanguage;
+}
+
+// Anything between braces is a variable, same rule as the edge function
+const VARIABLE_PATTERN = /\{([^{}\s]*)\}/g;
+
+export const findUnknownVariables = (body: string, template: MessageTemplate) => {
+  const allowed = new Set(template.variables.map((variable) => variable.name));
+  return [...new Set([...body.matchAll(VARIABLE_PATTERN)].map((match) => match[1]))].filter(
+    (name) => !allowed.has(name)
+  );
+};
+
+// Non-2xx answers of message-templates carry the reason (and the unknown variables) in the body
+const invokeTemplates = async (method: "POST" | "DELETE", body: Record<string, unknown>) => {
+  const { data, error } = await supabase.functions.invoke("message-templates", { method, body });
+
+  if (error) {
+    const details = await error.context?.json?.().catch(() => null);
+    if (details?.unknown_variables?.length) {
+      throw new Error(
+        `variables inconnues ${details.unknown_variables.map((name: string) => `{${name}}`).join(", ")}`
+      );
+    }
+    throw new Error(details?.error ?? error.message);
+  }
+  if (!data?.success) throw new Error(data?.error ?? "Erreur inconnue");
+  return data;
+};
+
+export const useMessageTemplates = () => {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const { data: templates, isLoading } = useQuery({
+    queryKey: ["message_templates"],
+    queryFn: async () => {
+      // Defaults live in the edge functions, the page gets them with the overrides
+      const { data, error } = await supabase.functions.invoke("message-templates", { method: "GET" });
+
+      if (error) throw error;
+      if (!data?.success) throw new Error(data?.error ?? "Erreur inconnue");
+      return data.templates as MessageTemplate[];
+    },
+  });
+
+  const saveMutation = useMutation({
+    mutationFn: async ({ key, language, body }: TemplateChange & { body: string }) =>
+      invokeTemplates("POST", { template_key: key, language, body }),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["message_templates"] });
+      toast({
+        title: "Message enregistré",
+        description: "Ce texte sera utilisé pour les prochains envois.",
+      });
+    },
+    onError: (error) => {
+      toast({
+        variant: "destructive",
+        title: "Erreur",
+        description: `Impossible d'enregistrer le message: ${error.message}`,
+      });
+    },
+  });
+
+  const resetMutation = useMutation({
+    mutationFn: async ({ key, language }: TemplateChange) =>
+      invokeTemplates("DELETE", { template_key: key, language }),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["message_templates"] });
+      toast({
+        title: "Message par défaut rétabli",
+      });
+    },
+    onError: (error) => {
+      toast({
+        variant: "destructive",
+        title: "Erreur",
+        description: `Impossible de rétablir le message: ${error.message}`,
+      });
+    },
+  });
+
+  return {
+    templates: templates ?? [],
+    isLoading,
+    saveTemplate: saveMutation.mutate,
+    resetTemplate: resetMutation.mutate,
+    isSaving: saveMutation.isPending,
+    isResetting: resetMutation.isPending,
+  };
+};
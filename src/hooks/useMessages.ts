@@ -5,6 +5,17 @@ import type { Database } from "@/integrations/supabase/types";
 
 type Message = Database["public"]["Tables"]["messages"]["Row"];
 
+// Files go to this bucket under "<user_id>/", send-whatsapp-message signs the URL for Evolution
+const MEDIA_BUCKET = "message-media";
+
+export type MessageAttachment =
+  | { type: "file"; file: File }
+  | { type: "address" }
+  | { type: "contact"; full_name: string; phone: string };
+
+const mediaTypeOf = (mimetype: string) =>
+  mimetype.startsWith("image/") ? "image" : mimetype.startsWith("video/") ? "video" : "document";
+
 export function useMessages(
   conversationId: string | null,
   instanceId?: string | null,
@@ -128,5 +139,63 @@ export function useMessages(
     }
   };
 
-  return { messages, loading, sendMessage };
+  const sendAttachment = async (
+    conversationId: string,
+    attachment: MessageAttachment,
+    caption = ""
+  ) => {
+    try {
+      let body: Record<string, unknown>;
+
+      if (attachment.type === "file") {
+        const {
+          data: { user },
+        } = await supabase.auth.getUser();
+        if (!user) throw new Error("Not authenticated");
+
+        const { file } = attachment;
+        const safeName = file.name.replace(/[^\w.-]/g, "_");
+        const storagePath = `${user.id}/${conversationId}/${crypto.randomUUID()}-${safeName}`;
+
+        const { error: uploadError } = await supabase.storage
+          .from(MEDIA_BUCKET)
+          .upload(storagePath, file, { contentType: file.type });
+        if (uploadError) throw uploadError;
+
+        body = {
+          message: caption,
+          attachment: {
+            type: mediaTypeOf(file.type),
+            storage_path: storagePath,
+            mimetype: file.type || "application/octet-stream",
+            file_name: file.name,
+          },
+        };
+      } else if (attachment.type === "address") {
+        body = { share_address: true };
+      } else {
+        body = { attachment };
+      }
+
+      const { error } = await supabase.functions.invoke("send-whatsapp-message", {
+        body: { conversation_id: conversationId, ...body },
+      });
+
+      if (error) throw error;
+
+      toast({
+        title: "Message envoyé",
+        description: "Votre pièce jointe a été envoyée avec succès",
+      });
+    } catch (error) {
+      console.error("Error sending attachment:", error);
+      toast({
+        title: "Erreur",
+        description: "Impossible d'envoyer la pièce jointe",
+        variant: "destructive",
+      });
+    }
+  };
+
+  return { messages, loading, sendMessage, sendAttachment };
 }
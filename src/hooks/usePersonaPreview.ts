@@ -0,0 +1,59 @@
+import { useMutation } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import { useToast } from "@/hooks/use-toast";
+import type { AiPersona } from "@/hooks/useUserInformations";
+
+export type PreviewMode = "WORKFLOW" | "WAITING";
+
+export interface PreviewMessage {
+  direction: "incoming" | "outgoing";
+  content: string;
+}
+
+export interface PersonaPreviewResponse {
+  success: boolean;
+  reply: string;
+  system_prompt: string;
+  mode: PreviewMode;
+  language: string;
+  error?: string;
+}
+
+interface PersonaPreviewInput {
+  persona: AiPersona | null;
+  mode: PreviewMode;
+  messages: PreviewMessage[];
+}
+
+// The answer comes from ai-auto-reply with the unsaved persona: nothing is stored or sent
+export const usePersonaPreview = () => {
+  const { toast } = useToast();
+
+  const previewMutation = useMutation({
+    mutationFn: async (input: PersonaPreviewInput) => {
+      const { data, error } = await supabase.functions.invoke<PersonaPreviewResponse>("ai-auto-reply", {
+        body: { persona_preview: input },
+      });
+
+      if (error) {
+        // Non-2xx: the edge function puts the reason in the body
+        const body = await error.context?.json?.().catch(() => null);
+        throw new Error(body?.error ?? error.message);
+      }
+      if (!data?.success) throw new Error(data?.error ?? "Erreur inconnue");
+      return data;
+    },
+    onError: (error) => {
+      toast({
+        variant: "destructive",
+        title: "Erreur",
+        description: `Impossible de tester l'assistant: ${error.message}`,
+      });
+    },
+  });
+
+  return {
+    runPreview: previewMutation.mutateAsync,
+    isPreviewing: previewMutation.isPending,
+  };
+};
@@ -0,0 +1,120 @@
+import { useQuery } from "@tanstack/react-query";
+import { eachDayOfInterval, format, startOfMonth, startOfWeek, subDays } from "date-fns";
+import { fr } from "date-fns/locale";
+import { supabase } from "@/integrations/supabase/client";
+import type { Availability } from "@/hooks/useAvailabilities";
+
+// Aggregated by get_provider_statistics (appointments, conversations, ai_events)
+export interface ProviderStatistics {
+  revenue_by_day: { date: string; base: number; extras: number }[];
+  durations: { duration_minutes: number; count: number }[];
+  extras: { name: string; count: number }[];
+  bookings_by_hour: { day_of_week: number; hour: number; count: number }[];
+  status_counts: {
+    total: number;
+    pending: number;
+    confirmed: number;
+    completed: number;
+    cancelled: number;
+    no_show: number;
+  };
+  conversations: { total: number; booked: number };
+  ai_latency: { calls: number; avg_ms: number | null };
+}
+
+export type StatisticsPeriod = 30 | 90 | 365;
+
+export type RevenueGranularity = "day" | "week" | "month";
+
+export interface RevenuePoint {
+  label: string;
+  base: number;
+  extras: number;
+}
+
+export interface HourlyLoad {
+  hour: string;
+  bookings: number;
+  openDays: number; // Weekdays with an active availability at this hour
+}
+
+export const getPeriodRange = (period: StatisticsPeriod) => {
+  const to = new Date();
+  return { from: subDays(to, period - 1), to };
+};
+
+// Revenue per day, week (starting Monday) or month, empty days included
+export const groupRevenue = (
+  days: ProviderStatistics["revenue_by_day"],
+  granularity: RevenueGranularity,
+  period: StatisticsPeriod
+): RevenuePoint[] => {
+  const byDay = new Map(days.map((day) => [day.date, day]));
+  const points = new Map<string, RevenuePoint>();
+
+  const { from, to } = getPeriodRange(period);
+
+  for (const date of eachDayOfInterval({ start: from, end: to })) {
+    const bucket =
+      granularity === "day"
+        ? date
+        : granularity === "week"
+          ? startOfWeek(date, { weekStartsOn: 1 })
+          : startOfMonth(date);
+    const label = format(bucket, granularity === "month" ? "MMM yy" : "d MMM", { locale: fr });
+    const point = points.get(label) ?? { label, base: 0, extras: 0 };
+    const day = byDay.get(format(date, "yyyy-MM-dd"));
+
+    point.base += Number(day?.base) || 0;
+    point.extras += Number(day?.extras) || 0;
+    points.set(label, point);
+  }
+
+  return [...points.values()];
+};
+
+// Bookings per start hour, next to how many weekdays are open at that hour
+export const computeHourlyLoad = (
+  bookings: ProviderStatistics["bookings_by_hour"],
+  availabilities: Availability[]
+): HourlyLoad[] => {
+  const active = availabilities.filter((slot) => slot.is_active);
+  const load: HourlyLoad[] = [];
+
+  for (let hour = 0; hour < 24; hour++) {
+    const hourStart = `${String(hour).padStart(2, "0")}:00`;
+    const hourEnd = `${String(hour + 1).padStart(2, "0")}:00`;
+    const isOpen = (slot: Availability) => {
+      const start = slot.start_time.slice(0, 5);
+      const end = slot.end_time.slice(0, 5);
+      // A slot like 18:30-02:00 runs past midnight
+      return end > start ? start < hourEnd && end > hourStart : start < hourEnd || end > hourStart;
+    };
+    const openDays = new Set(active.filter(isOpen).map((slot) => slot.day_of_week)).size;
+    const count = bookings
+      .filter((booking) => booking.hour === hour)
+      .reduce((sum, booking) => sum + Number(booking.count), 0);
+
+    if (count > 0 || openDays > 0) {
+      load.push({ hour: `${hour}h`, bookings: count, openDays });
+    }
+  }
+
+  return load;
+};
+
+export const useStatistics = (period: StatisticsPeriod) =>
+  useQuery({
+    queryKey: ["statistics", period],
+    queryFn: async () => {
+      const { from, to } = getPeriodRange(period);
+
+      const { data, error } = await supabase.rpc("get_provider_statistics", {
+        p_from: format(from, "yyyy-MM-dd"),
+        p_to: format(to, "yyyy-MM-dd"),
+      });
+
+      if (error) throw error;
+      return data as unknown as ProviderStatistics;
+    },
+  });
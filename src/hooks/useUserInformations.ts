@@ -12,6 +12,7 @@ export interface Extra {
   id: string;
   name: string;
   price: number;
+  buffer_minutes?: number;
 }
 
 export interface Taboo {
@@ -23,6 +24,19 @@ export interface Tarif {
   id: string;
   duration: string;
   price: number;
+  buffer_minutes?: number;
+}
+
+export type EmojiPolicy = "none" | "few" | "free";
+
+// Personnalité de l'assistant, ajoutée par-dessus les règles fixes des prompts
+export interface AiPersona {
+  tone?: string;
+  greeting?: string;
+  intro?: string;
+  signature_phrases?: string[];
+  emoji_policy?: EmojiPolicy;
+  extra_rules?: string;
 }
 
 export interface UserInformations {
@@ -34,10 +48,24 @@ export interface UserInformations {
   tarifs: Tarif[];
   adresse: string;
   notification_phone?: string;
+  require_booking_approval?: boolean;
+  reminder_day_before?: boolean;
+  reminder_day_before_time?: string;
+  reminder_minutes_before?: number | null;
+  ai_reply_delay_seconds?: number;
+  ai_takeover_pause_minutes?: number;
+  blocked_contact_reply?: string;
+  no_show_deposit_threshold?: number;
+  no_show_deposit_type?: "deposit" | "prepayment";
+  no_show_deposit_amount?: number | null;
+  payment_links?: "off" | "no_show_policy" | "all";
+  buffer_before_minutes?: number;
+  buffer_after_minutes?: number;
   door_code?: string;
   floor?: string;
   elevator_info?: string;
   access_instructions?: string;
+  ai_persona?: AiPersona | null;
 }
 
 export const useUserInformations = () => {
@@ -69,10 +97,24 @@ export const useUserInformations = () => {
           tarifs: [],
           adresse: "",
           notification_phone: "",
+          require_booking_approval: false,
+          reminder_day_before: false,
+          reminder_day_before_time: "19:00",
+          reminder_minutes_before: null,
+          ai_reply_delay_seconds: 5,
+          ai_takeover_pause_minutes: 60,
+          blocked_contact_reply: "",
+          no_show_deposit_threshold: 0,
+          no_show_deposit_type: "deposit",
+          no_show_deposit_amount: null,
+          payment_links: "off",
+          buffer_before_minutes: 0,
+          buffer_after_minutes: 0,
           door_code: "",
           floor: "",
           elevator_info: "",
           access_instructions: "",
+          ai_persona: null,
         } as UserInformations;
       }
 
@@ -86,10 +128,26 @@ export const useUserInformations = () => {
         tarifs: (data.tarifs as unknown as Tarif[]) || [],
         adresse: data.adresse || "",
         notification_phone: data.notification_phone || "",
+        require_booking_approval: data.require_booking_approval ?? false,
+        reminder_day_before: data.reminder_day_before ?? false,
+        reminder_day_before_time: data.reminder_day_before_time?.substring(0, 5) || "19:00",
+        reminder_minutes_before: data.reminder_minutes_before ?? null,
+        ai_reply_delay_seconds: data.ai_reply_delay_seconds ?? 5,
+        ai_takeover_pause_minutes: data.ai_takeover_pause_minutes ?? 60,
+        blocked_contact_reply: data.blocked_contact_reply || "",
+        no_show_deposit_threshold: data.no_show_deposit_threshold ?? 0,
+        no_show_deposit_type: (data.no_show_deposit_type === "prepayment"
+          ? "prepayment"
+          : "deposit") as UserInformations["no_show_deposit_type"],
+        no_show_deposit_amount: data.no_show_deposit_amount ?? null,
+        payment_links: (data.payment_links || "off") as UserInformations["payment_links"],
+        buffer_before_minutes: data.buffer_before_minutes ?? 0,
+        buffer_after_minutes: data.buffer_after_minutes ?? 0,
         door_code: data.door_code || "",
         floor: data.floor || "",
         elevator_info: data.elevator_info || "",
         access_instructions: data.access_instructions || "",
+        ai_persona: (data.ai_persona as unknown as AiPersona | null) ?? null,
       };
     },
   });
@@ -110,10 +168,24 @@ export const useUserInformations = () => {
           tarifs: data.tarifs as unknown as Json,
           adresse: data.adresse || "",
           notification_phone: data.notification_phone || "",
+          require_booking_approval: data.require_booking_approval ?? false,
+          reminder_day_before: data.reminder_day_before ?? false,
+          reminder_day_before_time: data.reminder_day_before_time || "19:00",
+          reminder_minutes_before: data.reminder_minutes_before ?? null,
+          ai_reply_delay_seconds: data.ai_reply_delay_seconds ?? 5,
+          ai_takeover_pause_minutes: data.ai_takeover_pause_minutes ?? 60,
+          blocked_contact_reply: data.blocked_contact_reply?.trim() || null,
+          no_show_deposit_threshold: data.no_show_deposit_threshold ?? 0,
+          no_show_deposit_type: data.no_show_deposit_type ?? "deposit",
+          no_show_deposit_amount: data.no_show_deposit_amount || null,
+          payment_links: data.payment_links ?? "off",
+          buffer_before_minutes: data.buffer_before_minutes ?? 0,
+          buffer_after_minutes: data.buffer_after_minutes ?? 0,
           door_code: data.door_code || "",
           floor: data.floor || "",
           elevator_info: data.elevator_info || "",
           access_instructions: data.access_instructions || "",
+          ai_persona: (data.ai_persona ?? null) as unknown as Json,
         },
         {
           onConflict: "user_id",
@@ -49,9 +49,38 @@ export interface SuperadminUserRow {
   informations?: {
     notification_phone: string | null;
     adresse: string | null;
+    ai_provider: string | null;
+    ai_model: string | null;
   } | null;
 }
 
+export interface AiModelOption {
+  value: string;
+  label: string;
+  provider: string | null;
+  model: string | null;
+}
+
+// Models offered per user in the superadmin interface ("default" = function env config)
+export const AI_MODEL_OPTIONS: AiModelOption[] = [
+  { value: "default", label: "Par défaut", provider: null, model: null },
+  { value: "openai:gpt-4o-mini", label: "OpenAI · gpt-4o-mini", provider: "openai", model: "gpt-4o-mini" },
+  { value: "openai:gpt-4o", label: "OpenAI · gpt-4o", provider: "openai", model: "gpt-4o" },
+  {
+    value: "anthropic:claude-3-5-haiku-latest",
+    label: "Anthropic · Claude 3.5 Haiku",
+    provider: "anthropic",
+    model: "claude-3-5-haiku-latest",
+  },
+  {
+    value: "anthropic:claude-3-7-sonnet-latest",
+    label: "Anthropic · Claude 3.7 Sonnet",
+    provider: "anthropic",
+    model: "claude-3-7-sonnet-latest",
+  },
+  { value: "openai_compatible:", label: "Modèle auto-hébergé", provider: "openai_compatible", model: null },
+];
+
 export interface SuperadminInstanceRow {
   id: string;
   instance_name: string;
@@ -129,7 +158,7 @@ export const fetchSuperadminUsers = async (search?: string): Promise<SuperadminU
     .select(
       `id, email, full_name, role, is_active, created_at,
        evolution_instances (id, instance_status, phone_number, updated_at, last_qr_update),
-       user_informations (notification_phone, adresse)`
+       user_informations (notification_phone, adresse, ai_provider, ai_model)`
     )
     .order("created_at", { ascending: false });
 
@@ -167,6 +196,19 @@ export const toggleUserActive = async (userId: string, isActive: boolean) => {
   if (error) throw error;
 };
 
+export const updateUserAIModel = async (
+  userId: string,
+  provider: string | null,
+  model: string | null
+) => {
+  const { error } = await supabase
+    .from("user_informations")
+    .update({ ai_provider: provider, ai_model: model })
+    .eq("user_id", userId);
+
+  if (error) throw error;
+};
+
 export const resetUserInstance = async (userId: string) => {
   const { error } = await supabase
     .from("evolution_instances")
@@ -61,6 +61,7 @@ export type Database = {
           created_at: string | null
           error_details: Json | null
           id: string
+          message_id: string | null
           message_text: string
           notification_type: string
           sent_at: string | null
@@ -72,6 +73,7 @@ export type Database = {
           created_at?: string | null
           error_details?: Json | null
           id?: string
+          message_id?: string | null
           message_text: string
           notification_type: string
           sent_at?: string | null
@@ -83,6 +85,7 @@ export type Database = {
           created_at?: string | null
           error_details?: Json | null
           id?: string
+          message_id?: string | null
           message_text?: string
           notification_type?: string
           sent_at?: string | null
@@ -99,12 +102,66 @@ export type Database = {
           },
         ]
       }
+      appointment_reminders: {
+        Row: {
+          appointment_id: string
+          client_response: string | null
+          created_at: string | null
+          error_details: Json | null
+          id: string
+          message_text: string
+          reminder_type: string
+          responded_at: string | null
+          sent_at: string | null
+          status: string | null
+          user_id: string
+        }
+        Insert: {
+          appointment_id: string
+          client_response?: string | null
+          created_at?: string | null
+          error_details?: Json | null
+          id?: string
+          message_text: string
+          reminder_type: string
+          responded_at?: string | null
+          sent_at?: string | null
+          status?: string | null
+          user_id: string
+        }
+        Update: {
+          appointment_id?: string
+          client_response?: string | null
+          created_at?: string | null
+          error_details?: Json | null
+          id?: string
+          message_text?: string
+          reminder_type?: string
+          responded_at?: string | null
+          sent_at?: string | null
+          status?: string | null
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "appointment_reminders_appointment_id_fkey"
+            columns: ["appointment_id"]
+            isOneToOne: false
+            referencedRelation: "appointments"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       appointments: {
         Row: {
           appointment_date: string
           base_price: number | null
+          buffer_after_minutes: number
+          buffer_before_minutes: number
           client_arrival_detected_at: string | null
           client_arrived: boolean | null
+          closed_at: string | null
+          closed_by: string | null
           contact_name: string
           contact_phone: string
           conversation_id: string | null
@@ -114,6 +171,13 @@ export type Database = {
           extras_total: number | null
           id: string
           notes: string | null
+          paid_at: string | null
+          payment_amount: number | null
+          payment_kind: string | null
+          payment_provider: string | null
+          payment_reference: string | null
+          payment_status: string
+          payment_url: string | null
           provider_ready_to_receive: boolean | null
           selected_extras: Json | null
           service: string | null
@@ -126,8 +190,12 @@ export type Database = {
         Insert: {
           appointment_date: string
           base_price?: number | null
+          buffer_after_minutes?: number
+          buffer_before_minutes?: number
           client_arrival_detected_at?: string | null
           client_arrived?: boolean | null
+          closed_at?: string | null
+          closed_by?: string | null
           contact_name: string
           contact_phone: string
           conversation_id?: string | null
@@ -137,6 +205,13 @@ export type Database = {
           extras_total?: number | null
           id?: string
           notes?: string | null
+          paid_at?: string | null
+          payment_amount?: number | null
+          payment_kind?: string | null
+          payment_provider?: string | null
+          payment_reference?: string | null
+          payment_status?: string
+          payment_url?: string | null
           provider_ready_to_receive?: boolean | null
           selected_extras?: Json | null
           service?: string | null
@@ -149,8 +224,12 @@ export type Database = {
         Update: {
           appointment_date?: string
           base_price?: number | null
+          buffer_after_minutes?: number
+          buffer_before_minutes?: number
           client_arrival_detected_at?: string | null
           client_arrived?: boolean | null
+          closed_at?: string | null
+          closed_by?: string | null
           contact_name?: string
           contact_phone?: string
           conversation_id?: string | null
@@ -160,6 +239,13 @@ export type Database = {
           extras_total?: number | null
           id?: string
           notes?: string | null
+          paid_at?: string | null
+          payment_amount?: number | null
+          payment_kind?: string | null
+          payment_provider?: string | null
+          payment_reference?: string | null
+          payment_status?: string
+          payment_url?: string | null
           provider_ready_to_receive?: boolean | null
           selected_extras?: Json | null
           service?: string | null
@@ -204,15 +290,126 @@ export type Database = {
         }
         Relationships: []
       }
+      availability_exceptions: {
+        Row: {
+          created_at: string
+          end_date: string
+          end_time: string | null
+          exception_type: string
+          id: string
+          reason: string | null
+          start_date: string
+          start_time: string | null
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          end_date: string
+          end_time?: string | null
+          exception_type: string
+          id?: string
+          reason?: string | null
+          start_date: string
+          start_time?: string | null
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          end_date?: string
+          end_time?: string | null
+          exception_type?: string
+          id?: string
+          reason?: string | null
+          start_date?: string
+          start_time?: string | null
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
+      calendar_feeds: {
+        Row: {
+          created_at: string
+          rotated_at: string
+          token: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          rotated_at?: string
+          token: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          rotated_at?: string
+          token?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
+      contacts: {
+        Row: {
+          block_reply_sent_at: string | null
+          blocked: boolean
+          blocked_at: string | null
+          created_at: string
+          flag_reason: string | null
+          flagged_at: string | null
+          id: string
+          name: string | null
+          notes: string | null
+          phone: string
+          tags: string[]
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          block_reply_sent_at?: string | null
+          blocked?: boolean
+          blocked_at?: string | null
+          created_at?: string
+          flag_reason?: string | null
+          flagged_at?: string | null
+          id?: string
+          name?: string | null
+          notes?: string | null
+          phone: string
+          tags?: string[]
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          block_reply_sent_at?: string | null
+          blocked?: boolean
+          blocked_at?: string | null
+          created_at?: string
+          flag_reason?: string | null
+          flagged_at?: string | null
+          id?: string
+          name?: string | null
+          notes?: string | null
+          phone?: string
+          tags?: string[]
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
       conversations: {
         Row: {
           ai_enabled: boolean | null
+          ai_paused_until: string | null
+          ai_reply_token: string | null
           contact_name: string | null
           contact_phone: string
           created_at: string | null
           id: string
           instance_id: string
           is_pinned: boolean | null
+          language: string | null
           last_message_at: string | null
           last_message_text: string | null
           pinned_at: string | null
@@ -222,12 +419,15 @@ export type Database = {
         }
         Insert: {
           ai_enabled?: boolean | null
+          ai_paused_until?: string | null
+          ai_reply_token?: string | null
           contact_name?: string | null
           contact_phone: string
           created_at?: string | null
           id?: string
           instance_id: string
           is_pinned?: boolean | null
+          language?: string | null
           last_message_at?: string | null
           last_message_text?: string | null
           pinned_at?: string | null
@@ -237,12 +437,15 @@ export type Database = {
         }
         Update: {
           ai_enabled?: boolean | null
+          ai_paused_until?: string | null
+          ai_reply_token?: string | null
           contact_name?: string | null
           contact_phone?: string
           created_at?: string | null
           id?: string
           instance_id?: string
           is_pinned?: boolean | null
+          language?: string | null
           last_message_at?: string | null
           last_message_text?: string | null
           pinned_at?: string | null
@@ -349,41 +552,163 @@ export type Database = {
           },
         ]
       }
+      external_busy_times: {
+        Row: {
+          busy_date: string
+          calendar_id: string
+          end_time: string
+          id: string
+          start_time: string
+          user_id: string
+        }
+        Insert: {
+          busy_date: string
+          calendar_id: string
+          end_time: string
+          id?: string
+          start_time: string
+          user_id: string
+        }
+        Update: {
+          busy_date?: string
+          calendar_id?: string
+          end_time?: string
+          id?: string
+          start_time?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "external_busy_times_calendar_id_fkey"
+            columns: ["calendar_id"]
+            isOneToOne: false
+            referencedRelation: "external_calendars"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      external_calendars: {
+        Row: {
+          busy_count: number
+          created_at: string
+          ics_content: string | null
+          id: string
+          last_sync_attempt_at: string | null
+          last_sync_error: string | null
+          last_synced_at: string | null
+          name: string
+          source_type: string
+          updated_at: string
+          url: string | null
+          user_id: string
+        }
+        Insert: {
+          busy_count?: number
+          created_at?: string
+          ics_content?: string | null
+          id?: string
+          last_sync_attempt_at?: string | null
+          last_sync_error?: string | null
+          last_synced_at?: string | null
+          name: string
+          source_type: string
+          updated_at?: string
+          url?: string | null
+          user_id: string
+        }
+        Update: {
+          busy_count?: number
+          created_at?: string
+          ics_content?: string | null
+          id?: string
+          last_sync_attempt_at?: string | null
+          last_sync_error?: string | null
+          last_synced_at?: string | null
+          name?: string
+          source_type?: string
+          updated_at?: string
+          url?: string | null
+          user_id?: string
+        }
+        Relationships: []
+      }
+      message_templates: {
+        Row: {
+          body: string
+          created_at: string
+          id: string
+          language: string
+          template_key: string
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          body: string
+          created_at?: string
+          id?: string
+          language?: string
+          template_key: string
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          body?: string
+          created_at?: string
+          id?: string
+          language?: string
+          template_key?: string
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
       messages: {
         Row: {
+          contact: Json | null
           content: string
           conversation_id: string
           created_at: string | null
           direction: string
           id: string
           instance_id: string
+          location: Json | null
+          media_metadata: Json | null
           message_id: string | null
+          message_type: string
           receiver_phone: string
           sender_phone: string
           status: string | null
           timestamp: string | null
         }
         Insert: {
+          contact?: Json | null
           content: string
           conversation_id: string
           created_at?: string | null
           direction: string
           id?: string
           instance_id: string
+          location?: Json | null
+          media_metadata?: Json | null
           message_id?: string | null
+          message_type?: string
           receiver_phone: string
           sender_phone: string
           status?: string | null
           timestamp?: string | null
         }
         Update: {
+          contact?: Json | null
           content?: string
           conversation_id?: string
           created_at?: string | null
           direction?: string
           id?: string
           instance_id?: string
+          location?: Json | null
+          media_metadata?: Json | null
           message_id?: string | null
+          message_type?: string
           receiver_phone?: string
           sender_phone?: string
           status?: string | null
@@ -440,14 +765,32 @@ export type Database = {
         Row: {
           access_instructions: string | null
           adresse: string | null
+          adresse_latitude: number | null
+          adresse_longitude: number | null
+          ai_model: string | null
+          ai_persona: Json | null
+          ai_provider: string | null
+          ai_reply_delay_seconds: number
+          ai_takeover_pause_minutes: number
+          blocked_contact_reply: string | null
+          buffer_after_minutes: number
+          buffer_before_minutes: number
           created_at: string
           door_code: string | null
           elevator_info: string | null
           extras: Json | null
           floor: string | null
           id: string
+          no_show_deposit_amount: number | null
+          no_show_deposit_threshold: number
+          no_show_deposit_type: string
           notification_phone: string | null
+          payment_links: string
           prestations: Json | null
+          reminder_day_before: boolean
+          reminder_day_before_time: string
+          reminder_minutes_before: number | null
+          require_booking_approval: boolean
           taboos: Json | null
           tarifs: Json | null
           updated_at: string
@@ -456,14 +799,32 @@ export type Database = {
         Insert: {
           access_instructions?: string | null
           adresse?: string | null
+          adresse_latitude?: number | null
+          adresse_longitude?: number | null
+          ai_model?: string | null
+          ai_persona?: Json | null
+          ai_provider?: string | null
+          ai_reply_delay_seconds?: number
+          ai_takeover_pause_minutes?: number
+          blocked_contact_reply?: string | null
+          buffer_after_minutes?: number
+          buffer_before_minutes?: number
           created_at?: string
           door_code?: string | null
           elevator_info?: string | null
           extras?: Json | null
           floor?: string | null
           id?: string
+          no_show_deposit_amount?: number | null
+          no_show_deposit_threshold?: number
+          no_show_deposit_type?: string
           notification_phone?: string | null
+          payment_links?: string
           prestations?: Json | null
+          reminder_day_before?: boolean
+          reminder_day_before_time?: string
+          reminder_minutes_before?: number | null
+          require_booking_approval?: boolean
           taboos?: Json | null
           tarifs?: Json | null
           updated_at?: string
@@ -472,14 +833,32 @@ export type Database = {
         Update: {
           access_instructions?: string | null
           adresse?: string | null
+          adresse_latitude?: number | null
+          adresse_longitude?: number | null
+          ai_model?: string | null
+          ai_persona?: Json | null
+          ai_provider?: string | null
+          ai_reply_delay_seconds?: number
+          ai_takeover_pause_minutes?: number
+          blocked_contact_reply?: string | null
+          buffer_after_minutes?: number
+          buffer_before_minutes?: number
           created_at?: string
           door_code?: string | null
           elevator_info?: string | null
           extras?: Json | null
           floor?: string | null
           id?: string
+          no_show_deposit_amount?: number | null
+          no_show_deposit_threshold?: number
+          no_show_deposit_type?: string
           notification_phone?: string | null
+          payment_links?: string
           prestations?: Json | null
+          reminder_day_before?: boolean
+          reminder_day_before_time?: string
+          reminder_minutes_before?: number | null
+          require_booking_approval?: boolean
           taboos?: Json | null
           tarifs?: Json | null
           updated_at?: string
@@ -489,13 +868,46 @@ export type Database = {
       }
     }
     Views: {
-      [_ in never]: never
+      contact_summaries: {
+        Row: {
+          blocked: boolean | null
+          cancelled_count: number | null
+          created_at: string | null
+          flag_reason: string | null
+          flagged_at: string | null
+          id: string | null
+          last_visit_date: string | null
+          name: string | null
+          next_appointment_date: string | null
+          no_show_count: number | null
+          notes: string | null
+          phone: string | null
+          tags: string[] | null
+          total_spent: number | null
+          updated_at: string | null
+          user_id: string | null
+          visit_count: number | null
+        }
+        Relationships: []
+      }
     }
     Functions: {
+      close_past_appointments: {
+        Args: { grace_minutes: number }
+        Returns: Json
+      }
       complete_appointment_and_unpin: {
         Args: { p_appointment_id: string }
         Returns: Json
       }
+      flag_repeat_no_show_contacts: {
+        Args: { threshold: number }
+        Returns: number
+      }
+      get_provider_statistics: {
+        Args: { p_from: string; p_to: string }
+        Returns: Json
+      }
       get_todays_appointments_with_status: {
         Args: { p_user_id: string }
         Returns: {
@@ -511,6 +923,22 @@ export type Database = {
           start_time: string
         }[]
       }
+      mark_appointment_no_show: {
+        Args: { p_appointment_id: string }
+        Returns: Json
+      }
+      normalize_contact_phone: {
+        Args: { phone: string }
+        Returns: string
+      }
+      replace_external_busy_times: {
+        Args: { p_calendar_id: string; p_slots: Json }
+        Returns: number
+      }
+      rotate_calendar_feed_token: {
+        Args: never
+        Returns: string
+      }
     }
     Enums: {
       [_ in never]: never
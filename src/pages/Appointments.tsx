@@ -1,7 +1,7 @@
 import { useState } from "react";
 import { format, isToday } from "date-fns";
 import { fr } from "date-fns/locale";
-import { Calendar as CalendarIcon, Clock, User, Phone, Plus, Bell, CheckCircle2, Send } from "lucide-react";
+import { Calendar as CalendarIcon, Clock, User, Phone, Plus, Bell, CheckCircle2, Send, CreditCard, Download, CalendarSync, Copy, RefreshCw } from "lucide-react";
 import { supabase } from "@/integrations/supabase/client";
 import { useToast } from "@/hooks/use-toast";
 import { SidebarProvider, SidebarTrigger } from "@/components/ui/sidebar";
@@ -25,12 +25,14 @@ import { Calendar } from "@/components/ui/calendar";
 // Select components imported but not used - may be needed for future features
 // import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { useAppointments, type Appointment } from "@/hooks/useAppointments";
+import { useCalendarFeed } from "@/hooks/useCalendarFeed";
 
 const STATUS_COLORS = {
   pending: "bg-yellow-500/10 text-yellow-500 border-yellow-500/20",
   confirmed: "bg-green-500/10 text-green-500 border-green-500/20",
   cancelled: "bg-red-500/10 text-red-500 border-red-500/20",
   completed: "bg-blue-500/10 text-blue-500 border-blue-500/20",
+  no_show: "bg-orange-500/10 text-orange-600 border-orange-500/20",
 };
 
 const STATUS_LABELS = {
@@ -38,12 +40,28 @@ const STATUS_LABELS = {
   confirmed: "Confirmé",
   cancelled: "Annulé",
   completed: "Terminé",
+  no_show: "Pas venu",
+};
+
+// Payment link sent with the confirmation (payment-webhook updates the status)
+const PAYMENT_BADGES = {
+  unpaid: { label: "à payer", className: "bg-amber-500/10 text-amber-600 border-amber-500/20" },
+  paid: { label: "payé", className: "bg-green-500/10 text-green-600 border-green-500/20" },
+  failed: { label: "paiement refusé", className: "bg-red-500/10 text-red-500 border-red-500/20" },
 };
 
 const Appointments = () => {
   const { toast } = useToast();
-  const { appointments, isLoading, addAppointment, updateAppointment, deleteAppointment } =
-    useAppointments();
+  const {
+    appointments,
+    isLoading,
+    addAppointment,
+    updateAppointment,
+    deleteAppointment,
+    reviewAppointment,
+    isReviewing,
+  } = useAppointments();
+  const { feedUrl, webcalUrl, rotateToken, isRotating, exportIcs, isExporting } = useCalendarFeed();
   const [isDialogOpen, setIsDialogOpen] = useState(false);
   const [sendingAccessInfo, setSendingAccessInfo] = useState<string | null>(null);
   const [selectedDate, setSelectedDate] = useState<Date>();
@@ -56,6 +74,23 @@ const Appointments = () => {
     notes: "",
   });
 
+  const handleCopyFeedUrl = async () => {
+    if (!feedUrl) return;
+    try {
+      await navigator.clipboard.writeText(feedUrl);
+      toast({
+        title: "Lien copié",
+        description: "Collez-le dans votre agenda (ajouter un calendrier par URL).",
+      });
+    } catch {
+      toast({
+        title: "Erreur",
+        description: "Impossible de copier le lien",
+        variant: "destructive",
+      });
+    }
+  };
+
   const handleSendAccessInfo = async (appointmentId: string) => {
     setSendingAccessInfo(appointmentId);
     try {
@@ -161,6 +196,32 @@ const Appointments = () => {
     }
   };
 
+  const handleNoShowAppointment = async (appointmentId: string) => {
+    try {
+      const { data, error } = await supabase.rpc("mark_appointment_no_show", {
+        p_appointment_id: appointmentId,
+      });
+
+      if (error) throw error;
+
+      const result = data as { success?: boolean; error?: string } | null;
+      if (!result?.success) throw new Error(result?.error);
+
+      toast({
+        title: "Client pas venu",
+        description: "Le rendez-vous a été marqué comme lapin et compte dans la fiche du client.",
+      });
+      window.location.reload();
+    } catch (error: any) {
+      console.error("Error marking no-show:", error);
+      toast({
+        variant: "destructive",
+        title: "Erreur",
+        description: error.message || "Impossible de marquer le rendez-vous",
+      });
+    }
+  };
+
   const handleSubmit = () => {
     if (!selectedDate) return;
 
@@ -196,18 +257,18 @@ const Appointments = () => {
     setSelectedDate(undefined);
   };
 
-  // Active appointments: All appointments that are NOT completed (regardless of time)
+  // Active appointments: All appointments that are NOT closed (regardless of time)
   const upcomingAppointments = appointments
-    .filter((apt) => apt.status !== 'completed')
+    .filter((apt) => apt.status !== 'completed' && apt.status !== 'no_show')
     .sort((a, b) => {
       const dateA = new Date(`${a.appointment_date}T${a.start_time}`);
       const dateB = new Date(`${b.appointment_date}T${b.start_time}`);
       return dateA.getTime() - dateB.getTime();
     });
 
-  // History: Only appointments marked as completed
+  // History: appointments closed as completed or no-show
   const pastAppointments = appointments
-    .filter((apt) => apt.status === 'completed')
+    .filter((apt) => apt.status === 'completed' || apt.status === 'no_show')
     .sort((a, b) => {
       const dateA = new Date(`${a.appointment_date}T${a.start_time}`);
       const dateB = new Date(`${b.appointment_date}T${b.start_time}`);
@@ -219,10 +280,14 @@ const Appointments = () => {
     const isTodayAppointment = isToday(appointmentDate);
     const clientArrived = (appointment as any).client_arrived;
     const providerReady = (appointment as any).provider_ready_to_receive;
+    const awaitingApproval = appointment.status === "pending" && !!appointment.conversation_id;
 
     // Check if appointment time has passed but status is not completed
     const appointmentDateTime = new Date(`${appointment.appointment_date}T${appointment.start_time}`);
-    const isPastDue = appointmentDateTime < new Date() && appointment.status !== 'completed';
+    const isPastDue =
+      appointmentDateTime < new Date() &&
+      appointment.status !== 'completed' &&
+      appointment.status !== 'no_show';
 
     return (
       <Card className={isTodayAppointment && appointment.status === "confirmed" ? "border-blue-300" : ""}>
@@ -260,6 +325,13 @@ const Appointments = () => {
                   Infos envoyées
                 </Badge>
               )}
+              {appointment.payment_status && appointment.payment_status !== "not_required" && (
+                <Badge className={PAYMENT_BADGES[appointment.payment_status].className}>
+                  <CreditCard className="h-3 w-3 mr-1" />
+                  {appointment.payment_kind === "deposit" ? "Acompte" : "Paiement"} CHF {appointment.payment_amount}{" "}
+                  {PAYMENT_BADGES[appointment.payment_status].label}
+                </Badge>
+              )}
             </div>
           </div>
 
@@ -315,7 +387,29 @@ const Appointments = () => {
         </div>
 
           <div className="flex flex-wrap gap-2 mt-4">
-            {appointment.status === "pending" && (
+            {/* Réservation prise par l'IA en mode validation : le client est prévenu de la décision */}
+            {awaitingApproval && (
+              <>
+                <Button
+                  size="sm"
+                  className="bg-green-600 hover:bg-green-700 text-white"
+                  onClick={() => reviewAppointment({ id: appointment.id, decision: "approve" })}
+                  disabled={isReviewing}
+                >
+                  Accepter
+                </Button>
+                <Button
+                  size="sm"
+                  variant="outline"
+                  onClick={() => reviewAppointment({ id: appointment.id, decision: "decline" })}
+                  disabled={isReviewing}
+                >
+                  Refuser
+                </Button>
+              </>
+            )}
+
+            {appointment.status === "pending" && !awaitingApproval && (
               <Button
                 size="sm"
                 variant="outline"
@@ -341,7 +435,10 @@ const Appointments = () => {
                 </Button>
               )}
 
-            {appointment.status !== "cancelled" && appointment.status !== "completed" && (
+            {appointment.status !== "cancelled" &&
+              appointment.status !== "completed" &&
+              appointment.status !== "no_show" &&
+              !awaitingApproval && (
               <Button
                 size="sm"
                 variant="outline"
@@ -361,6 +458,28 @@ const Appointments = () => {
               </Button>
             )}
 
+            {/* Closed by check-late-clients: the provider can correct the outcome */}
+            {(isPastDue && appointment.status === "confirmed") ||
+            (appointment.status === "completed" && appointment.closed_by === "auto") ? (
+              <Button
+                size="sm"
+                variant="outline"
+                onClick={() => handleNoShowAppointment(appointment.id)}
+              >
+                Pas venu
+              </Button>
+            ) : null}
+
+            {appointment.status === "no_show" && (
+              <Button
+                size="sm"
+                variant="outline"
+                onClick={() => handleCompleteAppointment(appointment.id)}
+              >
+                Il est venu
+              </Button>
+            )}
+
             <Button
               size="sm"
               variant="ghost"
@@ -401,6 +520,54 @@ const Appointments = () => {
               <CalendarIcon className="h-5 w-5" />
               <h1 className="text-xl font-semibold">Rendez-vous</h1>
             </div>
+            <Button variant="outline" onClick={() => exportIcs()} disabled={isExporting}>
+              <Download className="h-4 w-4 mr-2" />
+              Exporter (.ics)
+            </Button>
+            <Dialog>
+              <DialogTrigger asChild>
+                <Button variant="outline">
+                  <CalendarSync className="h-4 w-4 mr-2" />
+                  Abonnement agenda
+                </Button>
+              </DialogTrigger>
+              <DialogContent>
+                <DialogHeader>
+                  <DialogTitle>Abonner votre agenda</DialogTitle>
+                  <DialogDescription>
+                    Vos rendez-vous apparaissent dans l'agenda de votre téléphone (Google, Apple, Outlook) et se mettent à jour automatiquement, annulations comprises.
+                  </DialogDescription>
+                </DialogHeader>
+                {feedUrl ? (
+                  <div className="space-y-3">
+                    <div className="flex gap-2">
+                      <Input value={feedUrl} readOnly className="font-mono text-xs" />
+                      <Button variant="outline" size="icon" onClick={handleCopyFeedUrl}>
+                        <Copy className="h-4 w-4" />
+                      </Button>
+                    </div>
+                    {webcalUrl && (
+                      <a href={webcalUrl} className="text-sm text-primary underline">
+                        Ouvrir dans l'agenda de cet appareil
+                      </a>
+                    )}
+                    <p className="text-xs text-muted-foreground">
+                      Toute personne ayant ce lien voit vos rendez-vous. En cas de doute, générez un nouveau lien : l'ancien cessera de fonctionner.
+                    </p>
+                  </div>
+                ) : (
+                  <p className="text-sm text-muted-foreground">
+                    Aucun lien d'abonnement pour le moment.
+                  </p>
+                )}
+                <DialogFooter>
+                  <Button variant="outline" onClick={() => rotateToken()} disabled={isRotating}>
+                    <RefreshCw className="h-4 w-4 mr-2" />
+                    {feedUrl ? "Générer un nouveau lien" : "Créer le lien"}
+                  </Button>
+                </DialogFooter>
+              </DialogContent>
+            </Dialog>
             <Dialog open={isDialogOpen} onOpenChange={setIsDialogOpen}>
               <DialogTrigger asChild>
                 <Button>
@@ -0,0 +1,202 @@
+import { useState } from "react";
+import { format, parseISO } from "date-fns";
+import { fr } from "date-fns/locale";
+import { Check, FlaskConical, RotateCcw, Send } from "lucide-react";
+import { SidebarProvider, SidebarTrigger } from "@/components/ui/sidebar";
+import { AppSidebar } from "@/components/AppSidebar";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { TurnTrace } from "@/components/sandbox/TurnTrace";
+import {
+  useAssistantSandbox,
+  type SandboxAppointment,
+  type SandboxMessage,
+  type SandboxTrace,
+} from "@/hooks/useAssistantSandbox";
+
+interface SandboxTurn extends SandboxMessage {
+  // Set on the assistant's answers
+  trace?: SandboxTrace;
+}
+
+const STATUS_LABELS: Record<SandboxAppointment["status"], string> = {
+  pending: "À valider",
+  confirmed: "Confirmé",
+  cancelled: "Annulé",
+};
+
+const AssistantSandbox = () => {
+  const { runTurn, isRunning } = useAssistantSandbox();
+  const [turns, setTurns] = useState<SandboxTurn[]>([]);
+  const [appointments, setAppointments] = useState<SandboxAppointment[]>([]);
+  const [language, setLanguage] = useState<string | null>(null);
+  const [draft, setDraft] = useState("");
+
+  const lastIsIncoming = turns[turns.length - 1]?.direction === "incoming";
+
+  const handleSend = async () => {
+    const content = draft.trim();
+    // Empty draft after a failed answer: retry the same conversation
+    if ((!content && !lastIsIncoming) || isRunning) return;
+
+    const conversation: SandboxTurn[] = content ? [...turns, { direction: "incoming", content }] : turns;
+    setTurns(conversation);
+    setDraft("");
+
+    try {
+      const result = await runTurn({
+        messages: conversation.map(({ direction, content }) => ({ direction, content })),
+        appointments,
+        language,
+      });
+      setTurns([...conversation, { direction: "outgoing", content: result.reply, trace: result.trace }]);
+      setAppointments(result.appointments);
+      setLanguage(result.language);
+    } catch {
+      // Toast shown by the hook, the client message stays so it can be retried
+    }
+  };
+
+  const handleReset = () => {
+    setTurns([]);
+    setAppointments([]);
+    setLanguage(null);
+  };
+
+  // Stands in for the provider accepting a booking from the Rendez-vous page
+  const handleApprove = (id: string) => {
+    setAppointments((current) =>
+      current.map((appointment) => (appointment.id === id ? { ...appointment, status: "confirmed" } : appointment))
+    );
+  };
+
+  return (
+    <SidebarProvider>
+      <div className="flex min-h-screen w-full">
+        <AppSidebar />
+        <main className="flex-1">
+          <header className="sticky top-0 z-10 flex h-16 items-center gap-4 border-b bg-background px-6">
+            <SidebarTrigger />
+            <div className="flex items-center gap-2">
+              <FlaskConical className="h-5 w-5" />
+              <h1 className="text-xl font-semibold">Tester mon assistant</h1>
+            </div>
+          </header>
+
+          <div className="p-6 max-w-6xl mx-auto grid gap-6 lg:grid-cols-3">
+            <Card className="lg:col-span-2">
+              <CardHeader>
+                <div className="flex items-start justify-between gap-4">
+                  <div className="space-y-1.5">
+                    <CardTitle>Conversation de test</CardTitle>
+                    <CardDescription>
+                      Écrivez comme un client : l'assistant répond avec vos vrais réglages, tarifs, disponibilités
+                      et messages automatiques. Aucun message n'est envoyé et les RDV de test n'apparaissent pas
+                      dans votre agenda.
+                    </CardDescription>
+                  </div>
+                  <Button variant="outline" size="sm" onClick={handleReset} disabled={isRunning}>
+                    <RotateCcw className="mr-2 h-4 w-4" />
+                    Recommencer
+                  </Button>
+                </div>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                <div className="min-h-64 space-y-3 rounded-md bg-muted/50 p-3">
+                  {turns.length === 0 && (
+                    <p className="text-center text-xs text-muted-foreground">
+                      Exemple : « Salut, t'es dispo demain vers 20h pour 1h ? »
+                    </p>
+                  )}
+                  {turns.map((turn, index) => (
+                    <div
+                      key={index}
+                      className={`flex flex-col ${turn.direction === "incoming" ? "items-start" : "items-end"}`}
+                    >
+                      <div
+                        className={`max-w-[80%] whitespace-pre-wrap rounded-lg px-3 py-2 text-sm ${
+                          turn.direction === "incoming" ? "bg-background" : "bg-primary text-primary-foreground"
+                        }`}
+                      >
+                        {turn.content}
+                      </div>
+                      {turn.trace && (
+                        <div className="w-full max-w-[80%]">
+                          <TurnTrace trace={turn.trace} />
+                        </div>
+                      )}
+                    </div>
+                  ))}
+                  {isRunning && <p className="text-right text-xs text-muted-foreground">L'assistant écrit...</p>}
+                </div>
+
+                <div className="flex gap-2">
+                  <Input
+                    value={draft}
+                    onChange={(e) => setDraft(e.target.value)}
+                    onKeyDown={(e) => {
+                      if (e.key === "Enter") {
+                        e.preventDefault();
+                        handleSend();
+                      }
+                    }}
+                    placeholder="Message du client"
+                    maxLength={1000}
+                    disabled={isRunning}
+                  />
+                  <Button onClick={handleSend} disabled={isRunning || (!draft.trim() && !lastIsIncoming)}>
+                    <Send className="mr-2 h-4 w-4" />
+                    Envoyer
+                  </Button>
+                </div>
+              </CardContent>
+            </Card>
+
+            <Card>
+              <CardHeader>
+                <CardTitle>RDV de test</CardTitle>
+                <CardDescription>
+                  Pris pendant ce test, ils occupent vos créneaux uniquement ici. Un RDV confirmé aujourd'hui fait
+                  passer l'assistant en mode attente.
+                </CardDescription>
+              </CardHeader>
+              <CardContent className="space-y-2">
+                {appointments.length === 0 ? (
+                  <p className="text-sm text-muted-foreground">Aucun RDV de test</p>
+                ) : (
+                  appointments.map((appointment) => (
+                    <div key={appointment.id} className="space-y-1 rounded-md border p-3 text-sm">
+                      <div className="flex items-center justify-between gap-2">
+                        <span className="font-medium">
+                          {format(parseISO(appointment.appointment_date), "EEE d MMM", { locale: fr })} à{" "}
+                          {appointment.start_time.substring(0, 5)}
+                        </span>
+                        <Badge variant={appointment.status === "cancelled" ? "outline" : "secondary"}>
+                          {STATUS_LABELS[appointment.status]}
+                        </Badge>
+                      </div>
+                      <p className="text-xs text-muted-foreground">
+                        {appointment.duration_minutes} min · {appointment.service} · CHF {appointment.total_price}
+                      </p>
+                      {appointment.client_arrived && <Badge variant="outline">Client arrivé</Badge>}
+                      {appointment.status === "pending" && (
+                        <Button variant="outline" size="sm" onClick={() => handleApprove(appointment.id)}>
+                          <Check className="mr-2 h-4 w-4" />
+                          Accepter
+                        </Button>
+                      )}
+                    </div>
+                  ))
+                )}
+              </CardContent>
+            </Card>
+          </div>
+        </main>
+      </div>
+    </SidebarProvider>
+  );
+};
+
+export default AssistantSandbox;
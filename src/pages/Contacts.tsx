@@ -0,0 +1,369 @@
+import { useEffect, useMemo, useState } from "react";
+import { format, parseISO } from "date-fns";
+import { fr } from "date-fns/locale";
+import { AlertTriangle, Ban, Phone, Search, Tag, Users, X } from "lucide-react";
+import { SidebarProvider, SidebarTrigger } from "@/components/ui/sidebar";
+import { AppSidebar } from "@/components/AppSidebar";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  FLAG_LABELS,
+  SUGGESTED_TAGS,
+  normalizePhone,
+  useContacts,
+  type Contact,
+} from "@/hooks/useContacts";
+import { useAppointments } from "@/hooks/useAppointments";
+
+const STATUS_LABELS: Record<string, string> = {
+  pending: "En attente",
+  confirmed: "Confirmé",
+  cancelled: "Annulé",
+  completed: "Terminé",
+  no_show: "Pas venu",
+};
+
+const formatDate = (date: string | null) =>
+  date ? format(parseISO(date), "d MMM yyyy", { locale: fr }) : "—";
+
+const formatPhone = (phone: string) => (phone ? `+${phone}` : "");
+
+function ContactDetails({
+  contact,
+  onSave,
+  isSaving,
+  onToggleBlock,
+  isBlocking,
+  onClearFlag,
+}: {
+  contact: Contact;
+  onSave: (updates: Pick<Contact, "name" | "notes" | "tags">) => void;
+  isSaving: boolean;
+  onToggleBlock: () => void;
+  isBlocking: boolean;
+  onClearFlag: () => void;
+}) {
+  const { appointments } = useAppointments();
+  const [name, setName] = useState(contact.name ?? "");
+  const [notes, setNotes] = useState(contact.notes ?? "");
+  const [tags, setTags] = useState<string[]>(contact.tags);
+  const [newTag, setNewTag] = useState("");
+
+  useEffect(() => {
+    setName(contact.name ?? "");
+    setNotes(contact.notes ?? "");
+    setTags(contact.tags);
+    setNewTag("");
+  }, [contact]);
+
+  const history = appointments
+    .filter((apt) => normalizePhone(apt.contact_phone) === contact.phone)
+    .sort((a, b) =>
+      `${b.appointment_date} ${b.start_time}`.localeCompare(`${a.appointment_date} ${a.start_time}`)
+    );
+
+  const toggleTag = (tag: string) =>
+    setTags((current) =>
+      current.includes(tag) ? current.filter((t) => t !== tag) : [...current, tag]
+    );
+
+  const addTag = () => {
+    const tag = newTag.trim();
+    if (tag && !tags.includes(tag)) {
+      setTags([...tags, tag]);
+    }
+    setNewTag("");
+  };
+
+  const hasChanges =
+    name !== (contact.name ?? "") ||
+    notes !== (contact.notes ?? "") ||
+    tags.join("|") !== contact.tags.join("|");
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>{contact.name || formatPhone(contact.phone)}</CardTitle>
+        <CardDescription className="flex items-center gap-1">
+          <Phone className="h-3 w-3" />
+          {formatPhone(contact.phone)}
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {contact.flag_reason && (
+          <div className="flex items-center justify-between gap-2 rounded-md border border-orange-300 bg-orange-50 p-3 text-sm text-orange-800">
+            <span className="flex items-center gap-2">
+              <AlertTriangle className="h-4 w-4" />
+              Signalé : {FLAG_LABELS[contact.flag_reason]}
+            </span>
+            <Button variant="ghost" size="sm" onClick={onClearFlag}>
+              Retirer
+            </Button>
+          </div>
+        )}
+
+        <div className="grid grid-cols-3 gap-4 text-center">
+          <div className="rounded-md border p-3">
+            <p className="text-2xl font-semibold">{contact.visit_count}</p>
+            <p className="text-xs text-muted-foreground">Visites</p>
+          </div>
+          <div className="rounded-md border p-3">
+            <p className="text-2xl font-semibold">CHF {Math.round(contact.total_spent)}</p>
+            <p className="text-xs text-muted-foreground">Total dépensé</p>
+          </div>
+          <div className="rounded-md border p-3">
+            <p className="text-sm font-semibold pt-2">{formatDate(contact.last_visit_date)}</p>
+            <p className="text-xs text-muted-foreground">Dernière visite</p>
+          </div>
+        </div>
+
+        {(contact.no_show_count > 0 || contact.cancelled_count > 0) && (
+          <p className="text-sm text-muted-foreground">
+            {contact.no_show_count} lapin{contact.no_show_count > 1 ? "s" : ""} ·{" "}
+            {contact.cancelled_count} annulation{contact.cancelled_count > 1 ? "s" : ""}
+          </p>
+        )}
+
+        <div className="space-y-2">
+          <Label htmlFor="contact-name">Nom</Label>
+          <Input id="contact-name" value={name} onChange={(e) => setName(e.target.value)} />
+        </div>
+
+        <div className="space-y-2">
+          <Label>Tags</Label>
+          <div className="flex flex-wrap gap-2">
+            {Array.from(new Set([...SUGGESTED_TAGS, ...tags])).map((tag) => (
+              <Badge
+                key={tag}
+                variant={tags.includes(tag) ? "default" : "outline"}
+                className="cursor-pointer"
+                onClick={() => toggleTag(tag)}
+              >
+                {tag}
+                {tags.includes(tag) && <X className="ml-1 h-3 w-3" />}
+              </Badge>
+            ))}
+          </div>
+          <div className="flex gap-2">
+            <Input
+              placeholder="Nouveau tag"
+              value={newTag}
+              onChange={(e) => setNewTag(e.target.value)}
+              onKeyDown={(e) => {
+                if (e.key === "Enter") {
+                  e.preventDefault();
+                  addTag();
+                }
+              }}
+            />
+            <Button type="button" variant="outline" onClick={addTag} disabled={!newTag.trim()}>
+              <Tag className="h-4 w-4 mr-2" />
+              Ajouter
+            </Button>
+          </div>
+        </div>
+
+        <div className="space-y-2">
+          <Label htmlFor="contact-notes">Notes</Label>
+          <Textarea
+            id="contact-notes"
+            placeholder="Préférences, remarques... (visibles par vous seul·e, l'assistant s'en sert sans les citer)"
+            value={notes}
+            onChange={(e) => setNotes(e.target.value)}
+            className="min-h-[100px]"
+          />
+        </div>
+
+        <Button
+          onClick={() => onSave({ name: name.trim() || null, notes: notes.trim() || null, tags })}
+          disabled={!hasChanges || isSaving}
+        >
+          {isSaving ? "Enregistrement..." : "Enregistrer"}
+        </Button>
+
+        <div className="flex items-center justify-between gap-4 rounded-md border p-3">
+          <div className="space-y-1">
+            <p className="text-sm font-medium">
+              {contact.blocked ? "Numéro bloqué" : "Bloquer ce numéro"}
+            </p>
+            <p className="text-xs text-muted-foreground">
+              L'assistant ignore ses messages et ne lui donne plus de rendez-vous.
+            </p>
+          </div>
+          <Button
+            variant={contact.blocked ? "outline" : "destructive"}
+            onClick={onToggleBlock}
+            disabled={isBlocking}
+          >
+            <Ban className="h-4 w-4 mr-2" />
+            {contact.blocked ? "Débloquer" : "Bloquer"}
+          </Button>
+        </div>
+
+        <div className="space-y-2">
+          <Label>Historique des rendez-vous</Label>
+          {history.length === 0 ? (
+            <p className="text-sm text-muted-foreground">Aucun rendez-vous</p>
+          ) : (
+            <div className="space-y-2">
+              {history.map((apt) => (
+                <div
+                  key={apt.id}
+                  className="flex items-center justify-between rounded-md border p-2 text-sm"
+                >
+                  <span>
+                    {formatDate(apt.appointment_date)} à {apt.start_time.substring(0, 5)} ·{" "}
+                    {apt.duration_minutes} min
+                    {apt.total_price ? ` · CHF ${apt.total_price}` : ""}
+                  </span>
+                  <Badge variant="outline">{STATUS_LABELS[apt.status] ?? apt.status}</Badge>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
+
+const Contacts = () => {
+  const { contacts, isLoading, updateContact, isUpdating, setBlocked, isBlocking } = useContacts();
+  const [search, setSearch] = useState("");
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+
+  const filteredContacts = useMemo(() => {
+    const query = search.trim().toLowerCase();
+    if (!query) return contacts;
+
+    return contacts.filter(
+      (contact) =>
+        contact.phone.includes(query.replace(/\D/g, "") || query) ||
+        contact.name?.toLowerCase().includes(query) ||
+        contact.tags.some((tag) => tag.toLowerCase().includes(query))
+    );
+  }, [contacts, search]);
+
+  const selectedContact = contacts.find((contact) => contact.id === selectedId) ?? null;
+
+  if (isLoading) {
+    return (
+      <SidebarProvider>
+        <div className="flex min-h-screen w-full">
+          <AppSidebar />
+          <main className="flex-1 p-6">
+            <div className="flex items-center justify-center h-full">
+              <p className="text-muted-foreground">Chargement...</p>
+            </div>
+          </main>
+        </div>
+      </SidebarProvider>
+    );
+  }
+
+  return (
+    <SidebarProvider>
+      <div className="flex min-h-screen w-full">
+        <AppSidebar />
+        <main className="flex-1">
+          <header className="sticky top-0 z-10 flex h-16 items-center gap-4 border-b bg-background px-6">
+            <SidebarTrigger />
+            <div className="flex items-center gap-2 flex-1">
+              <Users className="h-5 w-5" />
+              <h1 className="text-xl font-semibold">Clients</h1>
+            </div>
+          </header>
+
+          <div className="p-6 max-w-6xl mx-auto">
+            <div className="grid gap-6 md:grid-cols-2">
+              <Card>
+                <CardHeader>
+                  <CardTitle>Fiches clients</CardTitle>
+                  <CardDescription>{contacts.length} clients</CardDescription>
+                  <div className="relative pt-2">
+                    <Search className="absolute left-3 top-1/2 mt-1 h-4 w-4 -translate-y-1/2 text-muted-foreground" />
+                    <Input
+                      placeholder="Nom, numéro ou tag"
+                      value={search}
+                      onChange={(e) => setSearch(e.target.value)}
+                      className="pl-9"
+                    />
+                  </div>
+                </CardHeader>
+                <CardContent className="space-y-2">
+                  {filteredContacts.length === 0 ? (
+                    <p className="text-sm text-muted-foreground text-center py-8">Aucun client</p>
+                  ) : (
+                    filteredContacts.map((contact) => (
+                      <button
+                        key={contact.id}
+                        type="button"
+                        onClick={() => setSelectedId(contact.id)}
+                        className={`w-full rounded-md border p-3 text-left transition-colors hover:bg-muted ${
+                          contact.id === selectedId ? "border-primary bg-muted" : ""
+                        }`}
+                      >
+                        <div className="flex items-center justify-between gap-2">
+                          <span className="flex items-center gap-1 font-medium">
+                            {contact.blocked && <Ban className="h-3 w-3 text-destructive" />}
+                            {contact.flag_reason && (
+                              <AlertTriangle className="h-3 w-3 text-orange-500" />
+                            )}
+                            {contact.name || formatPhone(contact.phone)}
+                          </span>
+                          <span className="text-xs text-muted-foreground">
+                            {contact.visit_count} visite{contact.visit_count > 1 ? "s" : ""} · CHF{" "}
+                            {Math.round(contact.total_spent)}
+                          </span>
+                        </div>
+                        <div className="mt-1 flex flex-wrap items-center gap-1">
+                          {contact.tags.map((tag) => (
+                            <Badge key={tag} variant="secondary" className="text-xs">
+                              {tag}
+                            </Badge>
+                          ))}
+                          {contact.last_visit_date && (
+                            <span className="text-xs text-muted-foreground">
+                              Dernière visite : {formatDate(contact.last_visit_date)}
+                            </span>
+                          )}
+                        </div>
+                      </button>
+                    ))
+                  )}
+                </CardContent>
+              </Card>
+
+              <div>
+                {selectedContact ? (
+                  <ContactDetails
+                    contact={selectedContact}
+                    isSaving={isUpdating}
+                    onSave={(updates) => updateContact({ id: selectedContact.id, ...updates })}
+                    isBlocking={isBlocking}
+                    onToggleBlock={() =>
+                      setBlocked({ id: selectedContact.id, blocked: !selectedContact.blocked })
+                    }
+                    onClearFlag={() => updateContact({ id: selectedContact.id, flag_reason: null })}
+                  />
+                ) : (
+                  <Card>
+                    <CardContent className="py-12 text-center text-sm text-muted-foreground">
+                      Sélectionnez un client pour voir sa fiche
+                    </CardContent>
+                  </Card>
+                )}
+              </div>
+            </div>
+          </div>
+        </main>
+      </div>
+    </SidebarProvider>
+  );
+};
+
+export default Contacts;
@@ -5,16 +5,19 @@ import { useEffect, useState } from "react";
 import { useForm, useFieldArray } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
 import { z } from "zod";
-import { Plus, X, FileText, Lock, Bell, Send } from "lucide-react";
+import { Plus, X, FileText, Lock, Bell, Send, Sparkles } from "lucide-react";
 import { SidebarProvider, SidebarTrigger } from "@/components/ui/sidebar";
 import { AppSidebar } from "@/components/AppSidebar";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Textarea } from "@/components/ui/textarea";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
-import { Form, FormControl, FormField, FormItem, FormMessage } from "@/components/ui/form";
-import { useUserInformations, type UserInformations } from "@/hooks/useUserInformations";
+import { Switch } from "@/components/ui/switch";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Form, FormControl, FormDescription, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
+import { useUserInformations, type AiPersona, type UserInformations } from "@/hooks/useUserInformations";
 import { AvailabilityManager } from "@/components/availability/AvailabilityManager";
+import { PersonaPreview } from "@/components/persona/PersonaPreview";
 
 const informationsSchema = z.object({
   prestations: z
@@ -32,6 +35,7 @@ const informationsSchema = z.object({
         id: z.string(),
         name: z.string().min(1, "Le nom de l'extra ne peut pas être vide"),
         price: z.coerce.number().min(0, "Le prix doit être positif"),
+        buffer_minutes: z.coerce.number().min(0, "Le battement doit être positif").optional(),
       })
     )
     .max(10, "Maximum 10 extras"),
@@ -50,9 +54,14 @@ const informationsSchema = z.object({
       id: z.string(),
       duration: z.string().min(1, "La durée ne peut pas être vide"),
       price: z.coerce.number().min(0, "Le prix doit être positif"),
+      buffer_minutes: z.coerce.number().min(0, "Le battement doit être positif").optional(),
     })
   ),
 
+  // Time kept free around every appointment (tarifs and extras can add their own after it)
+  buffer_before_minutes: z.number().min(0).max(240).optional(),
+  buffer_after_minutes: z.number().min(0).max(240).optional(),
+
   adresse: z.string().optional(),
 
   // Notification phone number (international format)
@@ -64,15 +73,84 @@ const informationsSchema = z.object({
       "Format invalide. Utilisez le format international : +33612345678"
     ),
 
+  // Approval mode: AI bookings wait for the provider's approval
+  require_booking_approval: z.boolean().optional(),
+
+  // Client reminders before the appointment
+  reminder_day_before: z.boolean().optional(),
+  reminder_day_before_time: z.string().optional(),
+  reminder_minutes_before: z.number().nullable().optional(),
+
+  // Quiet period before the assistant answers (messages sent in a row get one reply)
+  ai_reply_delay_seconds: z.number().min(0).max(30).optional(),
+
+  // AI pause when the provider answers a client themself (0 = never)
+  ai_takeover_pause_minutes: z.number().min(0).max(1440).optional(),
+
+  // Sent once to a blocked number that writes (empty = ignored silently)
+  blocked_contact_reply: z.string().max(500).optional(),
+
+  // Deposit asked by the AI from clients with repeated no-shows (0 = never)
+  no_show_deposit_threshold: z.number().min(0).max(10).optional(),
+  no_show_deposit_type: z.enum(["deposit", "prepayment"]).optional(),
+  no_show_deposit_amount: z.number().positive("Le montant doit être positif").nullable().optional(),
+
+  // Payment link sent with the booking confirmation
+  payment_links: z.enum(["off", "no_show_policy", "all"]).optional(),
+
   // Access information fields
   door_code: z.string().optional(),
   floor: z.string().optional(),
   elevator_info: z.string().optional(),
   access_instructions: z.string().optional(),
+
+  // Assistant persona, composed on top of the fixed booking rules (empty = default persona)
+  persona_tone: z.string().max(200, "Maximum 200 caractères").optional(),
+  persona_greeting: z.string().max(200, "Maximum 200 caractères").optional(),
+  persona_intro: z.string().max(200, "Maximum 200 caractères").optional(),
+  persona_signature_phrases: z
+    .string()
+    .optional()
+    .refine(
+      (val) => !val || val.split("\n").filter((line) => line.trim()).length <= 10,
+      "Maximum 10 expressions"
+    ),
+  persona_emoji_policy: z.enum(["default", "none", "few", "free"]).optional(),
+  persona_extra_rules: z.string().max(1000, "Maximum 1000 caractères").optional(),
 });
 
 type FormValues = z.infer<typeof informationsSchema>;
 
+// The form edits the persona as flat fields, one expression per line
+const personaToFormValues = (persona: AiPersona | null | undefined): Partial<FormValues> => ({
+  persona_tone: persona?.tone ?? "",
+  persona_greeting: persona?.greeting ?? "",
+  persona_intro: persona?.intro ?? "",
+  persona_signature_phrases: (persona?.signature_phrases ?? []).join("\n"),
+  persona_emoji_policy: persona?.emoji_policy ?? "default",
+  persona_extra_rules: persona?.extra_rules ?? "",
+});
+
+const formValuesToPersona = (values: Partial<FormValues>): AiPersona | null => {
+  const signaturePhrases = (values.persona_signature_phrases ?? "")
+    .split("\n")
+    .map((line) => line.trim())
+    .filter(Boolean);
+
+  const persona: AiPersona = {
+    ...(values.persona_tone?.trim() ? { tone: values.persona_tone.trim() } : {}),
+    ...(values.persona_greeting?.trim() ? { greeting: values.persona_greeting.trim() } : {}),
+    ...(values.persona_intro?.trim() ? { intro: values.persona_intro.trim() } : {}),
+    ...(signaturePhrases.length > 0 ? { signature_phrases: signaturePhrases } : {}),
+    ...(values.persona_emoji_policy && values.persona_emoji_policy !== "default"
+      ? { emoji_policy: values.persona_emoji_policy }
+      : {}),
+    ...(values.persona_extra_rules?.trim() ? { extra_rules: values.persona_extra_rules.trim() } : {}),
+  };
+
+  return Object.keys(persona).length > 0 ? persona : null;
+};
+
 const Informations = () => {
   const { informations, isLoading, saveInformations, isSaving } = useUserInformations();
   const [currentStep, setCurrentStep] = useState(0);
@@ -84,12 +162,26 @@ const Informations = () => {
       extras: [],
       taboos: [],
       tarifs: [],
+      buffer_before_minutes: 0,
+      buffer_after_minutes: 0,
       adresse: "",
       notification_phone: "",
+      require_booking_approval: false,
+      reminder_day_before: false,
+      reminder_day_before_time: "19:00",
+      reminder_minutes_before: null,
+      ai_reply_delay_seconds: 5,
+      ai_takeover_pause_minutes: 60,
+      blocked_contact_reply: "",
+      no_show_deposit_threshold: 0,
+      no_show_deposit_type: "deposit",
+      no_show_deposit_amount: null,
+      payment_links: "off",
       door_code: "",
       floor: "",
       elevator_info: "",
       access_instructions: "",
+      ...personaToFormValues(null),
     },
   });
 
@@ -115,37 +207,82 @@ const Informations = () => {
 
   useEffect(() => {
     if (informations) {
-      form.reset(informations);
+      form.reset({ ...informations, ...personaToFormValues(informations.ai_persona) });
     }
   }, [informations, form]);
 
   // Field groups for each step. We trigger validation only on the currently visible fields.
   const stepFieldGroups: (keyof FormValues)[][] = [
     ["prestations", "taboos"],
-    ["extras", "tarifs"],
+    ["extras", "tarifs", "buffer_before_minutes", "buffer_after_minutes"],
     ["adresse", "door_code", "floor", "elevator_info", "access_instructions"],
     [],
-    ["notification_phone"],
+    [
+      "notification_phone",
+      "require_booking_approval",
+      "reminder_day_before",
+      "reminder_day_before_time",
+      "reminder_minutes_before",
+      "ai_reply_delay_seconds",
+      "ai_takeover_pause_minutes",
+      "blocked_contact_reply",
+      "no_show_deposit_threshold",
+      "no_show_deposit_type",
+      "no_show_deposit_amount",
+      "payment_links",
+    ],
+    [
+      "persona_tone",
+      "persona_greeting",
+      "persona_intro",
+      "persona_signature_phrases",
+      "persona_emoji_policy",
+      "persona_extra_rules",
+    ],
   ];
 
   const onSubmit = (data: FormValues) => {
     // Ensure all required fields are present
     const formattedData: UserInformations = {
       prestations: data.prestations.map((p) => ({ id: p.id, name: p.name })),
-      extras: data.extras.map((e) => ({ id: e.id, name: e.name, price: e.price })),
+      extras: data.extras.map((e) => ({
+        id: e.id,
+        name: e.name,
+        price: e.price,
+        ...(e.buffer_minutes ? { buffer_minutes: e.buffer_minutes } : {}),
+      })),
       taboos: data.taboos.map((t) => ({ id: t.id, name: t.name })),
-      tarifs: data.tarifs.map((t) => ({ id: t.id, duration: t.duration, price: t.price })),
+      tarifs: data.tarifs.map((t) => ({
+        id: t.id,
+        duration: t.duration,
+        price: t.price,
+        ...(t.buffer_minutes ? { buffer_minutes: t.buffer_minutes } : {}),
+      })),
+      buffer_before_minutes: data.buffer_before_minutes ?? 0,
+      buffer_after_minutes: data.buffer_after_minutes ?? 0,
       adresse: data.adresse || "",
       notification_phone: data.notification_phone || "",
+      require_booking_approval: data.require_booking_approval ?? false,
+      reminder_day_before: data.reminder_day_before ?? false,
+      reminder_day_before_time: data.reminder_day_before_time || "19:00",
+      reminder_minutes_before: data.reminder_minutes_before ?? null,
+      ai_reply_delay_seconds: data.ai_reply_delay_seconds ?? 5,
+      ai_takeover_pause_minutes: data.ai_takeover_pause_minutes ?? 60,
+      blocked_contact_reply: data.blocked_contact_reply || "",
+      no_show_deposit_threshold: data.no_show_deposit_threshold ?? 0,
+      no_show_deposit_type: data.no_show_deposit_type ?? "deposit",
+      no_show_deposit_amount: data.no_show_deposit_amount ?? null,
+      payment_links: data.payment_links ?? "off",
       door_code: data.door_code || "",
       floor: data.floor || "",
       elevator_info: data.elevator_info || "",
       access_instructions: data.access_instructions || "",
+      ai_persona: formValuesToPersona(data),
     };
     saveInformations(formattedData);
   };
 
-  const totalSteps = 5;
+  const totalSteps = 6;
   const progressPercentage = ((currentStep + 1) / totalSteps) * 100;
 
   // Step specific validation before allowing navigation.
@@ -223,6 +360,7 @@ const Informations = () => {
                           "Adresse et informations d'accès",
                           "Disponibilités",
                           "Notifications WhatsApp",
+                          "Personnalité de l'assistant",
                         ][currentStep]}
                       </h2>
                     </div>
@@ -236,7 +374,7 @@ const Informations = () => {
                 </div>
 
                 <div className="transition-all duration-300">
-                  {[0, 1, 2, 3, 4].map((index) => (
+                  {[0, 1, 2, 3, 4, 5].map((index) => (
                     <div
                       key={index}
                       className={`transition-opacity duration-300 ${index === currentStep ? 'block' : 'hidden'}`}
@@ -378,6 +516,25 @@ const Informations = () => {
                                             </FormItem>
                                           )}
                                         />
+                                        <FormField
+                                          control={form.control}
+                                          name={`extras.${index}.buffer_minutes`}
+                                          render={({ field }) => (
+                                            <FormItem className="w-28">
+                                              <FormControl>
+                                                <Input
+                                                  type="number"
+                                                  min={0}
+                                                  placeholder="+ min"
+                                                  title="Battement en plus après le RDV (minutes)"
+                                                  {...field}
+                                                  value={field.value ?? ""}
+                                                />
+                                              </FormControl>
+                                              <FormMessage />
+                                            </FormItem>
+                                          )}
+                                        />
                                         <Button
                                           type="button"
                                           variant="ghost"
@@ -440,6 +597,25 @@ const Informations = () => {
                                             </FormItem>
                                           )}
                                         />
+                                        <FormField
+                                          control={form.control}
+                                          name={`tarifs.${index}.buffer_minutes`}
+                                          render={({ field }) => (
+                                            <FormItem className="w-28">
+                                              <FormControl>
+                                                <Input
+                                                  type="number"
+                                                  min={0}
+                                                  placeholder="+ min"
+                                                  title="Battement en plus après le RDV (minutes)"
+                                                  {...field}
+                                                  value={field.value ?? ""}
+                                                />
+                                              </FormControl>
+                                              <FormMessage />
+                                            </FormItem>
+                                          )}
+                                        />
                                         <Button
                                           type="button"
                                           variant="ghost"
@@ -464,6 +640,51 @@ const Informations = () => {
                                   </Button>
                                 </CardContent>
                               </Card>
+
+                              {/* Buffers */}
+                              <Card>
+                                <CardHeader>
+                                  <CardTitle>Battements entre RDV</CardTitle>
+                                  <CardDescription>
+                                    Temps gardé libre avant (trajet, préparation) et après (ménage, remise en place)
+                                    chaque rendez-vous. Un tarif ou un extra peut ajouter ses propres minutes après
+                                    le RDV (champ « + min » ci-dessus).
+                                  </CardDescription>
+                                </CardHeader>
+                                <CardContent className="flex flex-wrap gap-6">
+                                  {(
+                                    [
+                                      ["buffer_before_minutes", "Avant le RDV"],
+                                      ["buffer_after_minutes", "Après le RDV"],
+                                    ] as const
+                                  ).map(([name, label]) => (
+                                    <FormField
+                                      key={name}
+                                      control={form.control}
+                                      name={name}
+                                      render={({ field }) => (
+                                        <FormItem className="space-y-1">
+                                          <p className="text-sm font-medium">{label}</p>
+                                          <div className="flex items-center gap-2">
+                                            <FormControl>
+                                              <Input
+                                                type="number"
+                                                min={0}
+                                                max={240}
+                                                className="w-24"
+                                                value={field.value ?? 0}
+                                                onChange={(e) => field.onChange(Number(e.target.value) || 0)}
+                                              />
+                                            </FormControl>
+                                            <span className="text-sm text-muted-foreground">min</span>
+                                          </div>
+                                          <FormMessage />
+                                        </FormItem>
+                                      )}
+                                    />
+                                  ))}
+                                </CardContent>
+                              </Card>
                             </>
                           )}
 
@@ -677,6 +898,429 @@ const Informations = () => {
                                     Si ce champ est vide, vous ne recevrez pas de notifications WhatsApp.
                                   </p>
                                 </div>
+
+                                <FormField
+                                  control={form.control}
+                                  name="require_booking_approval"
+                                  render={({ field }) => (
+                                    <FormItem className="flex items-start justify-between gap-4 rounded-md border border-blue-200 bg-white p-3">
+                                      <div className="space-y-1">
+                                        <p className="text-sm font-medium text-blue-900">
+                                          Valider chaque réservation
+                                        </p>
+                                        <p className="text-xs text-blue-700">
+                                          Les rendez-vous pris par l'assistant restent en attente jusqu'à votre accord.
+                                          Répondez OK ou NON à la notification WhatsApp, ou utilisez la page Rendez-vous.
+                                          Le client est prévenu automatiquement.
+                                        </p>
+                                      </div>
+                                      <FormControl>
+                                        <Switch checked={field.value ?? false} onCheckedChange={field.onChange} />
+                                      </FormControl>
+                                    </FormItem>
+                                  )}
+                                />
+
+                                <div className="space-y-3 rounded-md border border-blue-200 bg-white p-3">
+                                  <div className="space-y-1">
+                                    <p className="text-sm font-medium text-blue-900">Rappels aux clients</p>
+                                    <p className="text-xs text-blue-700">
+                                      Un message WhatsApp rappelle le rendez-vous au client et lui demande si c'est toujours bon.
+                                      S'il veut annuler ou décaler, l'assistant s'en occupe.
+                                    </p>
+                                  </div>
+
+                                  <div className="flex items-center justify-between gap-4">
+                                    <FormField
+                                      control={form.control}
+                                      name="reminder_day_before"
+                                      render={({ field }) => (
+                                        <FormItem className="flex items-center gap-2 space-y-0">
+                                          <FormControl>
+                                            <Switch checked={field.value ?? false} onCheckedChange={field.onChange} />
+                                          </FormControl>
+                                          <span className="text-sm text-blue-900">La veille à</span>
+                                        </FormItem>
+                                      )}
+                                    />
+                                    <FormField
+                                      control={form.control}
+                                      name="reminder_day_before_time"
+                                      render={({ field }) => (
+                                        <FormItem className="space-y-0">
+                                          <FormControl>
+                                            <Input
+                                              type="time"
+                                              {...field}
+                                              disabled={!form.watch("reminder_day_before")}
+                                              className="w-28"
+                                            />
+                                          </FormControl>
+                                        </FormItem>
+                                      )}
+                                    />
+                                  </div>
+
+                                  <FormField
+                                    control={form.control}
+                                    name="reminder_minutes_before"
+                                    render={({ field }) => (
+                                      <FormItem className="flex items-center justify-between gap-4 space-y-0">
+                                        <span className="text-sm text-blue-900">Avant le rendez-vous</span>
+                                        <Select
+                                          value={field.value ? String(field.value) : "none"}
+                                          onValueChange={(value) => field.onChange(value === "none" ? null : Number(value))}
+                                        >
+                                          <FormControl>
+                                            <SelectTrigger className="w-40">
+                                              <SelectValue />
+                                            </SelectTrigger>
+                                          </FormControl>
+                                          <SelectContent>
+                                            <SelectItem value="none">Pas de rappel</SelectItem>
+                                            <SelectItem value="30">30 min avant</SelectItem>
+                                            <SelectItem value="60">1h avant</SelectItem>
+                                            <SelectItem value="120">2h avant</SelectItem>
+                                            <SelectItem value="180">3h avant</SelectItem>
+                                          </SelectContent>
+                                        </Select>
+                                      </FormItem>
+                                    )}
+                                  />
+                                </div>
+
+                                <FormField
+                                  control={form.control}
+                                  name="ai_reply_delay_seconds"
+                                  render={({ field }) => (
+                                    <FormItem className="flex items-start justify-between gap-4 space-y-0 rounded-md border border-blue-200 bg-white p-3">
+                                      <div className="space-y-1">
+                                        <p className="text-sm font-medium text-blue-900">Délai avant réponse</p>
+                                        <p className="text-xs text-blue-700">
+                                          L'assistant attend que le client ait fini d'écrire et répond à tous ses messages d'un coup.
+                                        </p>
+                                      </div>
+                                      <Select
+                                        value={String(field.value ?? 5)}
+                                        onValueChange={(value) => field.onChange(Number(value))}
+                                      >
+                                        <FormControl>
+                                          <SelectTrigger className="w-40">
+                                            <SelectValue />
+                                          </SelectTrigger>
+                                        </FormControl>
+                                        <SelectContent>
+                                          <SelectItem value="0">Immédiat</SelectItem>
+                                          <SelectItem value="3">3 secondes</SelectItem>
+                                          <SelectItem value="5">5 secondes</SelectItem>
+                                          <SelectItem value="10">10 secondes</SelectItem>
+                                          <SelectItem value="20">20 secondes</SelectItem>
+                                          <SelectItem value="30">30 secondes</SelectItem>
+                                        </SelectContent>
+                                      </Select>
+                                    </FormItem>
+                                  )}
+                                />
+
+                                <FormField
+                                  control={form.control}
+                                  name="ai_takeover_pause_minutes"
+                                  render={({ field }) => (
+                                    <FormItem className="flex items-start justify-between gap-4 space-y-0 rounded-md border border-blue-200 bg-white p-3">
+                                      <div className="space-y-1">
+                                        <p className="text-sm font-medium text-blue-900">Quand vous répondez vous-même</p>
+                                        <p className="text-xs text-blue-700">
+                                          Si vous écrivez à un client (depuis votre téléphone ou la messagerie), l'assistant se met en pause
+                                          sur cette conversation. Vous pouvez le relancer à tout moment depuis la messagerie.
+                                        </p>
+                                      </div>
+                                      <Select
+                                        value={String(field.value ?? 60)}
+                                        onValueChange={(value) => field.onChange(Number(value))}
+                                      >
+                                        <FormControl>
+                                          <SelectTrigger className="w-40">
+                                            <SelectValue />
+                                          </SelectTrigger>
+                                        </FormControl>
+                                        <SelectContent>
+                                          <SelectItem value="0">Pas de pause</SelectItem>
+                                          <SelectItem value="15">Pause 15 min</SelectItem>
+                                          <SelectItem value="30">Pause 30 min</SelectItem>
+                                          <SelectItem value="60">Pause 1h</SelectItem>
+                                          <SelectItem value="180">Pause 3h</SelectItem>
+                                          <SelectItem value="720">Pause 12h</SelectItem>
+                                          <SelectItem value="1440">Pause 24h</SelectItem>
+                                        </SelectContent>
+                                      </Select>
+                                    </FormItem>
+                                  )}
+                                />
+
+                                <FormField
+                                  control={form.control}
+                                  name="blocked_contact_reply"
+                                  render={({ field }) => (
+                                    <FormItem className="space-y-2 rounded-md border border-blue-200 bg-white p-3">
+                                      <div className="space-y-1">
+                                        <p className="text-sm font-medium text-blue-900">Numéros bloqués</p>
+                                        <p className="text-xs text-blue-700">
+                                          L'assistant ne répond jamais aux numéros que vous bloquez (page Clients). Vous pouvez leur
+                                          envoyer une fois ce message de refus, ou laisser vide pour les ignorer sans réponse.
+                                        </p>
+                                      </div>
+                                      <FormControl>
+                                        <Textarea
+                                          placeholder="Ex : Désolée, je ne prends plus de rendez-vous avec toi."
+                                          className="min-h-[60px]"
+                                          {...field}
+                                        />
+                                      </FormControl>
+                                      <FormMessage />
+                                    </FormItem>
+                                  )}
+                                />
+
+                                <div className="space-y-3 rounded-md border border-blue-200 bg-white p-3">
+                                  <div className="space-y-1">
+                                    <p className="text-sm font-medium text-blue-900">Clients qui ne viennent pas</p>
+                                    <p className="text-xs text-blue-700">
+                                      Les rendez-vous passés sont clôturés automatiquement et les lapins comptés dans la fiche client.
+                                      À partir du nombre choisi, l'assistant demande de payer avant de réserver.
+                                    </p>
+                                  </div>
+                                  <FormField
+                                    control={form.control}
+                                    name="no_show_deposit_threshold"
+                                    render={({ field }) => (
+                                      <FormItem className="flex items-center justify-between gap-4 space-y-0">
+                                        <p className="text-sm text-blue-900">Exiger un paiement à partir de</p>
+                                        <Select
+                                          value={String(field.value ?? 0)}
+                                          onValueChange={(value) => field.onChange(Number(value))}
+                                        >
+                                          <FormControl>
+                                            <SelectTrigger className="w-40">
+                                              <SelectValue />
+                                            </SelectTrigger>
+                                          </FormControl>
+                                          <SelectContent>
+                                            <SelectItem value="0">Jamais</SelectItem>
+                                            <SelectItem value="1">1 lapin</SelectItem>
+                                            <SelectItem value="2">2 lapins</SelectItem>
+                                            <SelectItem value="3">3 lapins</SelectItem>
+                                            <SelectItem value="5">5 lapins</SelectItem>
+                                          </SelectContent>
+                                        </Select>
+                                      </FormItem>
+                                    )}
+                                  />
+                                  {(form.watch("no_show_deposit_threshold") ?? 0) > 0 && (
+                                    <div className="flex flex-wrap items-start gap-3">
+                                      <FormField
+                                        control={form.control}
+                                        name="no_show_deposit_type"
+                                        render={({ field }) => (
+                                          <FormItem className="space-y-0">
+                                            <Select value={field.value ?? "deposit"} onValueChange={field.onChange}>
+                                              <FormControl>
+                                                <SelectTrigger className="w-48">
+                                                  <SelectValue />
+                                                </SelectTrigger>
+                                              </FormControl>
+                                              <SelectContent>
+                                                <SelectItem value="deposit">Acompte</SelectItem>
+                                                <SelectItem value="prepayment">Paiement complet</SelectItem>
+                                              </SelectContent>
+                                            </Select>
+                                          </FormItem>
+                                        )}
+                                      />
+                                      {form.watch("no_show_deposit_type") !== "prepayment" && (
+                                        <FormField
+                                          control={form.control}
+                                          name="no_show_deposit_amount"
+                                          render={({ field }) => (
+                                            <FormItem className="space-y-1">
+                                              <FormControl>
+                                                <Input
+                                                  type="number"
+                                                  min={1}
+                                                  placeholder="Montant CHF"
+                                                  className="w-36"
+                                                  value={field.value ?? ""}
+                                                  onChange={(e) =>
+                                                    field.onChange(e.target.value === "" ? null : Number(e.target.value))
+                                                  }
+                                                />
+                                              </FormControl>
+                                              <FormMessage />
+                                            </FormItem>
+                                          )}
+                                        />
+                                      )}
+                                    </div>
+                                  )}
+                                </div>
+
+                                <FormField
+                                  control={form.control}
+                                  name="payment_links"
+                                  render={({ field }) => (
+                                    <FormItem className="flex items-start justify-between gap-4 space-y-0 rounded-md border border-blue-200 bg-white p-3">
+                                      <div className="space-y-1">
+                                        <p className="text-sm font-medium text-blue-900">Lien de paiement</p>
+                                        <p className="text-xs text-blue-700">
+                                          Envoyé avec la confirmation du RDV : l'acompte pour les clients concernés, sinon le
+                                          montant total. Le statut du paiement s'affiche sur la page Rendez-vous.
+                                        </p>
+                                      </div>
+                                      <Select value={field.value ?? "off"} onValueChange={field.onChange}>
+                                        <FormControl>
+                                          <SelectTrigger className="w-48">
+                                            <SelectValue />
+                                          </SelectTrigger>
+                                        </FormControl>
+                                        <SelectContent>
+                                          <SelectItem value="off">Jamais</SelectItem>
+                                          <SelectItem value="no_show_policy">Clients avec acompte</SelectItem>
+                                          <SelectItem value="all">Tous les clients</SelectItem>
+                                        </SelectContent>
+                                      </Select>
+                                    </FormItem>
+                                  )}
+                                />
+                              </CardContent>
+                            </Card>
+                          )}
+
+                          {index === 5 && (
+                            <Card>
+                              <CardHeader>
+                                <div className="flex items-center gap-2">
+                                  <Sparkles className="h-5 w-5" />
+                                  <CardTitle>Personnalité de l'assistant</CardTitle>
+                                </div>
+                                <CardDescription>
+                                  Comment l'assistant parle à vos clients. Les règles de réservation et de sécurité restent
+                                  toujours appliquées. Laissez un champ vide pour garder le style par défaut.
+                                </CardDescription>
+                              </CardHeader>
+                              <CardContent className="space-y-4">
+                                <div className="grid gap-4 md:grid-cols-2">
+                                  <FormField
+                                    control={form.control}
+                                    name="persona_tone"
+                                    render={({ field }) => (
+                                      <FormItem>
+                                        <FormLabel>Ton</FormLabel>
+                                        <FormControl>
+                                          <Input placeholder="friendly, cool, complice" maxLength={200} {...field} />
+                                        </FormControl>
+                                        <FormMessage />
+                                      </FormItem>
+                                    )}
+                                  />
+                                  <FormField
+                                    control={form.control}
+                                    name="persona_greeting"
+                                    render={({ field }) => (
+                                      <FormItem>
+                                        <FormLabel>Salutation</FormLabel>
+                                        <FormControl>
+                                          <Input placeholder="Hey, Salut, Coucou" maxLength={200} {...field} />
+                                        </FormControl>
+                                        <FormMessage />
+                                      </FormItem>
+                                    )}
+                                  />
+                                </div>
+
+                                <FormField
+                                  control={form.control}
+                                  name="persona_intro"
+                                  render={({ field }) => (
+                                    <FormItem>
+                                      <FormLabel>Phrase d'introduction</FormLabel>
+                                      <FormControl>
+                                        <Input placeholder="Alors voici ce que je propose:" maxLength={200} {...field} />
+                                      </FormControl>
+                                      <FormDescription>
+                                        Début du message qui présente vos prestations, tarifs et adresse
+                                      </FormDescription>
+                                      <FormMessage />
+                                    </FormItem>
+                                  )}
+                                />
+
+                                <FormField
+                                  control={form.control}
+                                  name="persona_emoji_policy"
+                                  render={({ field }) => (
+                                    <FormItem className="flex items-start justify-between gap-4 space-y-0 rounded-md border p-3">
+                                      <div className="space-y-1">
+                                        <p className="text-sm font-medium">Émojis</p>
+                                        <p className="text-xs text-muted-foreground">
+                                          Par défaut : aucun pendant la réservation, librement quand le client attend son RDV.
+                                        </p>
+                                      </div>
+                                      <Select value={field.value ?? "default"} onValueChange={field.onChange}>
+                                        <FormControl>
+                                          <SelectTrigger className="w-48">
+                                            <SelectValue />
+                                          </SelectTrigger>
+                                        </FormControl>
+                                        <SelectContent>
+                                          <SelectItem value="default">Par défaut</SelectItem>
+                                          <SelectItem value="none">Jamais</SelectItem>
+                                          <SelectItem value="few">De temps en temps</SelectItem>
+                                          <SelectItem value="free">Librement</SelectItem>
+                                        </SelectContent>
+                                      </Select>
+                                    </FormItem>
+                                  )}
+                                />
+
+                                <FormField
+                                  control={form.control}
+                                  name="persona_signature_phrases"
+                                  render={({ field }) => (
+                                    <FormItem>
+                                      <FormLabel>Vos expressions</FormLabel>
+                                      <FormControl>
+                                        <Textarea placeholder={"mon chou\nà tout à l'heure 😘"} rows={3} {...field} />
+                                      </FormControl>
+                                      <FormDescription>
+                                        Une par ligne (10 maximum). L'assistant les glisse de temps en temps.
+                                      </FormDescription>
+                                      <FormMessage />
+                                    </FormItem>
+                                  )}
+                                />
+
+                                <FormField
+                                  control={form.control}
+                                  name="persona_extra_rules"
+                                  render={({ field }) => (
+                                    <FormItem>
+                                      <FormLabel>Consignes en plus</FormLabel>
+                                      <FormControl>
+                                        <Textarea
+                                          placeholder="Ne jamais appeler le client par son prénom"
+                                          rows={4}
+                                          maxLength={1000}
+                                          {...field}
+                                        />
+                                      </FormControl>
+                                      <FormDescription>
+                                        Elles ne peuvent pas changer vos tarifs, vos disponibilités ni les règles de réservation.
+                                      </FormDescription>
+                                      <FormMessage />
+                                    </FormItem>
+                                  )}
+                                />
+
+                                <PersonaPreview persona={formValuesToPersona(form.watch())} />
                               </CardContent>
                             </Card>
                           )}
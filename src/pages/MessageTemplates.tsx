@@ -0,0 +1,196 @@
+import { useState } from "react";
+import { MessageSquareText, RotateCcw } from "lucide-react";
+import { SidebarProvider, SidebarTrigger } from "@/components/ui/sidebar";
+import { AppSidebar } from "@/components/AppSidebar";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  findUnknownVariables,
+  useMessageTemplates,
+  type MessageTemplate,
+  type TemplateLanguage,
+} from "@/hooks/useMessageTemplates";
+
+const LANGUAGE_LABELS: Record<TemplateLanguage, string> = {
+  fr: "Français",
+  en: "Anglais",
+  de: "Allemand",
+  it: "Italien",
+};
+
+const MAX_TEMPLATE_LENGTH = 1000;
+
+interface TemplateEditorProps {
+  template: MessageTemplate;
+  language: TemplateLanguage;
+}
+
+const TemplateEditor = ({ template, language }: TemplateEditorProps) => {
+  const { saveTemplate, resetTemplate, isSaving, isResetting } = useMessageTemplates();
+  const version = template.languages.find((entry) => entry.language === language) ?? template.languages[0];
+  const [draft, setDraft] = useState(version.override ?? version.default);
+
+  const unknownVariables = findUnknownVariables(draft, template);
+  const isChanged = draft !== (version.override ?? version.default);
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center gap-2">
+          <CardTitle className="text-base">{template.label}</CardTitle>
+          {version.override && <Badge variant="secondary">Personnalisé</Badge>}
+        </div>
+        <CardDescription>
+          {template.description}
+          {template.variants && ". Un message par ligne, l'un d'eux est tiré au hasard."}
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        <Textarea
+          value={draft}
+          onChange={(e) => setDraft(e.target.value)}
+          rows={Math.min(Math.max(draft.split("\n").length + 1, 3), 14)}
+          maxLength={MAX_TEMPLATE_LENGTH}
+          className="font-mono text-sm"
+        />
+
+        <div className="flex flex-wrap gap-1">
+          {template.variables.map((variable) => (
+            <Badge
+              key={variable.name}
+              variant="outline"
+              className="cursor-pointer font-mono"
+              title={variable.label}
+              onClick={() => setDraft((current) => `${current}{${variable.name}}`)}
+            >
+              {`{${variable.name}}`}
+            </Badge>
+          ))}
+        </div>
+        <p className="text-xs text-muted-foreground">
+          Cliquez sur une variable pour l'ajouter. Une ligne dont toutes les variables sont vides
+          (pas de code de porte, pas d'extras...) n'est pas envoyée.
+        </p>
+
+        {unknownVariables.length > 0 && (
+          <p className="text-sm text-destructive">
+            Variables inconnues : {unknownVariables.map((name) => `{${name}}`).join(", ")}
+          </p>
+        )}
+
+        <div className="flex justify-end gap-2">
+          {version.override && (
+            <Button
+              variant="outline"
+              size="sm"
+              disabled={isResetting}
+              onClick={() => {
+                resetTemplate({ key: template.key, language: version.language });
+                setDraft(version.default);
+              }}
+            >
+              <RotateCcw className="mr-2 h-4 w-4" />
+              Texte par défaut
+            </Button>
+          )}
+          <Button
+            size="sm"
+            disabled={!isChanged || !draft.trim() || unknownVariables.length > 0 || isSaving}
+            onClick={() => saveTemplate({ key: template.key, language: version.language, body: draft })}
+          >
+            {isSaving ? "Enregistrement..." : "Enregistrer"}
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+};
+
+const MessageTemplates = () => {
+  const { templates, isLoading } = useMessageTemplates();
+  const [language, setLanguage] = useState<TemplateLanguage>("fr");
+
+  const clientTemplates = templates.filter((template) => template.audience === "client");
+  const providerTemplates = templates.filter((template) => template.audience === "provider");
+
+  return (
+    <SidebarProvider>
+      <div className="flex min-h-screen w-full">
+        <AppSidebar />
+        <main className="flex-1">
+          <header className="sticky top-0 z-10 flex h-16 items-center gap-4 border-b bg-background px-6">
+            <SidebarTrigger />
+            <div className="flex items-center gap-2">
+              <MessageSquareText className="h-5 w-5" />
+              <h1 className="text-xl font-semibold">Messages automatiques</h1>
+            </div>
+          </header>
+
+          <div className="p-6 max-w-4xl mx-auto space-y-6">
+            {isLoading ? (
+              <div className="space-y-4">
+                {Array.from({ length: 3 }).map((_, index) => (
+                  <Skeleton key={index} className="h-48" />
+                ))}
+              </div>
+            ) : (
+              <Tabs defaultValue="client">
+                <TabsList>
+                  <TabsTrigger value="client">Messages aux clients</TabsTrigger>
+                  <TabsTrigger value="provider">Vos notifications</TabsTrigger>
+                </TabsList>
+
+                <TabsContent value="client" className="space-y-4">
+                  <div className="flex items-center justify-between gap-4">
+                    <p className="text-sm text-muted-foreground">
+                      Chaque client reçoit la version de sa langue. Sans texte personnalisé, le texte par
+                      défaut est utilisé.
+                    </p>
+                    <Select value={language} onValueChange={(value) => setLanguage(value as TemplateLanguage)}>
+                      <SelectTrigger className="w-40">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {Object.entries(LANGUAGE_LABELS).map(([value, label]) => (
+                          <SelectItem key={value} value={value}>
+                            {label}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  {clientTemplates.map((template) => (
+                    // Remount on language change so the draft follows the selected version
+                    <TemplateEditor key={`${template.key}-${language}`} template={template} language={language} />
+                  ))}
+                </TabsContent>
+
+                <TabsContent value="provider" className="space-y-4">
+                  <p className="text-sm text-muted-foreground">
+                    Notifications envoyées sur votre numéro WhatsApp personnel (page Informations).
+                  </p>
+                  {providerTemplates.map((template) => (
+                    <TemplateEditor key={template.key} template={template} language="fr" />
+                  ))}
+                </TabsContent>
+              </Tabs>
+            )}
+          </div>
+        </main>
+      </div>
+    </SidebarProvider>
+  );
+};
+
+export default MessageTemplates;
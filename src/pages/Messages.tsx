@@ -1,9 +1,10 @@
-import { useEffect, useState } from "react";
+import { useEffect, useMemo, useState } from "react";
 import { useNavigate } from "react-router-dom";
 import { supabase } from "@/integrations/supabase/client";
 import { useEvolutionInstance } from "@/hooks/useEvolutionInstance";
 import { useConversations } from "@/hooks/useConversations";
 import { useMessages } from "@/hooks/useMessages";
+import { normalizePhone, useContacts } from "@/hooks/useContacts";
 import { SidebarProvider } from "@/components/ui/sidebar";
 import { AppSidebar } from "@/components/AppSidebar";
 import { Navbar } from "@/components/Navbar";
@@ -19,12 +20,22 @@ const Messages = () => {
   const { toast } = useToast();
   const { instance } = useEvolutionInstance();
   const { conversations, loading: loadingConv } = useConversations(instance?.id);
+  const { contacts } = useContacts();
   const [selectedConversationId, setSelectedConversationId] = useState<string | null>(null);
 
+  // Blocked / flagged clients are marked in the list
+  const listedConversations = useMemo(() => {
+    const contactsByPhone = new Map(contacts.map((contact) => [contact.phone, contact]));
+    return conversations.map((conv) => {
+      const contact = contactsByPhone.get(normalizePhone(conv.contact_phone));
+      return { ...conv, blocked: contact?.blocked, flag_reason: contact?.flag_reason };
+    });
+  }, [conversations, contacts]);
+
   // Find selected conversation to pass contact info to useMessages
   const selectedConversation = conversations.find((c) => c.id === selectedConversationId);
 
-  const { messages, sendMessage } = useMessages(
+  const { messages, sendMessage, sendAttachment } = useMessages(
     selectedConversationId,
     instance?.id || null,
     selectedConversation?.contact_phone || null,
@@ -75,6 +86,30 @@ const Messages = () => {
     });
   };
 
+  // Ends the pause set when the provider answered the client themself
+  const handleResumeAI = async () => {
+    if (!selectedConversationId) return;
+
+    const { error } = await supabase
+      .from("conversations")
+      .update({ ai_paused_until: null })
+      .eq("id", selectedConversationId);
+
+    if (error) {
+      toast({
+        title: "Erreur",
+        description: "Impossible de relancer l'IA",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    toast({
+      title: "IA relancée",
+      description: "L'IA répondra de nouveau aux prochains messages de ce contact",
+    });
+  };
+
   if (!instance || instance.instance_status !== "connected") {
     return (
       <SidebarProvider>
@@ -108,7 +143,7 @@ const Messages = () => {
                   </div>
                 ) : (
                   <ConversationList
-                    conversations={conversations}
+                    conversations={listedConversations}
                     selectedConversationId={selectedConversationId}
                     onSelectConversation={setSelectedConversationId}
                   />
@@ -126,10 +161,17 @@ const Messages = () => {
                       conversationId={selectedConversationId}
                       aiEnabled={selectedConversation.ai_enabled || false}
                       onToggleAI={handleToggleAI}
+                      aiPausedUntil={selectedConversation.ai_paused_until ?? null}
+                      onResumeAI={handleResumeAI}
                     />
                   </div>
                   <div className="flex-shrink-0 border-t">
-                    <MessageInput onSend={(msg) => sendMessage(selectedConversationId!, msg)} />
+                    <MessageInput
+                      onSend={(msg) => sendMessage(selectedConversationId!, msg)}
+                      onSendAttachment={(attachment, caption) =>
+                        sendAttachment(selectedConversationId!, attachment, caption)
+                      }
+                    />
                   </div>
                 </>
               ) : (
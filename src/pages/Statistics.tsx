@@ -0,0 +1,301 @@
+import { useMemo, useState } from "react";
+import { Bar, BarChart, CartesianGrid, ComposedChart, Line, XAxis, YAxis } from "recharts";
+import { BarChart3 } from "lucide-react";
+import { SidebarProvider, SidebarTrigger } from "@/components/ui/sidebar";
+import { AppSidebar } from "@/components/AppSidebar";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  ChartContainer,
+  ChartLegend,
+  ChartLegendContent,
+  ChartTooltip,
+  ChartTooltipContent,
+  type ChartConfig,
+} from "@/components/ui/chart";
+import { useAvailabilities } from "@/hooks/useAvailabilities";
+import {
+  computeHourlyLoad,
+  groupRevenue,
+  useStatistics,
+  type RevenueGranularity,
+  type StatisticsPeriod,
+} from "@/hooks/useStatistics";
+
+const PERIOD_LABELS: Record<StatisticsPeriod, string> = {
+  30: "30 derniers jours",
+  90: "3 derniers mois",
+  365: "12 derniers mois",
+};
+
+const revenueConfig = {
+  base: { label: "Prestations", color: "hsl(var(--primary))" },
+  extras: { label: "Extras", color: "hsl(38 92% 50%)" },
+} satisfies ChartConfig;
+
+const countConfig = {
+  count: { label: "RDV", color: "hsl(var(--primary))" },
+} satisfies ChartConfig;
+
+const hourlyConfig = {
+  bookings: { label: "RDV", color: "hsl(var(--primary))" },
+  openDays: { label: "Jours ouverts à cette heure", color: "hsl(142 71% 45%)" },
+} satisfies ChartConfig;
+
+const formatCHF = (amount: number) => `CHF ${Math.round(amount).toLocaleString("fr-CH")}`;
+
+// Percentage, or "—" when there is nothing to compare to
+const formatRate = (count: number, total: number) =>
+  total > 0 ? `${Math.round((count / total) * 100)} %` : "—";
+
+const formatDuration = (minutes: number) =>
+  minutes % 60 === 0
+    ? `${minutes / 60}h`
+    : minutes > 60
+      ? `${Math.floor(minutes / 60)}h${minutes % 60}`
+      : `${minutes}min`;
+
+function MetricCard({ title, value, hint }: { title: string; value: string; hint?: string }) {
+  return (
+    <Card>
+      <CardHeader className="pb-2">
+        <CardDescription>{title}</CardDescription>
+        <CardTitle className="text-2xl">{value}</CardTitle>
+      </CardHeader>
+      {hint && (
+        <CardContent>
+          <p className="text-xs text-muted-foreground">{hint}</p>
+        </CardContent>
+      )}
+    </Card>
+  );
+}
+
+const Statistics = () => {
+  const [period, setPeriod] = useState<StatisticsPeriod>(30);
+  const [granularity, setGranularity] = useState<RevenueGranularity>("day");
+  const { data: stats, isLoading } = useStatistics(period);
+  const { availabilities } = useAvailabilities();
+
+  const revenue = useMemo(
+    () => (stats ? groupRevenue(stats.revenue_by_day, granularity, period) : []),
+    [stats, granularity, period]
+  );
+  const hourlyLoad = useMemo(
+    () => (stats ? computeHourlyLoad(stats.bookings_by_hour, availabilities ?? []) : []),
+    [stats, availabilities]
+  );
+
+  const totals = revenue.reduce(
+    (sum, point) => ({ base: sum.base + point.base, extras: sum.extras + point.extras }),
+    { base: 0, extras: 0 }
+  );
+  const counts = stats?.status_counts;
+  const durations = (stats?.durations ?? []).slice(0, 6).map((d) => ({
+    label: formatDuration(d.duration_minutes),
+    count: Number(d.count),
+  }));
+  const extras = (stats?.extras ?? []).slice(0, 6).map((e) => ({
+    label: e.name,
+    count: Number(e.count),
+  }));
+
+  return (
+    <SidebarProvider>
+      <div className="flex min-h-screen w-full">
+        <AppSidebar />
+        <main className="flex-1">
+          <header className="sticky top-0 z-10 flex h-16 items-center gap-4 border-b bg-background px-6">
+            <SidebarTrigger />
+            <div className="flex items-center gap-2 flex-1">
+              <BarChart3 className="h-5 w-5" />
+              <h1 className="text-xl font-semibold">Statistiques</h1>
+            </div>
+            <Select
+              value={String(period)}
+              onValueChange={(value) => setPeriod(Number(value) as StatisticsPeriod)}
+            >
+              <SelectTrigger className="w-48">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {Object.entries(PERIOD_LABELS).map(([value, label]) => (
+                  <SelectItem key={value} value={value}>
+                    {label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </header>
+
+          <div className="p-6 max-w-6xl mx-auto space-y-6">
+            {isLoading || !stats || !counts ? (
+              <div className="grid gap-4 md:grid-cols-3 xl:grid-cols-5">
+                {Array.from({ length: 5 }).map((_, index) => (
+                  <Skeleton key={index} className="h-24" />
+                ))}
+              </div>
+            ) : (
+              <>
+                <div className="grid gap-4 md:grid-cols-3 xl:grid-cols-5">
+                  <MetricCard
+                    title="Chiffre d'affaires"
+                    value={formatCHF(totals.base + totals.extras)}
+                    hint={`dont ${formatCHF(totals.extras)} d'extras`}
+                  />
+                  <MetricCard
+                    title="Conversion"
+                    value={formatRate(stats.conversations.booked, stats.conversations.total)}
+                    hint={`${stats.conversations.booked} RDV sur ${stats.conversations.total} nouvelles conversations`}
+                  />
+                  <MetricCard
+                    title="Annulations"
+                    value={formatRate(counts.cancelled, counts.total)}
+                    hint={`${counts.cancelled} sur ${counts.total} RDV`}
+                  />
+                  <MetricCard
+                    title="Lapins"
+                    value={formatRate(counts.no_show, counts.completed + counts.no_show)}
+                    hint={`${counts.no_show} clients pas venus`}
+                  />
+                  <MetricCard
+                    title="Temps de réponse IA"
+                    value={
+                      stats.ai_latency.avg_ms !== null
+                        ? `${(stats.ai_latency.avg_ms / 1000).toFixed(1)} s`
+                        : "—"
+                    }
+                    hint={`moyenne sur ${stats.ai_latency.calls} réponses`}
+                  />
+                </div>
+
+                <Card>
+                  <CardHeader className="flex flex-row items-center justify-between space-y-0">
+                    <div>
+                      <CardTitle>Chiffre d'affaires</CardTitle>
+                      <CardDescription>RDV terminés, prestations et extras</CardDescription>
+                    </div>
+                    <Tabs
+                      value={granularity}
+                      onValueChange={(value) => setGranularity(value as RevenueGranularity)}
+                    >
+                      <TabsList>
+                        <TabsTrigger value="day">Jour</TabsTrigger>
+                        <TabsTrigger value="week">Semaine</TabsTrigger>
+                        <TabsTrigger value="month">Mois</TabsTrigger>
+                      </TabsList>
+                    </Tabs>
+                  </CardHeader>
+                  <CardContent>
+                    <ChartContainer config={revenueConfig} className="h-72 w-full aspect-auto">
+                      <BarChart data={revenue}>
+                        <CartesianGrid vertical={false} />
+                        <XAxis dataKey="label" tickLine={false} axisLine={false} minTickGap={16} />
+                        <YAxis tickLine={false} axisLine={false} width={48} />
+                        <ChartTooltip content={<ChartTooltipContent />} />
+                        <ChartLegend content={<ChartLegendContent />} />
+                        <Bar dataKey="base" stackId="revenue" fill="var(--color-base)" />
+                        <Bar
+                          dataKey="extras"
+                          stackId="revenue"
+                          fill="var(--color-extras)"
+                          radius={[4, 4, 0, 0]}
+                        />
+                      </BarChart>
+                    </ChartContainer>
+                  </CardContent>
+                </Card>
+
+                <div className="grid gap-6 md:grid-cols-2">
+                  {[
+                    { title: "Durées les plus réservées", data: durations },
+                    { title: "Extras les plus demandés", data: extras },
+                  ].map(({ title, data }) => (
+                    <Card key={title}>
+                      <CardHeader>
+                        <CardTitle>{title}</CardTitle>
+                      </CardHeader>
+                      <CardContent>
+                        {data.length === 0 ? (
+                          <p className="text-sm text-muted-foreground">
+                            Pas encore de RDV sur la période.
+                          </p>
+                        ) : (
+                          <ChartContainer config={countConfig} className="h-56 w-full aspect-auto">
+                            <BarChart data={data} layout="vertical">
+                              <XAxis type="number" hide allowDecimals={false} />
+                              <YAxis
+                                type="category"
+                                dataKey="label"
+                                tickLine={false}
+                                axisLine={false}
+                                width={90}
+                              />
+                              <ChartTooltip content={<ChartTooltipContent />} />
+                              <Bar dataKey="count" fill="var(--color-count)" radius={4} />
+                            </BarChart>
+                          </ChartContainer>
+                        )}
+                      </CardContent>
+                    </Card>
+                  ))}
+                </div>
+
+                <Card>
+                  <CardHeader>
+                    <CardTitle>Heures les plus demandées</CardTitle>
+                    <CardDescription>
+                      RDV par heure de début, comparés à vos disponibilités de la semaine
+                    </CardDescription>
+                  </CardHeader>
+                  <CardContent>
+                    <ChartContainer config={hourlyConfig} className="h-72 w-full aspect-auto">
+                      <ComposedChart data={hourlyLoad}>
+                        <CartesianGrid vertical={false} />
+                        <XAxis dataKey="hour" tickLine={false} axisLine={false} />
+                        <YAxis
+                          yAxisId="bookings"
+                          tickLine={false}
+                          axisLine={false}
+                          allowDecimals={false}
+                          width={32}
+                        />
+                        <YAxis yAxisId="days" orientation="right" domain={[0, 7]} hide />
+                        <ChartTooltip content={<ChartTooltipContent />} />
+                        <ChartLegend content={<ChartLegendContent />} />
+                        <Bar
+                          yAxisId="bookings"
+                          dataKey="bookings"
+                          fill="var(--color-bookings)"
+                          radius={4}
+                        />
+                        <Line
+                          yAxisId="days"
+                          dataKey="openDays"
+                          type="stepAfter"
+                          stroke="var(--color-openDays)"
+                          strokeWidth={2}
+                          dot={false}
+                        />
+                      </ComposedChart>
+                    </ChartContainer>
+                  </CardContent>
+                </Card>
+              </>
+            )}
+          </div>
+        </main>
+      </div>
+    </SidebarProvider>
+  );
+};
+
+export default Statistics;
@@ -17,15 +17,18 @@ import {
   DialogFooter,
 } from "@/components/ui/dialog";
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { SidebarProvider } from "@/components/ui/sidebar";
 import { AppSidebar } from "@/components/AppSidebar";
 import { Navbar } from "@/components/Navbar";
 import { useToast } from "@/hooks/use-toast";
 import {
+  AI_MODEL_OPTIONS,
   deleteUserPermanently,
   fetchSuperadminUsers,
   resetUserInstance,
   toggleUserActive,
+  updateUserAIModel,
   type SuperadminUserRow,
 } from "@/integrations/supabase/superadmin";
 
@@ -40,6 +43,9 @@ const useDebouncedValue = (value: string, delay = 400) => {
   return debounced;
 };
 
+const toAiModelValue = (informations: SuperadminUserRow["informations"]) =>
+  informations?.ai_provider ? `${informations.ai_provider}:${informations.ai_model ?? ""}` : "default";
+
 const UsersPage = () => {
   const [search, setSearch] = useState("");
   const [detailsUser, setDetailsUser] = useState<SuperadminUserRow | null>(null);
@@ -91,11 +97,44 @@ const UsersPage = () => {
     },
   });
 
+  const aiModelMutation = useMutation({
+    mutationFn: ({ userId, value }: { userId: string; value: string }) => {
+      const option = AI_MODEL_OPTIONS.find((item) => item.value === value);
+      return updateUserAIModel(userId, option?.provider ?? null, option?.model ?? null);
+    },
+    onSuccess: (_data, { userId, value }) => {
+      const option = AI_MODEL_OPTIONS.find((item) => item.value === value);
+      setDetailsUser((current) =>
+        current && current.id === userId && current.informations
+          ? {
+              ...current,
+              informations: {
+                ...current.informations,
+                ai_provider: option?.provider ?? null,
+                ai_model: option?.model ?? null,
+              },
+            }
+          : current
+      );
+      refetch();
+      toast({ title: "Modèle IA mis à jour" });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Erreur", description: error.message, variant: "destructive" });
+    },
+  });
+
   const isProcessing = useMemo(
-    () => toggleMutation.isPending || resetMutation.isPending || deleteMutation.isPending,
-    [toggleMutation.isPending, resetMutation.isPending, deleteMutation.isPending]
+    () =>
+      toggleMutation.isPending ||
+      resetMutation.isPending ||
+      deleteMutation.isPending ||
+      aiModelMutation.isPending,
+    [toggleMutation.isPending, resetMutation.isPending, deleteMutation.isPending, aiModelMutation.isPending]
   );
 
+  const detailsAiModel = toAiModelValue(detailsUser?.informations);
+
   return (
     <SidebarProvider>
       <div className="min-h-screen flex w-full">
@@ -247,6 +286,30 @@ const UsersPage = () => {
                 <span className="text-muted-foreground">Instance :</span>{" "}
                 {detailsUser.instance ? detailsUser.instance.instance_status : "Aucune"}
               </div>
+              {detailsUser.informations && (
+                <div className="flex items-center gap-2">
+                  <span className="text-muted-foreground">Modèle IA :</span>
+                  <Select
+                    value={detailsAiModel}
+                    disabled={aiModelMutation.isPending}
+                    onValueChange={(value) => aiModelMutation.mutate({ userId: detailsUser.id, value })}
+                  >
+                    <SelectTrigger className="w-64">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {AI_MODEL_OPTIONS.map((option) => (
+                        <SelectItem key={option.value} value={option.value}>
+                          {option.label}
+                        </SelectItem>
+                      ))}
+                      {!AI_MODEL_OPTIONS.some((option) => option.value === detailsAiModel) && (
+                        <SelectItem value={detailsAiModel}>{detailsAiModel}</SelectItem>
+                      )}
+                    </SelectContent>
+                  </Select>
+                </div>
+              )}
             </div>
           )}
           <DialogFooter className="flex flex-col gap-2 sm:flex-row sm:justify-between">
@@ -0,0 +1,104 @@
+/**
+ * Location pin of the provider's address (user_informations.adresse)
+ * The coordinates are geocoded once and kept in adresse_latitude / adresse_longitude;
+ * a DB trigger clears them when the address changes
+ */
+
+import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2.76.1";
+import type { OutgoingAttachment } from "./evolution-messages.ts";
+
+export type LocationAttachment = Extract<OutgoingAttachment, { type: "location" }>;
+
+// Stored as "street, postal code, city" by the Informations page, parts may be empty
+function cleanAddress(adresse: string | null | undefined): string {
+  return (adresse || "")
+    .split(",")
+    .map((part) => part.trim())
+    .filter(Boolean)
+    .join(", ");
+}
+
+async function geocode(address: string): Promise<{ latitude: number; longitude: number } | null> {
+  const baseUrl = Deno.env.get("GEOCODING_URL") ?? "https://nominatim.openstreetmap.org/search";
+  const url = `${baseUrl}?format=json&limit=1&q=${encodeURIComponent(address)}`;
+
+  const response = await fetch(url, {
+    // Nominatim usage policy: identify the application
+    headers: { "User-Agent": Deno.env.get("GEOCODING_USER_AGENT") ?? "whatsapp-booking-assistant" },
+  });
+
+  if (!response.ok) {
+    console.error("[geocoding] Error:", response.status, await response.text());
+    return null;
+  }
+
+  const results = await response.json();
+  if (!Array.isArray(results) || results.length === 0) {
+    console.warn("[geocoding] Address not found:", address);
+    return null;
+  }
+
+  return { latitude: Number(results[0].lat), longitude: Number(results[0].lon) };
+}
+
+/**
+ * Returns the pin of the provider's address, geocoding it the first time
+ *
+ * @param supabase - Supabase client (service role)
+ * @param userId - Provider user ID
+ * @returns Location attachment, or null when there is no address or it can't be found
+ *
+ * @example
+ * const pin = await getAddressLocation(supabase, user_id);
+ * if (pin) await sendEvolutionMessage(instance.instance_name, number, "", pin);
+ */
+export async function getAddressLocation(
+  supabase: SupabaseClient,
+  userId: string
+): Promise<LocationAttachment | null> {
+  const { data: userInfo, error } = await supabase
+    .from("user_informations")
+    .select("adresse, adresse_latitude, adresse_longitude")
+    .eq("user_id", userId)
+    .maybeSingle();
+
+  if (error) {
+    console.error("[geocoding] Error fetching address:", error);
+    return null;
+  }
+
+  const address = cleanAddress(userInfo?.adresse);
+  if (!address) {
+    return null;
+  }
+
+  if (typeof userInfo?.adresse_latitude === "number" && typeof userInfo?.adresse_longitude === "number") {
+    return {
+      type: "location",
+      latitude: userInfo.adresse_latitude,
+      longitude: userInfo.adresse_longitude,
+      name: null,
+      address,
+    };
+  }
+
+  try {
+    const coordinates = await geocode(address);
+    if (!coordinates) {
+      return null;
+    }
+
+    await supabase
+      .from("user_informations")
+      .update({
+        adresse_latitude: coordinates.latitude,
+        adresse_longitude: coordinates.longitude,
+      })
+      .eq("user_id", userId);
+
+    return { type: "location", ...coordinates, name: null, address };
+  } catch (geocodingError) {
+    console.error("[geocoding] Failed:", geocodingError);
+    return null;
+  }
+}
@@ -0,0 +1,70 @@
+/**
+ * Human takeover: the provider answering a client pauses the AI for that conversation
+ * Used by the webhook (message typed on the provider's phone) and send-whatsapp-message
+ * (message sent from the dashboard)
+ */
+
+import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2.76.1";
+
+// Used when user_informations.ai_takeover_pause_minutes can't be read
+const DEFAULT_PAUSE_MINUTES = 60;
+
+/**
+ * Checks if the AI is paused on a conversation
+ *
+ * @param aiPausedUntil - conversations.ai_paused_until
+ * @param now - Current date
+ * @returns true while the pause is running
+ */
+export function isAiPaused(aiPausedUntil: string | null | undefined, now: Date = new Date()): boolean {
+  return !!aiPausedUntil && new Date(aiPausedUntil).getTime() > now.getTime();
+}
+
+/**
+ * Pauses the AI after a message the provider sent themself
+ * Clearing ai_reply_token also drops an AI reply being generated (see ai-auto-reply/messaging/reply-queue.ts)
+ *
+ * @param supabase - Supabase client (service role)
+ * @param conversationId - Conversation ID
+ * @param userId - Provider user ID
+ * @returns End of the pause (ISO), or null when takeover pauses are disabled
+ *
+ * @example
+ * const pausedUntil = await pauseAiForTakeover(supabase, conversationId, instance.user_id);
+ * // "2025-11-24T22:15:00.000Z"
+ */
+export async function pauseAiForTakeover(
+  supabase: SupabaseClient,
+  conversationId: string,
+  userId: string
+): Promise<string | null> {
+  const { data: userInfo, error: settingsError } = await supabase
+    .from("user_informations")
+    .select("ai_takeover_pause_minutes")
+    .eq("user_id", userId)
+    .maybeSingle();
+
+  if (settingsError) {
+    console.error("[takeover] Error fetching pause duration:", settingsError);
+  }
+
+  const minutes = userInfo?.ai_takeover_pause_minutes ?? DEFAULT_PAUSE_MINUTES;
+  if (minutes <= 0) {
+    return null;
+  }
+
+  const pausedUntil = new Date(Date.now() + minutes * 60 * 1000).toISOString();
+
+  const { error } = await supabase
+    .from("conversations")
+    .update({ ai_paused_until: pausedUntil, ai_reply_token: null })
+    .eq("id", conversationId);
+
+  if (error) {
+    console.error("[takeover] Error pausing AI:", error);
+    return null;
+  }
+
+  console.log(`[takeover] AI paused on conversation ${conversationId} until ${pausedUntil}`);
+  return pausedUntil;
+}
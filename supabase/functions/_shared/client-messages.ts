@@ -0,0 +1,100 @@
+/**
+ * Fixed messages sent to clients without going through the AI, in each client language
+ * (reminders, reschedules, payment links...)
+ * The tone is the provider's: first person, familiar ("tu" / "du"), a kiss emoji.
+ * Messages providers can rewrite (confirmation, access info, late nudges) are templates,
+ * see message-templates.ts
+ */
+
+import type { SupportedLanguage } from "./language.ts";
+
+export interface ClientMessages {
+  today: string;
+  tomorrow: string;
+  // ai-auto-reply (appointments/confirmation.ts)
+  confirmedShort: (day: string, time: string) => string;
+  address: (adresse: string) => string;
+  pendingApproval: (day: string, time: string) => string;
+  rescheduled: (day: string, time: string) => string;
+  cancelled: string;
+  reminderAcknowledgedToday: string;
+  reminderAcknowledged: (day: string, time: string) => string;
+  // review-appointment
+  declined: string;
+  // payment-gateway
+  paymentLink: (kind: "deposit" | "full", amount: string, url: string) => string;
+  // send-appointment-reminders
+  reminderBeforeStart: (time: string) => string;
+  reminderDayBefore: (isToday: boolean, time: string) => string;
+}
+
+export const CLIENT_MESSAGES: Record<SupportedLanguage, ClientMessages> = {
+  fr: {
+    today: "Aujourd'hui",
+    tomorrow: "Demain",
+    confirmedShort: (day, time) => `C'est confirmé ! ${day} à ${time} 😘`,
+    address: (adresse) => `Mon adresse: ${adresse}`,
+    pendingApproval: (day, time) => `C'est noté pour ${day} ${time} ! Je te confirme très vite 😘`,
+    rescheduled: (day, time) => `C'est noté, on se voit ${day} à ${time} 😘`,
+    cancelled: "C'est noté, ton RDV est annulé. Écris-moi quand tu veux en reprendre un 😘",
+    reminderAcknowledgedToday: "Parfait, à tout à l'heure 😘",
+    reminderAcknowledged: (day, time) => `Parfait, à ${day} ${time} 😘`,
+    declined: "Désolée, je ne vais pas pouvoir te recevoir à ce moment-là. Écris-moi si tu veux un autre créneau 😘",
+    paymentLink: (kind, amount, url) =>
+      `Pour bloquer ton créneau, ${kind === "deposit" ? "acompte" : "paiement"} de ${amount} à régler ici : ${url}`,
+    reminderBeforeStart: (time) => `Coucou ! On se voit tout à l'heure à ${time} 😘 C'est toujours bon pour toi ?`,
+    reminderDayBefore: (isToday, time) =>
+      `Petit rappel : on se voit ${isToday ? "aujourd'hui" : "demain"} à ${time} 😘 C'est toujours bon pour toi ?`,
+  },
+  en: {
+    today: "Today",
+    tomorrow: "Tomorrow",
+    confirmedShort: (day, time) => `It's confirmed! ${day} at ${time} 😘`,
+    address: (adresse) => `My address: ${adresse}`,
+    pendingApproval: (day, time) => `Got it for ${day} ${time}! I'll confirm very soon 😘`,
+    rescheduled: (day, time) => `Got it, see you ${day} at ${time} 😘`,
+    cancelled: "Got it, your appointment is cancelled. Text me whenever you want another one 😘",
+    reminderAcknowledgedToday: "Perfect, see you later 😘",
+    reminderAcknowledged: (day, time) => `Perfect, see you ${day} ${time} 😘`,
+    declined: "Sorry, I won't be able to see you at that time. Text me if you'd like another slot 😘",
+    paymentLink: (kind, amount, url) =>
+      `To hold your slot, please pay the ${kind === "deposit" ? "deposit" : "amount"} of ${amount} here: ${url}`,
+    reminderBeforeStart: (time) => `Hey! See you soon at ${time} 😘 Still good for you?`,
+    reminderDayBefore: (isToday, time) =>
+      `Quick reminder: see you ${isToday ? "today" : "tomorrow"} at ${time} 😘 Still good for you?`,
+  },
+  de: {
+    today: "Heute",
+    tomorrow: "Morgen",
+    confirmedShort: (day, time) => `Ist bestätigt! ${day} um ${time} 😘`,
+    address: (adresse) => `Meine Adresse: ${adresse}`,
+    pendingApproval: (day, time) => `Notiert für ${day} ${time}! Ich bestätige dir ganz schnell 😘`,
+    rescheduled: (day, time) => `Notiert, wir sehen uns ${day} um ${time} 😘`,
+    cancelled: "Notiert, dein Termin ist abgesagt. Schreib mir, wenn du einen neuen möchtest 😘",
+    reminderAcknowledgedToday: "Perfekt, bis später 😘",
+    reminderAcknowledged: (day, time) => `Perfekt, bis ${day} ${time} 😘`,
+    declined: "Sorry, zu dieser Zeit kann ich dich leider nicht empfangen. Schreib mir, wenn du einen anderen Termin möchtest 😘",
+    paymentLink: (kind, amount, url) =>
+      `Um deinen Termin zu reservieren, bitte ${kind === "deposit" ? "die Anzahlung" : "den Betrag"} von ${amount} hier bezahlen: ${url}`,
+    reminderBeforeStart: (time) => `Hallo! Wir sehen uns gleich um ${time} 😘 Passt es dir noch?`,
+    reminderDayBefore: (isToday, time) =>
+      `Kleine Erinnerung: wir sehen uns ${isToday ? "heute" : "morgen"} um ${time} 😘 Passt es dir noch?`,
+  },
+  it: {
+    today: "Oggi",
+    tomorrow: "Domani",
+    confirmedShort: (day, time) => `Confermato! ${day} alle ${time} 😘`,
+    address: (adresse) => `Il mio indirizzo: ${adresse}`,
+    pendingApproval: (day, time) => `Segnato per ${day} ${time}! Ti confermo prestissimo 😘`,
+    rescheduled: (day, time) => `Segnato, ci vediamo ${day} alle ${time} 😘`,
+    cancelled: "Segnato, il tuo appuntamento è annullato. Scrivimi quando vuoi prenderne un altro 😘",
+    reminderAcknowledgedToday: "Perfetto, a più tardi 😘",
+    reminderAcknowledged: (day, time) => `Perfetto, a ${day} ${time} 😘`,
+    declined: "Mi dispiace, a quell'ora non riesco a riceverti. Scrivimi se vuoi un altro orario 😘",
+    paymentLink: (kind, amount, url) =>
+      `Per bloccare il tuo appuntamento, ${kind === "deposit" ? "acconto" : "pagamento"} di ${amount} da saldare qui: ${url}`,
+    reminderBeforeStart: (time) => `Ciao! Ci vediamo tra poco alle ${time} 😘 Va sempre bene per te?`,
+    reminderDayBefore: (isToday, time) =>
+      `Piccolo promemoria: ci vediamo ${isToday ? "oggi" : "domani"} alle ${time} 😘 Va sempre bene per te?`,
+  },
+};
@@ -0,0 +1,114 @@
+/**
+ * Client blocklist and flags (contacts.blocked, contacts.flag_reason)
+ * Used by the webhook (blocked numbers never reach the AI), ai-auto-reply (no booking
+ * for a blocked number, abusive clients flagged) and check-late-clients (repeated no-shows)
+ */
+
+import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2.76.1";
+import { normalizePhoneNumber } from "./normalize-phone.ts";
+
+export type ContactFlagReason = "no_show" | "abuse";
+
+export interface ContactBlockStatus {
+  id: string;
+  blocked: boolean;
+  block_reply_sent_at: string | null;
+  flag_reason: ContactFlagReason | null;
+}
+
+/**
+ * Reads the block status of a client
+ *
+ * @param supabase - Supabase client (service role)
+ * @param userId - Provider user ID
+ * @param contactPhone - Client phone, any format
+ * @returns Block status, or null if the client has no contact row yet
+ */
+export async function getContactBlockStatus(
+  supabase: SupabaseClient,
+  userId: string,
+  contactPhone: string | null | undefined
+): Promise<ContactBlockStatus | null> {
+  const phone = normalizePhoneNumber(contactPhone);
+  if (!phone) {
+    return null;
+  }
+
+  const { data, error } = await supabase
+    .from("contacts")
+    .select("id, blocked, block_reply_sent_at, flag_reason")
+    .eq("user_id", userId)
+    .eq("phone", phone)
+    .maybeSingle();
+
+  if (error) {
+    console.error("[blocklist] Error fetching contact status:", error);
+    return null;
+  }
+
+  return data as ContactBlockStatus | null;
+}
+
+/**
+ * Checks if a client is blocked by the provider
+ *
+ * @param supabase - Supabase client (service role)
+ * @param userId - Provider user ID
+ * @param contactPhone - Client phone, any format
+ * @returns true if the number is blocked
+ *
+ * @example
+ * if (await isContactBlocked(supabase, userId, contactPhone)) {
+ *   throw new Error('Contact is blocked');
+ * }
+ */
+export async function isContactBlocked(
+  supabase: SupabaseClient,
+  userId: string,
+  contactPhone: string | null | undefined
+): Promise<boolean> {
+  const status = await getContactBlockStatus(supabase, userId, contactPhone);
+  return status?.blocked === true;
+}
+
+/**
+ * Flags a client for the provider (shown in the conversation list and the contact sheet)
+ * An existing flag is kept: the first reason is the one the provider sees
+ *
+ * @param supabase - Supabase client (service role)
+ * @param userId - Provider user ID
+ * @param contactPhone - Client phone, any format
+ * @param reason - Why the client is flagged
+ * @returns true if the client was flagged by this call
+ */
+export async function flagContact(
+  supabase: SupabaseClient,
+  userId: string,
+  contactPhone: string | null | undefined,
+  reason: ContactFlagReason
+): Promise<boolean> {
+  const phone = normalizePhoneNumber(contactPhone);
+  if (!phone) {
+    return false;
+  }
+
+  const { data, error } = await supabase
+    .from("contacts")
+    .update({ flag_reason: reason, flagged_at: new Date().toISOString() })
+    .eq("user_id", userId)
+    .eq("phone", phone)
+    .is("flag_reason", null)
+    .select("id");
+
+  if (error) {
+    console.error("[blocklist] Error flagging contact:", error);
+    return false;
+  }
+
+  if (data && data.length > 0) {
+    console.log(`[blocklist] Contact ${phone} flagged (${reason})`);
+    return true;
+  }
+
+  return false;
+}
@@ -0,0 +1,237 @@
+/**
+ * Outgoing WhatsApp messages through Evolution API
+ * One place for the endpoint/payload of each message kind (text, media, location pin,
+ * contact card) and for the content stored in `messages` once it is sent
+ */
+
+import type { MessageContent } from "./message-content.ts";
+
+export type OutgoingMediaType = "image" | "video" | "document";
+
+/**
+ * Something sent along with (or instead of) a text message
+ * - media: file in the message-media bucket (storage_path) or a public URL
+ * - location: pin shown as a map in WhatsApp
+ * - contact: vCard the client can save
+ */
+export type OutgoingAttachment =
+  | {
+      type: OutgoingMediaType;
+      storage_path?: string;
+      url?: string;
+      mimetype: string;
+      file_name?: string;
+    }
+  | {
+      type: "location";
+      latitude: number;
+      longitude: number;
+      name?: string | null;
+      address?: string | null;
+    }
+  | {
+      type: "contact";
+      full_name: string;
+      phone: string;
+    };
+
+const MEDIA_TYPES: OutgoingMediaType[] = ["image", "video", "document"];
+
+/**
+ * Checks an attachment received in a request body
+ *
+ * @param attachment - Untrusted attachment
+ * @returns Error message, or null when valid
+ */
+export function validateAttachment(attachment: any): string | null {
+  if (!attachment || typeof attachment !== "object") {
+    return "attachment must be an object";
+  }
+
+  if (MEDIA_TYPES.includes(attachment.type)) {
+    if (!attachment.storage_path && !attachment.url) {
+      return "media attachment needs a storage_path or a url";
+    }
+    if (typeof attachment.mimetype !== "string" || !attachment.mimetype.includes("/")) {
+      return "media attachment needs a mimetype";
+    }
+    return null;
+  }
+
+  if (attachment.type === "location") {
+    const { latitude, longitude } = attachment;
+    if (
+      typeof latitude !== "number" || typeof longitude !== "number" ||
+      Math.abs(latitude) > 90 || Math.abs(longitude) > 180
+    ) {
+      return "location attachment needs valid latitude and longitude";
+    }
+    return null;
+  }
+
+  if (attachment.type === "contact") {
+    if (!attachment.full_name || !/^\+?\d{6,15}$/.test(String(attachment.phone).replace(/[\s-]/g, ""))) {
+      return "contact attachment needs a full_name and a phone number";
+    }
+    return null;
+  }
+
+  return `unsupported attachment type: ${attachment.type}`;
+}
+
+/**
+ * Evolution API endpoint and payload for a message
+ *
+ * @param number - Recipient WhatsApp number (digits or JID)
+ * @param text - Text, used as caption for media (ignored for location/contact)
+ * @param attachment - Attachment, media must have a reachable `url` at this point
+ * @returns Endpoint name (sendText, sendMedia...) and JSON body
+ *
+ * @example
+ * buildEvolutionRequest("41791234567@s.whatsapp.net", "", { type: "location", latitude: 46.2, longitude: 6.14 });
+ * // { endpoint: "sendLocation", body: { number: "41791234567@s.whatsapp.net", latitude: 46.2, ... } }
+ */
+export function buildEvolutionRequest(
+  number: string,
+  text: string,
+  attachment?: OutgoingAttachment | null
+): { endpoint: string; body: Record<string, unknown> } {
+  if (!attachment) {
+    return { endpoint: "sendText", body: { number, text } };
+  }
+
+  switch (attachment.type) {
+    case "location":
+      return {
+        endpoint: "sendLocation",
+        body: {
+          number,
+          latitude: attachment.latitude,
+          longitude: attachment.longitude,
+          name: attachment.name ?? "",
+          address: attachment.address ?? "",
+        },
+      };
+    case "contact": {
+      const digits = attachment.phone.replace(/\D/g, "");
+      return {
+        endpoint: "sendContact",
+        body: {
+          number,
+          contact: [{ fullName: attachment.full_name, wuid: digits, phoneNumber: `+${digits}` }],
+        },
+      };
+    }
+    default:
+      return {
+        endpoint: "sendMedia",
+        body: {
+          number,
+          mediatype: attachment.type,
+          mimetype: attachment.mimetype,
+          media: attachment.url,
+          caption: text,
+          fileName: attachment.file_name ?? attachment.type,
+        },
+      };
+  }
+}
+
+/**
+ * Content stored in `messages` for a sent message
+ * Media keep their storage_path (signed URLs expire), not the URL sent to Evolution
+ *
+ * @param text - Text or caption
+ * @param attachment - Attachment sent, if any
+ * @returns Typed content (see buildMessageContent for the readable text)
+ */
+export function toMessageContent(
+  text: string,
+  attachment?: OutgoingAttachment | null
+): MessageContent {
+  const content: MessageContent = {
+    type: "text",
+    text,
+    media: null,
+    location: null,
+    contact: null,
+  };
+
+  if (!attachment) {
+    return content;
+  }
+
+  switch (attachment.type) {
+    case "location":
+      return {
+        ...content,
+        type: "location",
+        text: "",
+        location: {
+          latitude: attachment.latitude,
+          longitude: attachment.longitude,
+          name: attachment.name ?? null,
+          address: attachment.address ?? null,
+          url: null,
+          live: false,
+        },
+      };
+    case "contact":
+      return {
+        ...content,
+        type: "contact",
+        text: "",
+        contact: { full_name: attachment.full_name, phone: attachment.phone },
+      };
+    default:
+      return {
+        ...content,
+        type: attachment.type,
+        media: {
+          mimetype: attachment.mimetype,
+          ...(attachment.file_name ? { file_name: attachment.file_name } : {}),
+          ...(attachment.storage_path ? { storage_path: attachment.storage_path } : {}),
+        },
+      };
+  }
+}
+
+/**
+ * Sends a message through Evolution API
+ *
+ * @param instanceName - Evolution instance name
+ * @param number - Recipient WhatsApp number (digits or JID)
+ * @param text - Text or caption
+ * @param attachment - Attachment, if any (media with a reachable `url`)
+ * @returns Evolution API response (key.id is the WhatsApp message id)
+ * @throws Error if Evolution API rejects the message
+ */
+export async function sendEvolutionMessage(
+  instanceName: string,
+  number: string,
+  text: string,
+  attachment?: OutgoingAttachment | null
+): Promise<any> {
+  const baseUrl = (
+    Deno.env.get("EVOLUTION_API_BASE_URL") ??
+    "https://cst-evolution-api-kaezwnkk.usecloudstation.com"
+  ).replace(/\/$/, "");
+  const { endpoint, body } = buildEvolutionRequest(number, text, attachment);
+
+  const response = await fetch(`${baseUrl}/message/${endpoint}/${instanceName}`, {
+    method: "POST",
+    headers: {
+      "Content-Type": "application/json",
+      apikey: Deno.env.get("EVOLUTION_API_KEY") ?? "",
+    },
+    body: JSON.stringify(body),
+  });
+
+  if (!response.ok) {
+    const errorText = await response.text();
+    console.error(`[evolution] ${endpoint} error:`, errorText);
+    throw new Error(`Evolution API error (${endpoint}): ${response.statusText || errorText}`);
+  }
+
+  return await response.json();
+}
@@ -0,0 +1,503 @@
+/**
+ * iCalendar (RFC 5545) import of busy times
+ * Used by sync-external-calendars: events of the provider's other calendars (Google, Apple,
+ * Outlook links or uploaded .ics files) become busy slots in France local time, in the same
+ * date / start_time / end_time shape as appointments.
+ *
+ * Supported: TZID / UTC / floating times, all-day events, DURATION, RRULE (DAILY, WEEKLY,
+ * MONTHLY, YEARLY with INTERVAL, COUNT, UNTIL, BYDAY, BYMONTHDAY), EXDATE and moved or
+ * cancelled occurrences (RECURRENCE-ID). Free (TRANSP:TRANSPARENT) and cancelled events are skipped.
+ */
+
+const FRANCE_TIMEZONE = "Europe/Paris";
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Year, month (1-12), day, hour, minute, second as written in the file
+interface LocalDateTime {
+  year: number;
+  month: number;
+  day: number;
+  hour: number;
+  minute: number;
+  second: number;
+}
+
+interface IcsDate {
+  local: LocalDateTime;
+  timeZone: string; // "UTC" for ...Z values, Europe/Paris for floating times
+  allDay: boolean;
+}
+
+export interface IcsEvent {
+  uid: string;
+  start: IcsDate;
+  end: IcsDate | null;
+  durationMs: number | null;
+  rrule: Record<string, string> | null;
+  exdates: number[]; // UTC timestamps of the excluded occurrences
+  recurrenceId: number | null; // UTC timestamp of the occurrence this event replaces
+  busy: boolean;
+}
+
+export interface BusySlot {
+  busy_date: string; // YYYY-MM-DD (France)
+  start_time: string; // HH:MM (France)
+  end_time: string; // HH:MM, 00:00 = midnight, may be <= start_time like appointments
+}
+
+const WEEKDAYS = ["SU", "MO", "TU", "WE", "TH", "FR", "SA"];
+
+// Occurrences looked at per recurring event, so a broken rule can't loop forever
+const MAX_RECURRENCE_DAYS = 366 * 20;
+
+interface ContentLine {
+  name: string;
+  params: Record<string, string>;
+  value: string;
+}
+
+// Folded lines start with a space or a tab
+function unfoldLines(ics: string): string[] {
+  return ics.replace(/\r\n/g, "\n").replace(/\n[ \t]/g, "").split("\n");
+}
+
+function parseContentLine(line: string): ContentLine | null {
+  // The value starts at the first colon outside a quoted parameter
+  let inQuotes = false;
+  let colon = -1;
+  for (let i = 0; i < line.length; i++) {
+    if (line[i] === '"') inQuotes = !inQuotes;
+    if (line[i] === ":" && !inQuotes) {
+      colon = i;
+      break;
+    }
+  }
+  if (colon === -1) return null;
+
+  const [name, ...rawParams] = line.slice(0, colon).split(";");
+  const params: Record<string, string> = {};
+  for (const param of rawParams) {
+    const [key, ...value] = param.split("=");
+    params[key.toUpperCase()] = value.join("=").replace(/^"|"$/g, "");
+  }
+
+  return { name: name.toUpperCase(), params, value: line.slice(colon + 1).trim() };
+}
+
+// Outlook writes Windows zone names, the ones seen from France map to Paris
+function resolveTimeZone(tzid: string | undefined): string {
+  if (!tzid) return FRANCE_TIMEZONE;
+  const timeZone = tzid.replace(/^\//, "");
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone });
+    return timeZone;
+  } catch {
+    return FRANCE_TIMEZONE;
+  }
+}
+
+function parseIcsDate(value: string, params: Record<string, string>): IcsDate | null {
+  const match = value.match(/^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})(Z)?)?$/);
+  if (!match) return null;
+
+  const [, year, month, day, hour, minute, second, utc] = match;
+  const allDay = params.VALUE === "DATE" || hour === undefined;
+
+  return {
+    local: {
+      year: Number(year),
+      month: Number(month),
+      day: Number(day),
+      hour: allDay ? 0 : Number(hour),
+      minute: allDay ? 0 : Number(minute),
+      second: allDay ? 0 : Number(second),
+    },
+    // All-day events are days of the provider's own calendar
+    timeZone: utc ? "UTC" : allDay ? FRANCE_TIMEZONE : resolveTimeZone(params.TZID),
+    allDay,
+  };
+}
+
+// "PT1H30M", "P1D", "P2W" → milliseconds
+function parseDuration(value: string): number | null {
+  const match = value.match(/^([+-])?P(?:(\d+)W)?(?:(\d+)D)?(?:T(?:(\d+)H)?(?:(\d+)M)?(?:(\d+)S)?)?$/);
+  if (!match) return null;
+
+  const [, sign, weeks, days, hours, minutes, seconds] = match;
+  const ms =
+    ((Number(weeks ?? 0) * 7 + Number(days ?? 0)) * 24 * 3600 +
+      Number(hours ?? 0) * 3600 +
+      Number(minutes ?? 0) * 60 +
+      Number(seconds ?? 0)) *
+    1000;
+
+  return sign === "-" ? -ms : ms;
+}
+
+// Building a formatter is slow, and a long daily series converts thousands of times
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+function zoneParts(timestamp: number, timeZone: string): LocalDateTime {
+  let formatter = formatters.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat("en-US", {
+      timeZone,
+      hourCycle: "h23",
+      year: "numeric",
+      month: "2-digit",
+      day: "2-digit",
+      hour: "2-digit",
+      minute: "2-digit",
+      second: "2-digit",
+    });
+    formatters.set(timeZone, formatter);
+  }
+
+  const parts = formatter.formatToParts(new Date(timestamp));
+  const get = (type: string) => Number(parts.find((p) => p.type === type)?.value);
+
+  return {
+    year: get("year"),
+    month: get("month"),
+    day: get("day"),
+    hour: get("hour"),
+    minute: get("minute"),
+    second: get("second"),
+  };
+}
+
+function localAsUtc(local: LocalDateTime): number {
+  return Date.UTC(local.year, local.month - 1, local.day, local.hour, local.minute, local.second);
+}
+
+/**
+ * Converts a wall-clock time of a time zone to a UTC timestamp
+ * A time skipped by a DST change (02:30 on the last Sunday of March) moves forward
+ */
+function toUtc(local: LocalDateTime, timeZone: string): number {
+  const asUtc = localAsUtc(local);
+  if (timeZone === "UTC") return asUtc;
+
+  const offset = localAsUtc(zoneParts(asUtc, timeZone)) - asUtc;
+  const guess = asUtc - offset;
+  const correctedOffset = localAsUtc(zoneParts(guess, timeZone)) - guess;
+
+  return correctedOffset === offset ? guess : asUtc - correctedOffset;
+}
+
+function parseDateList(value: string, params: Record<string, string>): IcsDate[] {
+  return value
+    .split(",")
+    .map((item) => parseIcsDate(item.trim(), params))
+    .filter((date): date is IcsDate => date !== null);
+}
+
+/**
+ * Parses the VEVENTs of an iCalendar document
+ * Components nested in an event (VALARM) are ignored
+ *
+ * @param ics - iCalendar text
+ * @returns Events with a valid start
+ */
+export function parseIcsEvents(ics: string): IcsEvent[] {
+  const events: IcsEvent[] = [];
+  const components: string[] = [];
+  let current: Partial<IcsEvent> & { exdates: number[] } = { exdates: [] };
+  let status = "";
+  let transparent = false;
+
+  for (const line of unfoldLines(ics)) {
+    const content = parseContentLine(line);
+    if (!content) continue;
+    const { name, params, value } = content;
+
+    if (name === "BEGIN") {
+      components.push(value.toUpperCase());
+      if (value.toUpperCase() === "VEVENT" && components.length === 2) {
+        current = { exdates: [] };
+        status = "";
+        transparent = false;
+      }
+      continue;
+    }
+
+    if (name === "END") {
+      if (components.pop() === "VEVENT" && components.length === 1 && current.start) {
+        events.push({
+          uid: current.uid ?? crypto.randomUUID(),
+          start: current.start,
+          end: current.end ?? null,
+          durationMs: current.durationMs ?? null,
+          rrule: current.rrule ?? null,
+          exdates: current.exdates,
+          recurrenceId: current.recurrenceId ?? null,
+          busy: status !== "CANCELLED" && !transparent,
+        });
+      }
+      continue;
+    }
+
+    // Properties of the event itself, not of its alarms
+    if (components[components.length - 1] !== "VEVENT" || components.length !== 2) continue;
+
+    switch (name) {
+      case "UID":
+        current.uid = value;
+        break;
+      case "DTSTART":
+        current.start = parseIcsDate(value, params) ?? undefined;
+        break;
+      case "DTEND":
+        current.end = parseIcsDate(value, params) ?? undefined;
+        break;
+      case "DURATION":
+        current.durationMs = parseDuration(value) ?? undefined;
+        break;
+      case "RRULE":
+        current.rrule = Object.fromEntries(
+          value.split(";").map((part) => {
+            const [key, ...rest] = part.split("=");
+            return [key.toUpperCase(), rest.join("=").toUpperCase()];
+          })
+        );
+        break;
+      case "EXDATE":
+        current.exdates.push(
+          ...parseDateList(value, params).map((date) => toUtc(date.local, date.timeZone))
+        );
+        break;
+      case "RECURRENCE-ID": {
+        const date = parseIcsDate(value, params);
+        if (date) current.recurrenceId = toUtc(date.local, date.timeZone);
+        break;
+      }
+      case "STATUS":
+        status = value.toUpperCase();
+        break;
+      case "TRANSP":
+        transparent = value.toUpperCase() === "TRANSPARENT";
+        break;
+    }
+  }
+
+  return events;
+}
+
+function addDays(local: LocalDateTime, days: number): LocalDateTime {
+  const date = new Date(Date.UTC(local.year, local.month - 1, local.day + days));
+  return {
+    ...local,
+    year: date.getUTCFullYear(),
+    month: date.getUTCMonth() + 1,
+    day: date.getUTCDate(),
+  };
+}
+
+function daysBetween(from: LocalDateTime, to: LocalDateTime): number {
+  return Math.round(
+    (Date.UTC(to.year, to.month - 1, to.day) - Date.UTC(from.year, from.month - 1, from.day)) / DAY_MS
+  );
+}
+
+function weekdayOf(local: LocalDateTime): number {
+  return new Date(Date.UTC(local.year, local.month - 1, local.day)).getUTCDay();
+}
+
+function daysInMonth(local: LocalDateTime): number {
+  return new Date(Date.UTC(local.year, local.month, 0)).getUTCDate();
+}
+
+// "MO", "2TU", "-1FR" → does the day match inside its month (MONTHLY) or week (WEEKLY)
+function matchesByDay(rule: string, day: LocalDateTime, monthly: boolean): boolean {
+  return rule.split(",").some((item) => {
+    const match = item.match(/^([+-]?\d+)?([A-Z]{2})$/);
+    if (!match || WEEKDAYS.indexOf(match[2]) !== weekdayOf(day)) return false;
+    if (!match[1] || !monthly) return true;
+
+    const ordinal = Number(match[1]);
+    return ordinal > 0
+      ? Math.ceil(day.day / 7) === ordinal
+      : Math.ceil((daysInMonth(day) - day.day + 1) / 7) === -ordinal;
+  });
+}
+
+function matchesRule(
+  rrule: Record<string, string>,
+  start: LocalDateTime,
+  day: LocalDateTime
+): boolean {
+  const interval = Math.max(Number(rrule.INTERVAL ?? 1) || 1, 1);
+  const monthsBetween = (day.year - start.year) * 12 + day.month - start.month;
+  const byMonthDay = rrule.BYMONTHDAY?.split(",").map(Number);
+
+  switch (rrule.FREQ) {
+    case "DAILY":
+      return daysBetween(start, day) % interval === 0;
+    case "WEEKLY": {
+      // Weeks start on Monday (WKST=MO, the default of every calendar app in France)
+      const mondayOf = (d: LocalDateTime) => addDays(d, -((weekdayOf(d) + 6) % 7));
+      const weeks = Math.round(daysBetween(mondayOf(start), mondayOf(day)) / 7);
+      return (
+        weeks % interval === 0 &&
+        (rrule.BYDAY ? matchesByDay(rrule.BYDAY, day, false) : weekdayOf(day) === weekdayOf(start))
+      );
+    }
+    case "MONTHLY":
+      if (monthsBetween % interval !== 0) return false;
+      if (rrule.BYDAY) return matchesByDay(rrule.BYDAY, day, true);
+      if (byMonthDay) {
+        return byMonthDay.some((d) => (d > 0 ? d : daysInMonth(day) + d + 1) === day.day);
+      }
+      return day.day === start.day;
+    case "YEARLY":
+      return (
+        (day.year - start.year) % interval === 0 &&
+        day.month === start.month &&
+        day.day === start.day
+      );
+    default:
+      return false;
+  }
+}
+
+/**
+ * Expands the occurrences of an event overlapping a time window
+ *
+ * @param event - Parsed event (master of a series or single event)
+ * @param from - Window start (UTC timestamp)
+ * @param to - Window end (UTC timestamp)
+ * @returns Start/end UTC timestamps of each occurrence
+ */
+export function expandEvent(
+  event: IcsEvent,
+  from: number,
+  to: number
+): Array<{ start: number; end: number }> {
+  const { start } = event;
+  const startUtc = toUtc(start.local, start.timeZone);
+
+  const durationMs =
+    event.durationMs ??
+    (event.end ? toUtc(event.end.local, event.end.timeZone) - startUtc : start.allDay ? DAY_MS : 0);
+
+  // All-day events keep whole days across DST changes
+  const occurrenceAt = (local: LocalDateTime) => {
+    const occurrenceStart = toUtc(local, start.timeZone);
+    const occurrenceEnd = start.allDay
+      ? toUtc(addDays(local, Math.max(Math.round(durationMs / DAY_MS), 1)), start.timeZone)
+      : occurrenceStart + durationMs;
+    return { start: occurrenceStart, end: occurrenceEnd };
+  };
+
+  const overlaps = (o: { start: number; end: number }) => o.end > from && o.start < to;
+
+  if (!event.rrule) {
+    const occurrence = occurrenceAt(start.local);
+    return overlaps(occurrence) ? [occurrence] : [];
+  }
+
+  const until = event.rrule.UNTIL ? parseIcsDate(event.rrule.UNTIL, {}) : null;
+  const untilUtc = until
+    ? until.allDay
+      ? toUtc(addDays(until.local, 1), start.timeZone) - 1
+      : toUtc(until.local, until.timeZone)
+    : Infinity;
+  const count = event.rrule.COUNT ? Number(event.rrule.COUNT) : Infinity;
+
+  const occurrences: Array<{ start: number; end: number }> = [];
+  let matched = 0;
+
+  for (let offset = 0; offset < MAX_RECURRENCE_DAYS && matched < count; offset++) {
+    const day = addDays(start.local, offset);
+    if (!matchesRule(event.rrule, start.local, day)) continue;
+
+    const occurrence = occurrenceAt(day);
+    if (occurrence.start > untilUtc || occurrence.start >= to) break;
+
+    // Excluded occurrences still count in COUNT
+    matched++;
+    if (!event.exdates.includes(occurrence.start) && overlaps(occurrence)) {
+      occurrences.push(occurrence);
+    }
+  }
+
+  return occurrences;
+}
+
+function formatTime(local: LocalDateTime): string {
+  return `${String(local.hour).padStart(2, "0")}:${String(local.minute).padStart(2, "0")}`;
+}
+
+function formatDate(local: LocalDateTime): string {
+  const month = String(local.month).padStart(2, "0");
+  return `${local.year}-${month}-${String(local.day).padStart(2, "0")}`;
+}
+
+/**
+ * Splits a busy period into France local slots, one per day
+ * A slot reaching midnight ends at 00:00 (end <= start), like a midnight-crossing appointment
+ */
+function splitByFranceDay(start: number, end: number): BusySlot[] {
+  const slots: BusySlot[] = [];
+  let cursor = start;
+
+  while (cursor < end) {
+    const local = zoneParts(cursor, FRANCE_TIMEZONE);
+    const nextMidnight = toUtc(
+      { ...addDays(local, 1), hour: 0, minute: 0, second: 0 },
+      FRANCE_TIMEZONE
+    );
+    const slotEnd = Math.min(end, nextMidnight);
+
+    // Seconds are rounded outwards, a busy minute is never given away
+    const endLocal = zoneParts(Math.ceil(slotEnd / 60000) * 60000, FRANCE_TIMEZONE);
+    slots.push({
+      busy_date: formatDate(local),
+      start_time: formatTime(local),
+      end_time: slotEnd === nextMidnight ? "00:00" : formatTime(endLocal),
+    });
+    cursor = slotEnd;
+  }
+
+  return slots;
+}
+
+/**
+ * Extracts the busy slots of an iCalendar document over a time window
+ *
+ * @param ics - iCalendar text (subscription URL content or uploaded file)
+ * @param from - Window start
+ * @param to - Window end
+ * @returns Busy slots in France local time, sorted by date and time
+ *
+ * @example
+ * extractBusySlots(ics, new Date("2025-12-01T00:00:00Z"), new Date("2026-01-30T00:00:00Z"));
+ * // [{ busy_date: "2025-12-03", start_time: "18:00", end_time: "20:00" }, ...]
+ */
+export function extractBusySlots(ics: string, from: Date, to: Date): BusySlot[] {
+  const events = parseIcsEvents(ics);
+  const window = { from: from.getTime(), to: to.getTime() };
+
+  // Moved or cancelled occurrences replace the ones of their series
+  const overridden = new Map<string, number[]>();
+  for (const event of events) {
+    if (event.recurrenceId !== null) {
+      overridden.set(event.uid, [...(overridden.get(event.uid) ?? []), event.recurrenceId]);
+    }
+  }
+
+  const slots = events
+    .filter((event) => event.busy)
+    .flatMap((event) => {
+      const series =
+        event.rrule && event.recurrenceId === null
+          ? { ...event, exdates: [...event.exdates, ...(overridden.get(event.uid) ?? [])] }
+          : event;
+      return expandEvent(series, window.from, window.to);
+    })
+    .flatMap((occurrence) => splitByFranceDay(occurrence.start, occurrence.end));
+
+  return slots.sort(
+    (a, b) => a.busy_date.localeCompare(b.busy_date) || a.start_time.localeCompare(b.start_time)
+  );
+}
@@ -0,0 +1,195 @@
+/**
+ * iCalendar (RFC 5545) export of appointments
+ * Used by the calendar-feed function for the subscribed feed and the one-off .ics export.
+ * Appointment dates and times are Paris local time: events carry TZID=Europe/Paris and the
+ * VTIMEZONE below, so calendar apps place them right on both sides of a DST change
+ */
+
+import { formatPrice } from "./currency.ts";
+
+export interface CalendarAppointment {
+  id: string;
+  appointment_date: string; // YYYY-MM-DD
+  start_time: string; // HH:MM[:SS]
+  end_time: string;
+  contact_name: string | null;
+  contact_phone: string | null;
+  service: string | null;
+  status: string;
+  total_price: number | null;
+  notes: string | null;
+  updated_at: string | null;
+  created_at: string | null;
+}
+
+const TIMEZONE = "Europe/Paris";
+
+// CET/CEST since 1996: last Sunday of March 02:00 → CEST, last Sunday of October 03:00 → CET
+const VTIMEZONE_EUROPE_PARIS = [
+  "BEGIN:VTIMEZONE",
+  `TZID:${TIMEZONE}`,
+  "BEGIN:DAYLIGHT",
+  "TZOFFSETFROM:+0100",
+  "TZOFFSETTO:+0200",
+  "TZNAME:CEST",
+  "DTSTART:19700329T020000",
+  "RRULE:FREQ=YEARLY;BYMONTH=3;BYDAY=-1SU",
+  "END:DAYLIGHT",
+  "BEGIN:STANDARD",
+  "TZOFFSETFROM:+0200",
+  "TZOFFSETTO:+0100",
+  "TZNAME:CET",
+  "DTSTART:19701025T030000",
+  "RRULE:FREQ=YEARLY;BYMONTH=10;BYDAY=-1SU",
+  "END:STANDARD",
+  "END:VTIMEZONE",
+];
+
+// Confirmed-like statuses stay CONFIRMED: a past appointment must not vanish from the calendar
+const ICAL_STATUS: Record<string, string> = {
+  pending: "TENTATIVE",
+  confirmed: "CONFIRMED",
+  completed: "CONFIRMED",
+  no_show: "CONFIRMED",
+  cancelled: "CANCELLED",
+};
+
+const STATUS_LABELS: Record<string, string> = {
+  pending: "En attente de validation",
+  confirmed: "Confirmé",
+  completed: "Terminé",
+  no_show: "Client pas venu",
+  cancelled: "Annulé",
+};
+
+/**
+ * Escapes a TEXT value (backslash, semicolon, comma, newline)
+ */
+export function escapeText(text: string): string {
+  return text
+    .replace(/\\/g, "\\\\")
+    .replace(/;/g, "\\;")
+    .replace(/,/g, "\\,")
+    .replace(/\r?\n/g, "\\n");
+}
+
+/**
+ * Folds a content line at 75 octets, continuation lines start with a space
+ * Multi-byte characters (accents, emojis) are never split
+ */
+export function foldLine(line: string): string {
+  const encoder = new TextEncoder();
+  const parts: string[] = [];
+  let current = "";
+  let currentBytes = 0;
+
+  for (const char of line) {
+    const charBytes = encoder.encode(char).length;
+    // The leading space of a continuation line counts in its 75 octets
+    const limit = parts.length === 0 ? 75 : 74;
+    if (currentBytes + charBytes > limit) {
+      parts.push(current);
+      current = "";
+      currentBytes = 0;
+    }
+    current += char;
+    currentBytes += charBytes;
+  }
+  parts.push(current);
+
+  return parts.join("\r\n ");
+}
+
+function addOneDay(date: string): string {
+  const [year, month, day] = date.split("-").map(Number);
+  const next = new Date(Date.UTC(year, month - 1, day + 1));
+  return next.toISOString().slice(0, 10);
+}
+
+// "2025-11-28" + "22:30:00" → "20251128T223000"
+function formatLocalDateTime(date: string, time: string): string {
+  const [hours, minutes, seconds = "00"] = time.split(":");
+  return `${date.replace(/-/g, "")}T${hours}${minutes}${seconds.slice(0, 2)}`;
+}
+
+// ISO timestamp → "20251128T213000Z"
+function formatUtcDateTime(timestamp: string | Date): string {
+  return new Date(timestamp).toISOString().replace(/[-:]/g, "").replace(/\.\d{3}/, "");
+}
+
+/**
+ * Builds the VEVENT of an appointment
+ * UID is stable and SEQUENCE grows with updated_at, so a cancellation or a move
+ * updates the existing event instead of adding a new one
+ *
+ * @param appointment - Appointment row
+ * @param now - Generation time (DTSTAMP fallback)
+ * @returns Unfolded content lines
+ */
+export function buildAppointmentEvent(appointment: CalendarAppointment, now: Date = new Date()): string[] {
+  const startTime = appointment.start_time.slice(0, 5);
+  const endTime = appointment.end_time.slice(0, 5);
+  // 22:00-00:30 ends the next day
+  const endDate = endTime <= startTime ? addOneDay(appointment.appointment_date) : appointment.appointment_date;
+  const updatedAt = appointment.updated_at ?? appointment.created_at ?? now.toISOString();
+  const name = appointment.contact_name || appointment.contact_phone || "Client";
+
+  const description = [
+    appointment.contact_phone ? `Téléphone : +${appointment.contact_phone.split("@")[0]}` : null,
+    appointment.service ? `Prestation : ${appointment.service}` : null,
+    appointment.total_price !== null ? `Prix : ${formatPrice(Number(appointment.total_price))}` : null,
+    `Statut : ${STATUS_LABELS[appointment.status] ?? appointment.status}`,
+    appointment.notes ? `Notes : ${appointment.notes}` : null,
+  ].filter((line): line is string => line !== null);
+
+  return [
+    "BEGIN:VEVENT",
+    `UID:${appointment.id}@appointments`,
+    `DTSTAMP:${formatUtcDateTime(updatedAt)}`,
+    `LAST-MODIFIED:${formatUtcDateTime(updatedAt)}`,
+    `SEQUENCE:${Math.floor(new Date(updatedAt).getTime() / 1000)}`,
+    `DTSTART;TZID=${TIMEZONE}:${formatLocalDateTime(appointment.appointment_date, appointment.start_time)}`,
+    `DTEND;TZID=${TIMEZONE}:${formatLocalDateTime(endDate, appointment.end_time)}`,
+    `SUMMARY:${escapeText(`${appointment.status === "cancelled" ? "Annulé - " : ""}RDV ${name}`)}`,
+    `DESCRIPTION:${escapeText(description.join("\n"))}`,
+    `STATUS:${ICAL_STATUS[appointment.status] ?? "CONFIRMED"}`,
+    "END:VEVENT",
+  ];
+}
+
+/**
+ * Builds a VCALENDAR document
+ *
+ * @param appointments - Appointments to export
+ * @param calendarName - Name shown by calendar apps when subscribing
+ * @param now - Generation time
+ * @returns iCalendar text (CRLF line endings, folded lines)
+ *
+ * @example
+ * new Response(buildCalendar(appointments, "Mes rendez-vous"), {
+ *   headers: { "Content-Type": "text/calendar; charset=utf-8" },
+ * });
+ */
+export function buildCalendar(
+  appointments: CalendarAppointment[],
+  calendarName: string,
+  now: Date = new Date()
+): string {
+  const lines = [
+    "BEGIN:VCALENDAR",
+    "VERSION:2.0",
+    "PRODID:-//Assistant RDV//Rendez-vous//FR",
+    "CALSCALE:GREGORIAN",
+    "METHOD:PUBLISH",
+    `X-WR-CALNAME:${escapeText(calendarName)}`,
+    `X-WR-TIMEZONE:${TIMEZONE}`,
+    // Calendar apps poll the feed about once an hour
+    "REFRESH-INTERVAL;VALUE=DURATION:PT1H",
+    "X-PUBLISHED-TTL:PT1H",
+    ...VTIMEZONE_EUROPE_PARIS,
+    ...appointments.flatMap((appointment) => buildAppointmentEvent(appointment, now)),
+    "END:VCALENDAR",
+  ];
+
+  return lines.map(foldLine).join("\r\n") + "\r\n";
+}
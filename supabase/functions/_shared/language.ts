@@ -0,0 +1,135 @@
+/**
+ * Client language of a conversation
+ * Providers work in Geneva and Zurich: clients write in French, English, German or Italian.
+ * The language is detected by ai-auto-reply and stored on the conversation (conversations.language),
+ * every message sent to the client afterwards uses it.
+ */
+
+import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2.76.1";
+
+export type SupportedLanguage = "fr" | "en" | "de" | "it";
+
+export const SUPPORTED_LANGUAGES: SupportedLanguage[] = ["fr", "en", "de", "it"];
+
+export const DEFAULT_LANGUAGE: SupportedLanguage = "fr";
+
+// Locales used to write dates ("samedi 18 janvier", "Saturday 18 January"...)
+export const DATE_LOCALES: Record<SupportedLanguage, string> = {
+  fr: "fr-FR",
+  en: "en-GB",
+  de: "de-CH",
+  it: "it-CH",
+};
+
+// Words frequent in short chat messages and specific enough to one language
+// (shared words like "hey", "ok", "per" or "tu" are left out on purpose)
+const LANGUAGE_MARKERS: Record<SupportedLanguage, Set<string>> = {
+  fr: new Set([
+    "je", "j'ai", "j'arrive", "t'es", "c'est", "est", "suis", "vous", "pas", "oui", "non", "merci",
+    "salut", "bonjour", "bonsoir", "coucou", "ce", "soir", "demain", "aujourd'hui", "heure", "heures",
+    "combien", "avec", "pour", "quand", "moi", "toi", "ça", "et", "les", "des", "une", "mais",
+    "peux", "veux", "dispo", "maintenant", "où",
+  ]),
+  en: new Set([
+    "i", "i'm", "you", "the", "is", "are", "am", "hi", "hello", "how", "much", "what", "when",
+    "tonight", "tomorrow", "today", "can", "could", "would", "please", "thanks", "thank", "yes",
+    "my", "your", "with", "and", "available", "time", "come", "want", "it's", "now", "where",
+    "address", "see",
+  ]),
+  de: new Set([
+    "ich", "du", "bist", "ist", "und", "nicht", "hallo", "danke", "bitte", "heute", "morgen",
+    "abend", "wann", "wie", "viel", "kann", "möchte", "mit", "für", "zeit", "stunde", "ja", "nein",
+    "noch", "frei", "bin", "hast", "dich", "mich", "gerne", "kommen", "uhr", "jetzt", "wo",
+    "grüezi", "sali",
+  ]),
+  it: new Set([
+    "ciao", "sono", "sei", "io", "che", "grazie", "oggi", "domani", "stasera", "quanto", "costa",
+    "quando", "posso", "vorrei", "con", "ora", "disponibile", "buonasera", "buongiorno", "sì",
+    "bene", "della", "una", "adesso", "dove", "indirizzo", "vengo", "venire", "è",
+  ]),
+};
+
+/**
+ * Reads a stored language (conversations.language), French when missing or unknown
+ *
+ * @param value - Stored value
+ * @returns Supported language
+ */
+export function toSupportedLanguage(value: unknown): SupportedLanguage {
+  return SUPPORTED_LANGUAGES.includes(value as SupportedLanguage)
+    ? (value as SupportedLanguage)
+    : DEFAULT_LANGUAGE;
+}
+
+/**
+ * Guesses the language of a client message from its common words
+ *
+ * Only answers when the text is clear enough: at least two marker words and
+ * more than any other language. Greetings alone ("hey", "ok") give null.
+ *
+ * @param text - Client message(s)
+ * @returns Detected language, or null when unsure
+ *
+ * @example
+ * detectLanguage("Hi, are you available tonight?"); // "en"
+ * detectLanguage("Hallo, hast du heute Abend Zeit?"); // "de"
+ * detectLanguage("ok"); // null
+ */
+export function detectLanguage(text: string): SupportedLanguage | null {
+  const words = text.toLowerCase().replace(/[’`]/g, "'").match(/[\p{L}']+/gu) ?? [];
+
+  const scores = SUPPORTED_LANGUAGES
+    .map((language) => ({
+      language,
+      score: words.filter((word) => LANGUAGE_MARKERS[language].has(word)).length,
+    }))
+    .sort((a, b) => b.score - a.score);
+
+  const [best, second] = scores;
+  if (best.score < 2 || best.score === second.score) {
+    return null;
+  }
+  return best.language;
+}
+
+/**
+ * Formats a date for a client message ("samedi 18 janvier", "Saturday 18 January"...)
+ *
+ * @param isoDate - Date in YYYY-MM-DD format
+ * @param language - Client language
+ * @returns Weekday, day and month in the client language
+ */
+export function formatLongDate(isoDate: string, language: SupportedLanguage): string {
+  const [year, month, day] = isoDate.split("-").map(Number);
+  const date = new Date(Date.UTC(year, month - 1, day, 12));
+  return date.toLocaleDateString(DATE_LOCALES[language], {
+    weekday: "long",
+    day: "numeric",
+    month: "long",
+    timeZone: "UTC",
+  });
+}
+
+/**
+ * Language stored on a conversation, for functions that write to the client
+ * outside of ai-auto-reply (reminders, access info, review...)
+ *
+ * @param supabase - Supabase client (service role)
+ * @param conversationId - Conversation ID
+ * @returns Stored language, French when not detected yet or on error
+ */
+export async function fetchConversationLanguage(
+  supabase: SupabaseClient,
+  conversationId: string,
+): Promise<SupportedLanguage> {
+  const { data, error } = await supabase
+    .from("conversations")
+    .select("language")
+    .eq("id", conversationId)
+    .maybeSingle();
+
+  if (error) {
+    console.error("[language] Error fetching conversation language:", error);
+  }
+  return toSupportedLanguage(data?.language);
+}
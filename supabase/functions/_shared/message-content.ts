@@ -0,0 +1,97 @@
+/**
+ * Typed message content shared by incoming (webhook) and outgoing (send-whatsapp-message) messages
+ * Mirrors the message_type / media_metadata / location / contact columns of `messages`
+ */
+
+export type MessageType =
+  | "text"
+  | "image"
+  | "video"
+  | "audio"
+  | "document"
+  | "location"
+  | "sticker"
+  | "contact";
+
+export interface MediaMetadata {
+  mimetype?: string;
+  file_name?: string;
+  file_length?: number;
+  seconds?: number;
+  width?: number;
+  height?: number;
+  ptt?: boolean; // Voice note recorded in WhatsApp (not a forwarded audio file)
+  storage_path?: string; // Outgoing media uploaded to the message-media bucket
+  transcript?: string;
+  transcription_provider?: string;
+  transcription_error?: string;
+}
+
+export interface LocationData {
+  latitude: number;
+  longitude: number;
+  name: string | null;
+  address: string | null;
+  url: string | null;
+  live: boolean;
+}
+
+export interface ContactData {
+  full_name: string;
+  phone: string | null;
+}
+
+export interface MessageContent {
+  type: MessageType;
+  text: string; // Typed text or caption ("" when there is none)
+  media: MediaMetadata | null;
+  location: LocationData | null;
+  contact: ContactData | null;
+}
+
+function formatCoordinate(value: number): string {
+  return value.toFixed(5);
+}
+
+/**
+ * Text stored in messages.content (conversation list, AI history)
+ * Non-text messages get a bracketed label the AI prompts know about
+ *
+ * @param content - Typed message content
+ * @returns Readable text for the message
+ *
+ * @example
+ * buildMessageContent({ type: "audio", text: "", media: { transcript: "je peux venir vers 22h ?" }, ... });
+ * // "[Message vocal] je peux venir vers 22h ?"
+ * buildMessageContent({ type: "location", location: { latitude: 46.2097812, longitude: 6.142381, name: "Hôtel Cornavin", ... }, ... });
+ * // "[Localisation] Hôtel Cornavin (46.20978, 6.14238)"
+ */
+export function buildMessageContent(content: MessageContent): string {
+  const withText = (label: string, text?: string | null) => (text ? `${label} ${text}` : label);
+
+  switch (content.type) {
+    case "text":
+      return content.text;
+    case "audio":
+      return withText("[Message vocal]", content.media?.transcript);
+    case "location": {
+      const location = content.location!;
+      const place = [location.name, location.address].filter(Boolean).join(", ");
+      const coordinates = `(${formatCoordinate(location.latitude)}, ${formatCoordinate(location.longitude)})`;
+      const label = location.live ? "[Localisation en direct]" : "[Localisation]";
+      return withText(label, place ? `${place} ${coordinates}` : coordinates);
+    }
+    case "contact": {
+      const contact = content.contact!;
+      return withText("[Contact]", [contact.full_name, contact.phone].filter(Boolean).join(" "));
+    }
+    case "image":
+      return withText("[Photo]", content.text);
+    case "video":
+      return withText("[Vidéo]", content.text);
+    case "document":
+      return withText("[Document]", content.text || content.media?.file_name);
+    case "sticker":
+      return "[Sticker]";
+  }
+}
@@ -0,0 +1,398 @@
+/**
+ * Templates of the automated messages (booking confirmation, access info, late nudges,
+ * provider notifications)
+ * A template is plain text with {variables}. Each provider can override the default text,
+ * per client language, from the "Messages automatiques" page (message_templates table,
+ * written by the message-templates function which validates the variables).
+ */
+
+import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2.76.1";
+import { DEFAULT_LANGUAGE, SUPPORTED_LANGUAGES, type SupportedLanguage } from "./language.ts";
+
+export type TemplateKey =
+  | "confirmation"
+  | "access_info"
+  | "late_nudge"
+  | "provider_new_appointment"
+  | "provider_approval_request"
+  | "provider_client_arrived"
+  | "provider_access_info_sent"
+  | "provider_appointment_cancelled"
+  | "provider_appointment_rescheduled"
+  | "provider_payment_received";
+
+export interface TemplateDefinition {
+  label: string;
+  description: string;
+  // Client templates exist in every client language, provider ones in French only
+  audience: "client" | "provider";
+  variables: readonly string[];
+  // One message per line, one of them picked at random (late nudges)
+  variants?: boolean;
+}
+
+export type TemplateValues = Record<string, string | number | null | undefined>;
+
+// Overrides of a provider: template key → language → text
+export type TemplateOverrides = Partial<Record<TemplateKey, Partial<Record<SupportedLanguage, string>>>>;
+
+export interface TemplateValidation {
+  valid: boolean;
+  unknownVariables: string[];
+  error?: string;
+}
+
+export const MAX_TEMPLATE_LENGTH = 1000;
+
+// {name}: anything between braces is a variable, so typos like {Date} are caught
+const VARIABLE_PATTERN = /\{([^{}\s]*)\}/g;
+
+export const TEMPLATE_VARIABLE_LABELS: Record<string, string> = {
+  date: "Date du RDV",
+  time: "Heure du RDV",
+  end_time: "Heure de fin",
+  duration: "Durée",
+  service: "Prestation",
+  extras: "Extras choisis",
+  price_details: "Détail du prix",
+  total_price: "Prix total",
+  address: "Adresse",
+  client_name: "Nom du client",
+  client_phone: "Téléphone du client",
+  floor: "Étage",
+  elevator_info: "Ascenseur",
+  door_code: "Code de la porte",
+  access_instructions: "Instructions d'accès",
+  code: "Code de validation",
+  reason: "Raison donnée par le client",
+  previous_date: "Ancienne date",
+  previous_time: "Ancienne heure",
+  payment_kind: "Acompte ou paiement",
+  amount: "Montant payé",
+};
+
+export const TEMPLATE_DEFINITIONS: Record<TemplateKey, TemplateDefinition> = {
+  confirmation: {
+    label: "Confirmation de RDV",
+    description: "Envoyé au client quand l'assistant confirme une réservation",
+    audience: "client",
+    variables: ["date", "time", "duration", "extras", "price_details", "total_price", "address"],
+  },
+  access_info: {
+    label: "Infos d'accès",
+    description: "Envoyé au client quand vous êtes prête à le recevoir",
+    audience: "client",
+    variables: ["time", "client_name", "floor", "elevator_info", "door_code", "access_instructions"],
+  },
+  late_nudge: {
+    label: "Relance client en retard",
+    description: "Envoyé 5 minutes après l'heure du RDV si le client n'a pas donné de nouvelles",
+    audience: "client",
+    variables: ["time", "client_name"],
+    variants: true,
+  },
+  provider_new_appointment: {
+    label: "Nouveau RDV",
+    description: "Notification WhatsApp reçue pour chaque nouvelle réservation",
+    audience: "provider",
+    variables: [
+      "client_name", "client_phone", "date", "time", "end_time", "duration", "service",
+      "extras", "total_price", "price_details",
+    ],
+  },
+  provider_approval_request: {
+    label: "RDV à valider",
+    description: "Notification reçue en mode validation, avant de répondre OK ou NON",
+    audience: "provider",
+    variables: [
+      "client_name", "client_phone", "date", "time", "end_time", "duration", "service",
+      "total_price", "code",
+    ],
+  },
+  provider_client_arrived: {
+    label: "Client arrivé",
+    description: "Notification reçue quand le client annonce son arrivée",
+    audience: "provider",
+    variables: ["client_name", "time"],
+  },
+  provider_access_info_sent: {
+    label: "Infos d'accès envoyées",
+    description: "Notification reçue après l'envoi des infos d'accès",
+    audience: "provider",
+    variables: ["client_name", "time"],
+  },
+  provider_appointment_cancelled: {
+    label: "RDV annulé",
+    description: "Notification reçue quand le client annule",
+    audience: "provider",
+    variables: ["client_name", "client_phone", "date", "time", "end_time", "reason"],
+  },
+  provider_appointment_rescheduled: {
+    label: "RDV déplacé",
+    description: "Notification reçue quand le client déplace son RDV",
+    audience: "provider",
+    variables: ["client_name", "client_phone", "previous_date", "previous_time", "date", "time", "end_time"],
+  },
+  provider_payment_received: {
+    label: "Paiement reçu",
+    description: "Notification reçue quand un acompte ou un paiement est réglé",
+    audience: "provider",
+    variables: ["client_name", "client_phone", "payment_kind", "amount", "date", "time"],
+  },
+};
+
+type ClientTemplateKey = "confirmation" | "access_info" | "late_nudge";
+type ProviderTemplateKey = Exclude<TemplateKey, ClientTemplateKey>;
+
+const CLIENT_TEMPLATES: Record<SupportedLanguage, Record<ClientTemplateKey, string>> = {
+  fr: {
+    confirmation: "C'est confirmé ! {date} {time}, {price_details} = {total_price}.\n\nMon adresse: {address}",
+    access_info:
+      "Parfait, tu peux monter ! 🎉\n\n🏢 Étage : {floor}\n🛗 Ascenseur : {elevator_info}\n🔑 Code : {door_code}\n\nℹ️ Instructions : {access_instructions}",
+    late_nudge: "T'es en route ? 😊\nTu es là ? 🙂\nT'arrives bientôt ? 😊\nTout va bien ? T'es en chemin ? 🙂",
+  },
+  en: {
+    confirmation: "It's confirmed! {date} {time}, {price_details} = {total_price}.\n\nMy address: {address}",
+    access_info:
+      "Perfect, you can come up! 🎉\n\n🏢 Floor: {floor}\n🛗 Elevator: {elevator_info}\n🔑 Code: {door_code}\n\nℹ️ Instructions: {access_instructions}",
+    late_nudge: "Are you on your way? 😊\nAre you here? 🙂\nArriving soon? 😊\nAll good? On your way? 🙂",
+  },
+  de: {
+    confirmation: "Ist bestätigt! {date} {time}, {price_details} = {total_price}.\n\nMeine Adresse: {address}",
+    access_info:
+      "Perfekt, du kannst hochkommen! 🎉\n\n🏢 Stock: {floor}\n🛗 Lift: {elevator_info}\n🔑 Code: {door_code}\n\nℹ️ Hinweise: {access_instructions}",
+    late_nudge: "Bist du unterwegs? 😊\nBist du da? 🙂\nKommst du bald? 😊\nAlles gut? Bist du auf dem Weg? 🙂",
+  },
+  it: {
+    confirmation: "Confermato! {date} {time}, {price_details} = {total_price}.\n\nIl mio indirizzo: {address}",
+    access_info:
+      "Perfetto, puoi salire! 🎉\n\n🏢 Piano: {floor}\n🛗 Ascensore: {elevator_info}\n🔑 Codice: {door_code}\n\nℹ️ Istruzioni: {access_instructions}",
+    late_nudge: "Sei per strada? 😊\nSei qui? 🙂\nArrivi presto? 😊\nTutto bene? Sei in arrivo? 🙂",
+  },
+};
+
+const PROVIDER_TEMPLATES: Record<ProviderTemplateKey, string> = {
+  provider_new_appointment: `🤖 Nouveau RDV
+
+👤 Client : {client_name} ({client_phone})
+📅 Date : {date}
+🕐 Heure : {time} - {end_time} ({duration})
+
+📋 Service : {service}
+
+💎 Extras : {extras}
+
+💰 Prix total : {total_price}
+   ({price_details})`,
+  provider_approval_request: `🕐 Demande de RDV à valider
+
+👤 Client : {client_name} ({client_phone})
+📅 Date : {date}
+🕐 Heure : {time} - {end_time} ({duration})
+
+📋 Service : {service}
+💰 Prix total : {total_price}
+
+Réponds à ce message par OK pour accepter ou NON pour refuser (ou envoie "OK {code}" / "NON {code}"). Le client sera prévenu automatiquement.`,
+  provider_client_arrived: `🚶 Client arrivé !
+
+👤 {client_name} est arrivé pour le rendez-vous de {time}.
+
+📱 Rendez-vous dans l'app pour envoyer les infos d'accès.`,
+  provider_access_info_sent: `✅ Infos d'accès envoyées
+
+Les informations d'accès ont été envoyées à {client_name} pour le RDV de {time}.`,
+  provider_appointment_cancelled: `❌ RDV annulé par le client
+
+👤 Client : {client_name} ({client_phone})
+📅 Date : {date}
+🕐 Heure : {time} - {end_time}
+
+💬 Raison : {reason}`,
+  provider_appointment_rescheduled: `🔁 RDV déplacé par le client
+
+👤 Client : {client_name} ({client_phone})
+⏪ Avant : {previous_date} à {previous_time}
+📅 Nouvelle date : {date}
+🕐 Nouvelle heure : {time} - {end_time}`,
+  provider_payment_received: `💳 {payment_kind} reçu
+
+👤 Client : {client_name} ({client_phone})
+💰 Montant : {amount}
+📅 RDV : {date} à {time}`,
+};
+
+/**
+ * Languages a template exists in
+ *
+ * @param key - Template key
+ * @returns Every client language for client templates, French for provider notifications
+ */
+export function getTemplateLanguages(key: TemplateKey): SupportedLanguage[] {
+  return TEMPLATE_DEFINITIONS[key].audience === "client" ? SUPPORTED_LANGUAGES : [DEFAULT_LANGUAGE];
+}
+
+/**
+ * Default text of a template
+ *
+ * @param key - Template key
+ * @param language - Client language (ignored for provider notifications)
+ * @returns Default template
+ */
+export function getDefaultTemplate(key: TemplateKey, language: SupportedLanguage = DEFAULT_LANGUAGE): string {
+  if (key in PROVIDER_TEMPLATES) {
+    return PROVIDER_TEMPLATES[key as ProviderTemplateKey];
+  }
+  return CLIENT_TEMPLATES[language][key as ClientTemplateKey];
+}
+
+/**
+ * Checks a template written by a provider
+ *
+ * @param key - Template key
+ * @param body - Template text
+ * @returns Validation result, with the variables the template may not use
+ *
+ * @example
+ * validateTemplate("access_info", "Code : {door_code}, étage {etage}");
+ * // { valid: false, unknownVariables: ["etage"], error: "Unknown variables: {etage}" }
+ */
+export function validateTemplate(key: TemplateKey, body: string): TemplateValidation {
+  if (!body.trim()) {
+    return { valid: false, unknownVariables: [], error: "Template is empty" };
+  }
+  if (body.length > MAX_TEMPLATE_LENGTH) {
+    return { valid: false, unknownVariables: [], error: `Template is longer than ${MAX_TEMPLATE_LENGTH} characters` };
+  }
+
+  const allowed = TEMPLATE_DEFINITIONS[key].variables;
+  const unknownVariables = [...new Set([...body.matchAll(VARIABLE_PATTERN)].map((match) => match[1]))]
+    .filter((name) => !allowed.includes(name));
+
+  if (unknownVariables.length > 0) {
+    return {
+      valid: false,
+      unknownVariables,
+      error: `Unknown variables: ${unknownVariables.map((name) => `{${name}}`).join(", ")}`,
+    };
+  }
+  return { valid: true, unknownVariables: [] };
+}
+
+/**
+ * Fills a template
+ *
+ * A line whose variables are all empty is left out (no "Code :" line without a code),
+ * lines without variables are always kept.
+ *
+ * @param body - Template text
+ * @param values - Variable values (null, undefined and "" are empty)
+ * @returns Message ready to send
+ *
+ * @example
+ * renderTemplate("Parfait ! 🎉\n\n🏢 Étage : {floor}\n🔑 Code : {door_code}", { door_code: "4521" });
+ * // "Parfait ! 🎉\n\n🔑 Code : 4521"
+ */
+export function renderTemplate(body: string, values: TemplateValues): string {
+  const valueOf = (name: string) => {
+    const value = values[name];
+    return value === null || value === undefined ? "" : String(value);
+  };
+
+  return body
+    .split("\n")
+    .filter((line) => {
+      const names = [...line.matchAll(VARIABLE_PATTERN)].map((match) => match[1]);
+      return names.length === 0 || names.some((name) => valueOf(name) !== "");
+    })
+    .map((line) => line.replace(VARIABLE_PATTERN, (_, name: string) => valueOf(name)))
+    .join("\n")
+    .replace(/\n{3,}/g, "\n\n")
+    .trim();
+}
+
+/**
+ * Picks one variant of a template with one message per line (late nudges)
+ *
+ * @param body - Template text
+ * @returns One non-empty line, at random
+ */
+export function pickTemplateVariant(body: string): string {
+  const variants = body.split("\n").map((line) => line.trim()).filter(Boolean);
+  return variants[Math.floor(Math.random() * variants.length)] ?? "";
+}
+
+/**
+ * Template to use: the provider's override when it exists and is still valid, the default otherwise
+ *
+ * @param key - Template key
+ * @param language - Client language
+ * @param overrides - Provider overrides (fetchTemplateOverrides)
+ * @returns Template text
+ */
+export function resolveTemplate(
+  key: TemplateKey,
+  language: SupportedLanguage,
+  overrides: TemplateOverrides = {},
+): string {
+  const templateLanguage = getTemplateLanguages(key).includes(language) ? language : DEFAULT_LANGUAGE;
+  const override = overrides[key]?.[templateLanguage];
+
+  // Written through message-templates, but a template can lose a variable in a later version
+  if (override && validateTemplate(key, override).valid) {
+    return override;
+  }
+  return getDefaultTemplate(key, templateLanguage);
+}
+
+/**
+ * Reads the template overrides of a provider
+ *
+ * @param supabase - Supabase client (service role)
+ * @param userId - Provider
+ * @returns Overrides by template and language, empty on error (defaults are used)
+ */
+export async function fetchTemplateOverrides(
+  supabase: SupabaseClient,
+  userId: string,
+): Promise<TemplateOverrides> {
+  const { data, error } = await supabase
+    .from("message_templates")
+    .select("template_key, language, body")
+    .eq("user_id", userId);
+
+  if (error) {
+    console.error("[message-templates] Error fetching overrides:", error);
+    return {};
+  }
+
+  const overrides: TemplateOverrides = {};
+  for (const row of data ?? []) {
+    const key = row.template_key as TemplateKey;
+    if (!(key in TEMPLATE_DEFINITIONS)) continue;
+    overrides[key] = { ...overrides[key], [row.language as SupportedLanguage]: row.body };
+  }
+  return overrides;
+}
+
+/**
+ * Template of a provider for one message
+ *
+ * @param supabase - Supabase client (service role)
+ * @param userId - Provider
+ * @param key - Template key
+ * @param language - Client language
+ * @returns Template text (override or default)
+ *
+ * @example
+ * const template = await loadTemplate(supabase, userId, "late_nudge", "en");
+ * const message = renderTemplate(pickTemplateVariant(template), { time: "21:00" });
+ */
+export async function loadTemplate(
+  supabase: SupabaseClient,
+  userId: string,
+  key: TemplateKey,
+  language: SupportedLanguage = DEFAULT_LANGUAGE,
+): Promise<string> {
+  return resolveTemplate(key, language, await fetchTemplateOverrides(supabase, userId));
+}
@@ -0,0 +1,119 @@
+/**
+ * Mock payment gateway, to run the payment flow without a real provider
+ * The link opens a page served by payment-webhook with "Payer" / "Refuser" buttons,
+ * each posting a signed event back to the webhook like a real gateway would.
+ *
+ * Events are signed with PAYMENT_WEBHOOK_SECRET (HMAC-SHA256 of "reference:status"),
+ * so they can also be sent by hand:
+ *   curl -X POST <webhook> -H "Content-Type: application/json" \
+ *     -d '{"reference":"mock_...","status":"paid","signature":"<hex>"}'
+ */
+
+import { verifyHmacSignature } from "./webhook-security.ts";
+import type { PaymentEvent, PaymentGateway, PaymentLinkRequest } from "./payment-gateway.ts";
+
+async function signEvent(reference: string, status: string, secret: string): Promise<string> {
+  const encoder = new TextEncoder();
+  const key = await crypto.subtle.importKey(
+    "raw",
+    encoder.encode(secret),
+    { name: "HMAC", hash: "SHA-256" },
+    false,
+    ["sign"]
+  );
+  const signature = await crypto.subtle.sign("HMAC", key, encoder.encode(`${reference}:${status}`));
+
+  return Array.from(new Uint8Array(signature))
+    .map((b) => b.toString(16).padStart(2, "0"))
+    .join("");
+}
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
+
+/**
+ * Creates the mock gateway
+ *
+ * @param webhookUrl - Public URL of the payment-webhook function
+ * @param secret - PAYMENT_WEBHOOK_SECRET
+ * @returns Gateway named "mock"
+ */
+export function createMockPaymentGateway(webhookUrl: string, secret: string): PaymentGateway {
+  return {
+    name: "mock",
+
+    createPaymentLink(request: PaymentLinkRequest) {
+      if (!secret) {
+        return Promise.reject(new Error("PAYMENT_WEBHOOK_SECRET is required by the mock gateway"));
+      }
+
+      const reference = `mock_${crypto.randomUUID()}`;
+      const params = new URLSearchParams({
+        checkout: reference,
+        amount: String(request.amount),
+        currency: request.currency,
+        label: request.description,
+      });
+
+      return Promise.resolve({ reference, url: `${webhookUrl}?${params}` });
+    },
+
+    async parseWebhook(req: Request): Promise<PaymentEvent> {
+      const contentType = req.headers.get("content-type") ?? "";
+      const fields: Record<string, string> = contentType.includes("application/json")
+        ? await req.json()
+        : Object.fromEntries(new URLSearchParams(await req.text()));
+
+      const { reference, status, signature } = fields;
+
+      if (!reference || (status !== "paid" && status !== "failed")) {
+        throw new Error("reference and status (paid|failed) are required");
+      }
+
+      if (!(await verifyHmacSignature(`${reference}:${status}`, signature ?? "", secret))) {
+        throw new Error("Invalid signature");
+      }
+
+      return { reference, status };
+    },
+
+    async renderCheckout(req: Request): Promise<Response | null> {
+      const url = new URL(req.url);
+      const reference = url.searchParams.get("checkout");
+      if (req.method !== "GET" || !reference || !secret) {
+        return null;
+      }
+
+      const amount = Number(url.searchParams.get("amount")) || 0;
+      const currency = escapeHtml(url.searchParams.get("currency") ?? "CHF");
+      const label = escapeHtml(url.searchParams.get("label") ?? "");
+      const button = async (status: "paid" | "failed", text: string) => `
+        <form method="POST">
+          <input type="hidden" name="reference" value="${escapeHtml(reference)}">
+          <input type="hidden" name="status" value="${status}">
+          <input type="hidden" name="signature" value="${await signEvent(reference, status, secret)}">
+          <button type="submit">${text}</button>
+        </form>`;
+
+      const html = `<!DOCTYPE html>
+<html lang="fr">
+<head><meta charset="utf-8"><meta name="viewport" content="width=device-width, initial-scale=1"><title>Paiement (test)</title></head>
+<body style="font-family: sans-serif; max-width: 360px; margin: 40px auto; text-align: center">
+  <p style="color: #b45309">Paiement de test, aucun argent n'est débité</p>
+  <h1>${currency} ${amount}</h1>
+  <p>${label}</p>
+  ${await button("paid", "Payer")}
+  <br>
+  ${await button("failed", "Refuser le paiement")}
+</body>
+</html>`;
+
+      return new Response(html, { headers: { "Content-Type": "text/html; charset=utf-8" } });
+    },
+  };
+}
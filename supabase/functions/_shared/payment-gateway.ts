@@ -0,0 +1,179 @@
+/**
+ * Payment links for appointments (appointments.payment_*)
+ * A gateway issues the link sent to the client and turns its webhook calls into payment
+ * events, reconciled by the payment-webhook function.
+ * The gateway is chosen by PAYMENT_GATEWAY (only "mock" for now), no gateway = no links
+ */
+
+import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2.76.1";
+import { CURRENCY, formatPrice } from "./currency.ts";
+import { CLIENT_MESSAGES } from "./client-messages.ts";
+import { DEFAULT_LANGUAGE, type SupportedLanguage } from "./language.ts";
+import { createMockPaymentGateway } from "./payment-gateway-mock.ts";
+
+export type PaymentKind = "deposit" | "full";
+
+export type PaymentStatus = "not_required" | "unpaid" | "paid" | "failed";
+
+export interface PaymentLinkRequest {
+  appointmentId: string;
+  amount: number;
+  currency: string;
+  kind: PaymentKind;
+  description: string;
+}
+
+export interface PaymentLink {
+  reference: string;
+  url: string;
+}
+
+/**
+ * Outcome of a payment, as reported by the gateway's webhook
+ */
+export interface PaymentEvent {
+  reference: string;
+  status: "paid" | "failed";
+}
+
+export interface PaymentGateway {
+  name: string;
+  createPaymentLink(request: PaymentLinkRequest): Promise<PaymentLink>;
+  /**
+   * Reads and authenticates a webhook call
+   * @throws {Error} If the call is not a valid event from this gateway
+   */
+  parseWebhook(req: Request): Promise<PaymentEvent>;
+  /**
+   * Hosted payment page, for gateways served by payment-webhook itself (mock)
+   * Returns null when the request is not for the payment page
+   */
+  renderCheckout?(req: Request): Promise<Response | null>;
+}
+
+/**
+ * Payment link sent to the client with the booking confirmation
+ */
+export interface IssuedPaymentLink {
+  kind: PaymentKind;
+  amount: number;
+  url: string;
+}
+
+/**
+ * Creates the gateway configured for this environment
+ *
+ * @returns Gateway, or null if payment links are not set up
+ */
+export function getPaymentGateway(): PaymentGateway | null {
+  const name = Deno.env.get("PAYMENT_GATEWAY");
+
+  switch (name) {
+    case undefined:
+    case "":
+      return null;
+    case "mock": {
+      const webhookUrl = Deno.env.get("PAYMENT_WEBHOOK_URL") ||
+        `${Deno.env.get("SUPABASE_URL")}/functions/v1/payment-webhook`;
+      return createMockPaymentGateway(webhookUrl, Deno.env.get("PAYMENT_WEBHOOK_SECRET") ?? "");
+    }
+    default:
+      console.warn("[payments] ⚠️ Unknown PAYMENT_GATEWAY:", name);
+      return null;
+  }
+}
+
+/**
+ * Issues the payment link of an appointment waiting for a payment (payment_status 'unpaid')
+ * A link already issued is returned as is, so a retried confirmation never creates a second one.
+ * Never throws: a missing link must not block the booking
+ *
+ * @param supabase - Supabase client (service role)
+ * @param appointmentId - Appointment ID
+ * @returns Link to send to the client, or null if nothing is due or the gateway failed
+ *
+ * @example
+ * const payment = await issuePaymentLink(supabase, appointment.id);
+ * if (payment) message += `\n\n${formatPaymentLinkMessage(payment)}`;
+ */
+export async function issuePaymentLink(
+  supabase: SupabaseClient,
+  appointmentId: string
+): Promise<IssuedPaymentLink | null> {
+  const { data: appointment, error } = await supabase
+    .from("appointments")
+    .select("id, appointment_date, payment_status, payment_kind, payment_amount, payment_url")
+    .eq("id", appointmentId)
+    .single();
+
+  if (error || !appointment) {
+    console.error("[payments] Error fetching appointment:", error);
+    return null;
+  }
+
+  if (appointment.payment_status !== "unpaid" || !appointment.payment_kind || !appointment.payment_amount) {
+    return null;
+  }
+
+  const kind = appointment.payment_kind as PaymentKind;
+  const amount = Number(appointment.payment_amount);
+
+  if (appointment.payment_url) {
+    return { kind, amount, url: appointment.payment_url };
+  }
+
+  const gateway = getPaymentGateway();
+  if (!gateway) {
+    console.warn("[payments] ⚠️ Payment due but no PAYMENT_GATEWAY configured");
+    return null;
+  }
+
+  try {
+    const link = await gateway.createPaymentLink({
+      appointmentId,
+      amount,
+      currency: CURRENCY.code,
+      kind,
+      description: `${kind === "deposit" ? "Acompte" : "RDV"} du ${appointment.appointment_date}`,
+    });
+
+    const { error: updateError } = await supabase
+      .from("appointments")
+      .update({
+        payment_provider: gateway.name,
+        payment_reference: link.reference,
+        payment_url: link.url,
+      })
+      .eq("id", appointmentId);
+
+    if (updateError) {
+      // Without the reference the webhook could not match the payment: don't send the link
+      console.error("[payments] Error saving payment link:", updateError);
+      return null;
+    }
+
+    console.log(`[payments] ✅ ${gateway.name} link issued for appointment ${appointmentId}`);
+    return { kind, amount, url: link.url };
+  } catch (linkError) {
+    console.error("[payments] Error creating payment link:", linkError);
+    return null;
+  }
+}
+
+/**
+ * Formats the payment part of the client's confirmation message
+ *
+ * @param payment - Issued link
+ * @param language - Client language
+ * @returns Message lines
+ *
+ * @example
+ * formatPaymentLinkMessage({ kind: "deposit", amount: 50, url: "https://..." });
+ * // "Pour bloquer ton créneau, acompte de CHF 50 à régler ici : https://..."
+ */
+export function formatPaymentLinkMessage(
+  payment: IssuedPaymentLink,
+  language: SupportedLanguage = DEFAULT_LANGUAGE,
+): string {
+  return CLIENT_MESSAGES[language].paymentLink(payment.kind, formatPrice(payment.amount), payment.url);
+}
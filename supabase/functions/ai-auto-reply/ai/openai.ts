@@ -1,44 +1,51 @@
 /**
- * OpenAI API client
- * Handles all interactions with OpenAI API for AI responses
+ * OpenAI-format chat requests
+ * Builds the request in the OpenAI chat format (our internal format) and sends it
+ * through the configured LLM provider (OpenAI, OpenAI-compatible, Anthropic, fake).
+ * Tool calls are executed and their results fed back to the model (tool loop).
  */
 
-import { OPENAI_CONFIG } from '../config.ts';
+import { OPENAI_CONFIG, LLM_CONFIG } from '../config.ts';
 import type { 
   OpenAIRequestBody, 
   OpenAIResponse, 
   OpenAIMessage,
   OpenAITool,
-  OpenAIResponseFormat,
   Message,
-  AIMode
+  AIMode,
+  LLMProvider,
+  ToolExecutor,
+  ToolLoopResult
 } from '../types.ts';
 
 /**
  * Builds OpenAI request body based on AI mode
  * 
  * WORKFLOW mode:
- * - Enables function calling (create_appointment_summary)
+ * - Enables function calling (create_appointment_summary, cancel/reschedule)
  * - Returns plain text responses
  * 
  * WAITING mode:
- * - Uses JSON structured output (no function calling)
+ * - Uses JSON structured output
  * - Returns JSON with message, client_has_arrived, confidence
+ * - Function calling only for cancel/reschedule of today's appointment
  * 
  * @param systemPrompt - System prompt string
  * @param conversationHistory - Array of messages
  * @param aiMode - AI mode (WORKFLOW or WAITING)
- * @param appointmentTool - Appointment tool for function calling (WORKFLOW mode only)
+ * @param tools - Tools exposed for function calling (none by default)
+ * @param model - Model name (provider's model)
  * @returns OpenAI request body
  */
 export function buildOpenAIRequest(
   systemPrompt: string,
   conversationHistory: OpenAIMessage[],
   aiMode: AIMode,
-  appointmentTool?: OpenAITool
+  tools: OpenAITool[] = [],
+  model: string = OPENAI_CONFIG.MODEL
 ): OpenAIRequestBody {
   const requestBody: OpenAIRequestBody = {
-    model: OPENAI_CONFIG.MODEL,
+    model,
     messages: [
       {
         role: 'system',
@@ -50,9 +57,9 @@ export function buildOpenAIRequest(
     max_tokens: OPENAI_CONFIG.MAX_TOKENS
   };
 
-  // WORKFLOW mode: Enable function calling
-  if (aiMode === 'WORKFLOW' && appointmentTool) {
-    requestBody.tools = [appointmentTool];
+  // Function calling: booking tool in WORKFLOW, cancel/reschedule in both modes
+  if (tools.length > 0) {
+    requestBody.tools = tools;
     requestBody.tool_choice = 'auto';
   }
 
@@ -112,45 +119,6 @@ export function formatMessagesForOpenAI(
   });
 }
 
-/**
- * Calls OpenAI API
- * 
- * @param requestBody - OpenAI request body
- * @param apiKey - OpenAI API key
- * @returns OpenAI response
- * @throws Error if API call fails after retries
- */
-export async function callOpenAI(
-  requestBody: OpenAIRequestBody,
-  apiKey: string
-): Promise<OpenAIResponse> {
-  const controller = new AbortController();
-  const timeoutId = setTimeout(() => controller.abort(), 30000); // 30s timeout
-  
-  try {
-    const response = await fetch('https://api.openai.com/v1/chat/completions', {
-      method: 'POST',
-      headers: {
-        'Authorization': `Bearer ${apiKey}`,
-        'Content-Type': 'application/json'
-      },
-      body: JSON.stringify(requestBody),
-      signal: controller.signal
-    });
-
-    if (!response.ok) {
-      const errorText = await response.text();
-      console.error('[openai] API error:', response.status, errorText);
-      throw new Error(`OpenAI API error: ${response.status} - ${errorText}`);
-    }
-
-    const data: OpenAIResponse = await response.json();
-    return data;
-  } finally {
-    clearTimeout(timeoutId);
-  }
-}
-
 /**
  * Extracts the message content from OpenAI response
  * Handles both normal responses and JSON responses (WAITING mode)
@@ -235,41 +203,128 @@ export function extractToolCall(response: OpenAIResponse) {
 }
 
 /**
- * Executes complete OpenAI request flow
- * Orchestrates: build request → format messages → call API → measure latency
+ * Runs the tool loop: call the model, execute the tools it asks for,
+ * send the results back, until it answers without tools
+ *
+ * - Every tool call of a turn is executed (not only the first one)
+ * - Failed validations come back as tool output, so the model can explain
+ *   the problem and propose something else
+ * - A tool result with a `reply` (booking confirmed, cancelled...) ends the loop:
+ *   those confirmations stay deterministic
+ * - The last allowed call is made with tool_choice "none" so the model has to answer
+ * - Attachments set by tools (address pin) are collected, the caller sends them after the reply
+ *
+ * @param requestBody - Initial request (system prompt + history)
+ * @param provider - LLM provider
+ * @param executeTool - Runs one tool call
+ * @param maxIterations - Maximum model calls
+ * @returns Last response, final reply (if a tool set one), executed tools and per-call latency
+ */
+export async function runToolLoop(
+  requestBody: OpenAIRequestBody,
+  provider: LLMProvider,
+  executeTool: ToolExecutor,
+  maxIterations: number = LLM_CONFIG.MAX_TOOL_ITERATIONS
+): Promise<ToolLoopResult> {
+  const messages: OpenAIMessage[] = [...requestBody.messages];
+  const executedToolCalls: ToolLoopResult['toolCalls'] = [];
+  const attachments: ToolLoopResult['attachments'] = [];
+  const llmCalls: ToolLoopResult['llmCalls'] = [];
+
+  const done = (response: OpenAIResponse, reply: string | null): ToolLoopResult => ({
+    response,
+    reply,
+    attachments,
+    toolCalls: executedToolCalls,
+    llmCalls,
+    latencyMs: llmCalls.reduce((total, call) => total + call.latencyMs, 0)
+  });
+
+  for (let iteration = 1; ; iteration++) {
+    const isLastIteration = iteration >= maxIterations;
+    const body: OpenAIRequestBody = { ...requestBody, messages: [...messages] };
+    if (isLastIteration && body.tools) {
+      body.tool_choice = 'none';
+    }
+
+    const startTime = Date.now();
+    const response = await provider.chat(body);
+    const latencyMs = Date.now() - startTime;
+
+    llmCalls.push({ response, latencyMs });
+
+    const message = response.choices[0].message;
+    const toolCalls = message.tool_calls ?? [];
+
+    if (toolCalls.length === 0) {
+      return done(response, null);
+    }
+
+    if (isLastIteration) {
+      console.warn('[tool-loop] ⚠️ Still calling tools after', iteration, 'calls, stopping');
+      return done(response, null);
+    }
+
+    messages.push({ role: 'assistant', content: message.content ?? '', tool_calls: toolCalls });
+
+    const replies: string[] = [];
+    for (const toolCall of toolCalls) {
+      console.log('[tool-loop] 🛠️ Iteration', iteration, '-', toolCall.function.name);
+
+      const { output, reply, attachments: toolAttachments } = await executeTool(toolCall);
+      executedToolCalls.push({
+        name: toolCall.function.name,
+        arguments: toolCall.function.arguments,
+        output
+      });
+      messages.push({ role: 'tool', tool_call_id: toolCall.id, content: JSON.stringify(output) });
+
+      if (reply) {
+        replies.push(reply);
+      }
+      attachments.push(...(toolAttachments ?? []));
+    }
+
+    if (replies.length > 0) {
+      return done(response, replies.join('\n\n'));
+    }
+  }
+}
+
+/**
+ * Executes complete chat request flow
+ * Orchestrates: build request → format messages → tool loop through the provider
  *
  * @param systemPrompt - System prompt string
  * @param messages - Conversation messages
  * @param enrichedLastMessage - Enriched last message with temporal info
  * @param aiMode - AI mode (WORKFLOW or WAITING)
- * @param appointmentTool - Appointment tool for function calling (WORKFLOW only)
- * @returns Object with response and latency in milliseconds
+ * @param tools - Tools exposed for function calling
+ * @param provider - LLM provider (see createLLMProvider)
+ * @param executeTool - Runs the tools the model calls (see createToolExecutor)
+ * @returns Tool loop result (last response, final reply, executed tools, latency)
  *
  * @example
- * const { response, latencyMs } = await executeOpenAIRequest(
+ * const { response, reply, latencyMs } = await executeOpenAIRequest(
  *   systemPrompt,
  *   messages,
  *   enrichedMessage,
  *   'WORKFLOW',
- *   appointmentTool
+ *   [appointmentTool],
+ *   provider,
+ *   createToolExecutor(toolContext)
  * );
- * console.log(`OpenAI responded in ${latencyMs}ms`);
+ * console.log(`${provider.name} answered in ${latencyMs}ms`);
  */
-export async function executeOpenAIRequest(
+export function executeOpenAIRequest(
   systemPrompt: string,
   messages: Message[],
   enrichedLastMessage: string | undefined,
   aiMode: AIMode,
-  appointmentTool?: OpenAITool,
-  apiKey?: string
-): Promise<{ response: OpenAIResponse; latencyMs: number }> {
-  // Get OpenAI API key from parameter or environment
-  // Parameter takes precedence (for dependency injection in tests)
-  const openaiApiKey = apiKey || Deno.env.get('OPENAI_API_KEY');
-  if (!openaiApiKey) {
-    throw new Error('OPENAI_API_KEY environment variable is not set');
-  }
-
+  tools: OpenAITool[],
+  provider: LLMProvider,
+  executeTool: ToolExecutor
+): Promise<ToolLoopResult> {
   // Format conversation messages for OpenAI
   const formattedMessages = formatMessagesForOpenAI(messages, enrichedLastMessage);
 
@@ -278,13 +333,9 @@ export async function executeOpenAIRequest(
     systemPrompt,
     formattedMessages,
     aiMode,
-    appointmentTool
+    tools,
+    provider.model
   );
 
-  // Call OpenAI API and measure latency
-  const startTime = Date.now();
-  const response = await callOpenAI(requestBody, openaiApiKey);
-  const latencyMs = Date.now() - startTime;
-
-  return { response, latencyMs };
+  return runToolLoop(requestBody, provider, executeTool);
 }
@@ -0,0 +1,164 @@
+/**
+ * Persona preview (Informations page)
+ * Answers a sample conversation with the persona being edited, before it is saved:
+ * the provider's real tarifs and availabilities, no tools, nothing stored or sent
+ */
+
+import { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2.76.1';
+import { AI_MODES, APPOINTMENT_STATUS, type AIMode } from '../config.ts';
+import { toFranceTime, toFranceISODate, getFranceHours, getFranceMinutes } from '../utils/timezone.ts';
+import { buildDynamicEnums } from '../utils/enums.ts';
+import { buildPriceMappings } from '../utils/pricing.ts';
+import { fetchAllUserData } from '../data/user.ts';
+import { resolveConversationLanguage } from '../data/conversation.ts';
+import { buildUserContext, buildCurrentDateTime, formatTimeFromMinutes } from '../data/context.ts';
+import { computeAvailabilityDays, formatAvailabilityOverview } from '../availability/calculator.ts';
+import { getTimeOffPeriods, formatTimeOffPeriods } from '../availability/exceptions.ts';
+import { getDefaultBuffers } from '../availability/buffers.ts';
+import { buildWaitingPrompt } from './prompts/waiting.ts';
+import { buildWorkflowPrompt } from './prompts/workflow.ts';
+import { buildOpenAIRequest, extractMessageContent, formatMessagesForOpenAI } from './openai.ts';
+import type { SupportedLanguage } from '../../_shared/language.ts';
+import type { AiPersona, Appointment, LLMProvider, Message, UserInformation } from '../types.ts';
+
+// A sample conversation is a few messages, not a whole history
+const MAX_PREVIEW_MESSAGES = 20;
+const MAX_PREVIEW_MESSAGE_LENGTH = 500;
+
+export interface PersonaPreviewRequest {
+  persona: AiPersona | null;
+  mode?: AIMode;  // WAITING = the client has an appointment in 30 minutes
+  messages: Array<Pick<Message, 'direction' | 'content'>>;
+}
+
+/**
+ * Sample conversation the preview can't answer: the provider's input, not a backend failure
+ */
+export class PersonaPreviewInputError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'PersonaPreviewInputError';
+  }
+}
+
+export interface PersonaPreviewResult {
+  reply: string;
+  system_prompt: string;
+  mode: AIMode;
+  language: SupportedLanguage;
+}
+
+/**
+ * Sample appointment for the WAITING preview: today, in 30 minutes, shortest tarif
+ */
+function buildSampleAppointment(userId: string, userInfo: UserInformation, now: Date): Appointment {
+  const startMinutes = Math.min(getFranceHours(now) * 60 + getFranceMinutes(now) + 30, 23 * 60 + 30);
+  const startTime = formatTimeFromMinutes(startMinutes);
+  const price = userInfo.tarifs?.[0]?.price ?? 0;
+
+  return {
+    id: 'preview',
+    user_id: userId,
+    conversation_id: 'preview',
+    contact_name: 'Client test',
+    contact_phone: '',
+    appointment_date: toFranceISODate(now),
+    start_time: startTime,
+    end_time: formatTimeFromMinutes(Math.min(startMinutes + 60, 23 * 60 + 59)),
+    duration_minutes: 60,
+    service: userInfo.tarifs?.[0]?.duration ?? '1h',
+    selected_extras: [],
+    base_price: price,
+    extras_total: 0,
+    total_price: price,
+    status: APPOINTMENT_STATUS.CONFIRMED,
+    client_arrived: false,
+    provider_ready_to_receive: false
+  };
+}
+
+/**
+ * Answers the last client message of a sample conversation with an unsaved persona
+ *
+ * @param supabase - Supabase client (service role)
+ * @param userId - Provider
+ * @param request - Persona being edited and the sample conversation
+ * @param providerFor - LLM provider for this provider's settings
+ * @returns Reply, composed system prompt, mode and detected language
+ * @throws PersonaPreviewInputError if the conversation is empty or does not end with a client message
+ * @throws Error if the provider's data can't be loaded or the model call fails
+ *
+ * @example
+ * const preview = await runPersonaPreview(supabase, userId, {
+ *   persona: { tone: 'douce et joueuse', emoji_policy: 'few' },
+ *   messages: [{ direction: 'incoming', content: "Salut, t'es dispo ce soir ?" }]
+ * }, (userInfo) => createLLMProvider(resolveLLMConfig(env, userInfo)));
+ * // { reply: 'Coucou toi 😘 Ça va ?', system_prompt: '...', mode: 'WORKFLOW', language: 'fr' }
+ */
+export async function runPersonaPreview(
+  supabase: SupabaseClient,
+  userId: string,
+  request: PersonaPreviewRequest,
+  providerFor: (userInfo: UserInformation) => LLMProvider
+): Promise<PersonaPreviewResult> {
+  const now = toFranceTime(new Date());
+  const messages: Message[] = (Array.isArray(request.messages) ? request.messages : [])
+    .filter((m) => (m.direction === 'incoming' || m.direction === 'outgoing') && typeof m.content === 'string' && m.content.trim())
+    .slice(-MAX_PREVIEW_MESSAGES)
+    .map((m) => ({
+      conversation_id: 'preview',
+      direction: m.direction,
+      content: m.content.trim().slice(0, MAX_PREVIEW_MESSAGE_LENGTH),
+      timestamp: now.toISOString()
+    }));
+
+  const lastMessage = messages[messages.length - 1];
+  if (!lastMessage || lastMessage.direction !== 'incoming') {
+    throw new PersonaPreviewInputError('The sample conversation must end with a client message');
+  }
+
+  const { userInfo, availabilities, exceptions, appointments, busyTimes } = await fetchAllUserData(supabase, userId);
+  const mode = request.mode === AI_MODES.WAITING ? AI_MODES.WAITING : AI_MODES.WORKFLOW;
+  const language = resolveConversationLanguage(null, lastMessage.content, messages);
+  const persona = request.persona ?? null;
+  const currentDateTime = buildCurrentDateTime(now);
+
+  let systemPrompt: string;
+  if (mode === AI_MODES.WAITING) {
+    systemPrompt = buildWaitingPrompt(buildSampleAppointment(userId, userInfo, now), currentDateTime, language, persona);
+  } else {
+    const availabilityDays = computeAvailabilityDays(
+      availabilities, [...appointments, ...busyTimes], now, exceptions, getDefaultBuffers(userInfo)
+    );
+    systemPrompt = buildWorkflowPrompt(
+      buildUserContext(userInfo),
+      currentDateTime,
+      formatAvailabilityOverview(availabilityDays),
+      formatTimeOffPeriods(getTimeOffPeriods(exceptions, toFranceISODate(now))),
+      '',
+      '',
+      '',
+      buildDynamicEnums(userInfo),
+      buildPriceMappings(userInfo.tarifs, userInfo.extras),
+      language,
+      persona
+    );
+  }
+
+  // No tools: the preview shows how she talks, it never books or checks hours
+  const provider = providerFor(userInfo);
+  const response = await provider.chat(
+    buildOpenAIRequest(systemPrompt, formatMessagesForOpenAI(messages), mode, [], provider.model)
+  );
+  let reply = extractMessageContent(response);
+
+  if (mode === AI_MODES.WAITING) {
+    try {
+      reply = JSON.parse(reply).message ?? reply;
+    } catch {
+      // Plain text answer, shown as is
+    }
+  }
+
+  return { reply, system_prompt: systemPrompt, mode, language };
+}
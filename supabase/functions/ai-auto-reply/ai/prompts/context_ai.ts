@@ -3,7 +3,20 @@
  * Builds contextual information for AI prompts based on appointment status
  */
 
-import type { Appointment } from '../../types.ts';
+import { withEmojiPolicy } from './persona.ts';
+import type { Appointment, EmojiPolicy } from '../../types.ts';
+
+// Said while the provider gets ready, emojis removed if her persona uses none
+const WAITING_EXAMPLES = [
+  "J'arrive bb, je finis vite de me préparer 😘",
+  '2-3 min bébé, je me prépare pour toi ❤️',
+  "Patience bb, j'arrive dans 5 min 😊",
+  "Je te préviens dès que j'ai fini de me préparer",
+  'Encore quelques minutes bébé 💋',
+  'Je finis de me préparer, 2 min 😘',
+  "J'arrive tout de suite bb ❤️",
+  'Patience, je me fais belle pour toi 😊'
+];
 
 /**
  * Builds appointment status context for WAITING mode
@@ -15,13 +28,14 @@ import type { Appointment } from '../../types.ts';
  * - Otherwise → General waiting messages
  * 
  * @param todayAppointment - Today's confirmed appointment
+ * @param emojiPolicy - Persona emoji policy (PersonaPrompt.emojiPolicy)
  * @returns Context string to inject into system prompt
  * 
  * @example
  * const context = buildAppointmentStatusContext(todayAppointment);
  * // Returns detailed instructions based on provider_ready and client_arrived status
  */
-export function buildAppointmentStatusContext(todayAppointment: Appointment): string {
+export function buildAppointmentStatusContext(todayAppointment: Appointment, emojiPolicy: EmojiPolicy = 'free'): string {
   const providerReady = todayAppointment.provider_ready_to_receive;
   const clientArrived = todayAppointment.client_arrived;
 
@@ -40,19 +54,12 @@ Provider prêt à recevoir : ${providerReady ? 'OUI' : 'NON'}
 🎯 TON OBJECTIF : Faire patienter le client gentiment avec des excuses variées
 
 📝 EXEMPLES DE MESSAGES D'ATTENTE (varie-les à chaque fois) :
-- "J'arrive bb, je finis vite de me préparer 😘"
-- "2-3 min bébé, je me prépare pour toi ❤️"
-- "Patience bb, j'arrive dans 5 min 😊"
-- "Je te préviens dès que j'ai fini de me préparer"
-- "Encore quelques minutes bébé 💋"
-- "Je finis de me préparer, 2 min 😘"
-- "J'arrive tout de suite bb ❤️"
-- "Patience, je me fais belle pour toi 😊"
+${WAITING_EXAMPLES.map((line) => `- "${withEmojiPolicy(line, emojiPolicy)}"`).join('\n')}
 
 ⚠️ RÈGLES IMPORTANTES :
 - VARIE tes réponses si le client envoie plusieurs messages
 - Mentionne des durées approximatives (2-3 min, 5 min, quelques minutes)
-- Reste amicale et décontractée avec emojis
+- Reste amicale et décontractée${emojiPolicy === 'none' ? ', sans emojis' : ' avec emojis'}
 - NE JAMAIS dire "monte" ou "monte bb" tant que tu n'es pas prête
 - NE JAMAIS donner les codes d'accès (ils seront envoyés automatiquement quand tu seras prête)`;
   }
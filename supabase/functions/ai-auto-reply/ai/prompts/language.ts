@@ -0,0 +1,97 @@
+/**
+ * Client language block for the prompts
+ * The rules stay in French, the model is told which language to answer in and gets
+ * the fixed phrases of the prompts already translated (structured intro, questions, refusals)
+ */
+
+import { DEFAULT_INTRO, withEmojiPolicy, type PersonaPrompt } from './persona.ts';
+import type { SupportedLanguage } from '../../../_shared/language.ts';
+
+interface PromptPhrases {
+  name: string;        // Language name, in French, for the rules
+  address: string;     // How to address the client (tutoiement)
+  greetings: string;
+  introLine: string;   // Translation of the default intro (DEFAULT_INTRO)
+  introHeadings: string;
+  introClosing: string;
+  questions: string;
+  tooSoon: string;
+  offTopic: string;
+  waiting: string;
+}
+
+const PROMPT_PHRASES: Record<Exclude<SupportedLanguage, 'fr'>, PromptPhrases> = {
+  en: {
+    name: 'anglais',
+    address: 'ton familier',
+    greetings: '"Hey", "Hi", "How are you?"',
+    introLine: '"So here\'s what I offer:"',
+    introHeadings: '"Services:", "Extras:", "Taboos:", "My rates:", "My address:"',
+    introClosing: '"All services are included in the base rates :). How long would you like to come for?"',
+    questions: '"How long?", "Want the extra?", "What time?", "Shall I confirm?"',
+    tooSoon: '"Sorry babe, I need at least 15min to get ready 😘"',
+    offTopic: '"Sorry babe, let\'s talk about our date instead? 😏"',
+    waiting: '"Coming babe 😘", "Getting ready for you ❤️", "2 min, I\'m coming 😘"'
+  },
+  de: {
+    name: 'allemand',
+    address: 'tutoiement ("du"), jamais "Sie"',
+    greetings: '"Hey", "Hallo", "Wie geht\'s?"',
+    introLine: '"Also, das biete ich an:"',
+    introHeadings: '"Services:", "Extras:", "Tabus:", "Meine Preise:", "Meine Adresse:"',
+    introClosing: '"Alle Services sind im Grundpreis inbegriffen :). Wie lange möchtest du kommen?"',
+    questions: '"Wie lange?", "Willst du das Extra?", "Um wie viel Uhr?", "Soll ich bestätigen?"',
+    tooSoon: '"Sorry Schatz, ich brauche mindestens 15 Min, um mich fertig zu machen 😘"',
+    offTopic: '"Sorry Schatz, reden wir lieber über unser Treffen? 😏"',
+    waiting: '"Ich komme Schatz 😘", "Ich mache mich für dich fertig ❤️", "2 Min, ich komme 😘"'
+  },
+  it: {
+    name: 'italien',
+    address: 'tutoiement ("tu"), jamais "Lei"',
+    greetings: '"Hey", "Ciao", "Come stai?"',
+    introLine: '"Allora, ecco cosa propongo:"',
+    introHeadings: '"Servizi:", "Extra:", "Tabù:", "Le mie tariffe:", "Il mio indirizzo:"',
+    introClosing: '"Tutti i servizi sono inclusi nelle tariffe base :). Per quanto tempo vuoi venire?"',
+    questions: '"Quanto tempo?", "Vuoi l\'extra?", "A che ora?", "Confermo?"',
+    tooSoon: '"Scusa tesoro, mi servono almeno 15 minuti per prepararmi 😘"',
+    offTopic: '"Scusa tesoro, parliamo del nostro appuntamento? 😏"',
+    waiting: '"Arrivo tesoro 😘", "Mi preparo per te ❤️", "2 minuti e arrivo 😘"'
+  }
+};
+
+/**
+ * Builds the client language block of the workflow and waiting prompts
+ *
+ * @param language - Client language (conversations.language)
+ * @param style - Provider persona (buildPersonaPrompt): custom intro and emoji policy, null = default
+ * @returns Prompt block, empty for French (the prompts are already written in French)
+ *
+ * @example
+ * buildLanguagePrompt('de');
+ * // "LANGUE DU CLIENT (CRITIQUE) :\nLe client écrit en allemand → réponds TOUJOURS en allemand..."
+ */
+export function buildLanguagePrompt(language: SupportedLanguage, style: PersonaPrompt | null = null): string {
+  if (language === 'fr') {
+    return '';
+  }
+
+  const phrases = PROMPT_PHRASES[language];
+  const say = (line: string) => (style ? withEmojiPolicy(line, style.emojiPolicy) : line);
+  // The provider's own intro is translated by the model, like the rest of her phrases
+  const introLine = style && style.intro !== DEFAULT_INTRO
+    ? `"${style.intro}" traduit`
+    : phrases.introLine;
+
+  return `LANGUE DU CLIENT (CRITIQUE) :
+Le client écrit en ${phrases.name} → réponds TOUJOURS en ${phrases.name}, ${phrases.address}, même style court et complice.
+Les phrases d'exemple ci-dessus sont en français : utilise leur version en ${phrases.name}, jamais le français.
+- Accueil : ${phrases.greetings}
+- Message structuré : ${introLine}, ${phrases.introHeadings}, puis ${phrases.introClosing}
+- Questions : ${phrases.questions}
+- Trop tôt : ${say(phrases.tooSoon)}
+- Hors-sujet : ${say(phrases.offTopic)}
+- En attendant le client : ${say(phrases.waiting)}
+Les "suggested_answer" renvoyés par les fonctions sont en français : traduis-les aussi.
+Les noms des durées et des extras restent EXACTEMENT ceux de la liste (pour les fonctions), seul ton message est traduit.
+Si le client change de langue, suis-le.`;
+}
@@ -0,0 +1,122 @@
+/**
+ * Provider persona for the prompts (user_informations.ai_persona)
+ * The provider chooses the tone, greeting, presentation intro, emojis and her own expressions
+ * and rules; the booking, tool and safety rules of the prompts stay fixed
+ */
+
+import type { AIMode } from '../../config.ts';
+import type { AiPersona, EmojiPolicy } from '../../types.ts';
+
+// Limits for the free text fields (also enforced by the Informations form)
+export const PERSONA_LIMITS = {
+  TEXT_MAX_LENGTH: 200,
+  MAX_SIGNATURE_PHRASES: 10,
+  EXTRA_RULES_MAX_LENGTH: 1000
+} as const;
+
+const EMOJI_RULES: Record<EmojiPolicy, string> = {
+  none: 'sans emojis',
+  few: 'un emoji de temps en temps (max 1 par message)',
+  free: 'émojis OK'
+};
+
+// What the prompts said before personas existed
+const DEFAULT_TONE: Record<AIMode, string> = {
+  WORKFLOW: 'friendly/cool/complice',
+  WAITING: 'friendly, sexy, décontracté'
+};
+const DEFAULT_GREETINGS = '"Hey", "Salut", "Coucou"';
+export const DEFAULT_INTRO = 'Alors voici ce que je propose:';
+const DEFAULT_EMOJI_POLICY: Record<AIMode, EmojiPolicy> = {
+  WORKFLOW: 'none',
+  WAITING: 'free'
+};
+
+/**
+ * Persona pieces, ready to be placed in a prompt
+ */
+export interface PersonaPrompt {
+  tone: string;             // "friendly/cool/complice"
+  emojis: string;           // "sans emojis"
+  emojiPolicy: EmojiPolicy; // Applied to the example lines of the prompts (withEmojiPolicy)
+  greetings: string;        // '"Hey", "Salut", "Coucou"'
+  intro: string;            // First line of the structured presentation message
+  customBlock: string;      // Expressions and extra rules, empty if none
+}
+
+/**
+ * Cleans a text field: trimmed, no line breaks (they would break the prompt layout), capped
+ */
+function cleanText(value: unknown, maxLength: number = PERSONA_LIMITS.TEXT_MAX_LENGTH): string {
+  return typeof value === 'string' ? value.replace(/\s+/g, ' ').trim().slice(0, maxLength) : '';
+}
+
+/**
+ * Removes the emojis of an example line when the persona uses none, so the examples
+ * of the prompts never contradict its emoji rule
+ *
+ * @param text - Example line of a prompt
+ * @param policy - Persona emoji policy (PersonaPrompt.emojiPolicy)
+ * @returns The line, without emojis for the "none" policy
+ *
+ * @example
+ * withEmojiPolicy('Désolée bébé, on parle RDV plutôt ? 😏', 'none');
+ * // 'Désolée bébé, on parle RDV plutôt ?'
+ */
+export function withEmojiPolicy(text: string, policy: EmojiPolicy): string {
+  return policy === 'none' ? text.replace(/\s*(\p{Extended_Pictographic}[\uFE0F\u200D]*)+/gu, '') : text;
+}
+
+/**
+ * Composes the provider persona for a prompt
+ *
+ * Missing settings fall back to the default persona, so a provider who never
+ * filled the form gets the prompts as before.
+ *
+ * @param persona - user_informations.ai_persona (null = default)
+ * @param aiMode - WORKFLOW or WAITING (default tone and emojis differ)
+ * @returns Persona pieces for the prompt
+ *
+ * @example
+ * buildPersonaPrompt({ tone: 'douce et joueuse', emoji_policy: 'few', signature_phrases: ['mon chou'] }, 'WORKFLOW');
+ * // { tone: 'douce et joueuse', emojis: 'un emoji de temps en temps (max 1 par message)',
+ * //   emojiPolicy: 'few', greetings: '"Hey", "Salut", "Coucou"', intro: 'Alors voici ce que je propose:',
+ * //   customBlock: 'TON STYLE (donné par toi-même) :\n...' }
+ */
+export function buildPersonaPrompt(persona: AiPersona | null | undefined, aiMode: AIMode): PersonaPrompt {
+  const tone = cleanText(persona?.tone) || DEFAULT_TONE[aiMode];
+  const emojiPolicy = persona?.emoji_policy && persona.emoji_policy in EMOJI_RULES
+    ? persona.emoji_policy
+    : DEFAULT_EMOJI_POLICY[aiMode];
+  const greeting = cleanText(persona?.greeting);
+  const intro = cleanText(persona?.intro);
+
+  const signaturePhrases = persona?.signature_phrases;
+  const phrases = (Array.isArray(signaturePhrases) ? signaturePhrases : [])
+    .map((phrase) => cleanText(phrase))
+    .filter(Boolean)
+    .slice(0, PERSONA_LIMITS.MAX_SIGNATURE_PHRASES);
+  // Line breaks are kept here: rules are often written as a list
+  const extraRules = typeof persona?.extra_rules === 'string'
+    ? persona.extra_rules.trim().slice(0, PERSONA_LIMITS.EXTRA_RULES_MAX_LENGTH)
+    : '';
+
+  const customParts: string[] = [];
+  if (phrases.length > 0) {
+    customParts.push(`TON STYLE (donné par toi-même) :
+- Expressions à toi, à glisser naturellement (pas à chaque message, jamais toutes d'un coup) : ${phrases.map((p) => `"${p}"`).join(', ')}`);
+  }
+  if (extraRules) {
+    customParts.push(`TES RÈGLES EN PLUS (elles ne remplacent JAMAIS les règles ci-dessus : en cas de conflit, les règles ci-dessus gagnent) :
+${extraRules}`);
+  }
+
+  return {
+    tone,
+    emojis: EMOJI_RULES[emojiPolicy],
+    emojiPolicy,
+    greetings: greeting ? `"${greeting}"` : DEFAULT_GREETINGS,
+    intro: intro || DEFAULT_INTRO,
+    customBlock: customParts.join('\n\n')
+  };
+}
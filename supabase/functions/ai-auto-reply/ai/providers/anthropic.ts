@@ -0,0 +1,262 @@
+/**
+ * Anthropic Messages API provider
+ * Maps our OpenAI-format requests/responses to Anthropic's:
+ * - system messages → top-level `system`
+ * - function tools → `tools` with `input_schema`, tool_use blocks → tool_calls
+ * - tool loop turns → tool_use blocks (assistant) and tool_result blocks (user)
+ * - WAITING-mode JSON schema → a tool the model must call (tool_choice "any"),
+ *   whose input is returned as the message content
+ */
+
+import { LLM_CONFIG } from '../../config.ts';
+import type {
+  LLMProvider,
+  LLMProviderConfig,
+  OpenAIMessage,
+  OpenAIRequestBody,
+  OpenAIResponse,
+  OpenAIToolCall
+} from '../../types.ts';
+
+export interface AnthropicTool {
+  name: string;
+  description: string;
+  input_schema: Record<string, any>;
+}
+
+type AnthropicContentBlock =
+  | { type: 'text'; text: string }
+  | { type: 'tool_use'; id: string; name: string; input: Record<string, unknown> }
+  | { type: 'tool_result'; tool_use_id: string; content: string };
+
+export interface AnthropicMessage {
+  role: 'user' | 'assistant';
+  content: string | AnthropicContentBlock[];
+}
+
+export interface AnthropicRequestBody {
+  model: string;
+  system: string;
+  messages: AnthropicMessage[];
+  max_tokens: number;
+  temperature: number;
+  tools?: AnthropicTool[];
+  tool_choice?: { type: 'auto' } | { type: 'any' } | { type: 'none' } | { type: 'tool'; name: string };
+}
+
+export interface AnthropicResponse {
+  id: string;
+  model: string;
+  content: Exclude<AnthropicContentBlock, { type: 'tool_result' }>[];
+  stop_reason: 'end_turn' | 'tool_use' | 'max_tokens' | 'stop_sequence' | null;
+  usage: {
+    input_tokens: number;
+    output_tokens: number;
+  };
+}
+
+/**
+ * Converts an OpenAI-format message to Anthropic content
+ * Plain messages stay strings, tool calls and tool results become blocks
+ */
+function toAnthropicContent(message: OpenAIMessage): string | AnthropicContentBlock[] {
+  if (message.role === 'tool') {
+    return [{ type: 'tool_result', tool_use_id: message.tool_call_id ?? '', content: message.content }];
+  }
+
+  if (!message.tool_calls || message.tool_calls.length === 0) {
+    return message.content;
+  }
+
+  const blocks: AnthropicContentBlock[] = message.content
+    ? [{ type: 'text', text: message.content }]
+    : [];
+
+  for (const toolCall of message.tool_calls) {
+    let input: Record<string, unknown> = {};
+    try {
+      input = JSON.parse(toolCall.function.arguments);
+    } catch {
+      // Invalid arguments were already reported to the model in the tool result
+    }
+    blocks.push({ type: 'tool_use', id: toolCall.id, name: toolCall.function.name, input });
+  }
+
+  return blocks;
+}
+
+function toBlocks(content: string | AnthropicContentBlock[]): AnthropicContentBlock[] {
+  return typeof content === 'string' ? [{ type: 'text', text: content }] : content;
+}
+
+/**
+ * Converts an OpenAI-format request body to an Anthropic Messages request
+ *
+ * Anthropic expects alternating user/assistant turns starting with the user:
+ * consecutive messages of the same side are merged (tool results are user turns),
+ * and a conversation opened by the provider gets a neutral first user turn.
+ *
+ * @param requestBody - OpenAI-format request body
+ * @returns Anthropic request body
+ */
+export function buildAnthropicRequest(requestBody: OpenAIRequestBody): AnthropicRequestBody {
+  const system = requestBody.messages
+    .filter((m) => m.role === 'system')
+    .map((m) => m.content)
+    .join('\n\n');
+
+  const messages: AnthropicMessage[] = [];
+  for (const message of requestBody.messages) {
+    if (message.role === 'system') continue;
+
+    const role = message.role === 'assistant' ? 'assistant' : 'user';
+    const content = toAnthropicContent(message);
+    const last = messages[messages.length - 1];
+
+    if (!last || last.role !== role) {
+      messages.push({ role, content });
+    } else if (typeof last.content === 'string' && typeof content === 'string') {
+      last.content += `\n${content}`;
+    } else {
+      last.content = [...toBlocks(last.content), ...toBlocks(content)];
+    }
+  }
+
+  if (messages.length === 0 || messages[0].role === 'assistant') {
+    messages.unshift({ role: 'user', content: '(suite de la conversation)' });
+  }
+
+  const anthropicRequest: AnthropicRequestBody = {
+    model: requestBody.model,
+    system,
+    messages,
+    max_tokens: requestBody.max_tokens,
+    temperature: requestBody.temperature
+  };
+
+  // Tools stay declared with tool_choice "none": the history may hold tool_use blocks
+  const tools: AnthropicTool[] = (requestBody.tools ?? []).map((tool) => ({
+    name: tool.function.name,
+    description: tool.function.description,
+    input_schema: tool.function.parameters
+  }));
+  const toolsDisabled = requestBody.tool_choice === 'none';
+
+  if (requestBody.response_format) {
+    // No native structured output: the JSON answer is a tool the model has to call
+    const { name, schema } = requestBody.response_format.json_schema;
+    tools.push({
+      name,
+      description: 'Send your answer to the client. Always call this tool unless you call another one.',
+      input_schema: schema
+    });
+    anthropicRequest.tools = tools;
+    anthropicRequest.tool_choice = toolsDisabled ? { type: 'tool', name } : { type: 'any' };
+  } else if (tools.length > 0) {
+    anthropicRequest.tools = tools;
+    anthropicRequest.tool_choice = toolsDisabled ? { type: 'none' } : { type: 'auto' };
+  }
+
+  return anthropicRequest;
+}
+
+/**
+ * Converts an Anthropic Messages response to the OpenAI format
+ *
+ * @param data - Anthropic response
+ * @param responseToolName - Name of the JSON-answer tool (response_format), if any
+ * @returns OpenAI-format response
+ */
+export function parseAnthropicResponse(
+  data: AnthropicResponse,
+  responseToolName?: string
+): OpenAIResponse {
+  let content = data.content
+    .filter((block): block is { type: 'text'; text: string } => block.type === 'text')
+    .map((block) => block.text)
+    .join('');
+
+  const toolCalls: OpenAIToolCall[] = [];
+  for (const block of data.content) {
+    if (block.type !== 'tool_use') continue;
+
+    if (block.name === responseToolName) {
+      content = JSON.stringify(block.input);
+    } else {
+      toolCalls.push({
+        id: block.id,
+        type: 'function',
+        function: { name: block.name, arguments: JSON.stringify(block.input) }
+      });
+    }
+  }
+
+  return {
+    id: data.id,
+    object: 'chat.completion',
+    created: Math.floor(Date.now() / 1000),
+    model: data.model,
+    choices: [
+      {
+        index: 0,
+        message: {
+          role: 'assistant',
+          content,
+          ...(toolCalls.length > 0 ? { tool_calls: toolCalls } : {})
+        },
+        finish_reason: toolCalls.length > 0
+          ? 'tool_calls'
+          : data.stop_reason === 'max_tokens' ? 'length' : 'stop'
+      }
+    ],
+    usage: {
+      prompt_tokens: data.usage.input_tokens,
+      completion_tokens: data.usage.output_tokens,
+      total_tokens: data.usage.input_tokens + data.usage.output_tokens
+    }
+  };
+}
+
+/**
+ * Creates an Anthropic provider
+ *
+ * @param config - Provider config (apiKey required, baseUrl optional)
+ * @returns LLM provider
+ */
+export function createAnthropicProvider(config: LLMProviderConfig): LLMProvider {
+  const url = config.baseUrl ?? LLM_CONFIG.ANTHROPIC_API_URL;
+
+  return {
+    name: 'anthropic',
+    model: config.model,
+
+    async chat(requestBody: OpenAIRequestBody): Promise<OpenAIResponse> {
+      const controller = new AbortController();
+      const timeoutId = setTimeout(() => controller.abort(), LLM_CONFIG.TIMEOUT_MS);
+
+      try {
+        const response = await fetch(url, {
+          method: 'POST',
+          headers: {
+            'x-api-key': config.apiKey ?? '',
+            'anthropic-version': LLM_CONFIG.ANTHROPIC_VERSION,
+            'Content-Type': 'application/json'
+          },
+          body: JSON.stringify(buildAnthropicRequest(requestBody)),
+          signal: controller.signal
+        });
+
+        if (!response.ok) {
+          const errorText = await response.text();
+          console.error('[anthropic] API error:', response.status, errorText);
+          throw new Error(`Anthropic API error: ${response.status} - ${errorText}`);
+        }
+
+        const data: AnthropicResponse = await response.json();
+        return parseAnthropicResponse(data, requestBody.response_format?.json_schema.name);
+      } finally {
+        clearTimeout(timeoutId);
+      }
+    }
+  };
+}
@@ -0,0 +1,94 @@
+/**
+ * LLM provider selection
+ * Environment gives the default provider/model, user_informations can override both
+ */
+
+import { LLM_CONFIG } from '../../config.ts';
+import { createOpenAIProvider } from './openai.ts';
+import { createAnthropicProvider } from './anthropic.ts';
+import { createFakeProvider } from './fake.ts';
+import type { Env } from '../../config/env.ts';
+import type { LLMProvider, LLMProviderConfig, LLMProviderName, UserInformation } from '../../types.ts';
+
+/**
+ * Checks if the environment holds what a provider needs
+ */
+function isProviderConfigured(env: Env, provider: LLMProviderName): boolean {
+  switch (provider) {
+    case 'openai':
+      return !!env.OPENAI_API_KEY;
+    case 'anthropic':
+      return !!env.ANTHROPIC_API_KEY;
+    case 'openai_compatible':
+      return !!env.OPENAI_COMPATIBLE_BASE_URL;
+    case 'fake':
+      return true;
+  }
+}
+
+/**
+ * Resolves the provider and model to use for a user
+ *
+ * Order: user's ai_provider/ai_model → LLM_PROVIDER/LLM_MODEL → built-in defaults.
+ * A user provider without credentials in this environment falls back to the default one.
+ *
+ * @param env - Validated environment
+ * @param userInfo - User's LLM override (optional)
+ * @returns Provider config
+ *
+ * @example
+ * resolveLLMConfig(env, { ai_provider: 'anthropic', ai_model: null });
+ * // { provider: 'anthropic', model: 'claude-3-5-haiku-latest', apiKey: '...' }
+ */
+export function resolveLLMConfig(
+  env: Env,
+  userInfo?: Pick<UserInformation, 'ai_provider' | 'ai_model'>
+): LLMProviderConfig {
+  const defaultProvider = env.LLM_PROVIDER ?? 'openai';
+  const requestedProvider = userInfo?.ai_provider ?? defaultProvider;
+  let provider = requestedProvider;
+
+  if (!isProviderConfigured(env, requestedProvider)) {
+    console.warn('[llm] ⚠️ Provider', requestedProvider, 'not configured, using', defaultProvider);
+    provider = defaultProvider;
+  }
+
+  const model =
+    provider === requestedProvider && userInfo?.ai_model ? userInfo.ai_model :
+    provider === defaultProvider && env.LLM_MODEL ? env.LLM_MODEL :
+    LLM_CONFIG.DEFAULT_MODELS[provider];
+
+  switch (provider) {
+    case 'openai':
+      return { provider, model, apiKey: env.OPENAI_API_KEY };
+    case 'anthropic':
+      return { provider, model, apiKey: env.ANTHROPIC_API_KEY };
+    case 'openai_compatible':
+      return {
+        provider,
+        model,
+        apiKey: env.OPENAI_COMPATIBLE_API_KEY,
+        baseUrl: env.OPENAI_COMPATIBLE_BASE_URL
+      };
+    case 'fake':
+      return { provider, model };
+  }
+}
+
+/**
+ * Creates the provider described by a config
+ *
+ * @param config - Provider config (see resolveLLMConfig)
+ * @returns LLM provider
+ */
+export function createLLMProvider(config: LLMProviderConfig): LLMProvider {
+  switch (config.provider) {
+    case 'openai':
+    case 'openai_compatible':
+      return createOpenAIProvider(config);
+    case 'anthropic':
+      return createAnthropicProvider(config);
+    case 'fake':
+      return createFakeProvider([], config.model);
+  }
+}
@@ -0,0 +1,98 @@
+/**
+ * Deterministic fake LLM provider
+ * Runs the pipeline offline: no network, scripted answers, every request recorded
+ */
+
+import type { LLMProvider, OpenAIRequestBody, OpenAIResponse, OpenAIToolCall } from '../../types.ts';
+
+/**
+ * Scripted answer: plain text, JSON content (WAITING mode) and/or tool calls
+ */
+export interface FakeLLMReply {
+  content?: string;
+  tool_calls?: { name: string; arguments: Record<string, unknown> }[];
+}
+
+/**
+ * Either a list of replies consumed in order, or a function of the request
+ */
+export type FakeLLMScript = FakeLLMReply[] | ((requestBody: OpenAIRequestBody) => FakeLLMReply);
+
+export interface FakeLLMProvider extends LLMProvider {
+  requests: OpenAIRequestBody[];
+}
+
+/**
+ * Default JSON answers for our structured outputs, when the script has none
+ */
+const DEFAULT_JSON_REPLIES: Record<string, Record<string, unknown>> = {
+  ai_waiting_response: { message: 'Ok 😘', client_has_arrived: false, confidence: 'low' },
+  context_analysis: { context_type: 'UNKNOWN', confidence: 'low', reasoning: 'Fake provider' }
+};
+
+function defaultReply(requestBody: OpenAIRequestBody): FakeLLMReply {
+  const schemaName = requestBody.response_format?.json_schema.name;
+  if (schemaName) {
+    return { content: JSON.stringify(DEFAULT_JSON_REPLIES[schemaName] ?? {}) };
+  }
+  return { content: 'Coucou 😘' };
+}
+
+/**
+ * Creates a fake provider
+ *
+ * @param script - Scripted replies (default answers once exhausted)
+ * @param model - Model name reported by the provider
+ * @returns Fake provider exposing the requests it received
+ *
+ * @example
+ * const provider = createFakeProvider([
+ *   { content: 'Tu veux venir pour combien de temps ?' },
+ *   { tool_calls: [{ name: 'cancel_appointment', arguments: { reason: '' } }] }
+ * ]);
+ * // ... run the pipeline ...
+ * provider.requests[0].messages[0].content; // system prompt sent
+ */
+export function createFakeProvider(script: FakeLLMScript = [], model = 'fake'): FakeLLMProvider {
+  const requests: OpenAIRequestBody[] = [];
+  let nextReply = 0;
+
+  return {
+    name: 'fake',
+    model,
+    requests,
+
+    chat(requestBody: OpenAIRequestBody): Promise<OpenAIResponse> {
+      requests.push(requestBody);
+
+      const reply = typeof script === 'function'
+        ? script(requestBody)
+        : script[nextReply++] ?? defaultReply(requestBody);
+
+      const toolCalls: OpenAIToolCall[] = (reply.tool_calls ?? []).map((call, index) => ({
+        id: `call_fake_${requests.length}_${index}`,
+        type: 'function',
+        function: { name: call.name, arguments: JSON.stringify(call.arguments) }
+      }));
+
+      return Promise.resolve({
+        id: `fake-${requests.length}`,
+        object: 'chat.completion',
+        created: 0,
+        model,
+        choices: [
+          {
+            index: 0,
+            message: {
+              role: 'assistant',
+              content: reply.content ?? '',
+              ...(toolCalls.length > 0 ? { tool_calls: toolCalls } : {})
+            },
+            finish_reason: toolCalls.length > 0 ? 'tool_calls' : 'stop'
+          }
+        ],
+        usage: { prompt_tokens: 0, completion_tokens: 0, total_tokens: 0 }
+      });
+    }
+  };
+}
@@ -0,0 +1,63 @@
+/**
+ * OpenAI chat provider
+ * Used for api.openai.com and for any OpenAI-compatible server
+ * (self-hosted model, local mock): the request body is sent as is
+ */
+
+import { LLM_CONFIG } from '../../config.ts';
+import type { LLMProvider, LLMProviderConfig, OpenAIRequestBody, OpenAIResponse } from '../../types.ts';
+
+const OPENAI_BASE_URL = 'https://api.openai.com/v1';
+
+/**
+ * Creates an OpenAI (or OpenAI-compatible) provider
+ *
+ * @param config - Provider config (baseUrl required for openai_compatible, apiKey optional there)
+ * @returns LLM provider
+ *
+ * @example
+ * const provider = createOpenAIProvider({ provider: 'openai', model: 'gpt-4o-mini', apiKey });
+ * const local = createOpenAIProvider({
+ *   provider: 'openai_compatible',
+ *   model: 'llama-3.1-8b-instruct',
+ *   baseUrl: 'http://localhost:8000/v1'
+ * });
+ */
+export function createOpenAIProvider(config: LLMProviderConfig): LLMProvider {
+  const baseUrl = (config.baseUrl ?? OPENAI_BASE_URL).replace(/\/$/, '');
+  const label = config.provider === 'openai' ? 'OpenAI' : 'OpenAI-compatible';
+
+  return {
+    name: config.provider,
+    model: config.model,
+
+    async chat(requestBody: OpenAIRequestBody): Promise<OpenAIResponse> {
+      const controller = new AbortController();
+      const timeoutId = setTimeout(() => controller.abort(), LLM_CONFIG.TIMEOUT_MS);
+
+      const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+      if (config.apiKey) {
+        headers['Authorization'] = `Bearer ${config.apiKey}`;
+      }
+
+      try {
+        const response = await fetch(`${baseUrl}/chat/completions`, {
+          method: 'POST',
+          headers,
+          body: JSON.stringify(requestBody),
+          signal: controller.signal
+        });
+
+        if (!response.ok) {
+          const errorText = await response.text();
+          console.error('[openai] API error:', response.status, errorText);
+          throw new Error(`${label} API error: ${response.status} - ${errorText}`);
+        }
+
+        return await response.json() as OpenAIResponse;
+      } finally {
+        clearTimeout(timeoutId);
+      }
+    }
+  };
+}
@@ -3,32 +3,42 @@
  * Builds confirmation messages to send to clients after appointment creation
  */
 
+import { toFranceISODate, addDaysToISODate } from '../utils/timezone.ts';
+import { formatPaymentLinkMessage, type IssuedPaymentLink } from '../../_shared/payment-gateway.ts';
+import { CLIENT_MESSAGES } from '../../_shared/client-messages.ts';
+import { formatPrice } from '../../_shared/currency.ts';
+import { getDefaultTemplate, renderTemplate } from '../../_shared/message-templates.ts';
+import { DEFAULT_LANGUAGE, formatLongDate, type SupportedLanguage } from '../../_shared/language.ts';
 import type { UserInformation } from '../types.ts';
 
 /**
  * Formats a date reference for display in messages
  * 
  * @param appointmentDate - Date in YYYY-MM-DD format
+ * @param language - Client language
+ * @param inSentence - Lowercase "Aujourd'hui"/"Demain" for the middle of a sentence
  * @returns Formatted day reference ("Aujourd'hui", "Demain", or formatted date)
  */
-function formatDayReference(appointmentDate: string): string {
-  const today = new Date();
-  today.setHours(0, 0, 0, 0);
-  
-  const tomorrow = new Date(today);
-  tomorrow.setDate(tomorrow.getDate() + 1);
-  
-  const apptDate = new Date(appointmentDate + 'T00:00:00');
-  
-  if (apptDate.getTime() === today.getTime()) {
-    return "Aujourd'hui";
-  } else if (apptDate.getTime() === tomorrow.getTime()) {
-    return "Demain";
+function formatDayReference(
+  appointmentDate: string,
+  language: SupportedLanguage,
+  inSentence = false
+): string {
+  const today = toFranceISODate(new Date());
+  const messages = CLIENT_MESSAGES[language];
+
+  let relativeDay: string;
+  if (appointmentDate === today) {
+    relativeDay = messages.today;
+  } else if (appointmentDate === addDaysToISODate(today, 1)) {
+    relativeDay = messages.tomorrow;
   } else {
-    // Format as "le 15 janvier" for other dates
-    const options: Intl.DateTimeFormatOptions = { day: 'numeric', month: 'long' };
-    return `le ${apptDate.toLocaleDateString('fr-FR', options)}`;
+    // "samedi 18 janvier" for other dates of the booking window
+    // (never lowercased: German weekdays keep their capital)
+    return formatLongDate(appointmentDate, language);
   }
+
+  return inSentence ? relativeDay.charAt(0).toLowerCase() + relativeDay.slice(1) : relativeDay;
 }
 
 /**
@@ -39,8 +49,10 @@ function formatDayReference(appointmentDate: string): string {
  * - Time and duration
  * - Total price breakdown (duration + extras)
  * - Address
+ * - Payment link, when the booking asks for a deposit or a payment
  * 
- * Format is friendly and concise, matching the escort's tone
+ * The text is the provider's "confirmation" template (default: friendly and concise);
+ * the payment link is always added after it
  * 
  * @param appointmentDate - Date in YYYY-MM-DD format
  * @param startTime - Start time in HH:MM format
@@ -49,6 +61,9 @@ function formatDayReference(appointmentDate: string): string {
  * @param totalPrice - Total price in CHF
  * @param userInfo - User information (for address)
  * @param priceMappings - Price mappings to show breakdown
+ * @param payment - Payment link issued for the appointment (optional)
+ * @param language - Client language
+ * @param template - Provider's confirmation template (loadTemplate), default text if omitted
  * @returns Confirmation message string
  * @throws {Error} If duration or any extra is not found in price mappings
  * 
@@ -70,12 +85,15 @@ export function buildConfirmationMessage(
   selectedExtras: string[],
   totalPrice: number,
   userInfo: UserInformation,
-  priceMappings: { durationToPriceMap: Record<string, number>; extraToPriceMap: Record<string, number> }
+  priceMappings: { durationToPriceMap: Record<string, number>; extraToPriceMap: Record<string, number> },
+  payment: IssuedPaymentLink | null = null,
+  language: SupportedLanguage = DEFAULT_LANGUAGE,
+  template: string = getDefaultTemplate('confirmation', language)
 ): string {
   const { durationToPriceMap, extraToPriceMap } = priceMappings;
   
   // Determine day text based on appointmentDate
-  const dayText = formatDayReference(appointmentDate);
+  const dayText = formatDayReference(appointmentDate, language);
   
   // Format time (remove leading zero if present)
   const formattedTime = startTime.replace(/^0/, '');
@@ -127,9 +145,19 @@ export function buildConfirmationMessage(
   }
   
   // Build full message
-  const message = `C'est confirmé ! ${dayText} ${formattedTime}, ${priceBreakdown} = CHF ${totalPrice}.
+  let message = renderTemplate(template, {
+    date: dayText,
+    time: formattedTime,
+    duration,
+    extras: actualExtras.join(', '),
+    price_details: priceBreakdown,
+    total_price: formatPrice(totalPrice),
+    address: userInfo.adresse
+  });
 
-Mon adresse: ${userInfo.adresse}`;
+  if (payment) {
+    message += `\n\n${formatPaymentLinkMessage(payment, language)}`;
+  }
   
   return message;
 }
@@ -142,6 +170,8 @@ Mon adresse: ${userInfo.adresse}`;
  * @param duration - Duration
  * @param totalPrice - Total price
  * @param address - Address
+ * @param language - Client language
+ * @param template - Provider's confirmation template, default text if omitted
  * @returns Simple confirmation message
  */
 export function buildSimpleConfirmation(
@@ -149,12 +179,102 @@ export function buildSimpleConfirmation(
   startTime: string,
   duration: string,
   totalPrice: number,
-  address: string
+  address: string,
+  language: SupportedLanguage = DEFAULT_LANGUAGE,
+  template: string = getDefaultTemplate('confirmation', language)
+): string {
+  return renderTemplate(template, {
+    date: formatDayReference(appointmentDate, language),
+    time: startTime.replace(/^0/, ''),
+    duration,
+    price_details: duration,
+    total_price: formatPrice(totalPrice),
+    address
+  });
+}
+
+/**
+ * Builds the message sent to the client when the booking waits for the provider's approval
+ * The final confirmation (or refusal) is sent by review-appointment
+ *
+ * @param appointmentDate - Date in YYYY-MM-DD format
+ * @param startTime - Start time in HH:MM format
+ * @param language - Client language
+ * @returns Pending approval message
+ *
+ * @example
+ * buildPendingApprovalMessage("2025-01-15", "22:00");
+ * // "C'est noté pour demain 22:00 ! Je te confirme très vite 😘"
+ */
+export function buildPendingApprovalMessage(
+  appointmentDate: string,
+  startTime: string,
+  language: SupportedLanguage = DEFAULT_LANGUAGE
 ): string {
-  const dayText = formatDayReference(appointmentDate);
+  const dayInSentence = formatDayReference(appointmentDate, language, true);
   const formattedTime = startTime.replace(/^0/, '');
-  
-  return `C'est confirmé ! ${dayText} ${formattedTime}, ${duration}, CHF ${totalPrice}.
 
-Mon adresse: ${address}`;
+  return CLIENT_MESSAGES[language].pendingApproval(dayInSentence, formattedTime);
+}
+
+/**
+ * Builds the message sent to the client once the appointment has been moved
+ *
+ * @param appointmentDate - New date in YYYY-MM-DD format
+ * @param startTime - New start time in HH:MM format
+ * @param language - Client language
+ * @returns Reschedule confirmation message
+ *
+ * @example
+ * buildRescheduleConfirmationMessage("2025-01-15", "22:00");
+ * // "C'est noté, on se voit demain à 22:00 😘"
+ */
+export function buildRescheduleConfirmationMessage(
+  appointmentDate: string,
+  startTime: string,
+  language: SupportedLanguage = DEFAULT_LANGUAGE
+): string {
+  const dayInSentence = formatDayReference(appointmentDate, language, true);
+  const formattedTime = startTime.replace(/^0/, '');
+
+  return CLIENT_MESSAGES[language].rescheduled(dayInSentence, formattedTime);
+}
+
+/**
+ * Builds the message sent to the client once the appointment has been cancelled
+ *
+ * @param language - Client language
+ * @returns Cancellation confirmation message
+ */
+export function buildCancellationMessage(language: SupportedLanguage = DEFAULT_LANGUAGE): string {
+  return CLIENT_MESSAGES[language].cancelled;
+}
+
+/**
+ * Builds the answer to a client who confirms after a reminder
+ *
+ * @param appointmentDate - Date in YYYY-MM-DD format
+ * @param startTime - Start time in HH:MM format
+ * @param language - Client language
+ * @returns Short acknowledgement
+ *
+ * @example
+ * buildReminderAcknowledgementMessage("2025-01-15", "22:00");
+ * // "Parfait, à demain 22:00 😘" (or "Parfait, à tout à l'heure 😘" the same day)
+ */
+export function buildReminderAcknowledgementMessage(
+  appointmentDate: string,
+  startTime: string,
+  language: SupportedLanguage = DEFAULT_LANGUAGE
+): string {
+  const messages = CLIENT_MESSAGES[language];
+
+  if (appointmentDate === toFranceISODate(new Date())) {
+    return messages.reminderAcknowledgedToday;
+  }
+
+  const dayInSentence = formatDayReference(appointmentDate, language, true);
+  const formattedTime = startTime.substring(0, 5).replace(/^0/, '');
+
+  return messages.reminderAcknowledged(dayInSentence, formattedTime);
 }
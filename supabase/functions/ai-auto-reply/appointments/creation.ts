@@ -5,6 +5,8 @@
 
 import { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2.76.1';
 import { APPOINTMENT_STATUS } from '../config.ts';
+import { isContactBlocked } from '../../_shared/contact-blocklist.ts';
+import { getAppointmentBuffers } from '../availability/buffers.ts';
 import type { AppointmentData, UserInformation, PriceMappings } from '../types.ts';
 
 /**
@@ -154,14 +156,12 @@ export function determineServiceName(
 }
 
 /**
- * Creates an appointment in the database
+ * Builds the appointment row of a booking
  *
- * This function:
- * 1. Validates required fields
- * 2. Calculates duration, end time, and total price
- * 3. Creates the appointment record
+ * Calculates duration, end time, total price and buffers; the status is pending
+ * when the provider approves bookings first. Nothing is written: createAppointment
+ * inserts the row, the sandbox keeps it in memory (data/sandbox.ts).
  *
- * @param supabase - Supabase client
  * @param appointmentData - Appointment data from AI function call
  * @param conversationId - Conversation ID
  * @param userId - User ID
@@ -169,11 +169,10 @@ export function determineServiceName(
  * @param contactName - Contact name (optional)
  * @param userInfo - User information
  * @param priceMappings - Price mappings
- * @returns Created appointment object
- * @throws Error if required fields are missing or creation fails
+ * @returns Row for the appointments table
+ * @throws Error if required fields are missing or a price is unknown
  */
-export async function createAppointment(
-  supabase: SupabaseClient,
+export function buildAppointmentRecord(
   appointmentData: AppointmentData,
   conversationId: string,
   userId: string,
@@ -181,7 +180,7 @@ export async function createAppointment(
   contactName: string | null,
   userInfo: UserInformation,
   priceMappings: PriceMappings
-): Promise<any> {
+) {
   // Validate required fields
   if (!appointmentData.appointment_date) {
     throw new Error('Missing required field: appointment_date');
@@ -195,10 +194,9 @@ export async function createAppointment(
   if (!Array.isArray(appointmentData.selected_extras)) {
     throw new Error('Invalid field: selected_extras must be an array');
   }
-  
+
   // Calculate duration in minutes
   const durationMinutes = parseDurationToMinutes(appointmentData.duration);
-  
 
   // Calculate end time
   const endTime = calculateEndTime(appointmentData.appointment_time, durationMinutes);
@@ -212,9 +210,11 @@ export async function createAppointment(
   
   // Determine service name
   const serviceName = determineServiceName(userInfo, appointmentData.selected_extras);
-  
-  // Build appointment object
-  const appointmentToCreate = {
+
+  // Buffers are stored so that later changes of the settings don't move existing appointments
+  const buffers = getAppointmentBuffers(userInfo, appointmentData.duration, appointmentData.selected_extras);
+
+  return {
     conversation_id: conversationId,
     user_id: userId,
     contact_phone: contactPhone,
@@ -226,10 +226,58 @@ export async function createAppointment(
     service: serviceName,
     selected_extras: appointmentData.selected_extras.filter(e => e !== 'aucun'),
     total_price: totalPrice,
-    status: APPOINTMENT_STATUS.CONFIRMED,
+    buffer_before_minutes: buffers.before,
+    buffer_after_minutes: buffers.after,
+    status: userInfo.require_booking_approval
+      ? APPOINTMENT_STATUS.PENDING
+      : APPOINTMENT_STATUS.CONFIRMED,
     client_arrived: false,
     provider_ready_to_receive: false
   };
+}
+
+/**
+ * Creates an appointment in the database
+ *
+ * This function:
+ * 1. Refuses numbers blocked by the provider
+ * 2. Builds the appointment row (buildAppointmentRecord)
+ * 3. Creates the appointment record
+ *
+ * @param supabase - Supabase client
+ * @param appointmentData - Appointment data from AI function call
+ * @param conversationId - Conversation ID
+ * @param userId - User ID
+ * @param contactPhone - Contact phone number
+ * @param contactName - Contact name (optional)
+ * @param userInfo - User information
+ * @param priceMappings - Price mappings
+ * @returns Created appointment object
+ * @throws Error if required fields are missing, the contact is blocked or creation fails
+ */
+export async function createAppointment(
+  supabase: SupabaseClient,
+  appointmentData: AppointmentData,
+  conversationId: string,
+  userId: string,
+  contactPhone: string,
+  contactName: string | null,
+  userInfo: UserInformation,
+  priceMappings: PriceMappings
+): Promise<any> {
+  if (await isContactBlocked(supabase, userId, contactPhone)) {
+    throw new Error('Contact is blocked by the provider');
+  }
+
+  const appointmentToCreate = buildAppointmentRecord(
+    appointmentData,
+    conversationId,
+    userId,
+    contactPhone,
+    contactName,
+    userInfo,
+    priceMappings
+  );
   
   console.log('[appointment] Creating appointment:', appointmentToCreate);
   
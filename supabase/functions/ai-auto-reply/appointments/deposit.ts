@@ -0,0 +1,60 @@
+/**
+ * Deposit policy for clients who don't show up
+ * Over user_informations.no_show_deposit_threshold no-shows, the WORKFLOW prompt asks for a
+ * deposit (or the whole price in advance) and create_appointment_summary is refused until
+ * the client has confirmed it
+ */
+
+import type { ClientProfile, DepositRequirement, UserInformation } from '../types.ts';
+
+/**
+ * Decides whether this client must pay a deposit before booking
+ *
+ * @param userInfo - User information (deposit policy)
+ * @param profile - Client profile (null = unknown client, never asked)
+ * @returns Deposit to ask for, or null if the client books normally
+ *
+ * @example
+ * getDepositRequirement({ no_show_deposit_threshold: 2, no_show_deposit_type: 'deposit', no_show_deposit_amount: 50, ... }, profile);
+ * // { type: 'deposit', amount: 50, noShowCount: 3 }
+ */
+export function getDepositRequirement(
+  userInfo: UserInformation,
+  profile: ClientProfile | null
+): DepositRequirement | null {
+  const threshold = userInfo.no_show_deposit_threshold ?? 0;
+  if (threshold <= 0 || !profile || profile.no_show_count < threshold) {
+    return null;
+  }
+
+  const amount = Number(userInfo.no_show_deposit_amount);
+
+  // A deposit without an amount can't be announced: the whole price is asked instead
+  if (userInfo.no_show_deposit_type === 'deposit' && amount > 0) {
+    return { type: 'deposit', amount, noShowCount: profile.no_show_count };
+  }
+
+  return { type: 'prepayment', amount: null, noShowCount: profile.no_show_count };
+}
+
+/**
+ * Formats the deposit rule for the WORKFLOW prompt
+ *
+ * @param requirement - Deposit to ask for (null = none)
+ * @returns Prompt section, empty if no deposit is required
+ */
+export function formatDepositNoticeForPrompt(requirement: DepositRequirement | null): string {
+  if (!requirement) {
+    return '';
+  }
+
+  const what = requirement.type === 'deposit'
+    ? `un acompte de CHF ${requirement.amount}, payé avant le RDV et déduit du total`
+    : 'le paiement du RDV en entier, avant le RDV';
+
+  return [
+    `- Pour lui réserver tu demandes ${what}`,
+    '- Annonce-le avant le récap, simplement, comme ta règle. Ne parle pas de ses RDV manqués',
+    "- Appelle create_appointment_summary avec deposit_confirmed: true UNIQUEMENT quand il a dit clairement qu'il paie. Sinon pas de RDV"
+  ].join('\n');
+}
@@ -0,0 +1,158 @@
+/**
+ * Appointment modification utilities
+ * Client-initiated cancellation and rescheduling of an existing appointment
+ */
+
+import { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2.76.1';
+import { APPOINTMENT_STATUS, DAYS_FR } from '../config.ts';
+import { toFranceISODate, toFranceTimeString, getDayOfWeekFromISODate } from '../utils/timezone.ts';
+import { formatShortDate } from '../availability/exceptions.ts';
+import { calculateEndTime } from './creation.ts';
+import type { Appointment } from '../types.ts';
+
+/**
+ * Tool names handled by this module
+ */
+export const APPOINTMENT_CHANGE_TOOLS = {
+  CANCEL: 'cancel_appointment',
+  RESCHEDULE: 'reschedule_appointment'
+} as const;
+
+/**
+ * Finds the next appointment of a conversation that has not started yet
+ *
+ * @param appointments - Provider's pending/confirmed appointments (fetchAppointments)
+ * @param conversationId - Conversation ID
+ * @param currentDate - Current date/time
+ * @returns Earliest upcoming appointment of the conversation, or null
+ *
+ * @example
+ * const upcoming = findUpcomingAppointment(appointments, conversation_id, now);
+ * // { appointment_date: "2025-01-16", start_time: "22:00", ... }
+ */
+export function findUpcomingAppointment(
+  appointments: Appointment[],
+  conversationId: string,
+  currentDate: Date
+): Appointment | null {
+  const today = toFranceISODate(currentDate);
+  const currentTime = toFranceTimeString(currentDate);
+
+  const upcoming = appointments
+    .filter((a) => a.conversation_id === conversationId)
+    .filter((a) =>
+      a.appointment_date > today ||
+      (a.appointment_date === today && a.start_time.substring(0, 5) > currentTime)
+    )
+    .sort((a, b) =>
+      a.appointment_date.localeCompare(b.appointment_date) || a.start_time.localeCompare(b.start_time)
+    );
+
+  return upcoming[0] ?? null;
+}
+
+/**
+ * Formats an appointment for the prompts
+ * Bookings still waiting for the provider's approval are flagged as such,
+ * so the AI never tells the client they are confirmed
+ *
+ * @param appointment - Appointment to describe
+ * @returns One-line description
+ *
+ * @example
+ * formatAppointmentForPrompt(appointment);
+ * // "Jeudi 16/01 à 22:00 (60min, Toutes prestations incluses)"
+ */
+export function formatAppointmentForPrompt(appointment: Appointment): string {
+  const dayName = DAYS_FR[getDayOfWeekFromISODate(appointment.appointment_date)];
+  const date = formatShortDate(appointment.appointment_date);
+  const time = appointment.start_time.substring(0, 5);
+  const pending = appointment.status === APPOINTMENT_STATUS.PENDING
+    ? ' - pas encore confirmé, tu le confirmes très vite'
+    : '';
+
+  return `${dayName} ${date} à ${time} (${appointment.duration_minutes}min, ${appointment.service})${pending}`;
+}
+
+/**
+ * Cancels an appointment at the client's request
+ * The reason, if any, is kept in the appointment notes for the provider
+ *
+ * @param supabase - Supabase client
+ * @param appointment - Appointment to cancel
+ * @param reason - Reason given by the client (may be empty)
+ * @returns Updated appointment
+ * @throws Error if the update fails
+ */
+export async function cancelAppointment(
+  supabase: SupabaseClient,
+  appointment: Appointment,
+  reason: string
+): Promise<Appointment> {
+  const cancellationNote = reason.trim()
+    ? `Annulé par le client : ${reason.trim()}`
+    : 'Annulé par le client';
+
+  const { data, error } = await supabase
+    .from('appointments')
+    .update({
+      status: APPOINTMENT_STATUS.CANCELLED,
+      notes: appointment.notes ? `${appointment.notes}\n${cancellationNote}` : cancellationNote
+    })
+    .eq('id', appointment.id)
+    .select()
+    .single();
+
+  if (error) {
+    console.error('[appointment] Error cancelling appointment:', error);
+    throw error;
+  }
+
+  console.log('[appointment] Appointment cancelled:', appointment.id);
+  return data as Appointment;
+}
+
+/**
+ * Moves an appointment to a new slot, keeping duration, extras and price
+ *
+ * The new slot must have been validated beforehand (validateAppointmentTimeDetailed)
+ * against the provider's appointments WITHOUT this one, otherwise the appointment
+ * would conflict with itself when it is only shifted a little.
+ * Arrival flags are reset: they belonged to the previous slot.
+ *
+ * @param supabase - Supabase client
+ * @param appointment - Appointment to move
+ * @param newDate - New date (YYYY-MM-DD)
+ * @param newTime - New start time (HH:MM)
+ * @returns Updated appointment
+ * @throws Error if the update fails
+ */
+export async function rescheduleAppointment(
+  supabase: SupabaseClient,
+  appointment: Appointment,
+  newDate: string,
+  newTime: string
+): Promise<Appointment> {
+  const endTime = calculateEndTime(newTime, appointment.duration_minutes);
+
+  const { data, error } = await supabase
+    .from('appointments')
+    .update({
+      appointment_date: newDate,
+      start_time: newTime,
+      end_time: endTime,
+      client_arrived: false,
+      provider_ready_to_receive: false
+    })
+    .eq('id', appointment.id)
+    .select()
+    .single();
+
+  if (error) {
+    console.error('[appointment] Error rescheduling appointment:', error);
+    throw error;
+  }
+
+  console.log('[appointment] Appointment rescheduled:', appointment.id, '→', newDate, newTime);
+  return data as Appointment;
+}
@@ -0,0 +1,74 @@
+/**
+ * Payment asked with an AI booking
+ * Decides what the client pays (user_informations.payment_links + the no-show deposit policy)
+ * and stores it on the appointment. The link itself is issued by _shared/payment-gateway.ts
+ * once the booking is confirmed
+ */
+
+import { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2.76.1';
+import type { DepositRequirement, PaymentDue, UserInformation } from '../types.ts';
+
+/**
+ * Decides the payment to ask for a new booking
+ *
+ * - payment_links 'off': nothing (a deposit policy is then only asked in the conversation)
+ * - client under the deposit policy: the deposit, or the whole price for a prepayment
+ * - payment_links 'all': the whole price for every other client
+ *
+ * @param userInfo - User information (payment_links)
+ * @param depositRequirement - Deposit policy for this client (null = none)
+ * @param totalPrice - Appointment total price in CHF
+ * @returns Payment to ask for, or null
+ *
+ * @example
+ * getPaymentDue({ payment_links: 'no_show_policy', ... }, { type: 'deposit', amount: 50, noShowCount: 2 }, 300);
+ * // { kind: 'deposit', amount: 50 }
+ */
+export function getPaymentDue(
+  userInfo: UserInformation,
+  depositRequirement: DepositRequirement | null,
+  totalPrice: number
+): PaymentDue | null {
+  const mode = userInfo.payment_links ?? 'off';
+  if (mode === 'off' || !(totalPrice > 0)) {
+    return null;
+  }
+
+  if (depositRequirement) {
+    return depositRequirement.type === 'deposit' && depositRequirement.amount
+      ? { kind: 'deposit', amount: Math.min(depositRequirement.amount, totalPrice) }
+      : { kind: 'full', amount: totalPrice };
+  }
+
+  return mode === 'all' ? { kind: 'full', amount: totalPrice } : null;
+}
+
+/**
+ * Marks an appointment as waiting for a payment (payment_status 'unpaid')
+ *
+ * @param supabase - Supabase client
+ * @param appointmentId - Appointment ID
+ * @param paymentDue - Payment to ask for
+ * @throws {Error} If the update fails
+ */
+export async function recordPaymentDue(
+  supabase: SupabaseClient,
+  appointmentId: string,
+  paymentDue: PaymentDue
+): Promise<void> {
+  const { error } = await supabase
+    .from('appointments')
+    .update({
+      payment_status: 'unpaid',
+      payment_kind: paymentDue.kind,
+      payment_amount: paymentDue.amount
+    })
+    .eq('id', appointmentId);
+
+  if (error) {
+    console.error('[payments] Error recording payment due:', error);
+    throw error;
+  }
+
+  console.log(`[payments] Payment due for ${appointmentId}: ${paymentDue.kind} CHF ${paymentDue.amount}`);
+}
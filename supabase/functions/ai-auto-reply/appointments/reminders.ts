@@ -0,0 +1,131 @@
+/**
+ * Appointment reminder replies
+ * The reminders themselves are sent by the send-appointment-reminders cron,
+ * this module reads them back when the client answers
+ */
+
+import { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2.76.1';
+import type { AppointmentReminder, ReminderResponse } from '../types.ts';
+
+/**
+ * Words that confirm the appointment on their own ("oui", "ok", "c'est bon"...)
+ */
+const CONFIRMATION_KEYWORDS = new Set([
+  'oui', 'ouais', 'ouai', 'yes', 'yep', 'yeah', 'ok', 'okay', 'oki', 'okey',
+  'dac', 'accord', 'parfait', 'top', 'super', 'nickel', 'confirme', 'bon',
+  'marche', 'good', 'sure', 'fine', 'evidemment', 'absolument', 'carrement', 'grave'
+]);
+
+/**
+ * Words allowed around a keyword without changing the meaning
+ * ("toujours", "à demain", "bébé"...). Anything else ("pas", "mais", "retard")
+ * means the reply needs the AI.
+ */
+const CONFIRMATION_FILLERS = new Set([
+  'c', 'est', 'd', 'l', 'j', 'y', 'ca', 'toujours', 'bien', 'sur', 'tout', 'a', 'la',
+  'demain', 'heure', 'ce', 'soir', 'tt', 'je', 'te', 'toi', 'moi', 'pour', 'et', 'aussi',
+  'serai', 'viens', 'vais', 'ai', 'hate', 'merci', 'bebe', 'bb', 'cheri', 'cherie',
+  'coucou', 'hello', 'hey', 'salut', 'still', 'it', 's', 'is', 'all', 'of', 'course',
+  'see', 'you', 'tomorrow', 'later', 'thanks'
+]);
+
+/**
+ * Checks if a message is a plain "yes, still good" answer to a reminder
+ *
+ * Only short replies made of confirmation words match: as soon as the client
+ * says something else (cancel, delay, question), the AI handles the message.
+ *
+ * @param text - Client message
+ * @returns true if the client simply confirms
+ *
+ * @example
+ * isReminderConfirmation("Oui c'est toujours bon 😘"); // true
+ * isReminderConfirmation("ok mais je serai en retard"); // false
+ */
+export function isReminderConfirmation(text: string): boolean {
+  const words = text
+    .replace(/[👍👌✅]/gu, ' ok ')
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .split(/[^a-z]+/)
+    .filter(Boolean);
+
+  return words.length > 0 &&
+    words.length <= 8 &&
+    words.some((word) => CONFIRMATION_KEYWORDS.has(word)) &&
+    words.every((word) => CONFIRMATION_KEYWORDS.has(word) || CONFIRMATION_FILLERS.has(word));
+}
+
+/**
+ * Fetches the last reminder of an appointment the client has not answered yet
+ *
+ * @param supabase - Supabase client
+ * @param appointmentId - Appointment ID
+ * @returns Unanswered reminder, or null
+ */
+export async function findAwaitingReminder(
+  supabase: SupabaseClient,
+  appointmentId: string
+): Promise<AppointmentReminder | null> {
+  const { data, error } = await supabase
+    .from('appointment_reminders')
+    .select('*')
+    .eq('appointment_id', appointmentId)
+    .eq('status', 'sent')
+    .is('client_response', null)
+    .order('sent_at', { ascending: false })
+    .limit(1)
+    .maybeSingle();
+
+  if (error) {
+    console.error('[reminder] Error fetching reminder:', error);
+    return null;
+  }
+
+  return data as AppointmentReminder | null;
+}
+
+/**
+ * Stores the client's answer to a reminder
+ * Non-critical: errors are logged, never thrown
+ *
+ * @param supabase - Supabase client
+ * @param reminderId - Reminder ID
+ * @param response - Client answer
+ */
+export async function recordReminderResponse(
+  supabase: SupabaseClient,
+  reminderId: string,
+  response: ReminderResponse
+): Promise<void> {
+  const { error } = await supabase
+    .from('appointment_reminders')
+    .update({ client_response: response, responded_at: new Date().toISOString() })
+    .eq('id', reminderId);
+
+  if (error) {
+    console.error('[reminder] Error recording reminder response:', error);
+  }
+}
+
+/**
+ * Forgets the reminders of a moved appointment, so the new slot is reminded too
+ * Non-critical: errors are logged, never thrown
+ *
+ * @param supabase - Supabase client
+ * @param appointmentId - Appointment ID
+ */
+export async function resetReminders(
+  supabase: SupabaseClient,
+  appointmentId: string
+): Promise<void> {
+  const { error } = await supabase
+    .from('appointment_reminders')
+    .delete()
+    .eq('appointment_id', appointmentId);
+
+  if (error) {
+    console.error('[reminder] Error resetting reminders:', error);
+  }
+}
@@ -0,0 +1,535 @@
+/**
+ * Appointment tool execution
+ * Runs the tools called by the model (availability lookup, booking, cancel, reschedule,
+ * address pin, abuse report) and returns their result for the tool loop: lookups and validation failures
+ * go back to the model, successful actions end the loop with the usual confirmation message.
+ * In the sandbox the same checks run, but bookings and changes stay in the sandbox session
+ */
+
+import { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2.76.1';
+import { APPOINTMENT_STATUS } from '../config.ts';
+import { buildDynamicEnums } from '../utils/enums.ts';
+import { buildPriceMappings } from '../utils/pricing.ts';
+import { computeAvailabilityDays } from '../availability/calculator.ts';
+import { getAppointmentBuffers, getDefaultBuffers, getSlotBuffers } from '../availability/buffers.ts';
+import { validateAppointmentTimeDetailed } from '../availability/validator.ts';
+import { checkAvailability, findClosestSlots } from '../availability/lookup.ts';
+import { getConversationContact } from '../data/conversation.ts';
+import {
+  SANDBOX_CONTACT,
+  buildSandboxAppointment,
+  updateSandboxAppointment,
+  type SandboxSession
+} from '../data/sandbox.ts';
+import { getAddressLocation } from '../../_shared/address-location.ts';
+import { flagContact, isContactBlocked } from '../../_shared/contact-blocklist.ts';
+import type { OutgoingAttachment } from '../../_shared/evolution-messages.ts';
+import { issuePaymentLink } from '../../_shared/payment-gateway.ts';
+import type { SupportedLanguage } from '../../_shared/language.ts';
+import { loadTemplate } from '../../_shared/message-templates.ts';
+import { notifyProvider } from '../messaging/provider.ts';
+import {
+  APPOINTMENT_TOOL_NAME,
+  AVAILABILITY_TOOL_NAME,
+  REPORT_ABUSE_TOOL_NAME,
+  SHARE_LOCATION_TOOL_NAME
+} from './tool.ts';
+import { validateAppointmentComplete } from './validation.ts';
+import { buildAppointmentRecord, calculateEndTime, createAppointment, parseDurationToMinutes } from './creation.ts';
+import { getPaymentDue, recordPaymentDue } from './payment.ts';
+import { APPOINTMENT_CHANGE_TOOLS, cancelAppointment, rescheduleAppointment } from './modification.ts';
+import { recordReminderResponse, resetReminders } from './reminders.ts';
+import {
+  buildConfirmationMessage,
+  buildPendingApprovalMessage,
+  buildCancellationMessage,
+  buildRescheduleConfirmationMessage
+} from './confirmation.ts';
+import {
+  logAppointmentCreation,
+  logAppointmentCancellation,
+  logAppointmentReschedule,
+  logReminderResponse,
+  logValidationError,
+  logAbuseReport,
+  logError
+} from '../logging/events.ts';
+import type {
+  Appointment,
+  AppointmentReminder,
+  Availability,
+  AvailabilityException,
+  BufferMinutes,
+  DayAvailability,
+  DepositRequirement,
+  OccupiedSlot,
+  TimeOffPeriod,
+  ToolExecutionResult,
+  ToolExecutor,
+  UserInformation
+} from '../types.ts';
+
+/**
+ * Everything the tools need about the current request
+ */
+export interface ToolExecutionContext {
+  supabase: SupabaseClient;
+  userId: string;
+  conversationId: string;
+  userInfo: UserInformation;
+  availabilities: Availability[];
+  exceptions: AvailabilityException[];
+  appointments: Appointment[];
+  busyTimes: OccupiedSlot[];                    // External calendars (external_busy_times)
+  availabilityDays: DayAvailability[];
+  timeOffPeriods: TimeOffPeriod[];
+  now: Date;
+  changeableAppointment: Appointment | null;   // Appointment the client can cancel/move
+  awaitingReminder: AppointmentReminder | null; // Unanswered reminder for that appointment
+  depositRequirement: DepositRequirement | null; // Client over the no-show threshold
+  language: SupportedLanguage;                  // Client language, for the messages sent
+  sandbox: SandboxSession | null;               // Dry run from the sandbox page: nothing written or notified
+}
+
+/**
+ * Tool output for a failed check, sent back to the model
+ */
+function failure(error: string, details: Record<string, unknown> = {}): ToolExecutionResult {
+  return { output: { success: false, error, ...details } };
+}
+
+/**
+ * Creates the executor used by the tool loop
+ *
+ * The executor keeps its own view of the appointments, so several calls in the same
+ * loop see each other (a booking made in the first turn is a conflict for the next one,
+ * a cancelled appointment can't be moved anymore).
+ *
+ * @param context - Request context
+ * @returns Tool executor
+ *
+ * @example
+ * const executeTool = createToolExecutor({ supabase, userId, conversationId, ... });
+ * const { output, reply } = await executeTool(toolCall);
+ * // output: { success: false, error: 'time_validation', ... } → sent back to the model
+ * // reply: confirmation message → sent to the client
+ */
+export function createToolExecutor(context: ToolExecutionContext): ToolExecutor {
+  const { supabase, userId, conversationId, userInfo, availabilities, exceptions, now, timeOffPeriods, language, sandbox } = context;
+  const appointments = [...context.appointments];
+  // Checks see the executor's appointments plus the busy times of external calendars
+  const occupiedBy = (list: Appointment[]): OccupiedSlot[] => [...list, ...context.busyTimes];
+  let availabilityDays = context.availabilityDays;
+  // availabilityDays is computed with the default buffers, a tarif or extra with its own
+  // buffer_minutes needs the free ranges computed again
+  const defaultBuffers = getDefaultBuffers(userInfo);
+  const availabilityDaysFor = (buffers: BufferMinutes): DayAvailability[] =>
+    buffers.before === defaultBuffers.before && buffers.after === defaultBuffers.after
+      ? availabilityDays
+      : computeAvailabilityDays(availabilities, occupiedBy(appointments), now, exceptions, buffers);
+  let changeableAppointment = context.changeableAppointment;
+  let addressPinSent = false;
+
+  // Writes, notifications and events are left out of a dry run, the labelled ones are
+  // listed on the sandbox page
+  async function unlessSandbox(action: () => Promise<unknown>, skippedLabel?: string): Promise<void> {
+    if (!sandbox) {
+      await action();
+    } else if (skippedLabel) {
+      sandbox.skipped.push(skippedLabel);
+    }
+  }
+
+  // Address pin, at most once per request (the booking confirmation and the tool may both want it)
+  async function addressPin(): Promise<OutgoingAttachment[]> {
+    if (addressPinSent) return [];
+
+    const pin = await getAddressLocation(supabase, userId);
+    if (!pin) return [];
+
+    addressPinSent = true;
+    return [pin];
+  }
+
+  // No appointment row in the sandbox, so no link either: the confirmation goes without it
+  async function paymentLinkFor(appointmentId: string) {
+    if (sandbox) {
+      sandbox.skipped.push('payment_link');
+      return null;
+    }
+    return await issuePaymentLink(supabase, appointmentId);
+  }
+
+  function lookUpAvailability(lookup: any): ToolExecutionResult {
+    const date = typeof lookup.date === 'string' ? lookup.date.trim() : '';
+    const time = typeof lookup.time === 'string' && lookup.time.trim() ? lookup.time.trim() : null;
+
+    if (lookup.reschedule === true && changeableAppointment) {
+      // Moving the client's appointment: its duration and buffers, its own slot counts as free
+      const movedId = changeableAppointment.id;
+      const movedBuffers = getSlotBuffers(changeableAppointment);
+      const otherAppointments = appointments.filter((a) => a.id !== movedId);
+      return {
+        output: checkAvailability(
+          date,
+          time,
+          changeableAppointment.duration_minutes,
+          computeAvailabilityDays(availabilities, occupiedBy(otherAppointments), now, exceptions, movedBuffers),
+          occupiedBy(otherAppointments),
+          now,
+          timeOffPeriods,
+          movedBuffers
+        )
+      };
+    }
+
+    let durationMinutes: number;
+    try {
+      // Duration not chosen yet: the shortest one of the tarifs
+      durationMinutes = lookup.duration
+        ? parseDurationToMinutes(lookup.duration)
+        : Math.min(...buildDynamicEnums(userInfo).durationEnum.map(parseDurationToMinutes));
+    } catch {
+      return failure('invalid_duration', { details: `Unknown duration: ${lookup.duration}` });
+    }
+
+    if (!Number.isFinite(durationMinutes)) {
+      durationMinutes = 60;
+    }
+
+    const buffers = lookup.duration ? getAppointmentBuffers(userInfo, lookup.duration) : defaultBuffers;
+    const result = checkAvailability(
+      date, time, durationMinutes,
+      availabilityDaysFor(buffers),
+      occupiedBy(appointments),
+      now,
+      timeOffPeriods,
+      buffers
+    );
+    console.log('[tools] 🔎 Availability', date, time ?? '(whole day)', '→', result.available, result.reason ?? '');
+
+    return { output: result };
+  }
+
+  async function createBooking(appointmentData: any): Promise<ToolExecutionResult> {
+    console.log('[tools] Appointment data:', appointmentData);
+
+    if (context.depositRequirement && appointmentData.deposit_confirmed !== true) {
+      console.error('[tools] ❌ Deposit not confirmed by the client');
+      return failure('deposit_required', {
+        details: "Ce client doit d'abord accepter de payer l'acompte",
+        deposit_type: context.depositRequirement.type,
+        deposit_amount: context.depositRequirement.amount
+      });
+    }
+
+    const buffers = getAppointmentBuffers(userInfo, appointmentData.duration, appointmentData.selected_extras);
+
+    // Enum validation + duplicate and overlap checks
+    const validation = await validateAppointmentComplete(
+      appointmentData,
+      buildDynamicEnums(userInfo),
+      supabase,
+      conversationId,
+      userId,
+      buffers
+    );
+
+    if (!validation.isValid) {
+      console.error('[tools] ❌ Validation failed:', validation.errors);
+      await unlessSandbox(() =>
+        logValidationError(supabase, userId, conversationId, 'appointment_validation', validation.errors)
+      );
+
+      if (validation.isDuplicate) {
+        return failure('duplicate', { details: 'Ce client a déjà un RDV à cette date et cette heure' });
+      }
+      return validation.isOverlapping
+        ? failure('slot_taken', { details: "Ce créneau vient d'être pris (ou est trop proche d'un autre RDV), propose un autre horaire" })
+        : failure('invalid_appointment', { details: validation.errors });
+    }
+
+    // Time validation (availability + lead time + buffers)
+    const bookingDays = availabilityDaysFor(buffers);
+    const timeValidation = validateAppointmentTimeDetailed(
+      appointmentData.appointment_time,
+      appointmentData.appointment_date,
+      parseDurationToMinutes(appointmentData.duration),
+      bookingDays,
+      occupiedBy(appointments),
+      now,
+      timeOffPeriods,
+      buffers
+    );
+
+    if (!timeValidation.isValid) {
+      console.error('[tools] ❌ Time validation failed:', timeValidation.errorMessage);
+      await unlessSandbox(() =>
+        logValidationError(supabase, userId, conversationId, 'time_validation', [timeValidation.errorMessage!])
+      );
+
+      return failure('time_validation', {
+        reason: timeValidation.errorCode,
+        details: timeValidation.errorMessage,
+        suggested_answer: timeValidation.userMessage,
+        closest_slots: findClosestSlots(
+          bookingDays,
+          appointmentData.appointment_date,
+          parseDurationToMinutes(appointmentData.duration),
+          appointmentData.appointment_time
+        )
+      });
+    }
+
+    const conversationContact = sandbox ? SANDBOX_CONTACT : await getConversationContact(supabase, conversationId);
+
+    if (!sandbox && await isContactBlocked(supabase, userId, conversationContact.contact_phone)) {
+      console.error('[tools] ❌ Contact is blocked, no booking');
+      return failure('contact_blocked', { details: "Ce numéro n'est plus accepté, décline poliment sans te justifier" });
+    }
+
+    console.log('[tools] ✅ All validations passed, creating appointment...');
+
+    const priceMappings = buildPriceMappings(userInfo.tarifs, userInfo.extras);
+
+    const appointment = sandbox
+      ? buildSandboxAppointment(
+        buildAppointmentRecord(
+          appointmentData,
+          conversationId,
+          userId,
+          conversationContact.contact_phone,
+          conversationContact.contact_name,
+          userInfo,
+          priceMappings
+        ),
+        priceMappings
+      )
+      : await createAppointment(
+        supabase,
+        appointmentData,
+        conversationId,
+        userId,
+        conversationContact.contact_phone,
+        conversationContact.contact_name,
+        userInfo,
+        priceMappings
+      );
+
+    sandbox?.appointments.push(appointment);
+    console.log('[tools] ✅ Appointment created:', appointment.id);
+    await unlessSandbox(() => logAppointmentCreation(supabase, userId, conversationId, appointment.id, appointment));
+
+    appointments.push(appointment);
+    availabilityDays = computeAvailabilityDays(availabilities, occupiedBy(appointments), now, exceptions, defaultBuffers);
+
+    const paymentDue = getPaymentDue(userInfo, context.depositRequirement, appointment.total_price);
+    if (paymentDue) {
+      await unlessSandbox(() => recordPaymentDue(supabase, appointment.id, paymentDue));
+    }
+
+    const output = {
+      success: true,
+      appointment_id: appointment.id,
+      status: appointment.status,
+      total_price: appointment.total_price,
+      ...(paymentDue ? { payment_due: paymentDue } : {})
+    };
+
+    if (appointment.status === APPOINTMENT_STATUS.PENDING) {
+      // Approval mode: the provider accepts/declines, review-appointment tells the client
+      // (and sends the payment link once accepted)
+      await unlessSandbox(
+        () => notifyProvider(supabase, appointment.id, 'approval_request'),
+        'provider_notification:approval_request'
+      );
+
+      return {
+        output,
+        reply: buildPendingApprovalMessage(appointmentData.appointment_date, appointmentData.appointment_time, language)
+      };
+    }
+
+    return {
+      output,
+      attachments: await addressPin(),
+      reply: buildConfirmationMessage(
+        appointmentData.appointment_date,
+        appointmentData.appointment_time,
+        appointmentData.duration,
+        appointmentData.selected_extras,
+        appointment.total_price,
+        userInfo,
+        priceMappings,
+        paymentDue ? await paymentLinkFor(appointment.id) : null,
+        language,
+        await loadTemplate(supabase, userId, 'confirmation', language)
+      )
+    };
+  }
+
+  async function cancel(appointment: Appointment, changeData: any): Promise<ToolExecutionResult> {
+    const reason = typeof changeData.reason === 'string' ? changeData.reason.trim() : '';
+
+    if (sandbox) {
+      updateSandboxAppointment(sandbox, appointment.id, { status: APPOINTMENT_STATUS.CANCELLED });
+    } else {
+      await cancelAppointment(supabase, appointment, reason);
+    }
+    await unlessSandbox(() => logAppointmentCancellation(supabase, userId, conversationId, appointment, reason));
+    await unlessSandbox(
+      () => notifyProvider(supabase, appointment.id, 'appointment_cancelled', reason ? { reason } : {}),
+      'provider_notification:appointment_cancelled'
+    );
+
+    if (context.awaitingReminder) {
+      await recordReminderResponse(supabase, context.awaitingReminder.id, 'cancelled');
+      await logReminderResponse(supabase, userId, conversationId, context.awaitingReminder, 'cancelled');
+    }
+
+    changeableAppointment = null;
+    console.log('[tools] ✅ Appointment cancelled');
+
+    return { output: { success: true }, reply: buildCancellationMessage(language) };
+  }
+
+  async function reschedule(appointment: Appointment, changeData: any): Promise<ToolExecutionResult> {
+    // Same checks as a new booking, with the appointment's own slot freed and its stored buffers
+    const buffers = getSlotBuffers(appointment);
+    const otherAppointments = appointments.filter((a) => a.id !== appointment.id);
+    const otherAvailabilityDays = computeAvailabilityDays(
+      availabilities, occupiedBy(otherAppointments), now, exceptions, buffers
+    );
+    const timeValidation = validateAppointmentTimeDetailed(
+      changeData.appointment_time,
+      changeData.appointment_date,
+      appointment.duration_minutes,
+      otherAvailabilityDays,
+      occupiedBy(otherAppointments),
+      now,
+      timeOffPeriods,
+      buffers
+    );
+
+    if (!timeValidation.isValid) {
+      console.error('[tools] ❌ Reschedule time validation failed:', timeValidation.errorMessage);
+      await unlessSandbox(() =>
+        logValidationError(
+          supabase, userId, conversationId,
+          'reschedule_time_validation',
+          [timeValidation.errorMessage!]
+        )
+      );
+
+      return failure('time_validation', {
+        reason: timeValidation.errorCode,
+        details: timeValidation.errorMessage,
+        suggested_answer: timeValidation.userMessage,
+        closest_slots: findClosestSlots(
+          otherAvailabilityDays,
+          changeData.appointment_date,
+          appointment.duration_minutes,
+          changeData.appointment_time
+        )
+      });
+    }
+
+    if (sandbox) {
+      updateSandboxAppointment(sandbox, appointment.id, {
+        appointment_date: changeData.appointment_date,
+        start_time: changeData.appointment_time,
+        end_time: calculateEndTime(changeData.appointment_time, appointment.duration_minutes),
+        client_arrived: false,
+        provider_ready_to_receive: false
+      });
+    } else {
+      await rescheduleAppointment(supabase, appointment, changeData.appointment_date, changeData.appointment_time);
+    }
+    await unlessSandbox(() =>
+      logAppointmentReschedule(
+        supabase, userId, conversationId,
+        appointment,
+        changeData.appointment_date,
+        changeData.appointment_time
+      )
+    );
+    await unlessSandbox(
+      () => notifyProvider(supabase, appointment.id, 'appointment_rescheduled', {
+        previous_appointment_date: appointment.appointment_date,
+        previous_start_time: appointment.start_time
+      }),
+      'provider_notification:appointment_rescheduled'
+    );
+    // The new slot gets its own reminders
+    await unlessSandbox(() => resetReminders(supabase, appointment.id));
+
+    console.log('[tools] ✅ Appointment rescheduled');
+
+    return {
+      output: { success: true },
+      reply: buildRescheduleConfirmationMessage(changeData.appointment_date, changeData.appointment_time, language)
+    };
+  }
+
+  return async (toolCall) => {
+    const toolName = toolCall.function.name;
+
+    let args;
+    try {
+      args = JSON.parse(toolCall.function.arguments);
+    } catch (parseError) {
+      console.error('[tools] ❌ Failed to parse', toolName, 'arguments:', toolCall.function.arguments);
+
+      await unlessSandbox(() =>
+        logError(
+          supabase,
+          userId,
+          conversationId,
+          `JSON parse error: ${parseError instanceof Error ? parseError.message : String(parseError)}`,
+          `Raw arguments: ${toolCall.function.arguments}`
+        )
+      );
+
+      return failure('invalid_arguments', { details: 'Arguments must be valid JSON matching the tool schema' });
+    }
+
+    switch (toolName) {
+      case AVAILABILITY_TOOL_NAME:
+        return lookUpAvailability(args);
+
+      case APPOINTMENT_TOOL_NAME:
+        return await createBooking(args);
+
+      case SHARE_LOCATION_TOOL_NAME: {
+        const attachments = await addressPin();
+        if (attachments.length === 0 && !addressPinSent) {
+          return failure('location_unavailable', { details: "Adresse introuvable sur la carte, donne-la en texte" });
+        }
+        return { output: { success: true, sent: 'location_pin' }, attachments };
+      }
+
+      case REPORT_ABUSE_TOOL_NAME: {
+        const reason = typeof args.reason === 'string' ? args.reason.trim() : '';
+        const { contact_phone } = sandbox ? SANDBOX_CONTACT : await getConversationContact(supabase, conversationId);
+
+        await unlessSandbox(() => flagContact(supabase, userId, contact_phone, 'abuse'), 'contact_flag');
+        await unlessSandbox(() => logAbuseReport(supabase, userId, conversationId, reason));
+        return { output: { success: true, reported: true } };
+      }
+
+      case APPOINTMENT_CHANGE_TOOLS.CANCEL:
+      case APPOINTMENT_CHANGE_TOOLS.RESCHEDULE:
+        if (!changeableAppointment) {
+          return failure('no_appointment', { details: "Ce client n'a pas de RDV à venir" });
+        }
+        console.log('[tools] 🎯', toolName, 'for appointment', changeableAppointment.id);
+        return toolName === APPOINTMENT_CHANGE_TOOLS.CANCEL
+          ? await cancel(changeableAppointment, args)
+          : await reschedule(changeableAppointment, args);
+
+      default:
+        console.error('[tools] ❌ Unknown tool:', toolName);
+        return failure('unknown_tool', { details: `Tool ${toolName} does not exist` });
+    }
+  };
+}
@@ -5,6 +5,26 @@
 
 import type { OpenAITool, DynamicEnums } from '../types.ts';
 
+/**
+ * Name of the booking tool
+ */
+export const APPOINTMENT_TOOL_NAME = 'create_appointment_summary';
+
+/**
+ * Name of the availability lookup tool
+ */
+export const AVAILABILITY_TOOL_NAME = 'check_availability';
+
+/**
+ * Name of the address pin tool
+ */
+export const SHARE_LOCATION_TOOL_NAME = 'share_address_location';
+
+/**
+ * Name of the abusive client report tool
+ */
+export const REPORT_ABUSE_TOOL_NAME = 'report_abusive_client';
+
 /**
  * Builds appointment tool definition for OpenAI function calling
  * 
@@ -14,12 +34,16 @@ import type { OpenAITool, DynamicEnums } from '../types.ts';
  * 
  * The AI can ONLY use values from these enums, ensuring zero hallucination
  * 
+ * When the client owes a deposit (too many no-shows), a required deposit_confirmed
+ * flag is added: the executor refuses the booking unless it is true
+ * 
  * FAIL-FAST BEHAVIOR:
  * Throws an error if required enums are empty, preventing the tool from being
  * exposed with invalid hardcoded fallbacks. The caller must handle the error
  * and skip tool registration in OpenAI request.
  * 
  * @param dynamicEnums - Dynamic enums built from user catalog
+ * @param depositRequired - Client must confirm a deposit/prepayment (see appointments/deposit.ts)
  * @returns OpenAI tool definition with validated enums
  * @throws {Error} If durationEnum or extraEnum are empty (missing configuration)
  * 
@@ -34,7 +58,7 @@ import type { OpenAITool, DynamicEnums } from '../types.ts';
  *   console.error('Cannot create appointment tool:', error.message);
  * }
  */
-export function buildAppointmentTool(dynamicEnums: DynamicEnums): OpenAITool {
+export function buildAppointmentTool(dynamicEnums: DynamicEnums, depositRequired = false): OpenAITool {
   const { durationEnum, extraEnum } = dynamicEnums;
 
   // FAIL-FAST: Check for missing configuration before building schema
@@ -56,7 +80,7 @@ export function buildAppointmentTool(dynamicEnums: DynamicEnums): OpenAITool {
   return {
     type: 'function',
     function: {
-      name: 'create_appointment_summary',
+      name: APPOINTMENT_TOOL_NAME,
       description: "Crée un résumé de rendez-vous avec toutes les informations collectées. N'utilise cette fonction QUE lorsque tu as obtenu TOUTES les 4 informations obligatoires ET que le client a confirmé.",
       parameters: {
         type: 'object',
@@ -76,16 +100,189 @@ export function buildAppointmentTool(dynamicEnums: DynamicEnums): OpenAITool {
           },
           appointment_date: {
             type: 'string',
-            description: 'Date du rendez-vous (format: YYYY-MM-DD)',
+            description: "Date du rendez-vous (format: YYYY-MM-DD). Aujourd'hui ou un des jours listés dans les dispos, reprendre la date exacte indiquée entre parenthèses. Pour une heure après minuit, utiliser la date du lendemain.",
             pattern: '^\\d{4}-\\d{2}-\\d{2}$'
           },
           appointment_time: {
             type: 'string',
             description: 'Heure du rendez-vous (format: HH:MM en 24h, ex: 14:30)',
             pattern: '^([01]\\d|2[0-3]):[0-5]\\d$'
+          },
+          ...(depositRequired && {
+            deposit_confirmed: {
+              type: 'boolean',
+              description: "true uniquement si le client a confirmé qu'il paie l'acompte demandé"
+            }
+          })
+        },
+        required: [
+          'duration',
+          'selected_extras',
+          'appointment_date',
+          'appointment_time',
+          ...(depositRequired ? ['deposit_confirmed'] : [])
+        ],
+        additionalProperties: false
+      }
+    }
+  };
+}
+
+/**
+ * Builds the cancellation tool (client's upcoming appointment)
+ *
+ * Only exposed when the conversation has an upcoming appointment, the AI
+ * never has to pick which one to cancel.
+ *
+ * @returns OpenAI tool definition
+ */
+export function buildCancelAppointmentTool(): OpenAITool {
+  return {
+    type: 'function',
+    function: {
+      name: 'cancel_appointment',
+      description: "Annule le RDV à venir du client. N'utilise cette fonction QUE si le client a clairement dit qu'il annule (pas s'il veut juste changer l'heure).",
+      parameters: {
+        type: 'object',
+        properties: {
+          reason: {
+            type: 'string',
+            description: "Raison donnée par le client, en quelques mots (vide si aucune)"
+          }
+        },
+        required: ['reason'],
+        additionalProperties: false
+      }
+    }
+  };
+}
+
+/**
+ * Builds the rescheduling tool (client's upcoming appointment)
+ *
+ * Duration and extras are kept, only the slot moves. The new slot goes through
+ * the same time validation as a new booking.
+ *
+ * @returns OpenAI tool definition
+ */
+export function buildRescheduleAppointmentTool(): OpenAITool {
+  return {
+    type: 'function',
+    function: {
+      name: 'reschedule_appointment',
+      description: "Déplace le RDV à venir du client à une nouvelle date/heure (même durée, mêmes extras). N'utilise cette fonction QUE lorsque le client a donné la nouvelle heure ET confirmé.",
+      parameters: {
+        type: 'object',
+        properties: {
+          appointment_date: {
+            type: 'string',
+            description: "Nouvelle date (format: YYYY-MM-DD). Un des jours listés dans les dispos, reprendre la date exacte indiquée entre parenthèses. Pour une heure après minuit, utiliser la date du lendemain.",
+            pattern: '^\\d{4}-\\d{2}-\\d{2}$'
+          },
+          appointment_time: {
+            type: 'string',
+            description: 'Nouvelle heure (format: HH:MM en 24h, ex: 22:00)',
+            pattern: '^([01]\\d|2[0-3]):[0-5]\\d$'
+          }
+        },
+        required: ['appointment_date', 'appointment_time'],
+        additionalProperties: false
+      }
+    }
+  };
+}
+
+/**
+ * Builds the availability lookup tool
+ *
+ * Lets the AI check a date/time against the real schedule (same checks as
+ * the booking) and get the closest free slots, instead of reading ranges
+ * from the prompt.
+ *
+ * @param durationEnum - Durations from user's tarifs (empty = free text)
+ * @returns OpenAI tool definition
+ */
+export function buildCheckAvailabilityTool(durationEnum: string[]): OpenAITool {
+  return {
+    type: 'function',
+    function: {
+      name: AVAILABILITY_TOOL_NAME,
+      description: "Vérifie si je suis dispo à une date (et une heure) pour une durée, et donne les créneaux libres les plus proches. À utiliser AVANT de proposer, valider ou récapituler une heure.",
+      parameters: {
+        type: 'object',
+        properties: {
+          date: {
+            type: 'string',
+            description: "Date demandée (format: YYYY-MM-DD). Pour une heure après minuit, utiliser la date du lendemain.",
+            pattern: '^\\d{4}-\\d{2}-\\d{2}$'
+          },
+          time: {
+            type: 'string',
+            description: "Heure demandée (format: HH:MM en 24h), vide pour voir toute la journée"
+          },
+          duration: {
+            type: 'string',
+            description: "Durée souhaitée (vide si pas encore connue ou pour décaler le RDV existant)",
+            ...(durationEnum.length > 0 ? { enum: [...durationEnum, ''] } : {})
+          },
+          reschedule: {
+            type: 'boolean',
+            description: "true si c'est pour décaler le RDV déjà pris par le client (sa durée est reprise, son créneau actuel compte comme libre)"
+          }
+        },
+        required: ['date', 'time', 'duration', 'reschedule'],
+        additionalProperties: false
+      }
+    }
+  };
+}
+
+/**
+ * Builds the address pin tool
+ *
+ * Sends the provider's address as a WhatsApp location pin (opens in Maps)
+ * instead of a line of text. Only exposed when an address is configured.
+ *
+ * @returns OpenAI tool definition
+ */
+export function buildShareLocationTool(): OpenAITool {
+  return {
+    type: 'function',
+    function: {
+      name: SHARE_LOCATION_TOOL_NAME,
+      description: "Envoie mon adresse au client sous forme de position WhatsApp (carte). À utiliser quand il demande l'adresse, où c'est, ou comment venir.",
+      parameters: {
+        type: 'object',
+        properties: {},
+        additionalProperties: false
+      }
+    }
+  };
+}
+
+/**
+ * Builds the abusive client report tool
+ *
+ * Flags the contact for the provider (conversation list, contact sheet). Blocking stays
+ * the provider's decision: the AI only reports.
+ *
+ * @returns OpenAI tool definition
+ */
+export function buildReportAbuseTool(): OpenAITool {
+  return {
+    type: 'function',
+    function: {
+      name: REPORT_ABUSE_TOOL_NAME,
+      description: "Signale ce client à la prestataire quand il est insultant, menaçant, harcelant ou envoie des messages sexuels non sollicités. Ne l'utilise PAS pour un client simplement pressé, hésitant ou qui négocie.",
+      parameters: {
+        type: 'object',
+        properties: {
+          reason: {
+            type: 'string',
+            description: 'Ce que le client a écrit de problématique, en une phrase'
           }
         },
-        required: ['duration', 'selected_extras', 'appointment_date', 'appointment_time'],
+        required: ['reason'],
         additionalProperties: false
       }
     }
@@ -1,11 +1,15 @@
 /**
  * Appointment validation utilities
- * Validates enum values and detects duplicate appointments
+ * Validates enum values and detects duplicate or overlapping appointments
  */
 
 import { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2.76.1';
 import { APPOINTMENT_STATUS } from '../config.ts';
-import type { DynamicEnums, AppointmentData } from '../types.ts';
+import { addDaysToISODate } from '../utils/timezone.ts';
+import { hasAppointmentConflict } from '../availability/validator.ts';
+import { NO_BUFFERS } from '../availability/buffers.ts';
+import { parseDurationToMinutes } from './creation.ts';
+import type { DynamicEnums, AppointmentData, BufferMinutes, OccupiedSlot } from '../types.ts';
 
 /**
  * Validates appointment data against dynamic enums
@@ -111,6 +115,61 @@ export async function checkDuplicateAppointment(
   return { isDuplicate: false };
 }
 
+/**
+ * Checks for appointments of the provider overlapping a new one, buffers included
+ * 
+ * Reads the database again rather than the appointments loaded with the request,
+ * so a booking made meanwhile from another conversation is seen.
+ * The prevent_overlapping_appointments trigger runs the same check on insert.
+ * 
+ * @param supabase - Supabase client
+ * @param userId - Provider's user ID
+ * @param appointmentDate - Appointment date (YYYY-MM-DD)
+ * @param startTime - Start time (HH:MM)
+ * @param durationMinutes - Duration in minutes
+ * @param buffers - Buffers of the new appointment
+ * @returns Object with isOverlapping flag
+ * 
+ * @example
+ * // Existing 14:00-15:00 with 15 min after, new one at 15:00 with 10 min before
+ * await checkOverlappingAppointment(supabase, user_id, "2025-01-15", "15:00", 60, { before: 10, after: 0 });
+ * // { isOverlapping: true }
+ */
+export async function checkOverlappingAppointment(
+  supabase: SupabaseClient,
+  userId: string,
+  appointmentDate: string,
+  startTime: string,
+  durationMinutes: number,
+  buffers: BufferMinutes = NO_BUFFERS
+): Promise<{
+  isOverlapping: boolean;
+}> {
+  // Neighbour days too: midnight-crossing appointments and buffers
+  const { data, error } = await supabase
+    .from('appointments')
+    .select('appointment_date, start_time, end_time, buffer_before_minutes, buffer_after_minutes')
+    .eq('user_id', userId)
+    .gte('appointment_date', addDaysToISODate(appointmentDate, -1))
+    .lte('appointment_date', addDaysToISODate(appointmentDate, 1))
+    .in('status', [APPOINTMENT_STATUS.PENDING, APPOINTMENT_STATUS.CONFIRMED]);
+
+  if (error) {
+    console.error('[validation] Error checking overlaps:', error);
+    // The database trigger still refuses a real overlap on insert
+    return { isOverlapping: false };
+  }
+
+  const appointments: OccupiedSlot[] = data || [];
+
+  if (hasAppointmentConflict(startTime, durationMinutes, appointmentDate, appointments, buffers)) {
+    console.log('[validation] Overlapping appointment found on', appointmentDate, startTime);
+    return { isOverlapping: true };
+  }
+
+  return { isOverlapping: false };
+}
+
 /**
  * Validates appointment data format
  * Checks date and time string formats
@@ -146,23 +205,28 @@ export function validateAppointmentFormat(
 
 /**
  * Complete validation pipeline
- * Runs all validations: format, enums, duplicates
+ * Runs all validations: format, enums, duplicates, overlaps
  * 
  * @param appointmentData - Appointment data to validate
  * @param dynamicEnums - Valid enums
  * @param supabase - Supabase client
  * @param conversationId - Conversation ID
+ * @param userId - Provider's user ID
+ * @param buffers - Buffers of the new appointment (getAppointmentBuffers)
  * @returns Complete validation result
  */
 export async function validateAppointmentComplete(
   appointmentData: AppointmentData,
   dynamicEnums: DynamicEnums,
   supabase: SupabaseClient,
-  conversationId: string
+  conversationId: string,
+  userId: string,
+  buffers: BufferMinutes = NO_BUFFERS
 ): Promise<{
   isValid: boolean;
   errors: string[];
   isDuplicate: boolean;
+  isOverlapping: boolean;
 }> {
   const errors: string[] = [];
 
@@ -170,14 +234,14 @@ export async function validateAppointmentComplete(
   const formatValidation = validateAppointmentFormat(appointmentData);
   if (!formatValidation.isValid) {
     errors.push(...formatValidation.errors);
-    return { isValid: false, errors, isDuplicate: false };
+    return { isValid: false, errors, isDuplicate: false, isOverlapping: false };
   }
 
   // 2. Enum validation
   const enumValidation = validateAppointmentEnums(appointmentData, dynamicEnums);
   if (!enumValidation.isValid) {
     errors.push(...enumValidation.errors);
-    return { isValid: false, errors, isDuplicate: false };
+    return { isValid: false, errors, isDuplicate: false, isOverlapping: false };
   }
 
   // 3. Duplicate check
@@ -190,8 +254,23 @@ export async function validateAppointmentComplete(
 
   if (duplicateCheck.isDuplicate) {
     errors.push('Duplicate appointment detected');
-    return { isValid: false, errors, isDuplicate: true };
+    return { isValid: false, errors, isDuplicate: true, isOverlapping: false };
+  }
+
+  // 4. Overlap check, buffers included
+  const overlapCheck = await checkOverlappingAppointment(
+    supabase,
+    userId,
+    appointmentData.appointment_date,
+    appointmentData.appointment_time,
+    parseDurationToMinutes(appointmentData.duration),
+    buffers
+  );
+
+  if (overlapCheck.isOverlapping) {
+    errors.push('Overlapping appointment detected (buffers included)');
+    return { isValid: false, errors, isDuplicate: false, isOverlapping: true };
   }
 
-  return { isValid: true, errors: [], isDuplicate: false };
+  return { isValid: true, errors: [], isDuplicate: false, isOverlapping: false };
 }
@@ -0,0 +1,68 @@
+/**
+ * Buffer time around appointments
+ * Minutes kept free before (travel, setup) and after (cleaning, reset) an appointment,
+ * so the AI never books two clients back to back
+ */
+
+import type { BufferMinutes, OccupiedSlot, UserInformation } from '../types.ts';
+
+export const NO_BUFFERS: BufferMinutes = { before: 0, after: 0 };
+
+/**
+ * Buffers every appointment gets, whatever its duration and extras
+ *
+ * @param userInfo - User information (buffer_before_minutes / buffer_after_minutes)
+ * @returns Default buffers
+ */
+export function getDefaultBuffers(userInfo: UserInformation): BufferMinutes {
+  return {
+    before: Math.max(0, userInfo.buffer_before_minutes ?? 0),
+    after: Math.max(0, userInfo.buffer_after_minutes ?? 0)
+  };
+}
+
+/**
+ * Buffers of a booking: the defaults, plus the buffer_minutes of its tarif and
+ * of each selected extra, added after the appointment (a longer session or an
+ * extra usually means more to clean up)
+ *
+ * @param userInfo - User information with tarifs and extras
+ * @param duration - Booked duration (tarif duration, e.g. "1h")
+ * @param selectedExtras - Booked extras ('aucun' is ignored)
+ * @returns Buffers of the booking
+ *
+ * @example
+ * // Defaults 15/10, tarif 2h with buffer_minutes 20, extra "Massage" with 5
+ * getAppointmentBuffers(userInfo, '2h', ['Massage']);
+ * // { before: 15, after: 35 }
+ */
+export function getAppointmentBuffers(
+  userInfo: UserInformation,
+  duration: string,
+  selectedExtras: string[] = []
+): BufferMinutes {
+  const { before, after } = getDefaultBuffers(userInfo);
+  const tarif = (userInfo.tarifs || []).find((t) => t.duration === duration);
+  const extrasMinutes = selectedExtras
+    .filter((name) => name !== 'aucun')
+    .map((name) => (userInfo.extras || []).find((e) => e.name === name)?.buffer_minutes ?? 0)
+    .reduce((total, minutes) => total + Math.max(0, minutes), 0);
+
+  return {
+    before,
+    after: after + Math.max(0, tarif?.buffer_minutes ?? 0) + extrasMinutes
+  };
+}
+
+/**
+ * Buffers stored on an occupied slot (none for external busy times)
+ *
+ * @param slot - Appointment or external busy time
+ * @returns Buffers of the slot
+ */
+export function getSlotBuffers(slot: OccupiedSlot): BufferMinutes {
+  return {
+    before: slot.buffer_before_minutes ?? 0,
+    after: slot.buffer_after_minutes ?? 0
+  };
+}
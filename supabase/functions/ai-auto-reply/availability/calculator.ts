@@ -3,31 +3,134 @@
  * Complex logic for computing available time ranges with midnight crossing support
  */
 
-import { APPOINTMENT_CONFIG } from '../config.ts';
-import { toFranceTime, toFranceISODate, getFranceDay, getFranceHours, getFranceMinutes } from '../utils/timezone.ts';
-import type { Availability, Appointment } from '../types.ts';
+import { APPOINTMENT_CONFIG, DAYS_FR } from '../config.ts';
+import {
+  toFranceISODate,
+  getFranceHours,
+  getFranceMinutes,
+  addDaysToISODate,
+  getDayOfWeekFromISODate
+} from '../utils/timezone.ts';
+import { addBlockedMinutes, getExtraWindowsForDate, toMinuteRange } from './exceptions.ts';
+import { NO_BUFFERS, getSlotBuffers } from './buffers.ts';
+import type {
+  Availability,
+  AvailabilityException,
+  Appointment,
+  BufferMinutes,
+  DayAvailability,
+  OccupiedSlot,
+  TimeRange
+} from '../types.ts';
+
+const MINUTES_PER_DAY = 24 * 60;
 
 /**
- * Computes available time ranges for TODAY only
+ * Computes free time ranges for every day of the lookahead window
+ * 
+ * Day 0 is today (France timezone). Each day carries the ranges of its own
+ * availability windows, so a window crossing midnight (e.g. Friday 18:30-2:00)
+ * stays attached to the day it starts on, with an end beyond 1440.
  * 
- * This function handles complex scenarios:
- * - Multiple availability windows per day
- * - Existing appointments that block time slots
- * - Minimum booking lead time (30 minutes)
- * - Availability ranges that cross midnight (e.g., 18:30-2:00)
+ * Date-specific exceptions are applied on top of the weekly schedule:
+ * extra hours add windows to their date, blocked slots and whole blocked days
+ * (holidays, vacations) remove minutes. A block always wins over extra hours.
+ * 
+ * Occupied slots are widened by their own buffers and by the buffers of the
+ * appointment being looked for, so a free minute is one where that appointment
+ * can run with both sides' buffers kept clear.
  * 
  * Algorithm:
- * 1. Find availabilities for today (day_of_week)
- * 2. Build set of occupied minutes from existing appointments
- * 3. For each availability window:
- *    - Convert to minutes from midnight
- *    - Skip minutes that are occupied or in the past
- *    - Group consecutive available minutes into ranges
- * 4. Format ranges as "HH:MM-HH:MM" strings
+ * 1. For each date of the window, find its availabilities (day_of_week) and extra hours
+ * 2. Build the occupied timeline of that date, including appointments of the
+ *    previous day that run past midnight and of the next day (after-midnight part),
+ *    plus blocked minutes from exceptions
+ * 3. Walk each availability window minute by minute, skipping minutes that are
+ *    occupied or before now + minimum booking lead time
+ * 4. Group consecutive free minutes into half-open ranges [start, end)
+ * 
+ * @param availabilities - User's availability schedule
+ * @param appointments - Existing appointments (pending/confirmed) and external busy times over the window
+ * @param currentDate - Current date (UTC Date, will be interpreted in France timezone)
+ * @param exceptions - Date-specific exceptions (blocked dates/slots, extra hours)
+ * @param buffers - Buffers of the appointment to fit (getDefaultBuffers / getAppointmentBuffers)
+ * @param lookaheadDays - Number of days to compute, today included
+ * @returns One DayAvailability per date, in chronological order
+ * 
+ * @example
+ * const days = computeAvailabilityDays(availabilities, appointments, now);
+ * // [{ date: "2025-01-15", dayOfWeek: 3, ranges: [{ start: 840, end: 960 }] }, ...]
+ */
+export function computeAvailabilityDays(
+  availabilities: Availability[],
+  appointments: OccupiedSlot[],
+  currentDate: Date,
+  exceptions: AvailabilityException[] = [],
+  buffers: BufferMinutes = NO_BUFFERS,
+  lookaheadDays: number = APPOINTMENT_CONFIG.APPOINTMENT_LOOKAHEAD_DAYS
+): DayAvailability[] {
+  const today = toFranceISODate(currentDate);
+
+  // Minutes from today's midnight (France timezone) before which nothing can be booked
+  const currentMinute = getFranceHours(currentDate) * 60 + getFranceMinutes(currentDate);
+  const minimumAllowedMinute = currentMinute + APPOINTMENT_CONFIG.MIN_BOOKING_LEAD_TIME_MINUTES;
+
+  const days: DayAvailability[] = [];
+
+  for (let offset = 0; offset < lookaheadDays; offset++) {
+    const date = addDaysToISODate(today, offset);
+    const dayOfWeek = getDayOfWeekFromISODate(date);
+    const dayWindows = [
+      ...(availabilities || [])
+        .filter((a) => a.day_of_week === dayOfWeek)
+        .map((a) => toMinuteRange(a.start_time, a.end_time)),
+      ...getExtraWindowsForDate(date, exceptions)
+    ];
+    const occupiedMinutes = buildOccupiedTimeline(appointments, date, buffers);
+    addBlockedMinutes(occupiedMinutes, date, exceptions);
+    const dayStartMinute = offset * MINUTES_PER_DAY;
+
+    const ranges: TimeRange[] = [];
+
+    for (const { start: availStartMinute, end: availEndMinute } of dayWindows) {
+      let rangeStart: number | null = null;
+
+      for (let m = availStartMinute; m < availEndMinute; m++) {
+        const isPast = dayStartMinute + m < minimumAllowedMinute;
+        const isOccupied = occupiedMinutes.has(m);
+
+        if (!isPast && !isOccupied) {
+          if (rangeStart === null) {
+            rangeStart = m;
+          }
+        } else if (rangeStart !== null) {
+          ranges.push({ start: rangeStart, end: m });
+          rangeStart = null;
+        }
+      }
+
+      if (rangeStart !== null) {
+        ranges.push({ start: rangeStart, end: availEndMinute });
+      }
+    }
+
+    days.push({ date, dayOfWeek, ranges: mergeRanges(ranges) });
+  }
+
+  return days;
+}
+
+/**
+ * Computes available time ranges for TODAY only
+ * 
+ * Thin wrapper around computeAvailabilityDays() kept for places that only
+ * care about today (logs, suggestions).
  * 
  * @param availabilities - User's availability schedule
- * @param appointments - Existing appointments
+ * @param appointments - Existing appointments and external busy times
  * @param currentDate - Current date (UTC Date, will be interpreted in France timezone)
+ * @param exceptions - Date-specific exceptions (blocked dates/slots, extra hours)
+ * @param buffers - Default buffers of the provider
  * @returns Formatted string of available ranges (e.g., "14h-16h, 18h30-2h (jusqu'à demain matin)")
  * 
  * @example
@@ -37,85 +140,171 @@ import type { Availability, Appointment } from '../types.ts';
  */
 export function computeAvailableRanges(
   availabilities: Availability[],
-  appointments: Appointment[],
-  currentDate: Date
+  appointments: OccupiedSlot[],
+  currentDate: Date,
+  exceptions: AvailabilityException[] = [],
+  buffers: BufferMinutes = NO_BUFFERS
 ): string {
   if (!availabilities || availabilities.length === 0) {
     return "Aucune dispo configurée";
   }
 
-  // Extract components in France timezone
-  const dayOfWeek = getFranceDay(currentDate);
-  const dateStr = toFranceISODate(currentDate);
+  const [today] = computeAvailabilityDays(availabilities, appointments, currentDate, exceptions, buffers, 1);
 
-  // Find availabilities for today
-  const todayAvails = availabilities.filter((a) => a.day_of_week === dayOfWeek);
-
-  if (todayAvails.length === 0) {
+  if (today.ranges.length === 0 && !availabilities.some((a) => a.day_of_week === today.dayOfWeek)) {
     return "Pas dispo aujourd'hui";
   }
 
-  // Get appointments for today
-  const todayAppointments = appointments.filter((apt) => apt.appointment_date === dateStr);
+  return today.ranges.length > 0
+    ? formatDayRanges(today.ranges)
+    : "Plus de créneaux dispo aujourd'hui";
+}
 
-  // Build array of all occupied minutes
-  const occupiedMinutes = buildOccupiedMinutesSet(todayAppointments);
+/**
+ * Formats the whole lookahead window for the WORKFLOW prompt
+ * One line per day, with the ISO date the AI must reuse in the tool call
+ * 
+ * @param days - Result of computeAvailabilityDays()
+ * @returns Multi-line string, one line per day
+ * 
+ * @example
+ * formatAvailabilityDays(days);
+ * // "- Aujourd'hui, Mercredi 15/01 (2025-01-15) : 14h-16h
+ * //  - Demain, Jeudi 16/01 (2025-01-16) : pas dispo
+ * //  - Vendredi 17/01 (2025-01-17) : 18h30-2h (jusqu'à demain matin)"
+ */
+export function formatAvailabilityDays(days: DayAvailability[]): string {
+  if (days.length === 0) {
+    return "Aucune dispo configurée";
+  }
 
-  // Current time in minutes + minimum booking lead time (in France timezone)
-  const currentMinute = getFranceHours(currentDate) * 60 + getFranceMinutes(currentDate);
-  const minimumAllowedMinute = currentMinute + APPOINTMENT_CONFIG.MIN_BOOKING_LEAD_TIME_MINUTES;
+  return days
+    .map((day, index) => {
+      const [, month, dayOfMonth] = day.date.split('-');
+      const prefix = index === 0 ? "Aujourd'hui, " : index === 1 ? 'Demain, ' : '';
+      const label = `${prefix}${DAYS_FR[day.dayOfWeek]} ${dayOfMonth}/${month} (${day.date})`;
+      const slots = day.ranges.length > 0 ? formatDayRanges(day.ranges) : 'pas dispo';
+      return `- ${label} : ${slots}`;
+    })
+    .join('\n');
+}
 
-  // Build available ranges
-  const ranges: string[] = [];
+/**
+ * Formats the lookahead window as an overview, without hours
+ * The AI gets the hours from check_availability, the prompt only tells which days are open
+ * 
+ * @param days - Result of computeAvailabilityDays()
+ * @returns Multi-line string, one line per day
+ * 
+ * @example
+ * formatAvailabilityOverview(days);
+ * // "- Aujourd'hui, Mercredi 15/01 (2025-01-15) : dispo
+ * //  - Demain, Jeudi 16/01 (2025-01-16) : pas dispo"
+ */
+export function formatAvailabilityOverview(days: DayAvailability[]): string {
+  if (days.length === 0) {
+    return "Aucune dispo configurée";
+  }
 
-  for (const avail of todayAvails) {
-    const [startH, startM] = avail.start_time.split(':').map(Number);
-    const [endH, endM] = avail.end_time.split(':').map(Number);
-    
-    let availStartMinute = startH * 60 + startM;
-    let availEndMinute = endH * 60 + endM;
+  return days
+    .map((day, index) => {
+      const [, month, dayOfMonth] = day.date.split('-');
+      const prefix = index === 0 ? "Aujourd'hui, " : index === 1 ? 'Demain, ' : '';
+      return `- ${prefix}${DAYS_FR[day.dayOfWeek]} ${dayOfMonth}/${month} (${day.date}) : ${day.ranges.length > 0 ? 'dispo' : 'pas dispo'}`;
+    })
+    .join('\n');
+}
+
+/**
+ * Formats the free ranges of a single day
+ * 
+ * @param ranges - Free ranges in minutes from the day's midnight
+ * @returns Comma-separated ranges (e.g., "14h-16h, 17h-20h")
+ */
+export function formatDayRanges(ranges: TimeRange[]): string {
+  return ranges.map((range) => formatTimeRange(range.start, range.end)).join(', ');
+}
 
-    // Handle crossing midnight (e.g., 18:30 - 02:00)
-    const crossesMidnight = availEndMinute <= availStartMinute;
-    if (crossesMidnight) {
-      availEndMinute += 24 * 60; // Add 24 hours
+/**
+ * Sorts ranges and merges the ones that overlap or touch
+ * (extra hours can extend or overlap a weekly window)
+ */
+function mergeRanges(ranges: TimeRange[]): TimeRange[] {
+  const sorted = [...ranges].sort((a, b) => a.start - b.start);
+  const merged: TimeRange[] = [];
+
+  for (const range of sorted) {
+    const last = merged[merged.length - 1];
+    if (last && range.start <= last.end) {
+      last.end = Math.max(last.end, range.end);
+    } else {
+      merged.push({ ...range });
     }
+  }
 
-    let rangeStart: number | null = null;
-
-    for (let m = availStartMinute; m <= availEndMinute; m++) {
-      const actualMinute = m % (24 * 60);
-      // Consider slots as "past" if they're before current time + lead time
-      // Detect if minimumAllowedMinute crosses midnight (>= 1440)
-      const normalizedMinimum = minimumAllowedMinute % (24 * 60);
-      const isPast = minimumAllowedMinute >= 1440
-        ? (m < 1440 ? true : actualMinute < normalizedMinimum)  // minimumAllowedMinute crosses midnight
-        : m < minimumAllowedMinute;  // minimumAllowedMinute is today: direct comparison
-      const isOccupied = occupiedMinutes.has(actualMinute);
-
-      if (!isPast && !isOccupied) {
-        // Available slot
-        if (rangeStart === null) {
-          rangeStart = m;
-        }
-      } else {
-        // Not available
-        if (rangeStart !== null) {
-          // Close previous range
-          const prevMinute = m - 1;
-          ranges.push(formatTimeRange(rangeStart, prevMinute));
-          rangeStart = null;
-        }
-      }
+  return merged;
+}
+
+/**
+ * Builds the occupied timeline of a date, in minutes from that date's midnight
+ * 
+ * Covers two days (0-2879) so that windows crossing midnight can be checked:
+ * - appointments of the date itself
+ * - appointments of the previous day that run past midnight (shifted by -1440)
+ * - appointments of the next day (shifted by +1440)
+ * 
+ * Each slot starts earlier by its own before-buffer plus the new appointment's
+ * after-buffer, and ends later by its own after-buffer plus the new appointment's
+ * before-buffer.
+ * 
+ * @param appointments - Existing appointments and external busy times
+ * @param date - Reference date (YYYY-MM-DD)
+ * @param buffers - Buffers of the appointment to fit
+ * @returns Set of occupied minutes relative to the reference date
+ */
+function buildOccupiedTimeline(
+  appointments: OccupiedSlot[],
+  date: string,
+  buffers: BufferMinutes = NO_BUFFERS
+): Set<number> {
+  const previousDate = addDaysToISODate(date, -1);
+  const nextDate = addDaysToISODate(date, 1);
+  const occupiedMinutes = new Set<number>();
+
+  for (const apt of appointments || []) {
+    let shift: number;
+    if (apt.appointment_date === date) {
+      shift = 0;
+    } else if (apt.appointment_date === previousDate) {
+      shift = -MINUTES_PER_DAY;
+    } else if (apt.appointment_date === nextDate) {
+      shift = MINUTES_PER_DAY;
+    } else {
+      continue;
+    }
+
+    const [startH, startM] = apt.start_time.split(':').map(Number);
+    const [endH, endM] = apt.end_time.split(':').map(Number);
+
+    const slotBuffers = getSlotBuffers(apt);
+    const startMinute = startH * 60 + startM;
+    let endMinute = endH * 60 + endM;
+
+    if (endMinute <= startMinute) {
+      endMinute += MINUTES_PER_DAY;
     }
 
-    // Close last range if open
-    if (rangeStart !== null) {
-      ranges.push(formatTimeRange(rangeStart, availEndMinute));
+    const paddedStart = startMinute - slotBuffers.before - buffers.after;
+    const paddedEnd = endMinute + slotBuffers.after + buffers.before;
+
+    for (let m = paddedStart + shift; m < paddedEnd + shift; m++) {
+      if (m >= 0 && m < 2 * MINUTES_PER_DAY) {
+        occupiedMinutes.add(m);
+      }
     }
   }
 
-  return ranges.length > 0 ? ranges.join(', ') : "Plus de créneaux dispo aujourd'hui";
+  return occupiedMinutes;
 }
 
 /**
@@ -186,120 +375,76 @@ export function formatTimeRange(startMinute: number, endMinute: number): string
 }
 
 /**
- * Checks if a specific time falls within available ranges
+ * Checks if a date/time falls within the free ranges of the lookahead window
  * Used for server-side validation of appointment requests
  * 
+ * A time after midnight is also looked up in the previous day's ranges, since
+ * midnight-crossing windows are attached to the day they start on.
+ * 
+ * @param appointmentDate - Date in YYYY-MM-DD format
  * @param time - Time to check in HH:MM format
- * @param availableRanges - Available ranges string from computeAvailableRanges()
- * @param availabilities - User's availability schedule
- * @param appointments - Existing appointments
- * @param currentDate - Current date (UTC Date, will be interpreted in France timezone)
- * @returns true if time is available, false otherwise
+ * @param days - Result of computeAvailabilityDays()
+ * @returns true if the slot is free, false otherwise
  * 
  * @example
- * const isAvailable = isTimeInAvailableRanges(
- *   "14:30", 
- *   "14h-16h, 18h30-23h",
- *   availabilities,
- *   appointments,
- *   now
- * );
- * // true (14:30 is within 14h-16h range)
+ * isSlotInAvailabilityDays("2025-01-17", "01:30", days);
+ * // true if Thursday 16/01 has a free range like 22h-2h (jusqu'à demain matin)
  */
-export function isTimeInAvailableRanges(
+export function isSlotInAvailabilityDays(
+  appointmentDate: string,
   time: string,
-  availableRanges: string,
-  availabilities: Availability[],
-  appointments: Appointment[],
-  currentDate: Date
+  days: DayAvailability[]
 ): boolean {
-  // Special cases
-  if (availableRanges === "Aucune dispo configurée" || 
-      availableRanges === "Pas dispo aujourd'hui" ||
-      availableRanges === "Plus de créneaux dispo aujourd'hui") {
-    return false;
-  }
-
   const [hours, minutes] = time.split(':').map(Number);
   const timeMinutes = hours * 60 + minutes;
 
-  // Build occupied set and check lead time (in France timezone)
-  const currentMinute = getFranceHours(currentDate) * 60 + getFranceMinutes(currentDate);
-  const minimumAllowedMinute = currentMinute + APPOINTMENT_CONFIG.MIN_BOOKING_LEAD_TIME_MINUTES;
-
-  if (timeMinutes < minimumAllowedMinute) {
-    return false; // Too close to current time
-  }
-
-  const occupiedMinutes = buildOccupiedMinutesSet(
-    appointments.filter(apt => apt.appointment_date === toFranceISODate(currentDate))
-  );
-
-  if (occupiedMinutes.has(timeMinutes)) {
-    return false; // Time is occupied
+  const day = days.find((d) => d.date === appointmentDate);
+  if (day && day.ranges.some((r) => timeMinutes >= r.start && timeMinutes < r.end)) {
+    return true;
   }
 
-  // Check if time falls within any availability window (in France timezone)
-  const dayOfWeek = getFranceDay(currentDate);
-  const todayAvails = availabilities.filter(a => a.day_of_week === dayOfWeek);
+  const previousDate = addDaysToISODate(appointmentDate, -1);
+  const previousDay = days.find((d) => d.date === previousDate);
+  const shiftedMinutes = timeMinutes + MINUTES_PER_DAY;
 
-  for (const avail of todayAvails) {
-    const [startH, startM] = avail.start_time.split(':').map(Number);
-    const [endH, endM] = avail.end_time.split(':').map(Number);
-    
-    const startMinute = startH * 60 + startM;
-    let endMinute = endH * 60 + endM;
-
-    // Handle midnight crossing
-    const crossesMidnight = endMinute <= startMinute;
-    if (crossesMidnight) {
-      // Time is in range if it's >= start OR <= end
-      if (timeMinutes >= startMinute || timeMinutes <= endMinute) {
-        return true;
-      }
-    } else {
-      // Normal range: time must be >= start AND <= end
-      if (timeMinutes >= startMinute && timeMinutes <= endMinute) {
-        return true;
-      }
-    }
-  }
+  return !!previousDay &&
+    previousDay.ranges.some((r) => shiftedMinutes >= r.start && shiftedMinutes < r.end);
+}
 
-  return false;
+/**
+ * Gets the free ranges of a given date, formatted for messages
+ * 
+ * @param appointmentDate - Date in YYYY-MM-DD format
+ * @param days - Result of computeAvailabilityDays()
+ * @returns Formatted ranges, or null if nothing is free that day
+ */
+export function getAvailableRangesForDate(
+  appointmentDate: string,
+  days: DayAvailability[]
+): string | null {
+  const day = days.find((d) => d.date === appointmentDate);
+  return day && day.ranges.length > 0 ? formatDayRanges(day.ranges) : null;
 }
 
 /**
  * Gets the next available time slot after current time + lead time
  * Useful for suggesting alternatives when requested time is not available
  * 
- * @param availabilities - User's availability schedule
- * @param appointments - Existing appointments
- * @param currentDate - Current date (UTC Date, will be interpreted in France timezone)
- * @returns Next available time in HH:MM format, or null if none available today
+ * @param days - Result of computeAvailabilityDays()
+ * @returns Next free slot with its date and HH:MM time, or null if the window is full
  */
 export function getNextAvailableSlot(
-  availabilities: Availability[],
-  appointments: Appointment[],
-  currentDate: Date
-): string | null {
-  const ranges = computeAvailableRanges(availabilities, appointments, currentDate);
-  
-  if (ranges === "Aucune dispo configurée" || 
-      ranges === "Pas dispo aujourd'hui" ||
-      ranges === "Plus de créneaux dispo aujourd'hui") {
-    return null;
-  }
+  days: DayAvailability[]
+): { date: string; time: string } | null {
+  for (const day of days) {
+    if (day.ranges.length === 0) continue;
 
-  // Parse first range and return its start time
-  const firstRange = ranges.split(',')[0].trim();
-  const startTime = firstRange.split('-')[0];
-  
-  // Convert back to HH:MM format
-  const hourMatch = startTime.match(/(\d+)h(\d*)/);
-  if (hourMatch) {
-    const hours = hourMatch[1].padStart(2, '0');
-    const minutes = hourMatch[2] ? hourMatch[2].padStart(2, '0') : '00';
-    return `${hours}:${minutes}`;
+    const start = day.ranges[0].start % MINUTES_PER_DAY;
+    const date = day.ranges[0].start >= MINUTES_PER_DAY ? addDaysToISODate(day.date, 1) : day.date;
+    const hours = String(Math.floor(start / 60)).padStart(2, '0');
+    const minutes = String(start % 60).padStart(2, '0');
+
+    return { date, time: `${hours}:${minutes}` };
   }
 
   return null;
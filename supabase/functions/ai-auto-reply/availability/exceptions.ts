@@ -0,0 +1,205 @@
+/**
+ * Availability exceptions utilities
+ * One-off changes to the weekly schedule: blocked dates/slots, vacations, extra hours
+ */
+
+import { addDaysToISODate } from '../utils/timezone.ts';
+import type { AvailabilityException, TimeOffPeriod, TimeRange } from '../types.ts';
+
+const MINUTES_PER_DAY = 24 * 60;
+
+/**
+ * Checks if an exception applies to a given date
+ *
+ * @param exception - Availability exception
+ * @param date - Date in YYYY-MM-DD format
+ * @returns true if date is within start_date..end_date (inclusive)
+ */
+export function exceptionCoversDate(exception: AvailabilityException, date: string): boolean {
+  return exception.start_date <= date && date <= exception.end_date;
+}
+
+/**
+ * Checks if a date is entirely closed (holiday, day off, vacation)
+ *
+ * @param date - Date in YYYY-MM-DD format
+ * @param exceptions - User's availability exceptions
+ * @returns true if a whole-day blocked exception covers the date
+ */
+export function isDateFullyBlocked(date: string, exceptions: AvailabilityException[]): boolean {
+  return exceptions.some(
+    (e) => e.exception_type === 'blocked' && e.start_time === null && exceptionCoversDate(e, date)
+  );
+}
+
+/**
+ * Gets the extra opening windows of a date
+ * Windows crossing midnight end after 1440, like weekly availabilities
+ *
+ * @param date - Date in YYYY-MM-DD format
+ * @param exceptions - User's availability exceptions
+ * @returns Extra windows in minutes from the date's midnight
+ *
+ * @example
+ * getExtraWindowsForDate("2025-12-24", [{ exception_type: 'extra_hours', start_time: '10:00', end_time: '12:00', ... }]);
+ * // [{ start: 600, end: 720 }]
+ */
+export function getExtraWindowsForDate(
+  date: string,
+  exceptions: AvailabilityException[]
+): TimeRange[] {
+  const windows: TimeRange[] = [];
+
+  for (const e of exceptions) {
+    if (e.exception_type === 'extra_hours' && e.start_time && e.end_time && exceptionCoversDate(e, date)) {
+      windows.push(toMinuteRange(e.start_time, e.end_time));
+    }
+  }
+
+  return windows;
+}
+
+/**
+ * Adds blocked minutes of a date to a timeline (minutes 0-2879 from the date's midnight)
+ *
+ * Covers whole-day blocks of the date and of the next day, and blocked slots of
+ * the previous, current and next day (shifted so midnight crossings line up).
+ *
+ * @param timeline - Set of unavailable minutes, mutated in place
+ * @param date - Reference date (YYYY-MM-DD)
+ * @param exceptions - User's availability exceptions
+ */
+export function addBlockedMinutes(
+  timeline: Set<number>,
+  date: string,
+  exceptions: AvailabilityException[]
+): void {
+  const nextDate = addDaysToISODate(date, 1);
+
+  const blockRange = (start: number, end: number) => {
+    for (let m = Math.max(start, 0); m < Math.min(end, 2 * MINUTES_PER_DAY); m++) {
+      timeline.add(m);
+    }
+  };
+
+  if (isDateFullyBlocked(date, exceptions)) {
+    blockRange(0, MINUTES_PER_DAY);
+  }
+  if (isDateFullyBlocked(nextDate, exceptions)) {
+    blockRange(MINUTES_PER_DAY, 2 * MINUTES_PER_DAY);
+  }
+
+  const slots = exceptions.filter((e) => e.exception_type === 'blocked' && e.start_time !== null);
+
+  for (const dayOffset of [-1, 0, 1]) {
+    const slotDate = addDaysToISODate(date, dayOffset);
+    const shift = dayOffset * MINUTES_PER_DAY;
+
+    for (const slot of slots) {
+      if (!slot.start_time || !slot.end_time || !exceptionCoversDate(slot, slotDate)) continue;
+      const range = toMinuteRange(slot.start_time, slot.end_time);
+      blockRange(range.start + shift, range.end + shift);
+    }
+  }
+}
+
+/**
+ * Groups whole-day blocked exceptions into time-off periods
+ * Overlapping or back-to-back exceptions (e.g. vacation followed by a holiday)
+ * are merged, so the reopen date is the first day really bookable again.
+ *
+ * @param exceptions - User's availability exceptions
+ * @param fromDate - Only periods ending on or after this date are returned (YYYY-MM-DD)
+ * @returns Time-off periods sorted by start date
+ *
+ * @example
+ * getTimeOffPeriods(exceptions, "2025-01-15");
+ * // [{ startDate: "2025-01-20", endDate: "2025-01-27", reopenDate: "2025-01-28" }]
+ */
+export function getTimeOffPeriods(
+  exceptions: AvailabilityException[],
+  fromDate: string
+): TimeOffPeriod[] {
+  const fullDays = exceptions
+    .filter((e) => e.exception_type === 'blocked' && e.start_time === null)
+    .sort((a, b) => a.start_date.localeCompare(b.start_date));
+
+  const periods: TimeOffPeriod[] = [];
+
+  for (const exception of fullDays) {
+    const last = periods[periods.length - 1];
+
+    if (last && exception.start_date <= last.reopenDate) {
+      if (exception.end_date > last.endDate) {
+        last.endDate = exception.end_date;
+        last.reopenDate = addDaysToISODate(exception.end_date, 1);
+      }
+    } else {
+      periods.push({
+        startDate: exception.start_date,
+        endDate: exception.end_date,
+        reopenDate: addDaysToISODate(exception.end_date, 1)
+      });
+    }
+  }
+
+  return periods.filter((p) => p.endDate >= fromDate);
+}
+
+/**
+ * Finds the time-off period covering a date
+ *
+ * @param date - Date in YYYY-MM-DD format
+ * @param periods - Result of getTimeOffPeriods()
+ * @returns Covering period, or null if the date is not a day off
+ */
+export function findTimeOffPeriod(date: string, periods: TimeOffPeriod[]): TimeOffPeriod | null {
+  return periods.find((p) => p.startDate <= date && date <= p.endDate) ?? null;
+}
+
+/**
+ * Formats time-off periods for the WORKFLOW prompt
+ *
+ * @param periods - Result of getTimeOffPeriods()
+ * @returns One line per period, or empty string if none
+ *
+ * @example
+ * formatTimeOffPeriods(periods);
+ * // "- Absente du 20/01 au 27/01, reprise des RDV le 28/01"
+ */
+export function formatTimeOffPeriods(periods: TimeOffPeriod[]): string {
+  return periods
+    .map((p) => {
+      const span = p.startDate === p.endDate
+        ? `le ${formatShortDate(p.startDate)}`
+        : `du ${formatShortDate(p.startDate)} au ${formatShortDate(p.endDate)}`;
+      return `- Absente ${span}, reprise des RDV le ${formatShortDate(p.reopenDate)}`;
+    })
+    .join('\n');
+}
+
+/**
+ * Formats a YYYY-MM-DD date as DD/MM
+ */
+export function formatShortDate(date: string): string {
+  const [, month, day] = date.split('-');
+  return `${day}/${month}`;
+}
+
+/**
+ * Converts HH:MM times to a minute range, handling midnight crossing
+ * (e.g., 18:30 - 02:00 → { start: 1110, end: 1560 })
+ */
+export function toMinuteRange(startTime: string, endTime: string): TimeRange {
+  const [startH, startM] = startTime.split(':').map(Number);
+  const [endH, endM] = endTime.split(':').map(Number);
+
+  const start = startH * 60 + startM;
+  let end = endH * 60 + endM;
+
+  if (end <= start) {
+    end += MINUTES_PER_DAY;
+  }
+
+  return { start, end };
+}
@@ -0,0 +1,197 @@
+/**
+ * Availability lookup for the AI
+ * Backs the check_availability tool: is a slot free, and if not, which free slots are closest
+ */
+
+import { addDaysToISODate } from '../utils/timezone.ts';
+import { getAvailableRangesForDate } from './calculator.ts';
+import { validateAppointmentTimeDetailed, isValidDateFormat, isValidTimeFormat } from './validator.ts';
+import { findTimeOffPeriod } from './exceptions.ts';
+import { NO_BUFFERS } from './buffers.ts';
+import type { BufferMinutes, DayAvailability, OccupiedSlot, TimeOffPeriod } from '../types.ts';
+
+const MINUTES_PER_DAY = 24 * 60;
+
+// Suggested start times are on this grid (plus the start of each free range)
+const SLOT_STEP_MINUTES = 30;
+
+export interface SuggestedSlot {
+  date: string;  // YYYY-MM-DD (date of the start time, after midnight = next day)
+  time: string;  // HH:MM
+}
+
+/**
+ * Result of check_availability, sent back to the model as is
+ */
+export interface AvailabilityCheckResult {
+  date: string;
+  time: string | null;
+  duration_minutes: number;
+  available: boolean | null;       // null when no time was asked
+  reason?: string;                 // Validator error code (CONFLICT, BUFFER, NOT_AVAILABLE, TIME_OFF...)
+  free_ranges: string | null;      // Free ranges of that date, null if nothing is free
+  closest_slots: SuggestedSlot[];
+  back_on?: string;                // First bookable date after time off
+}
+
+/**
+ * Days between two ISO dates (positive when `to` is after `from`)
+ */
+function daysBetween(from: string, to: string): number {
+  const [fromYear, fromMonth, fromDay] = from.split('-').map(Number);
+  const [toYear, toMonth, toDay] = to.split('-').map(Number);
+  return Math.round(
+    (Date.UTC(toYear, toMonth - 1, toDay) - Date.UTC(fromYear, fromMonth - 1, fromDay)) / 86400000
+  );
+}
+
+/**
+ * Finds the free slots closest to a requested date/time
+ *
+ * A slot is a start time where the whole duration fits in one free range
+ * (so it never overlaps an appointment nor the end of a window).
+ * Candidates start at each range start, then every 30 minutes.
+ *
+ * With a time, slots are ranked by distance to it (across midnight and days);
+ * without one, the earliest slots from that date on are returned.
+ *
+ * @param days - Result of computeAvailabilityDays()
+ * @param date - Requested date (YYYY-MM-DD)
+ * @param durationMinutes - Appointment duration in minutes
+ * @param time - Requested time (HH:MM), or null
+ * @param limit - Maximum number of slots
+ * @returns Closest slots, chronological
+ *
+ * @example
+ * // Friday free 18h-21h and 22h-2h, client asks 21h for 1h
+ * findClosestSlots(days, '2025-01-17', 60, '21:00');
+ * // [{ date: '2025-01-17', time: '20:00' }, { date: '2025-01-17', time: '22:00' }, ...]
+ */
+export function findClosestSlots(
+  days: DayAvailability[],
+  date: string,
+  durationMinutes: number,
+  time: string | null = null,
+  limit = 3
+): SuggestedSlot[] {
+  if (days.length === 0 || !isValidDateFormat(date)) {
+    return [];
+  }
+
+  const firstDate = days[0].date;
+  const candidates = new Map<number, SuggestedSlot>();
+
+  for (const day of days) {
+    const dayStart = daysBetween(firstDate, day.date) * MINUTES_PER_DAY;
+
+    for (const range of day.ranges) {
+      let start = range.start;
+      while (start + durationMinutes <= range.end) {
+        const minuteOfDay = start % MINUTES_PER_DAY;
+        const hours = String(Math.floor(minuteOfDay / 60)).padStart(2, '0');
+        const minutes = String(minuteOfDay % 60).padStart(2, '0');
+
+        candidates.set(dayStart + start, {
+          date: start >= MINUTES_PER_DAY ? addDaysToISODate(day.date, 1) : day.date,
+          time: `${hours}:${minutes}`
+        });
+
+        start = (Math.floor(start / SLOT_STEP_MINUTES) + 1) * SLOT_STEP_MINUTES;
+      }
+    }
+  }
+
+  const requestedDayStart = daysBetween(firstDate, date) * MINUTES_PER_DAY;
+  let ranked: number[];
+
+  if (time && isValidTimeFormat(time)) {
+    const [hours, minutes] = time.split(':').map(Number);
+    const requested = requestedDayStart + hours * 60 + minutes;
+    ranked = [...candidates.keys()]
+      .sort((a, b) => Math.abs(a - requested) - Math.abs(b - requested) || a - b);
+  } else {
+    ranked = [...candidates.keys()]
+      .filter((minute) => minute >= requestedDayStart)
+      .sort((a, b) => a - b);
+  }
+
+  return ranked
+    .slice(0, limit)
+    .sort((a, b) => a - b)
+    .map((minute) => candidates.get(minute)!);
+}
+
+/**
+ * Checks a date (and optionally a time) for the AI
+ *
+ * The time check is the same as the one run before booking
+ * (validateAppointmentTimeDetailed), so the answer matches what will be accepted.
+ *
+ * @param date - Requested date (YYYY-MM-DD)
+ * @param time - Requested time (HH:MM), or null to get the whole day
+ * @param durationMinutes - Appointment duration in minutes
+ * @param availabilityDays - Free ranges over the lookahead window (computeAvailabilityDays)
+ * @param appointments - Existing appointments and external busy times
+ * @param currentDate - Current date (UTC Date)
+ * @param timeOffPeriods - Provider's days off (getTimeOffPeriods)
+ * @param buffers - Buffers of the appointment (availabilityDays must be computed with the same ones)
+ * @returns Availability check result
+ *
+ * @example
+ * checkAvailability('2025-01-17', '21:00', 120, days, appointments, now, timeOff);
+ * // { available: false, reason: 'CONFLICT', free_ranges: '18h-21h, 22h-2h (jusqu\'à demain matin)',
+ * //   closest_slots: [{ date: '2025-01-17', time: '22:00' }, ...], ... }
+ */
+export function checkAvailability(
+  date: string,
+  time: string | null,
+  durationMinutes: number,
+  availabilityDays: DayAvailability[],
+  appointments: OccupiedSlot[],
+  currentDate: Date,
+  timeOffPeriods: TimeOffPeriod[] = [],
+  buffers: BufferMinutes = NO_BUFFERS
+): AvailabilityCheckResult {
+  const result: AvailabilityCheckResult = {
+    date,
+    time,
+    duration_minutes: durationMinutes,
+    available: null,
+    free_ranges: getAvailableRangesForDate(date, availabilityDays),
+    closest_slots: []
+  };
+
+  if (!isValidDateFormat(date) || (time && !isValidTimeFormat(time))) {
+    result.available = false;
+    result.reason = isValidDateFormat(date) ? 'INVALID_TIME_FORMAT' : 'INVALID_DATE_FORMAT';
+    return result;
+  }
+
+  const timeOff = findTimeOffPeriod(date, timeOffPeriods);
+  if (timeOff) {
+    result.back_on = timeOff.reopenDate;
+  }
+
+  if (time) {
+    const validation = validateAppointmentTimeDetailed(
+      time,
+      date,
+      durationMinutes,
+      availabilityDays,
+      appointments,
+      currentDate,
+      timeOffPeriods,
+      buffers
+    );
+
+    result.available = validation.isValid;
+    if (!validation.isValid) {
+      result.reason = validation.errorCode;
+      result.closest_slots = findClosestSlots(availabilityDays, date, durationMinutes, time);
+    }
+  } else {
+    result.closest_slots = findClosestSlots(availabilityDays, date, durationMinutes);
+  }
+
+  return result;
+}
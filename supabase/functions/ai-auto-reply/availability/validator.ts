@@ -4,9 +4,11 @@
  */
 
 import { APPOINTMENT_CONFIG } from '../config.ts';
-import { toFranceTime, toFranceISODate } from '../utils/timezone.ts';
-import { isTimeInAvailableRanges } from './calculator.ts';
-import type { Availability, Appointment } from '../types.ts';
+import { toFranceISODate, addDaysToISODate } from '../utils/timezone.ts';
+import { isSlotInAvailabilityDays, getAvailableRangesForDate } from './calculator.ts';
+import { findTimeOffPeriod, formatShortDate } from './exceptions.ts';
+import { NO_BUFFERS, getSlotBuffers } from './buffers.ts';
+import type { BufferMinutes, DayAvailability, OccupiedSlot, TimeOffPeriod } from '../types.ts';
 
 /**
  * Parses a datetime string as France timezone and returns a UTC Date object
@@ -141,108 +143,81 @@ export function validateMinimumLeadTime(
  * Validates appointment time with all checks
  *
  * CRITICAL: Server-side validation for appointment requests
- * Checks: format, today only, lead time, availability, conflicts
+ * Checks: format, booking window, lead time, availability, conflicts
  *
  * @param appointmentTime - Time in HH:MM format
  * @param appointmentDate - Date in YYYY-MM-DD format
- * @param availableRanges - Available ranges string
- * @param availabilities - User's availability schedule
- * @param appointments - Existing appointments
+ * @param durationMinutes - Appointment duration in minutes
+ * @param availabilityDays - Free ranges over the lookahead window (computeAvailabilityDays)
+ * @param appointments - Existing appointments and external busy times
  * @param currentDate - Current date (UTC Date)
+ * @param timeOffPeriods - Provider's days off (getTimeOffPeriods)
+ * @param buffers - Buffers of the appointment (getAppointmentBuffers)
  * @returns Validation result with isValid, reason, suggestion
  */
 export function validateAppointmentTime(
   appointmentTime: string,
   appointmentDate: string,
-  availableRanges: string,
-  availabilities: Availability[],
-  appointments: Appointment[],
-  currentDate: Date
+  durationMinutes: number,
+  availabilityDays: DayAvailability[],
+  appointments: OccupiedSlot[],
+  currentDate: Date,
+  timeOffPeriods: TimeOffPeriod[] = [],
+  buffers: BufferMinutes = NO_BUFFERS
 ): {
   isValid: boolean;
   reason?: string;
   suggestion?: string;
 } {
-  // Validate input format for appointmentDate
-  if (!isValidDateFormat(appointmentDate)) {
-    return {
-      isValid: false,
-      reason: 'invalid_format',
-      suggestion: 'Désolée bébé, la date doit être au format YYYY-MM-DD (ex: 2025-01-15).'
-    };
-  }
-
-  // Validate input format for appointmentTime
-  if (!isValidTimeFormat(appointmentTime)) {
-    return {
-      isValid: false,
-      reason: 'invalid_format',
-      suggestion: 'Désolée bébé, l\'heure doit être au format HH:mm en 24h (ex: 14:30).'
-    };
-  }
-
-  const today = toFranceISODate(currentDate);
-
-  // Check if appointment is for today
-  if (appointmentDate !== today) {
-    return {
-      isValid: false,
-      reason: 'appointment_not_today',
-      suggestion: 'Désolée, rendez-vous le jour même uniquement.'
-    };
-  }
-
-  // Build full datetime string for lead time validation
-  const appointmentDateTime = `${appointmentDate}T${appointmentTime}:00`;
-  const leadTimeValidation = validateMinimumLeadTime(appointmentDateTime, currentDate);
-
-  if (!leadTimeValidation.isValid) {
-    return {
-      isValid: false,
-      reason: 'too_close_to_current_time',
-      suggestion: "Désolée bébé, j'ai besoin d'au moins 15min pour me préparer 😘"
-    };
-  }
-
-  // Check if time falls within available ranges
-  const isInRange = isTimeInAvailableRanges(
+  const detailed = validateAppointmentTimeDetailed(
     appointmentTime,
-    availableRanges,
-    availabilities,
+    appointmentDate,
+    durationMinutes,
+    availabilityDays,
     appointments,
-    currentDate
+    currentDate,
+    timeOffPeriods,
+    buffers
   );
 
-  if (!isInRange) {
-    return {
-      isValid: false,
-      reason: 'time_not_in_available_ranges',
-      suggestion: `Désolée bébé, je suis dispo ${availableRanges}. Tu peux à quelle heure ?`
-    };
+  if (detailed.isValid) {
+    return { isValid: true };
   }
 
-  return { isValid: true };
+  return {
+    isValid: false,
+    reason: detailed.errorCode?.toLowerCase(),
+    suggestion: detailed.userMessage
+  };
 }
 
 /**
  * Validates appointment time with detailed error messages
  * More comprehensive than validateAppointmentTime, includes all edge cases
  * 
+ * Any date of the lookahead window is accepted as long as the requested time
+ * falls inside a real free range of that date (or of the previous day's
+ * midnight-crossing window for times after midnight).
+ * 
  * @param appointmentTime - Time in HH:MM format
  * @param appointmentDate - Date in YYYY-MM-DD format
- * @param availableRanges - Available ranges string
- * @param availabilities - User's availability schedule
- * @param appointments - Existing appointments
+ * @param durationMinutes - Appointment duration in minutes (used for conflict detection)
+ * @param availabilityDays - Free ranges over the lookahead window (computeAvailabilityDays)
+ * @param appointments - Existing appointments and external busy times
  * @param currentDate - Current date (UTC Date)
+ * @param timeOffPeriods - Provider's days off (getTimeOffPeriods), used to say when bookings reopen
+ * @param buffers - Buffers of the appointment, kept clear of other appointments and their own buffers
  * @returns Validation result with detailed error info
  */
 export function validateAppointmentTimeDetailed(
   appointmentTime: string,
   appointmentDate: string,
-  availableRanges: string,
-  availabilities: Availability[],
-  appointments: Appointment[],
-  currentDate: Date
+  durationMinutes: number,
+  availabilityDays: DayAvailability[],
+  appointments: OccupiedSlot[],
+  currentDate: Date,
+  timeOffPeriods: TimeOffPeriod[] = [],
+  buffers: BufferMinutes = NO_BUFFERS
 ): {
   isValid: boolean;
   errorCode?: string;
@@ -270,18 +245,32 @@ export function validateAppointmentTimeDetailed(
   }
 
   const today = toFranceISODate(currentDate);
+  const lastBookableDate = addDaysToISODate(today, APPOINTMENT_CONFIG.APPOINTMENT_LOOKAHEAD_DAYS - 1);
+
+  // Validation 1: Check that the date is inside the booking window
+  // (past dates are caught by the lead time check below)
+  if (appointmentDate > lastBookableDate) {
+    return {
+      isValid: false,
+      errorCode: 'TOO_FAR',
+      errorMessage: `Appointment date ${appointmentDate} is after the booking window (last date ${lastBookableDate})`,
+      userMessage: `Désolée, je prends pas de RDV à plus de ${APPOINTMENT_CONFIG.APPOINTMENT_LOOKAHEAD_DAYS} jours. Tu peux venir avant ?`
+    };
+  }
 
-  // Validation 1: Check if date is today
-  if (appointmentDate !== today) {
+  // Validation 2: Check that the provider is not away that day
+  const timeOff = findTimeOffPeriod(appointmentDate, timeOffPeriods);
+
+  if (timeOff) {
     return {
       isValid: false,
-      errorCode: 'NOT_TODAY',
-      errorMessage: `Appointment date ${appointmentDate} is not today ${today}`,
-      userMessage: 'Désolée, uniquement pour aujourd\'hui.'
+      errorCode: 'TIME_OFF',
+      errorMessage: `Appointment date ${appointmentDate} is within time off ${timeOff.startDate}..${timeOff.endDate}`,
+      userMessage: `Désolée, je suis absente jusqu'au ${formatShortDate(timeOff.endDate)}. Je reprends les RDV le ${formatShortDate(timeOff.reopenDate)}.`
     };
   }
 
-  // Validation 2: Check minimum lead time
+  // Validation 3: Check minimum lead time
   const appointmentDateTime = `${appointmentDate}T${appointmentTime}:00`;
   const leadTimeValidation = validateMinimumLeadTime(appointmentDateTime, currentDate);
 
@@ -295,10 +284,15 @@ export function validateAppointmentTimeDetailed(
     };
   }
 
-  // Validation 3: Check for appointment conflicts
+  const dayRanges = getAvailableRangesForDate(appointmentDate, availabilityDays);
+  const availabilityHint = dayRanges
+    ? `Ce jour-là je suis dispo ${dayRanges}. Tu peux à quelle heure ?`
+    : 'Ce jour-là je suis pas dispo. Un autre jour ?';
+
+  // Validation 4: Check for appointment conflicts
   const hasConflict = hasAppointmentConflict(
     appointmentTime,
-    APPOINTMENT_CONFIG.APPOINTMENT_DURATION_MINUTES,
+    durationMinutes,
     appointmentDate,
     appointments
   );
@@ -307,26 +301,38 @@ export function validateAppointmentTimeDetailed(
     return {
       isValid: false,
       errorCode: 'CONFLICT',
-      errorMessage: `Appointment at ${appointmentTime} conflicts with an existing appointment`,
-      userMessage: `Désolée bébé, j'ai déjà un rendez-vous à cette heure. Je suis dispo ${availableRanges}. Tu peux à quelle heure ?`
+      errorMessage: `Appointment on ${appointmentDate} at ${appointmentTime} conflicts with an existing appointment`,
+      userMessage: `Désolée bébé, j'ai déjà un rendez-vous à cette heure. ${availabilityHint}`
     };
   }
 
-  // Validation 4: Check if time is in available ranges
-  const isInRange = isTimeInAvailableRanges(
+  // Validation 4b: Same check with the buffers (too close to another appointment)
+  const hasBufferConflict = hasAppointmentConflict(
     appointmentTime,
-    availableRanges,
-    availabilities,
+    durationMinutes,
+    appointmentDate,
     appointments,
-    currentDate
+    buffers
   );
 
+  if (hasBufferConflict) {
+    return {
+      isValid: false,
+      errorCode: 'BUFFER',
+      errorMessage: `Appointment on ${appointmentDate} at ${appointmentTime} leaves no buffer time around an existing appointment`,
+      userMessage: `Désolée bébé, il me faut un peu de temps entre deux rendez-vous. ${availabilityHint}`
+    };
+  }
+
+  // Validation 5: Check if time is in the free ranges of that date
+  const isInRange = isSlotInAvailabilityDays(appointmentDate, appointmentTime, availabilityDays);
+
   if (!isInRange) {
     return {
       isValid: false,
       errorCode: 'NOT_AVAILABLE',
-      errorMessage: `Time ${appointmentTime} is not within available ranges: ${availableRanges}`,
-      userMessage: `Désolée bébé, je suis dispo ${availableRanges}. Tu peux à quelle heure ?`
+      errorMessage: `Time ${appointmentDate} ${appointmentTime} is not within available ranges: ${dayRanges ?? 'none'}`,
+      userMessage: `Désolée bébé, pas possible à cette heure. ${availabilityHint}`
     };
   }
 
@@ -358,31 +364,59 @@ export function isValidDateFormat(date: string): boolean {
 /**
  * Checks if an appointment would conflict with existing appointments
  * 
+ * With buffers, both slots are widened (the proposed one by `buffers`, each
+ * existing one by its stored buffers) before checking the overlap.
+ * 
  * @param startTime - Proposed start time (HH:MM)
  * @param durationMinutes - Duration in minutes
  * @param appointmentDate - Date (YYYY-MM-DD)
- * @param appointments - Existing appointments
+ * @param appointments - Existing appointments and external busy times
+ * @param buffers - Buffers of the proposed appointment (none = exact overlap only)
  * @returns true if there's a conflict, false otherwise
  */
 export function hasAppointmentConflict(
   startTime: string,
   durationMinutes: number,
   appointmentDate: string,
-  appointments: Appointment[]
+  appointments: OccupiedSlot[],
+  buffers: BufferMinutes | null = null
 ): boolean {
   const [startH, startM] = startTime.split(':').map(Number);
-  const startMinute = startH * 60 + startM;
-  const endMinute = startMinute + durationMinutes;
-
-  // Get appointments for the same date
-  const sameDay = appointments.filter(apt => apt.appointment_date === appointmentDate);
+  const startMinute = startH * 60 + startM - (buffers?.before ?? 0);
+  const endMinute = startH * 60 + startM + durationMinutes + (buffers?.after ?? 0);
+
+  // Compare on the requested date's timeline: appointments of the previous
+  // and next day are shifted so that midnight-crossing overlaps are caught
+  const previousDate = addDaysToISODate(appointmentDate, -1);
+  const nextDate = addDaysToISODate(appointmentDate, 1);
+
+  for (const apt of appointments) {
+    let shift: number;
+    if (apt.appointment_date === appointmentDate) {
+      shift = 0;
+    } else if (apt.appointment_date === previousDate) {
+      shift = -24 * 60;
+    } else if (apt.appointment_date === nextDate) {
+      shift = 24 * 60;
+    } else {
+      continue;
+    }
 
-  for (const apt of sameDay) {
     const [aptStartH, aptStartM] = apt.start_time.split(':').map(Number);
     const [aptEndH, aptEndM] = apt.end_time.split(':').map(Number);
-    
-    const aptStartMinute = aptStartH * 60 + aptStartM;
-    const aptEndMinute = aptEndH * 60 + aptEndM;
+
+    let aptStartMinute = aptStartH * 60 + aptStartM + shift;
+    let aptEndMinute = aptEndH * 60 + aptEndM + shift;
+
+    if (aptEndMinute <= aptStartMinute) {
+      aptEndMinute += 24 * 60;
+    }
+
+    if (buffers) {
+      const aptBuffers = getSlotBuffers(apt);
+      aptStartMinute -= aptBuffers.before;
+      aptEndMinute += aptBuffers.after;
+    }
 
     // Check for overlap: proposed [start, end) overlaps with existing [aptStart, aptEnd)
     if (startMinute < aptEndMinute && endMinute > aptStartMinute) {
@@ -103,6 +103,29 @@ export const OPENAI_CONFIG = {
   MAX_TOKENS: 500
 } as const;
 
+// ============================================================================
+// LLM Provider Configuration
+// ============================================================================
+export const LLM_CONFIG = {
+  // Used when neither the user nor LLM_MODEL picks a model
+  DEFAULT_MODELS: {
+    openai: OPENAI_CONFIG.MODEL,
+    openai_compatible: OPENAI_CONFIG.MODEL,
+    anthropic: 'claude-3-5-haiku-latest',
+    fake: 'fake'
+  },
+
+  ANTHROPIC_API_URL: 'https://api.anthropic.com/v1/messages',
+  ANTHROPIC_VERSION: '2023-06-01',
+
+  // Request timeout in milliseconds (all providers)
+  TIMEOUT_MS: 30000,
+
+  // Model calls per client message when tools are used
+  // (the last one cannot call tools anymore and must answer)
+  MAX_TOOL_ITERATIONS: 4
+} as const;
+
 // ============================================================================
 // Temporal Parsing Configuration
 // ============================================================================
@@ -110,12 +133,17 @@ export const TEMPORAL_CONFIG = {
   // Duckling API timeout in milliseconds
   DUCKLING_TIMEOUT_MS: 10000,
   
-  // Locale for temporal parsing
-  LOCALE: 'fr_FR',
+  // Duckling locale for each client language (conversations.language)
+  LOCALES: {
+    fr: 'fr_FR',
+    en: 'en_GB',
+    de: 'de_DE',
+    it: 'it_IT'
+  },
   
-  // Keywords that indicate relative time expressions
+  // Keywords that indicate relative time expressions (fr, en, de, it)
   // These should NOT be enriched as they need conversational context
-  RELATIVE_TIME_KEYWORDS: /\b(dans|après|avant|d'ici|sous|en|pour)\b/i
+  RELATIVE_TIME_KEYWORDS: /\b(dans|après|avant|d'ici|sous|en|pour|in|after|before|within|nach|vor|innerhalb|tra|fra|dopo|prima|entro)\b/i
 } as const;
 
 // ============================================================================
@@ -132,6 +160,18 @@ export const CONVERSATION_CONFIG = {
   MAX_LOG_MESSAGE_LENGTH: 5000
 } as const;
 
+// ============================================================================
+// Reply Queue Configuration
+// ============================================================================
+export const REPLY_QUEUE_CONFIG = {
+  // Wait before answering, so messages sent in a row get one reply
+  // (overridden per provider by user_informations.ai_reply_delay_seconds)
+  DEFAULT_QUIET_PERIOD_SECONDS: 5,
+
+  // Upper bound, the whole reply must fit in the Edge Function time limit
+  MAX_QUIET_PERIOD_SECONDS: 30
+} as const;
+
 // ============================================================================
 // Appointment Configuration
 // ============================================================================
@@ -207,6 +247,9 @@ export const AI_EVENT_TYPES = {
   ENUM_VALIDATION: 'enum_validation',
   PRICE_CALCULATED: 'price_calculated',
   APPOINTMENT_CREATED: 'appointment_created',
+  APPOINTMENT_CANCELLED: 'appointment_cancelled',
+  APPOINTMENT_RESCHEDULED: 'appointment_rescheduled',
+  REMINDER_ANSWERED: 'appointment_reminder_answered',
   APPOINTMENT_VALIDATION_FAILED: 'appointment_validation_failed',
   DUPLICATE_PREVENTED: 'duplicate_prevented',
   CLIENT_ARRIVAL_DETECTED: 'client_arrival_detected',
@@ -226,7 +269,8 @@ export const APPOINTMENT_STATUS = {
   PENDING: 'pending',
   CONFIRMED: 'confirmed',
   CANCELLED: 'cancelled',
-  COMPLETED: 'completed'
+  COMPLETED: 'completed',
+  NO_SHOW: 'no_show'
 } as const;
 
 export type AppointmentStatus = typeof APPOINTMENT_STATUS[keyof typeof APPOINTMENT_STATUS];
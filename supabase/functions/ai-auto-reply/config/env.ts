@@ -26,17 +26,50 @@ const envSchema = z.object({
     .min(32, 'JWT_SECRET must be at least 32 characters long')
     .min(1, 'JWT_SECRET is required'),
 
-  // OpenAI configuration
+  // LLM configuration
+  // Default provider for users without their own ai_provider (openai if not set)
+  LLM_PROVIDER: z
+    .enum(['openai', 'openai_compatible', 'anthropic', 'fake'])
+    .optional(),
+
+  LLM_MODEL: z.string().min(1).optional(),
+
   OPENAI_API_KEY: z
     .string()
-    .min(1, 'OPENAI_API_KEY is required')
-    .startsWith('sk-', 'OPENAI_API_KEY must start with "sk-"'),
+    .startsWith('sk-', 'OPENAI_API_KEY must start with "sk-"')
+    .optional(),
+
+  ANTHROPIC_API_KEY: z.string().min(1).optional(),
+
+  // Self-hosted model or local mock server speaking the OpenAI chat API
+  OPENAI_COMPATIBLE_BASE_URL: z
+    .string()
+    .url('OPENAI_COMPATIBLE_BASE_URL must be a valid URL if provided')
+    .optional(),
+
+  OPENAI_COMPATIBLE_API_KEY: z.string().min(1).optional(),
 
   // Optional: Duckling API for temporal parsing
   DUCKLING_API_URL: z
     .string()
     .url('DUCKLING_API_URL must be a valid URL if provided')
     .optional()
+}).superRefine((env, ctx) => {
+  // The default provider must be usable
+  const provider = env.LLM_PROVIDER ?? 'openai';
+  const missing =
+    provider === 'openai' && !env.OPENAI_API_KEY ? 'OPENAI_API_KEY' :
+    provider === 'anthropic' && !env.ANTHROPIC_API_KEY ? 'ANTHROPIC_API_KEY' :
+    provider === 'openai_compatible' && !env.OPENAI_COMPATIBLE_BASE_URL ? 'OPENAI_COMPATIBLE_BASE_URL' :
+    null;
+
+  if (missing) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      path: [missing],
+      message: `${missing} is required when LLM_PROVIDER is "${provider}"`
+    });
+  }
 });
 
 /**
@@ -54,7 +87,7 @@ export type Env = z.infer<typeof envSchema>;
  * @example
  * // At the top of your main file:
  * const env = validateEnv();
- * console.log(`Using OpenAI key: ${env.OPENAI_API_KEY.substring(0, 10)}...`);
+ * console.log(`Default LLM provider: ${env.LLM_PROVIDER ?? 'openai'}`);
  */
 export function validateEnv(): Env {
   try {
@@ -63,7 +96,12 @@ export function validateEnv(): Env {
       SUPABASE_URL: Deno.env.get('SUPABASE_URL'),
       SUPABASE_SERVICE_ROLE_KEY: Deno.env.get('SUPABASE_SERVICE_ROLE_KEY'),
       JWT_SECRET: Deno.env.get('JWT_SECRET'),
+      LLM_PROVIDER: Deno.env.get('LLM_PROVIDER'),
+      LLM_MODEL: Deno.env.get('LLM_MODEL'),
       OPENAI_API_KEY: Deno.env.get('OPENAI_API_KEY'),
+      ANTHROPIC_API_KEY: Deno.env.get('ANTHROPIC_API_KEY'),
+      OPENAI_COMPATIBLE_BASE_URL: Deno.env.get('OPENAI_COMPATIBLE_BASE_URL'),
+      OPENAI_COMPATIBLE_API_KEY: Deno.env.get('OPENAI_COMPATIBLE_API_KEY'),
       DUCKLING_API_URL: Deno.env.get('DUCKLING_API_URL'),
     });
 
@@ -82,8 +120,8 @@ export function validateEnv(): Env {
 
       console.error('');
       console.error('[env] 💡 Please check your environment variables and try again.');
-      console.error('[env] 📝 Required variables: SUPABASE_URL, SUPABASE_SERVICE_ROLE_KEY, JWT_SECRET, OPENAI_API_KEY');
-      console.error('[env] 📝 Optional variables: DUCKLING_API_URL');
+      console.error('[env] 📝 Required variables: SUPABASE_URL, SUPABASE_SERVICE_ROLE_KEY, JWT_SECRET, and the key of LLM_PROVIDER (OPENAI_API_KEY by default)');
+      console.error('[env] 📝 Optional variables: LLM_PROVIDER, LLM_MODEL, ANTHROPIC_API_KEY, OPENAI_COMPATIBLE_BASE_URL, OPENAI_COMPATIBLE_API_KEY, DUCKLING_API_URL');
 
       // Throw error to let caller handle it
       throw new Error('Environment variable validation failed. See console output above for details.');
@@ -104,7 +142,7 @@ export function validateEnv(): Env {
  *
  * @example
  * const env = validateEnv();
- * const apiKey = env.OPENAI_API_KEY; // Type-safe!
+ * const apiKey = env.OPENAI_API_KEY; // Type-safe! (string | undefined)
  */
 export function getEnvVar(env: Env, key: keyof Env): string | undefined {
   return env[key];
@@ -0,0 +1,106 @@
+/**
+ * Client profile for the AI
+ * Reads the contact_summaries view (provider's notes and tags, visits from appointments)
+ * so the AI recognises returning clients
+ */
+
+import { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2.76.1';
+import { normalizePhoneNumber } from '../../_shared/normalize-phone.ts';
+import { formatShortDate } from '../availability/exceptions.ts';
+import { getConversationContactPhone } from './conversation.ts';
+import type { ClientProfile } from '../types.ts';
+
+/**
+ * Fetches the profile of the conversation's client
+ * A missing profile only means a poorer prompt: errors are logged, not thrown
+ *
+ * @param supabase - Supabase client
+ * @param userId - Provider user ID
+ * @param conversationId - Conversation ID
+ * @returns Client profile, or null if unknown
+ *
+ * @example
+ * const profile = await fetchClientProfile(supabase, user_id, conversation_id);
+ * // { name: 'Marc', visit_count: 4, total_spent: 1200, tags: ['Régulier'], ... }
+ */
+export async function fetchClientProfile(
+  supabase: SupabaseClient,
+  userId: string,
+  conversationId: string
+): Promise<ClientProfile | null> {
+  try {
+    const conversation = await getConversationContactPhone(supabase, conversationId);
+    const phone = normalizePhoneNumber(conversation?.contact_phone);
+    if (!phone) {
+      return null;
+    }
+
+    const { data, error } = await supabase
+      .from('contact_summaries')
+      .select('id, phone, name, notes, tags, visit_count, total_spent, last_visit_date, next_appointment_date, cancelled_count, no_show_count, blocked, flag_reason')
+      .eq('user_id', userId)
+      .eq('phone', phone)
+      .maybeSingle();
+
+    if (error) {
+      console.error('[data] Error fetching client profile:', error);
+      return null;
+    }
+
+    return data ? { ...data, total_spent: Number(data.total_spent) || 0 } as ClientProfile : null;
+  } catch (error) {
+    console.error('[data] Client profile unavailable:', error);
+    return null;
+  }
+}
+
+/**
+ * Formats the client profile for the WORKFLOW prompt
+ *
+ * @param profile - Client profile (null = unknown client)
+ * @returns Short summary, empty if there is nothing to say
+ *
+ * @example
+ * formatClientSummaryForPrompt(profile);
+ * // "Client déjà venu 4 fois (dernière visite le 12/11), CHF 1200 au total
+ * //  Tags : Régulier
+ * //  Notes : préfère les RDV tard le soir"
+ */
+export function formatClientSummaryForPrompt(profile: ClientProfile | null): string {
+  if (!profile) {
+    return '';
+  }
+
+  const lines: string[] = [];
+
+  if (profile.visit_count > 0) {
+    const times = profile.visit_count === 1 ? '1 fois' : `${profile.visit_count} fois`;
+    const lastVisit = profile.last_visit_date ? ` (dernière visite le ${formatShortDate(profile.last_visit_date)})` : '';
+    const spent = profile.total_spent > 0 ? `, CHF ${Math.round(profile.total_spent)} au total` : '';
+    lines.push(`Client déjà venu ${times}${lastVisit}${spent}`);
+  } else {
+    lines.push('Nouveau client (jamais venu)');
+  }
+
+  if (profile.cancelled_count > 0) {
+    lines.push(`RDV annulés : ${profile.cancelled_count}`);
+  }
+
+  if (profile.no_show_count > 0) {
+    lines.push(`RDV non honorés (lapins) : ${profile.no_show_count}`);
+  }
+
+  if (profile.flag_reason === 'abuse') {
+    lines.push('Déjà signalé pour messages déplacés');
+  }
+
+  if (profile.tags.length > 0) {
+    lines.push(`Tags : ${profile.tags.join(', ')}`);
+  }
+
+  if (profile.notes?.trim()) {
+    lines.push(`Notes : ${profile.notes.trim().replace(/\s+/g, ' ')}`);
+  }
+
+  return lines.join('\n');
+}
@@ -6,6 +6,12 @@
 import { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2.76.1';
 import { CONVERSATION_CONFIG, APPOINTMENT_STATUS } from '../config.ts';
 import { toFranceTime, toFranceISODate } from '../utils/timezone.ts';
+import {
+  DEFAULT_LANGUAGE,
+  SUPPORTED_LANGUAGES,
+  detectLanguage,
+  type SupportedLanguage
+} from '../../_shared/language.ts';
 import type { Message, Appointment } from '../types.ts';
 
 /**
@@ -157,17 +163,99 @@ export async function getConversationContact(
   return data as { contact_phone: string; contact_name: string | null };
 }
 
+/**
+ * Retrieves the client language stored on the conversation
+ * A failed read is not blocking: the language is detected again from the messages
+ *
+ * @param supabase - Supabase client
+ * @param conversationId - Conversation ID
+ * @returns Stored language, null if never detected
+ */
+export async function getConversationLanguage(
+  supabase: SupabaseClient,
+  conversationId: string
+): Promise<SupportedLanguage | null> {
+  const { data, error } = await supabase
+    .from('conversations')
+    .select('language')
+    .eq('id', conversationId)
+    .maybeSingle();
+  if (error) {
+    console.error('[data] Error fetching conversation language:', error);
+    return null;
+  }
+
+  const language = data?.language as SupportedLanguage | null | undefined;
+  return language && SUPPORTED_LANGUAGES.includes(language) ? language : null;
+}
+
+/**
+ * Stores the detected client language on the conversation
+ * Reminders, access info and review messages are sent in that language afterwards
+ *
+ * @param supabase - Supabase client
+ * @param conversationId - Conversation ID
+ * @param language - Detected language
+ */
+export async function saveConversationLanguage(
+  supabase: SupabaseClient,
+  conversationId: string,
+  language: SupportedLanguage
+): Promise<void> {
+  const { error } = await supabase
+    .from('conversations')
+    .update({ language })
+    .eq('id', conversationId);
+  if (error) {
+    console.error('[data] Error saving conversation language:', error);
+  }
+}
+
+/**
+ * Picks the language to answer in
+ *
+ * Order: the current turn when it is clear enough (a client may switch language),
+ * then the stored language, then the client's last messages together, then French.
+ * Short messages ("ok", "22h ?") keep the language already known.
+ *
+ * @param storedLanguage - conversations.language
+ * @param turnText - Client message(s) being answered
+ * @param messages - Conversation history
+ * @returns Language of the conversation
+ *
+ * @example
+ * resolveConversationLanguage('fr', 'Hi, are you free tonight?', messages); // 'en'
+ * resolveConversationLanguage('de', 'ok', messages); // 'de'
+ */
+export function resolveConversationLanguage(
+  storedLanguage: SupportedLanguage | null,
+  turnText: string,
+  messages: Message[]
+): SupportedLanguage {
+  const fromTurn = detectLanguage(turnText);
+  if (fromTurn) return fromTurn;
+  if (storedLanguage) return storedLanguage;
+
+  const incomingText = messages
+    .filter((m) => m.direction === 'incoming')
+    .slice(-5)
+    .map((m) => m.content)
+    .join(' ');
+
+  return detectLanguage(incomingText) ?? DEFAULT_LANGUAGE;
+}
+
 /**
  * Fetches all conversation data needed for AI processing
  * Convenience function that fetches everything in parallel
  * 
  * @param supabase - Supabase client
  * @param conversationId - Conversation ID
- * @returns Object with messages and todayAppointment
+ * @returns Object with messages, todayAppointment and the stored language
  * @throws Error if messages cannot be fetched
  * 
  * @example
- * const { messages, todayAppointment } = await fetchAllConversationData(supabase, conversation_id);
+ * const { messages, todayAppointment, language } = await fetchAllConversationData(supabase, conversation_id);
  */
 export async function fetchAllConversationData(
   supabase: SupabaseClient,
@@ -175,15 +263,18 @@ export async function fetchAllConversationData(
 ): Promise<{
   messages: Message[];
   todayAppointment: Appointment | null;
+  language: SupportedLanguage | null;
 }> {
   // Fetch in parallel for better performance
-  const [messages, todayAppointment] = await Promise.all([
+  const [messages, todayAppointment, language] = await Promise.all([
     fetchConversationMessages(supabase, conversationId),
-    checkTodayAppointment(supabase, conversationId)
+    checkTodayAppointment(supabase, conversationId),
+    getConversationLanguage(supabase, conversationId)
   ]);
 
   return {
     messages,
-    todayAppointment
+    todayAppointment,
+    language
   };
 }
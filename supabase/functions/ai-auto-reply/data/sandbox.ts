@@ -0,0 +1,222 @@
+/**
+ * Sandbox ("Tester mon assistant" page)
+ * The page sends its test conversation and the test appointments of the previous turns;
+ * the whole pipeline runs on them in dry-run mode. Checks and tools work as usual, but
+ * sandbox appointments only live in the request/response: nothing is written to the
+ * calendar, sent on WhatsApp, notified to the provider or logged in ai_events
+ */
+
+import { APPOINTMENT_STATUS, CONVERSATION_CONFIG, type AIMode } from '../config.ts';
+import { toFranceISODate } from '../utils/timezone.ts';
+import { SUPPORTED_LANGUAGES, type SupportedLanguage } from '../../_shared/language.ts';
+import type { Appointment, ExecutedToolCall, Message, PriceMappings } from '../types.ts';
+
+// Valid uuid that no conversation has: the read-only checks (duplicates, overlaps) find nothing for it
+export const SANDBOX_CONVERSATION_ID = '00000000-0000-0000-0000-000000000000';
+
+export const SANDBOX_CONTACT = { contact_phone: 'sandbox', contact_name: 'Client test' };
+
+const SANDBOX_ID_PREFIX = 'sandbox-';
+const MAX_SANDBOX_MESSAGE_LENGTH = 1000;
+const MAX_SANDBOX_APPOINTMENTS = 20;
+const SANDBOX_STATUSES: string[] = [
+  APPOINTMENT_STATUS.PENDING,
+  APPOINTMENT_STATUS.CONFIRMED,
+  APPOINTMENT_STATUS.CANCELLED
+];
+
+export interface SandboxRequest {
+  messages: Array<Pick<Message, 'direction' | 'content'>>;  // Ends with the client message to answer
+  appointments?: Appointment[];                              // Returned by the previous turns
+  language?: SupportedLanguage | null;                       // Returned by the previous turn
+}
+
+/**
+ * Dry-run state, shared with the tool executor
+ */
+export interface SandboxSession {
+  appointments: Appointment[];  // Sandbox appointments, cancelled ones included
+  skipped: string[];            // Actions not carried out (provider notification, payment link...)
+}
+
+/**
+ * Sandbox turn, in the shape of the data the pipeline usually fetches
+ */
+export interface SandboxRun {
+  session: SandboxSession;
+  messageText: string;
+  conversation: {
+    messages: Message[];
+    todayAppointment: Appointment | null;
+    language: SupportedLanguage | null;
+  };
+}
+
+/**
+ * What the sandbox page shows for one turn
+ */
+export interface SandboxTrace {
+  message: string;                    // Client turn (pending messages merged)
+  language: SupportedLanguage;
+  context_type: string;               // Conversation context analysis (TIME, DURATION...)
+  parsing_method: string;
+  entities: string[];                 // Temporal expressions found in the message
+  enriched_message: string;           // Client message as the model receives it
+  ai_mode: AIMode;
+  ai_mode_description: string;
+  model: string;                      // LLM provider / model
+  tools: string[];                    // Tools exposed to the model
+  tool_calls: ExecutedToolCall[];     // With their output: lookups and validation results
+  arrival: { client_has_arrived: boolean; confidence: string | null } | null;  // WAITING mode only
+  llm_calls: number;
+  latency_ms: number;
+  skipped: string[];
+}
+
+/**
+ * Keeps a sandbox appointment sent back by the page, or drops it
+ * Ids must be sandbox ones, so a real appointment can never be cancelled or moved from here
+ */
+function sanitizeSandboxAppointment(raw: any, userId: string): Appointment | null {
+  if (!raw || typeof raw !== 'object') return null;
+  if (typeof raw.id !== 'string' || !raw.id.startsWith(SANDBOX_ID_PREFIX)) return null;
+  if (typeof raw.appointment_date !== 'string' || !/^\d{4}-\d{2}-\d{2}$/.test(raw.appointment_date)) return null;
+  if (typeof raw.start_time !== 'string' || !/^\d{2}:\d{2}/.test(raw.start_time)) return null;
+  if (typeof raw.end_time !== 'string' || !/^\d{2}:\d{2}/.test(raw.end_time)) return null;
+  if (!Number.isFinite(raw.duration_minutes) || raw.duration_minutes <= 0) return null;
+  if (!SANDBOX_STATUSES.includes(raw.status)) return null;
+
+  return {
+    ...raw,
+    user_id: userId,
+    conversation_id: SANDBOX_CONVERSATION_ID,
+    ...SANDBOX_CONTACT,
+    selected_extras: Array.isArray(raw.selected_extras) ? raw.selected_extras : [],
+    base_price: Number(raw.base_price) || 0,
+    extras_total: Number(raw.extras_total) || 0,
+    total_price: Number(raw.total_price) || 0
+  };
+}
+
+/**
+ * Confirmed sandbox appointment today: the sandbox counterpart of checkTodayAppointment
+ *
+ * @param appointments - Sandbox appointments
+ * @param currentDate - Current date/time
+ * @returns Today's confirmed appointment (WAITING mode), or null
+ */
+export function findSandboxTodayAppointment(appointments: Appointment[], currentDate: Date): Appointment | null {
+  const today = toFranceISODate(currentDate);
+  return appointments.find(
+    (a) => a.appointment_date === today && a.status === APPOINTMENT_STATUS.CONFIRMED
+  ) ?? null;
+}
+
+/**
+ * Sandbox appointments that take a slot (not cancelled)
+ */
+export function activeSandboxAppointments(session: SandboxSession): Appointment[] {
+  return session.appointments.filter((a) => a.status !== APPOINTMENT_STATUS.CANCELLED);
+}
+
+/**
+ * Reads the sandbox part of a request
+ *
+ * @param request - Test conversation, previous sandbox appointments and language
+ * @param userId - Provider
+ * @param now - Current date/time
+ * @returns Session for the tools and conversation data for the pipeline
+ * @throws Error if the conversation is empty or does not end with a client message
+ *
+ * @example
+ * const sandbox = openSandbox({
+ *   messages: [{ direction: 'incoming', content: "Salut, t'es dispo ce soir ?" }],
+ *   appointments: []
+ * }, userId, now);
+ * // sandbox.messageText: "Salut, t'es dispo ce soir ?", sandbox.conversation.todayAppointment: null
+ */
+export function openSandbox(request: SandboxRequest, userId: string, now: Date): SandboxRun {
+  const messages: Message[] = (Array.isArray(request?.messages) ? request.messages : [])
+    .filter((m) => (m.direction === 'incoming' || m.direction === 'outgoing') && typeof m.content === 'string' && m.content.trim())
+    .slice(-CONVERSATION_CONFIG.MAX_HISTORY_MESSAGES)
+    .map((m) => ({
+      conversation_id: SANDBOX_CONVERSATION_ID,
+      direction: m.direction,
+      content: m.content.trim().slice(0, MAX_SANDBOX_MESSAGE_LENGTH),
+      timestamp: now.toISOString()
+    }));
+
+  const lastMessage = messages[messages.length - 1];
+  if (!lastMessage || lastMessage.direction !== 'incoming') {
+    throw new Error('The test conversation must end with a client message');
+  }
+
+  const appointments = (Array.isArray(request.appointments) ? request.appointments : [])
+    .slice(0, MAX_SANDBOX_APPOINTMENTS)
+    .map((appointment) => sanitizeSandboxAppointment(appointment, userId))
+    .filter((appointment): appointment is Appointment => appointment !== null);
+
+  const language = request.language && SUPPORTED_LANGUAGES.includes(request.language)
+    ? request.language
+    : null;
+
+  return {
+    session: { appointments, skipped: [] },
+    messageText: lastMessage.content,
+    conversation: {
+      messages,
+      todayAppointment: findSandboxTodayAppointment(appointments, now),
+      language
+    }
+  };
+}
+
+/**
+ * Turns a booking row (buildAppointmentRecord) into a sandbox appointment
+ *
+ * @param record - Row createAppointment would insert
+ * @param priceMappings - Price mappings, for the base price and the price of each extra
+ * @returns Sandbox appointment
+ */
+export function buildSandboxAppointment(
+  record: Omit<Appointment, 'id' | 'selected_extras' | 'base_price' | 'extras_total'> & { selected_extras: string[] },
+  priceMappings: PriceMappings
+): Appointment {
+  const selectedExtras = record.selected_extras.map((name) => ({
+    name,
+    price: priceMappings.extraToPriceMap[name] ?? 0
+  }));
+  const extrasTotal = selectedExtras.reduce((total, extra) => total + extra.price, 0);
+
+  return {
+    ...record,
+    id: `${SANDBOX_ID_PREFIX}${crypto.randomUUID()}`,
+    selected_extras: selectedExtras,
+    base_price: record.total_price - extrasTotal,
+    extras_total: extrasTotal,
+    created_at: new Date().toISOString()
+  };
+}
+
+/**
+ * Applies a change (cancellation, new slot, arrival) to a sandbox appointment
+ *
+ * @param session - Sandbox session
+ * @param appointmentId - Sandbox appointment
+ * @param changes - Fields to change
+ * @returns Updated appointment
+ * @throws Error if the appointment is not a sandbox one
+ */
+export function updateSandboxAppointment(
+  session: SandboxSession,
+  appointmentId: string,
+  changes: Partial<Appointment>
+): Appointment {
+  const index = session.appointments.findIndex((a) => a.id === appointmentId);
+  if (index === -1) {
+    throw new Error(`Not a sandbox appointment: ${appointmentId}`);
+  }
+
+  session.appointments[index] = { ...session.appointments[index], ...changes, updated_at: new Date().toISOString() };
+  return session.appointments[index];
+}
@@ -5,8 +5,14 @@
 
 import { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2.76.1';
 import { APPOINTMENT_CONFIG, APPOINTMENT_STATUS } from '../config.ts';
-import { toFranceTime, toFranceISODate } from '../utils/timezone.ts';
-import type { UserInformation, Availability, Appointment } from '../types.ts';
+import { toFranceTime, toFranceISODate, addDaysToISODate } from '../utils/timezone.ts';
+import type {
+  UserInformation,
+  Availability,
+  AvailabilityException,
+  Appointment,
+  OccupiedSlot
+} from '../types.ts';
 
 /**
  * Fetches user information (prestations, extras, tarifs, etc.)
@@ -72,7 +78,7 @@ export async function fetchAvailabilities(
 
 /**
  * Fetches upcoming appointments for a user
- * Returns appointments for the next N days (configured in APPOINTMENT_CONFIG)
+ * Returns appointments from yesterday to the next N days (configured in APPOINTMENT_CONFIG)
  * Only includes pending and confirmed appointments
  * 
  * @param supabase - Supabase client
@@ -91,6 +97,9 @@ export async function fetchAppointments(
   const todayFrance = toFranceTime(new Date());
   const today = toFranceISODate(todayFrance);
 
+  // Start from yesterday so appointments running past midnight still block today's early hours
+  const yesterday = addDaysToISODate(today, -1);
+
   const nextWeekDate = new Date(todayFrance.getTime() + APPOINTMENT_CONFIG.APPOINTMENT_LOOKAHEAD_DAYS * 24 * 60 * 60 * 1000);
   const nextWeek = toFranceISODate(toFranceTime(nextWeekDate));
 
@@ -98,7 +107,7 @@ export async function fetchAppointments(
     .from('appointments')
     .select('*')
     .eq('user_id', userId)
-    .gte('appointment_date', today)
+    .gte('appointment_date', yesterday)
     .lte('appointment_date', nextWeek)
     .in('status', [APPOINTMENT_STATUS.PENDING, APPOINTMENT_STATUS.CONFIRMED])
     .order('appointment_date', { ascending: true })
@@ -112,17 +121,99 @@ export async function fetchAppointments(
   return (data || []) as Appointment[];
 }
 
+/**
+ * Fetches availability exceptions (blocked dates, vacations, extra hours) for a user
+ * Returns exceptions that are not over yet and start within the lookahead window.
+ * A vacation starting inside the window is returned whole, so the AI can tell
+ * when bookings reopen even if that is after the window.
+ * 
+ * @param supabase - Supabase client
+ * @param userId - User ID
+ * @returns Array of exceptions (empty array if none or on error)
+ * 
+ * @example
+ * const exceptions = await fetchAvailabilityExceptions(supabase, user_id);
+ * // [{ exception_type: "blocked", start_date: "2025-01-20", end_date: "2025-01-27", ... }]
+ */
+export async function fetchAvailabilityExceptions(
+  supabase: SupabaseClient,
+  userId: string
+): Promise<AvailabilityException[]> {
+  const today = toFranceISODate(toFranceTime(new Date()));
+  // Yesterday's blocked slots can run past midnight into today
+  const yesterday = addDaysToISODate(today, -1);
+  const windowEnd = addDaysToISODate(today, APPOINTMENT_CONFIG.APPOINTMENT_LOOKAHEAD_DAYS);
+
+  const { data, error } = await supabase
+    .from('availability_exceptions')
+    .select('*')
+    .eq('user_id', userId)
+    .gte('end_date', yesterday)
+    .lte('start_date', windowEnd)
+    .order('start_date', { ascending: true });
+
+  if (error) {
+    console.error('[data] Error fetching availability exceptions:', error);
+    return [];
+  }
+
+  return (data || []) as AvailabilityException[];
+}
+
+/**
+ * Fetches the busy times of the provider's external calendars over the lookahead window
+ * (external_busy_times, refreshed by the sync-external-calendars function)
+ * 
+ * @param supabase - Supabase client
+ * @param userId - User ID
+ * @returns Busy slots shaped like appointments (empty array if none or on error)
+ * 
+ * @example
+ * const busyTimes = await fetchExternalBusyTimes(supabase, user_id);
+ * // [{ appointment_date: "2025-01-16", start_time: "12:00", end_time: "14:00" }]
+ */
+export async function fetchExternalBusyTimes(
+  supabase: SupabaseClient,
+  userId: string
+): Promise<OccupiedSlot[]> {
+  const today = toFranceISODate(toFranceTime(new Date()));
+  // Same window as fetchAppointments: yesterday's late events can run past midnight
+  const yesterday = addDaysToISODate(today, -1);
+  const windowEnd = addDaysToISODate(today, APPOINTMENT_CONFIG.APPOINTMENT_LOOKAHEAD_DAYS);
+
+  const { data, error } = await supabase
+    .from('external_busy_times')
+    .select('busy_date, start_time, end_time')
+    .eq('user_id', userId)
+    .gte('busy_date', yesterday)
+    .lte('busy_date', windowEnd)
+    .order('busy_date', { ascending: true })
+    .order('start_time', { ascending: true });
+
+  if (error) {
+    console.error('[data] Error fetching external busy times:', error);
+    return [];
+  }
+
+  return (data || []).map((slot) => ({
+    appointment_date: slot.busy_date,
+    start_time: slot.start_time,
+    end_time: slot.end_time
+  }));
+}
+
 /**
  * Fetches all user data needed for AI conversation
  * Convenience function that fetches everything in parallel
  * 
  * @param supabase - Supabase client
  * @param userId - User ID
- * @returns Object with userInfo, availabilities, and appointments
+ * @returns Object with userInfo, availabilities, availability exceptions, appointments and
+ *          external busy times
  * @throws Error if user information not found
  * 
  * @example
- * const { userInfo, availabilities, appointments } = await fetchAllUserData(supabase, user_id);
+ * const { userInfo, availabilities, exceptions, appointments, busyTimes } = await fetchAllUserData(supabase, user_id);
  */
 export async function fetchAllUserData(
   supabase: SupabaseClient,
@@ -130,20 +221,26 @@ export async function fetchAllUserData(
 ): Promise<{
   userInfo: UserInformation;
   availabilities: Availability[];
+  exceptions: AvailabilityException[];
   appointments: Appointment[];
+  busyTimes: OccupiedSlot[];
 }> {
   // Fetch in parallel for better performance
-  const [userInfo, availabilities, appointments] = await Promise.all([
+  const [userInfo, availabilities, exceptions, appointments, busyTimes] = await Promise.all([
     fetchUserInfo(supabase, userId),
     fetchAvailabilities(supabase, userId),
-    fetchAppointments(supabase, userId)
+    fetchAvailabilityExceptions(supabase, userId),
+    fetchAppointments(supabase, userId),
+    fetchExternalBusyTimes(supabase, userId)
   ]);
 
-  console.log('[data] Found', availabilities.length, 'availabilities and', appointments.length, 'upcoming appointments');
+  console.log('[data] Found', availabilities.length, 'availabilities,', exceptions.length, 'exceptions,', appointments.length, 'upcoming appointments and', busyTimes.length, 'external busy times');
 
   return {
     userInfo,
     availabilities,
-    appointments
+    exceptions,
+    appointments,
+    busyTimes
   };
 }
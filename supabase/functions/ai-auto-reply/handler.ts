@@ -0,0 +1,914 @@
+/**
+ * JOBLYA V4 - AI Auto-Reply request handler
+ *
+ * Main orchestrator that coordinates all modules:
+ * - Authentication & authorization
+ * - Debounced reply queue (messages sent in a row get one answer)
+ * - Data fetching (user, conversation, appointments)
+ * - Temporal parsing (Duckling + Chrono fallback)
+ * - Availability calculation
+ * - AI mode determination (WORKFLOW vs WAITING)
+ * - LLM calls (OpenAI, OpenAI-compatible, Anthropic or fake provider)
+ * - Tool loop: appointment creation & validation, results fed back to the AI
+ * - Client-initiated cancellation & rescheduling
+ * - Replies to appointment reminders
+ * - WhatsApp messaging
+ * - Event logging
+ * - Sandbox: the same pipeline in dry-run mode for the "Tester mon assistant" page
+ *
+ * Served by index.ts; the Supabase client and the LLM provider are injected so
+ * the golden conversation tests can run it in memory (tests/support/)
+ */
+
+import { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2.76.1';
+
+// Config
+import type { Env } from './config/env.ts';
+import { AI_MODES, getCorsHeaders } from './config.ts';
+
+// Security
+import { validateJWT, authErrorResponse } from './security/auth.ts';
+import { checkRateLimit, rateLimitErrorResponse, cleanupOldRateLimits } from './security/ratelimit.ts';
+
+// Utils
+import { toFranceTime, toFranceISODate } from './utils/timezone.ts';
+import { buildDynamicEnums } from './utils/enums.ts';
+import { buildPriceMappings } from './utils/pricing.ts';
+
+// Temporal
+import { parseAndEnrichMessage } from './temporal/parser.ts';
+import { analyzeConversationContext, shouldSkipEnrichment } from './temporal/context-analyzer.ts';
+
+// Data
+import { fetchAllUserData } from './data/user.ts';
+import {
+  fetchAllConversationData,
+  getConversationContactPhone,
+  resolveConversationLanguage,
+  saveConversationLanguage
+} from './data/conversation.ts';
+import { fetchClientProfile, formatClientSummaryForPrompt } from './data/client.ts';
+import {
+  activeSandboxAppointments,
+  openSandbox,
+  updateSandboxAppointment,
+  SANDBOX_CONVERSATION_ID,
+  type SandboxRun,
+  type SandboxTrace
+} from './data/sandbox.ts';
+import { buildUserContext, buildCurrentDateTime } from './data/context.ts';
+
+// Availability
+import { computeAvailabilityDays, formatAvailabilityDays, formatAvailabilityOverview } from './availability/calculator.ts';
+import { getTimeOffPeriods, formatTimeOffPeriods } from './availability/exceptions.ts';
+import { getDefaultBuffers } from './availability/buffers.ts';
+
+// AI
+import { determineAIMode, getAIModeDescription } from './ai/modes.ts';
+import { buildWaitingPrompt } from './ai/prompts/waiting.ts';
+import { buildWorkflowPrompt } from './ai/prompts/workflow.ts';
+import { executeOpenAIRequest } from './ai/openai.ts';
+import { PersonaPreviewInputError, runPersonaPreview } from './ai/persona-preview.ts';
+
+// Appointment
+import {
+  buildAppointmentTool,
+  buildCancelAppointmentTool,
+  buildRescheduleAppointmentTool,
+  buildCheckAvailabilityTool,
+  buildShareLocationTool,
+  buildReportAbuseTool
+} from './appointments/tool.ts';
+import { findUpcomingAppointment, formatAppointmentForPrompt } from './appointments/modification.ts';
+import { buildReminderAcknowledgementMessage } from './appointments/confirmation.ts';
+import {
+  isReminderConfirmation,
+  findAwaitingReminder,
+  recordReminderResponse
+} from './appointments/reminders.ts';
+import { createToolExecutor } from './appointments/tool-executor.ts';
+import { getDepositRequirement, formatDepositNoticeForPrompt } from './appointments/deposit.ts';
+
+// Messaging
+import { sendWhatsAppAttachment, sendWhatsAppMessageWithRetry } from './messaging/whatsapp.ts';
+import { waitForQuietPeriod, isReplySuperseded, mergePendingMessages } from './messaging/reply-queue.ts';
+
+// Logging
+import { 
+  logTemporalParsing, 
+  logOpenAICall, 
+  logReminderResponse,
+  logArrivalDetection,
+  logError
+} from './logging/events.ts';
+
+// Types
+import type { LLMProvider, OpenAITool, ToolExecutor, UserInformation } from './types.ts';
+
+/**
+ * What the handler needs from the outside world
+ */
+export interface HandlerDependencies {
+  env: Env;
+  createSupabaseClient: () => SupabaseClient;                      // Service role client
+  createLLMProvider: (userInfo: UserInformation) => LLMProvider;   // User's model or environment default
+}
+
+/**
+ * Response for a reply handed over to a newer invocation (not an error for the webhook)
+ */
+function supersededResponse(corsHeaders: Record<string, string>): Response {
+  return new Response(
+    JSON.stringify({ success: true, skipped: 'superseded' }),
+    { status: 200, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+  );
+}
+
+/**
+ * Response for a client blocked by the provider (the webhook already filters them,
+ * this covers a block made while the reply was waiting)
+ */
+function blockedResponse(corsHeaders: Record<string, string>): Response {
+  return new Response(
+    JSON.stringify({ success: true, skipped: 'blocked' }),
+    { status: 200, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+  );
+}
+
+/**
+ * Main request handler
+ *
+ * @param request - Webhook (service role key + user_id) or frontend (user JWT) request
+ * @param deps - Environment, Supabase client and LLM provider factories
+ * @returns JSON response
+ */
+export async function handleRequest(request: Request, deps: HandlerDependencies): Promise<Response> {
+  const { env } = deps;
+
+  console.log('\n=== 🚀 JOBLYA V4 - AI Auto-Reply Request ===');
+  console.log('[main] Request received at:', new Date().toISOString());
+
+  // Get CORS headers based on request origin
+  const requestOrigin = request.headers.get('Origin');
+  const corsHeaders = getCorsHeaders(requestOrigin);
+
+  // Handle CORS preflight requests
+  if (request.method === 'OPTIONS') {
+    console.log('[cors] Handling preflight request from origin:', requestOrigin);
+    return new Response(null, { 
+      status: 204,
+      headers: {
+        ...corsHeaders,
+        'Access-Control-Allow-Methods': 'POST, OPTIONS',
+        'Access-Control-Max-Age': '86400' // 24 hours
+      }
+    });
+  }
+
+  // Store parsed request body for reuse in error handling
+  let requestBody: any = null;
+
+  try {
+    // ========================================
+    // 1. AUTHENTICATION
+    // ========================================
+    console.log('\n[1/12] 🔐 Authentication...');
+
+    const authHeader = request.headers.get('Authorization');
+    let user_id: string;
+
+    // Detect if this is an internal call from another Edge Function (service role key)
+    // or an external call from the frontend (user JWT)
+    if (authHeader) {
+      // Extract token by removing "Bearer " prefix if present
+      const token = authHeader.startsWith('Bearer ') 
+        ? authHeader.substring(7).trim() 
+        : authHeader.trim();
+      
+      // Check if this is an internal call with exact service role key match
+      if (token === env.SUPABASE_SERVICE_ROLE_KEY) {
+        // Internal call: extract user_id from request body
+        console.log('[auth] 🔧 Internal call detected (service role key)');
+
+        requestBody = await request.json();
+        user_id = requestBody.user_id;
+
+        if (!user_id) {
+          console.error('[auth] Internal call missing user_id in body');
+          return new Response(
+            JSON.stringify({ error: 'Missing user_id in request body for internal call' }),
+            { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+          );
+        }
+
+        console.log('[auth] ✅ Internal call authenticated for user:', user_id);
+      } else {
+        // External call: validate JWT
+        console.log('[auth] 🔑 External call detected, validating JWT...');
+
+        const auth = await validateJWT(authHeader, env.JWT_SECRET);
+
+        if (!auth.isValid) {
+          console.error('[auth] Authentication failed:', auth.error);
+          return authErrorResponse(auth.error!, corsHeaders);
+        }
+
+        user_id = auth.user_id!;
+        console.log('[auth] ✅ JWT authenticated for user:', user_id);
+      }
+    } else {
+      // No authorization header provided
+      console.error('[auth] Missing Authorization header');
+      return authErrorResponse('Missing Authorization header', corsHeaders);
+    }
+
+    // ========================================
+    // 2. PARSE REQUEST BODY
+    // ========================================
+    console.log('\n[2/12] 📦 Parse request body...');
+
+    // If not already parsed (external call), parse now
+    if (!requestBody) {
+      requestBody = await request.json();
+    }
+
+    // Persona preview from the Informations page: one answer to a sample conversation,
+    // nothing stored and nothing sent
+    if (requestBody.persona_preview) {
+      console.log('[main] 🎭 Persona preview');
+
+      const supabase = deps.createSupabaseClient();
+      const rateLimit = await checkRateLimit(supabase, user_id);
+      if (!rateLimit.isAllowed) {
+        return rateLimitErrorResponse(rateLimit.error!, rateLimit.resetTime, corsHeaders);
+      }
+
+      try {
+        const preview = await runPersonaPreview(
+          supabase,
+          user_id,
+          requestBody.persona_preview,
+          deps.createLLMProvider
+        );
+        return new Response(
+          JSON.stringify({ success: true, ...preview }),
+          { status: 200, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+        );
+      } catch (error) {
+        console.error('[main] Persona preview failed:', error);
+        // Only a bad sample conversation is the provider's fault, the rest is on our side
+        if (error instanceof PersonaPreviewInputError) {
+          return new Response(
+            JSON.stringify({ error: error.message }),
+            { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+          );
+        }
+        return new Response(
+          JSON.stringify({
+            error: 'Internal server error',
+            message: error instanceof Error ? error.message : String(error)
+          }),
+          { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+        );
+      }
+    }
+
+    // Sandbox ("Tester mon assistant" page): the test conversation comes with the request and
+    // the pipeline runs in dry-run mode, nothing is stored, sent or notified (data/sandbox.ts)
+    let sandbox: SandboxRun | null = null;
+    if (requestBody.sandbox) {
+      console.log('[main] 🧪 Sandbox run');
+      try {
+        sandbox = openSandbox(requestBody.sandbox, user_id, toFranceTime(new Date()));
+      } catch (error) {
+        return new Response(
+          JSON.stringify({ error: error instanceof Error ? error.message : String(error) }),
+          { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+        );
+      }
+    }
+
+    const {
+      conversation_id,
+      message_text: requestText,
+      message_type: requestType,
+      reply_token: replyToken = null
+    } = sandbox
+      ? { conversation_id: SANDBOX_CONVERSATION_ID, message_text: sandbox.messageText, message_type: 'text' }
+      : requestBody;
+    
+    if (!conversation_id || !requestText) {
+      console.error('[main] Missing required fields');
+      return new Response(
+        JSON.stringify({ error: 'Missing conversation_id or message_text' }),
+        { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+    
+    console.log('[main] ✅ Conversation:', conversation_id);
+    console.log('[main] ✅ Message:', requestText.substring(0, 100) + '...');
+
+    // ========================================
+    // 3. INITIALIZE SUPABASE CLIENT
+    // ========================================
+    console.log('\n[3/12] 🗄️  Initialize Supabase...');
+
+    const supabase = deps.createSupabaseClient();
+
+    console.log('[supabase] ✅ Client initialized');
+
+    // Quiet period: a newer message from the client takes over this reply
+    // (before the rate limit, so bursts only count once; no reply token in the sandbox)
+    if (!(await waitForQuietPeriod(supabase, conversation_id, user_id, replyToken))) {
+      console.log('[reply-queue] ⏭️  Superseded by a newer message, not answering');
+      return supersededResponse(corsHeaders);
+    }
+
+    // ========================================
+    // 4. RATE LIMITING CHECK
+    // ========================================
+    console.log('\n[4/12] 🚦 Check rate limit...');
+
+    const rateLimit = await checkRateLimit(supabase, user_id);
+
+    if (!rateLimit.isAllowed) {
+      console.error('[ratelimit] ❌ Rate limit exceeded');
+      return rateLimitErrorResponse(rateLimit.error!, rateLimit.resetTime, corsHeaders);
+    }
+
+    console.log('[ratelimit] ✅ Request allowed');
+
+    // Cleanup old rate limit records (async, no await)
+    cleanupOldRateLimits(supabase).catch(err =>
+      console.error('[ratelimit] Cleanup failed:', err)
+    );
+
+    // ========================================
+    // 5. FETCH USER & CONVERSATION DATA
+    // ========================================
+    console.log('\n[5/12] 📊 Fetch data...');
+    
+    const [userData, conversationData, clientProfile] = await Promise.all([
+      fetchAllUserData(supabase, user_id),
+      sandbox ? sandbox.conversation : fetchAllConversationData(supabase, conversation_id),
+      // The sandbox client is always a new one
+      sandbox ? null : fetchClientProfile(supabase, user_id, conversation_id)
+    ]);
+    
+    if (clientProfile?.blocked) {
+      console.log('[main] ⏭️  Contact blocked by the provider, not answering');
+      return blockedResponse(corsHeaders);
+    }
+
+    const { userInfo, availabilities, exceptions, busyTimes } = userData;
+    const { todayAppointment } = conversationData;
+    // Sandbox appointments take slots like real ones, but only for this run
+    const appointments = sandbox
+      ? [...userData.appointments, ...activeSandboxAppointments(sandbox.session)]
+      : userData.appointments;
+
+    // Messages sent in a row are answered as one turn
+    const pendingTurn = mergePendingMessages(conversationData.messages, requestText, requestType);
+    const { messages, text: message_text, type: message_type } = pendingTurn;
+    
+    console.log('[data] ✅ User info loaded');
+    console.log('[data] ✅', availabilities.length, 'availabilities,', exceptions.length, 'exceptions,', appointments.length, 'appointments,', busyTimes.length, 'external busy times');
+    console.log('[data] ✅', messages.length, 'messages loaded');
+    if (pendingTurn.count > 1) {
+      console.log('[reply-queue] ✅', pendingTurn.count, 'client messages merged');
+    }
+    console.log('[data] ✅ Today appointment:', todayAppointment ? 'YES' : 'NO');
+    console.log('[data] ✅ Client:', clientProfile ? `${clientProfile.visit_count} visit(s)` : 'unknown');
+
+    // Client language: prompts, parsing and templated messages follow it
+    const language = resolveConversationLanguage(conversationData.language, message_text, messages);
+    if (language !== conversationData.language && !sandbox) {
+      await saveConversationLanguage(supabase, conversation_id, language);
+    }
+    console.log('[data] ✅ Language:', language, conversationData.language ? `(stored: ${conversationData.language})` : '(new)');
+
+    // LLM provider: user's model if set, environment default otherwise
+    const llmProvider = deps.createLLMProvider(userInfo);
+    console.log('[llm] ✅ Provider:', llmProvider.name, '- model:', llmProvider.model);
+
+    // ========================================
+    // 5. TEMPORAL PARSING
+    // ========================================
+    console.log('\n[6/12] ⏰ Temporal parsing...');
+    
+    const now = toFranceTime(new Date());
+    
+    // ========================================
+    // 5a. ANALYZE CONVERSATION CONTEXT
+    // ========================================
+    console.log('[context-analysis] 🔍 Analyzing conversation context...');
+    
+    let contextAnalysis;
+    try {
+      contextAnalysis = await analyzeConversationContext(
+        messages,
+        message_text,
+        llmProvider
+      );
+      
+      console.log('[context-analysis] ✅ Result:', contextAnalysis.contextType);
+      console.log('[context-analysis] Confidence:', contextAnalysis.confidence);
+      console.log('[context-analysis] Reasoning:', contextAnalysis.reasoning);
+      console.log('[context-analysis] Latency:', contextAnalysis.latencyMs, 'ms');
+    } catch (error) {
+      console.error('[context-analysis] ⚠️ Failed, defaulting to UNKNOWN:', error);
+      contextAnalysis = { contextType: 'UNKNOWN', confidence: 0, reasoning: 'Analysis failed', latencyMs: 0 };
+    }
+    // ========================================
+    // 5b. CONDITIONAL TEMPORAL PARSING
+    // ========================================
+    let entities: any[] = [];
+    let enrichedMessage: string;
+    let parsingMethod: string;
+    
+    if (message_type === 'location') {
+      // Shared location pin: the coordinates would be read as dates/times
+      console.log('[temporal] ⏭️  SKIPPING enrichment - location message');
+
+      enrichedMessage = message_text;
+      entities = [];
+      parsingMethod = 'skipped_location';
+
+    } else if (shouldSkipEnrichment(contextAnalysis.contextType)) {
+      // DURATION context detected - skip enrichment
+      console.log('[temporal] ⏭️  SKIPPING enrichment - DURATION context detected');
+      console.log('[temporal] Message "' + message_text + '" is a duration, not a time');
+      
+      enrichedMessage = message_text;
+      entities = [];
+      parsingMethod = 'skipped_duration_context';
+      
+    } else {
+      // TIME or UNKNOWN context - proceed with normal parsing
+      console.log('[temporal] ✅ Proceeding with temporal parsing - context:', contextAnalysis.contextType);
+      
+      const parseResult = await parseAndEnrichMessage(message_text, now, language);
+      entities = parseResult.entities;
+      enrichedMessage = parseResult.enrichedMessage;
+      parsingMethod = parseResult.parsingMethod;
+      
+      console.log('\n=== 🔍 DEBUG TEMPORAL PARSING ===');
+      console.log('📩 Message original:', message_text);
+      console.log('🔮 Entities trouvées:', entities.length);
+      entities.forEach((e, i) => {
+        console.log(`  Entity ${i + 1}:`, {
+          body: e.body,
+          dim: e.dim,
+          value: e.value
+        });
+      });
+      console.log('✨ Message enrichi:', enrichedMessage);
+      console.log('=================================\n');
+    }
+    
+    console.log('[temporal] ✅', entities.length, 'entities found via', parsingMethod);
+    
+    if (entities.length > 0 && !sandbox) {
+      await logTemporalParsing(
+        supabase, user_id, conversation_id,
+        message_text, enrichedMessage, entities.length, parsingMethod
+      );
+    }
+
+    // ========================================
+    // 6. BUILD CONTEXTS
+    // ========================================
+    console.log('\n[7/12] 🏗️  Build contexts...');
+    
+    const userContext = buildUserContext(userInfo);
+    const currentDateTime = buildCurrentDateTime(now);
+    const availabilityDays = computeAvailabilityDays(
+      availabilities, [...appointments, ...busyTimes], now, exceptions, getDefaultBuffers(userInfo)
+    );
+    const availabilitySchedule = formatAvailabilityDays(availabilityDays);
+    const timeOffPeriods = getTimeOffPeriods(exceptions, toFranceISODate(now));
+    
+    console.log('[context] ✅ User context built');
+    console.log('[context] ✅ Current:', currentDateTime.fullDate, currentDateTime.time);
+    console.log('[context] ✅ Available ranges:\n' + availabilitySchedule);
+    if (timeOffPeriods.length > 0) {
+      console.log('[context] ✅ Time off:', timeOffPeriods);
+    }
+
+    // ========================================
+    // 7. DETERMINE AI MODE
+    // ========================================
+    console.log('\n[8/12] 🤖 Determine AI mode...');
+    
+    const aiMode = determineAIMode(todayAppointment);
+    console.log('[ai] ✅ Mode:', getAIModeDescription(todayAppointment));
+
+    // ========================================
+    // 8. BUILD SYSTEM PROMPT
+    // ========================================
+    console.log('\n[9/12] 📝 Build system prompt...');
+    
+    let systemPrompt: string;
+
+    // Too many no-shows: no booking until the client agrees to a deposit
+    const depositRequirement = getDepositRequirement(userInfo, clientProfile);
+    if (depositRequirement) {
+      console.log('[prompt] ✅ Deposit required:', depositRequirement.type, `(${depositRequirement.noShowCount} no-shows)`);
+    }
+    // Hours are looked up by the AI, the prompt only lists open days
+    const tools: OpenAITool[] = [
+      buildCheckAvailabilityTool(buildDynamicEnums(userInfo).durationEnum),
+      buildReportAbuseTool()
+    ];
+
+    if (userInfo.adresse?.replace(/[\s,]/g, '')) {
+      tools.push(buildShareLocationTool());
+    }
+
+    // Appointment the client can cancel or move: today's one in WAITING, the next one otherwise
+    const changeableAppointment = aiMode === AI_MODES.WAITING
+      ? todayAppointment
+      : findUpcomingAppointment(appointments, conversation_id, now);
+
+    if (changeableAppointment) {
+      tools.push(buildCancelAppointmentTool(), buildRescheduleAppointmentTool());
+      console.log('[prompt] ✅ Cancel/reschedule tools configured for', changeableAppointment.id);
+    }
+
+    // Reminder sent by send-appointment-reminders and not answered yet (never for sandbox appointments)
+    const awaitingReminder = changeableAppointment && !sandbox
+      ? await findAwaitingReminder(supabase, changeableAppointment.id)
+      : null;
+
+    if (changeableAppointment && awaitingReminder && isReminderConfirmation(message_text)) {
+      // Plain "oui c'est toujours bon": short answer, no need for the AI
+      console.log('[reminder] ✅ Client confirmed after', awaitingReminder.reminder_type, 'reminder');
+
+      await recordReminderResponse(supabase, awaitingReminder.id, 'confirmed');
+      await logReminderResponse(supabase, user_id, conversation_id, awaitingReminder, 'confirmed');
+
+      const reminderReply = buildReminderAcknowledgementMessage(
+        changeableAppointment.appointment_date,
+        changeableAppointment.start_time,
+        language
+      );
+
+      const reminderContact = await getConversationContactPhone(supabase, conversation_id);
+      if (!reminderContact) {
+        throw new Error('Conversation not found');
+      }
+
+      await sendWhatsAppMessageWithRetry(
+        supabase,
+        conversation_id,
+        reminderReply,
+        user_id,
+        reminderContact.contact_phone
+      );
+
+      return new Response(
+        JSON.stringify({ success: true, ai_mode: aiMode, message_sent: reminderReply }),
+        { status: 200, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+    
+    if (aiMode === AI_MODES.WAITING) {
+      // WAITING mode: JSON structured output
+      systemPrompt = buildWaitingPrompt(todayAppointment!, currentDateTime, language, userInfo.ai_persona ?? null);
+      console.log('[prompt] ✅ WAITING prompt built (', systemPrompt.length, 'chars)');
+      
+    } else {
+      // WORKFLOW mode: Function calling
+      const dynamicEnums = buildDynamicEnums(userInfo);
+      const priceMappings = buildPriceMappings(userInfo.tarifs, userInfo.extras);
+      
+      systemPrompt = buildWorkflowPrompt(
+        userContext,
+        currentDateTime,
+        formatAvailabilityOverview(availabilityDays),
+        formatTimeOffPeriods(timeOffPeriods),
+        changeableAppointment ? formatAppointmentForPrompt(changeableAppointment) : '',
+        formatClientSummaryForPrompt(clientProfile),
+        formatDepositNoticeForPrompt(depositRequirement),
+        dynamicEnums,
+        priceMappings,
+        language,
+        userInfo.ai_persona ?? null
+      );
+      
+      // Build appointment tool with fail-fast validation
+      // If enums are empty, the tool will be undefined and not exposed to the AI
+      try {
+        tools.unshift(buildAppointmentTool(dynamicEnums, !!depositRequirement));
+        console.log('[prompt] ✅ Appointment tool configured');
+      } catch (error) {
+        console.error('[prompt] ⚠️ Cannot build appointment tool:', error.message);
+        console.error('[prompt] ⚠️ AI will operate without appointment creation capability');
+      }
+      
+      console.log('[prompt] ✅ WORKFLOW prompt built (', systemPrompt.length, 'chars)');
+    }
+
+    // ========================================
+    // 9. CALL OPENAI API
+    // ========================================
+    console.log('\n[10/12] 🧠 Call OpenAI...');
+    console.log('\n=== 🧠 DEBUG OPENAI CALL ===');
+    console.log('📝 Historique envoyé:', messages.length, 'messages');
+    messages.forEach((msg, i) => {
+      console.log(`  ${i + 1}. [${msg.direction}]:`, msg.content.substring(0, 100) + '...');
+    });
+    console.log('📩 Message actuel (enrichi):', enrichedMessage);
+    console.log('============================\n');
+
+    // Tools run inside the loop, their results go back to the model
+    const runTool = createToolExecutor({
+      supabase,
+      userId: user_id,
+      conversationId: conversation_id,
+      userInfo,
+      availabilities,
+      exceptions,
+      appointments,
+      busyTimes,
+      availabilityDays,
+      timeOffPeriods,
+      now,
+      changeableAppointment,
+      awaitingReminder,
+      depositRequirement,
+      language,
+      sandbox: sandbox?.session ?? null
+    });
+
+    // No booking/cancellation for a reply that a newer message already replaced
+    const executeTool: ToolExecutor = async (toolCall) => {
+      if (await isReplySuperseded(supabase, conversation_id, replyToken)) {
+        return {
+          output: {
+            success: false,
+            error: 'reply_superseded',
+            details: 'Le client a envoyé un nouveau message, cette réponse sera annulée'
+          }
+        };
+      }
+      return runTool(toolCall);
+    };
+
+    const { response, reply, attachments, toolCalls, llmCalls, latencyMs } = await executeOpenAIRequest(
+      systemPrompt,
+      messages,
+      enrichedMessage,
+      aiMode,
+      tools,
+      llmProvider,
+      executeTool
+    );
+
+    console.log('[openai] ✅', llmCalls.length, 'call(s) in', latencyMs, 'ms');
+
+    // Sandbox calls stay out of ai_events (usage statistics)
+    for (const call of sandbox ? [] : llmCalls) {
+      await logOpenAICall(
+        supabase, user_id, conversation_id,
+        aiMode, call.latencyMs, call.response.usage, call.response.choices[0].finish_reason,
+        llmProvider
+      );
+    }
+
+    // ========================================
+    // 10. PROCESS RESPONSE (MODE-SPECIFIC)
+    // ========================================
+    console.log('\n[11/12] 🔄 Process response...');
+    
+    const choice = response.choices[0];
+    let messageToSend: string;
+    let arrival: SandboxTrace['arrival'] = null;
+
+    if (reply) {
+      // ========================================
+      // BOOKING / CANCEL / RESCHEDULE DONE (both modes)
+      // ========================================
+      messageToSend = reply;
+      console.log('[tools] ✅ Final reply from', toolCalls.map((call) => call.name).join(', '));
+
+    } else if (aiMode === AI_MODES.WAITING) {
+      // ========================================
+      // MODE WAITING: Parse JSON response
+      // ========================================
+      console.log('[waiting] Processing JSON response...');
+      
+      let waitingResponse;
+      try {
+        waitingResponse = JSON.parse(choice.message.content);
+        messageToSend = waitingResponse.message;
+      } catch (parseError) {
+        console.error('[waiting] Failed to parse JSON response:', parseError);
+        messageToSend = "Désolé, une erreur s'est produite. Réessayez ?";
+      }
+      
+      console.log('[waiting] ✅ Message:', messageToSend.substring(0, 100));
+      console.log('[waiting] ✅ Client arrived:', waitingResponse.client_has_arrived);
+      console.log('[waiting] ✅ Confidence:', waitingResponse.confidence);
+      arrival = waitingResponse
+        ? { client_has_arrived: !!waitingResponse.client_has_arrived, confidence: waitingResponse.confidence ?? null }
+        : null;
+
+      if (sandbox) {
+        // Same flag as below, on the sandbox appointment
+        if (arrival?.client_has_arrived && todayAppointment) {
+          updateSandboxAppointment(sandbox.session, todayAppointment.id, { client_arrived: true });
+        }
+      } else {
+        // Log arrival detection
+        await logArrivalDetection(
+          supabase, user_id, conversation_id,
+          waitingResponse.client_has_arrived,
+          waitingResponse.confidence
+        );
+
+        // Update appointment if client arrived
+        if (waitingResponse.client_has_arrived && todayAppointment) {
+          console.log('[waiting] Updating appointment client_arrived flag...');
+
+          const { error } = await supabase
+            .from('appointments')
+            .update({ client_arrived: true })
+            .eq('id', todayAppointment.id);
+
+          if (error) {
+            console.error('[waiting] Error updating appointment:', error);
+          } else {
+            console.log('[waiting] ✅ Appointment updated');
+          }
+        }
+      }
+      
+    } else {
+      // ========================================
+      // MODE WORKFLOW: Regular message
+      // ========================================
+      // Tools already ran in the loop, failed checks were explained by the model
+      messageToSend = choice.message.content || "Hmm ?";
+      console.log('[workflow] ✅ Message:', messageToSend.substring(0, 100));
+    }
+
+    // ========================================
+    // 11. SEND WHATSAPP MESSAGE
+    // ========================================
+    console.log('\n[12/12] 📤 Send WhatsApp message...');
+
+    if (sandbox) {
+      // Dry run: the page shows the reply and how it was built instead
+      sandbox.session.skipped.push(
+        'whatsapp_message',
+        ...attachments.map((attachment) => `whatsapp_attachment:${attachment.type}`)
+      );
+
+      const trace: SandboxTrace = {
+        message: message_text,
+        language,
+        context_type: contextAnalysis.contextType,
+        parsing_method: parsingMethod,
+        entities: entities.map((entity) => entity.body),
+        enriched_message: enrichedMessage,
+        ai_mode: aiMode,
+        ai_mode_description: getAIModeDescription(todayAppointment),
+        model: `${llmProvider.name} / ${llmProvider.model}`,
+        tools: tools.map((tool) => tool.function.name),
+        tool_calls: toolCalls,
+        arrival,
+        llm_calls: llmCalls.length,
+        latency_ms: latencyMs,
+        skipped: sandbox.session.skipped
+      };
+
+      console.log('[sandbox] ✅ Dry run done, nothing sent');
+      return new Response(
+        JSON.stringify({
+          success: true,
+          reply: messageToSend,
+          language,
+          trace,
+          appointments: sandbox.session.appointments
+        }),
+        { status: 200, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    // The client wrote again while we were thinking: the newer invocation answers everything
+    if (await isReplySuperseded(supabase, conversation_id, replyToken)) {
+      console.log('[reply-queue] ⏭️  Superseded while generating, reply dropped');
+      return supersededResponse(corsHeaders);
+    }
+
+    // Get conversation contact phone for security validation
+    const conversationContact = await getConversationContactPhone(supabase, conversation_id);
+    if (!conversationContact) {
+      throw new Error('Conversation not found');
+    }
+
+    await sendWhatsAppMessageWithRetry(
+      supabase,
+      conversation_id,
+      messageToSend,
+      user_id,
+      conversationContact.contact_phone
+    );
+
+    console.log('[whatsapp] ✅ Message sent');
+
+    // Address pin etc. come after the text; a failure there must not fail the reply
+    for (const attachment of attachments) {
+      try {
+        await sendWhatsAppAttachment(supabase, conversation_id, attachment, user_id, conversationContact.contact_phone);
+        console.log('[whatsapp] ✅', attachment.type, 'sent');
+      } catch (attachmentError) {
+        console.error('[whatsapp] ⚠️', attachment.type, 'not sent:', attachmentError);
+      }
+    }
+
+    // ========================================
+    // 12. RETURN SUCCESS RESPONSE
+    // ========================================
+    console.log('\n[12/12] ✅ Success!');
+    console.log('=== 🎉 Request completed successfully ===\n');
+    
+    return new Response(
+      JSON.stringify({ 
+        success: true,
+        ai_mode: aiMode,
+        message_sent: messageToSend.substring(0, 100) + (messageToSend.length > 100 ? '...' : '')
+      }),
+      { 
+        status: 200,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+      }
+    );
+
+  } catch (error) {
+    // ========================================
+    // ERROR HANDLING
+    // ========================================
+    console.error('\n❌ ERROR:', error);
+    console.error('Stack:', error instanceof Error ? error.stack : 'No stack trace');
+    
+    // Try to log error (may fail if user_id/conversation_id not available)
+    try {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      const errorStack = error instanceof Error ? error.stack : undefined;
+
+      // Use previously parsed request body, or try to parse if not available
+      const body = requestBody || await request.json().catch(() => ({}));
+
+      if (body.conversation_id) {
+        // Check authentication - handle both internal (service role) and external (JWT) calls
+        const authHeader = request.headers.get('Authorization');
+        let userId: string | undefined;
+
+        if (authHeader) {
+          const token = authHeader.startsWith('Bearer ')
+            ? authHeader.substring(7).trim()
+            : authHeader.trim();
+
+          // Check if this is an internal call with service role key
+          if (token === env.SUPABASE_SERVICE_ROLE_KEY) {
+            // Internal call - get user_id from body
+            userId = body.user_id;
+          } else {
+            // External call - validate JWT
+            const auth = await validateJWT(authHeader, env.JWT_SECRET).catch(() => ({ isValid: false }));
+            if (auth.isValid && auth.user_id) {
+              userId = auth.user_id;
+            }
+          }
+        }
+
+        if (userId) {
+          const supabase = deps.createSupabaseClient();
+
+          await logError(
+            supabase,
+            userId,
+            body.conversation_id,
+            errorMessage,
+            errorStack
+          );
+        }
+      }
+    } catch (loggingError) {
+      console.error('Failed to log error:', loggingError);
+    }
+    
+    return new Response(
+      JSON.stringify({ 
+        error: 'Internal server error',
+        message: error instanceof Error ? error.message : String(error)
+      }),
+      { 
+        status: 500,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+      }
+    );
+  }
+}
@@ -103,7 +103,8 @@ export async function logTemporalParsing(
  * @param aiMode - AI mode (WORKFLOW or WAITING)
  * @param latencyMs - API latency in milliseconds
  * @param tokensUsed - Tokens used by the API call
- * @param finishReason - Finish reason from OpenAI
+ * @param finishReason - Finish reason (OpenAI format)
+ * @param llm - Provider and model that answered
  */
 export async function logOpenAICall(
   supabase: SupabaseClient,
@@ -112,7 +113,8 @@ export async function logOpenAICall(
   aiMode: string,
   latencyMs: number,
   tokensUsed: any,
-  finishReason: string
+  finishReason: string,
+  llm?: { name: string; model: string }
 ): Promise<void> {
   await logAIEvent(
     supabase,
@@ -124,7 +126,9 @@ export async function logOpenAICall(
       ai_mode: aiMode,
       latency_ms: latencyMs,
       tokens_used: tokensUsed,
-      finish_reason: finishReason
+      finish_reason: finishReason,
+      llm_provider: llm?.name,
+      llm_model: llm?.model
     }
   );
 }
@@ -161,6 +165,125 @@ export async function logAppointmentCreation(
   );
 }
 
+/**
+ * Logs client-initiated cancellation event
+ * 
+ * @param supabase - Supabase client
+ * @param userId - User ID
+ * @param conversationId - Conversation ID
+ * @param appointment - Cancelled appointment
+ * @param reason - Reason given by the client
+ */
+export async function logAppointmentCancellation(
+  supabase: SupabaseClient,
+  userId: string,
+  conversationId: string,
+  appointment: any,
+  reason: string
+): Promise<void> {
+  await logAIEvent(
+    supabase,
+    userId,
+    conversationId,
+    'appointment_cancelled',
+    'Appointment cancelled by client',
+    {
+      appointment_id: appointment.id,
+      appointment_date: appointment.appointment_date,
+      start_time: appointment.start_time,
+      reason: reason
+    }
+  );
+}
+
+/**
+ * Logs client-initiated reschedule event
+ * 
+ * @param supabase - Supabase client
+ * @param userId - User ID
+ * @param conversationId - Conversation ID
+ * @param appointment - Appointment before the move
+ * @param newDate - New date (YYYY-MM-DD)
+ * @param newTime - New start time (HH:MM)
+ */
+export async function logAppointmentReschedule(
+  supabase: SupabaseClient,
+  userId: string,
+  conversationId: string,
+  appointment: any,
+  newDate: string,
+  newTime: string
+): Promise<void> {
+  await logAIEvent(
+    supabase,
+    userId,
+    conversationId,
+    'appointment_rescheduled',
+    'Appointment rescheduled by client',
+    {
+      appointment_id: appointment.id,
+      previous_date: appointment.appointment_date,
+      previous_start_time: appointment.start_time,
+      new_date: newDate,
+      new_start_time: newTime
+    }
+  );
+}
+
+/**
+ * Logs the client's answer to a reminder
+ * 
+ * @param supabase - Supabase client
+ * @param userId - User ID
+ * @param conversationId - Conversation ID
+ * @param reminder - Reminder the client answered
+ * @param response - Client answer
+ */
+export async function logReminderResponse(
+  supabase: SupabaseClient,
+  userId: string,
+  conversationId: string,
+  reminder: any,
+  response: string
+): Promise<void> {
+  await logAIEvent(
+    supabase,
+    userId,
+    conversationId,
+    'appointment_reminder_answered',
+    `Client answered reminder: ${response}`,
+    {
+      appointment_id: reminder.appointment_id,
+      reminder_type: reminder.reminder_type,
+      response: response
+    }
+  );
+}
+
+/**
+ * Logs a client flagged by the AI for abusive messages
+ * 
+ * @param supabase - Supabase client
+ * @param userId - User ID
+ * @param conversationId - Conversation ID
+ * @param reason - What the client wrote, in the AI's words
+ */
+export async function logAbuseReport(
+  supabase: SupabaseClient,
+  userId: string,
+  conversationId: string,
+  reason: string
+): Promise<void> {
+  await logAIEvent(
+    supabase,
+    userId,
+    conversationId,
+    'client_flagged_abuse',
+    'Client flagged for abusive messages',
+    { reason }
+  );
+}
+
 /**
  * Logs arrival detection event
  * 
@@ -0,0 +1,60 @@
+/**
+ * Provider notification utilities
+ * Notifies the provider on their personal WhatsApp via send-provider-notification Edge Function
+ */
+
+import { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2.76.1';
+
+export type ProviderNotificationType =
+  | 'new_appointment'
+  | 'client_arrived'
+  | 'access_info_sent'
+  | 'appointment_cancelled'
+  | 'appointment_rescheduled'
+  | 'approval_request';
+
+/**
+ * Sends a notification about an appointment to the provider
+ *
+ * Never throws: a failed notification must not prevent the client from
+ * getting an answer. Deduplication is handled by send-provider-notification.
+ *
+ * @param supabase - Supabase client (service role)
+ * @param appointmentId - Appointment ID
+ * @param notificationType - Notification type
+ * @param details - Extra fields for the message (previous slot, cancellation reason)
+ * @returns true if the notification function succeeded
+ *
+ * @example
+ * await notifyProvider(supabase, appointment.id, 'appointment_rescheduled', {
+ *   previous_appointment_date: '2025-01-15',
+ *   previous_start_time: '20:00'
+ * });
+ */
+export async function notifyProvider(
+  supabase: SupabaseClient,
+  appointmentId: string,
+  notificationType: ProviderNotificationType,
+  details: Record<string, string> = {}
+): Promise<boolean> {
+  try {
+    const { error } = await supabase.functions.invoke('send-provider-notification', {
+      body: {
+        appointment_id: appointmentId,
+        notification_type: notificationType,
+        ...details
+      }
+    });
+
+    if (error) {
+      console.error('[provider] Notification failed:', notificationType, error);
+      return false;
+    }
+
+    console.log('[provider] ✅ Notification sent:', notificationType);
+    return true;
+  } catch (error) {
+    console.error('[provider] Notification failed:', notificationType, error);
+    return false;
+  }
+}
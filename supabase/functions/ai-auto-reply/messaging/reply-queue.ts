@@ -0,0 +1,164 @@
+/**
+ * Debounced reply queue, one per conversation
+ *
+ * Clients often write in bursts ("hey", "dispo ce soir ?", "pour 1h"). The webhook
+ * stamps the conversation with a new ai_reply_token on every incoming message and
+ * passes it to ai-auto-reply. Each invocation waits for the provider's quiet period,
+ * then only the one holding the latest token answers, all pending messages at once.
+ * An invocation already running gives up as soon as a newer token shows up.
+ */
+
+import { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2.76.1';
+import { REPLY_QUEUE_CONFIG } from '../config.ts';
+import type { Message } from '../types.ts';
+
+/**
+ * Client messages answered in one turn
+ */
+export interface PendingTurn {
+  messages: Message[];      // History with the pending messages merged into the last one
+  text: string;             // Merged client text (one line per message)
+  type: string | undefined; // Message type, 'text' as soon as several messages are merged
+  count: number;            // Number of client messages merged
+}
+
+/**
+ * Reads the provider's quiet period (user_informations.ai_reply_delay_seconds)
+ *
+ * @param supabase - Supabase client
+ * @param userId - Provider user ID
+ * @returns Quiet period in milliseconds (default if unset or unreadable)
+ */
+export async function getQuietPeriodMs(
+  supabase: SupabaseClient,
+  userId: string
+): Promise<number> {
+  const { data, error } = await supabase
+    .from('user_informations')
+    .select('ai_reply_delay_seconds')
+    .eq('user_id', userId)
+    .maybeSingle();
+
+  if (error) {
+    console.error('[reply-queue] Error fetching quiet period:', error);
+  }
+
+  const seconds = typeof data?.ai_reply_delay_seconds === 'number'
+    ? data.ai_reply_delay_seconds
+    : REPLY_QUEUE_CONFIG.DEFAULT_QUIET_PERIOD_SECONDS;
+
+  return Math.min(Math.max(seconds, 0), REPLY_QUEUE_CONFIG.MAX_QUIET_PERIOD_SECONDS) * 1000;
+}
+
+/**
+ * Checks if a newer client message took over the conversation's reply
+ *
+ * @param supabase - Supabase client
+ * @param conversationId - Conversation ID
+ * @param replyToken - Token received from the webhook (null for direct calls, never superseded)
+ * @returns true if this invocation must not answer anymore
+ */
+export async function isReplySuperseded(
+  supabase: SupabaseClient,
+  conversationId: string,
+  replyToken: string | null
+): Promise<boolean> {
+  if (!replyToken) {
+    return false;
+  }
+
+  const { data, error } = await supabase
+    .from('conversations')
+    .select('ai_reply_token')
+    .eq('id', conversationId)
+    .single();
+
+  if (error) {
+    // Better a duplicate answer than no answer at all
+    console.error('[reply-queue] Error checking reply token:', error);
+    return false;
+  }
+
+  return data.ai_reply_token !== replyToken;
+}
+
+/**
+ * Waits for the quiet period, then tells whether this invocation still owns the reply
+ *
+ * @param supabase - Supabase client
+ * @param conversationId - Conversation ID
+ * @param userId - Provider user ID
+ * @param replyToken - Token received from the webhook (null = answer right away)
+ * @returns true if this invocation answers, false if a newer message took over
+ *
+ * @example
+ * if (!(await waitForQuietPeriod(supabase, conversation_id, user_id, reply_token))) {
+ *   return new Response(JSON.stringify({ success: true, skipped: 'superseded' }));
+ * }
+ */
+export async function waitForQuietPeriod(
+  supabase: SupabaseClient,
+  conversationId: string,
+  userId: string,
+  replyToken: string | null
+): Promise<boolean> {
+  if (!replyToken) {
+    return true;
+  }
+
+  const quietPeriodMs = await getQuietPeriodMs(supabase, userId);
+  if (quietPeriodMs > 0) {
+    console.log('[reply-queue] ⏳ Waiting', quietPeriodMs, 'ms for more messages...');
+    await new Promise((resolve) => setTimeout(resolve, quietPeriodMs));
+  }
+
+  return !(await isReplySuperseded(supabase, conversationId, replyToken));
+}
+
+/**
+ * Merges the client messages not answered yet into one turn
+ *
+ * Pending messages are the incoming ones after the last outgoing message. They are only
+ * merged when the request is about the latest of them: a direct call with some other
+ * text keeps the history as it is.
+ *
+ * @param messages - Conversation history (chronological)
+ * @param requestText - Message text received in the request
+ * @param requestType - Message type received in the request
+ * @returns History and text for the AI
+ *
+ * @example
+ * mergePendingMessages([
+ *   { direction: 'outgoing', content: 'Coucou', ... },
+ *   { direction: 'incoming', content: 'hey', ... },
+ *   { direction: 'incoming', content: 'dispo ce soir ?', ... },
+ *   { direction: 'incoming', content: 'pour 1h', ... }
+ * ], 'pour 1h', 'text');
+ * // { text: 'hey\ndispo ce soir ?\npour 1h', count: 3, messages: [Coucou, merged], ... }
+ */
+export function mergePendingMessages(
+  messages: Message[],
+  requestText: string,
+  requestType?: string
+): PendingTurn {
+  let firstPending = messages.length;
+  while (firstPending > 0 && messages[firstPending - 1].direction === 'incoming') {
+    firstPending--;
+  }
+
+  const pending = messages.slice(firstPending);
+  const last = pending[pending.length - 1];
+
+  if (pending.length < 2 || last.content !== requestText) {
+    return { messages, text: requestText, type: requestType, count: 1 };
+  }
+
+  const text = pending.map((message) => message.content).join('\n');
+
+  return {
+    messages: [...messages.slice(0, firstPending), { ...last, content: text }],
+    text,
+    type: 'text',
+    count: pending.length
+  };
+}
@@ -4,6 +4,7 @@
  */
 
 import { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2.41.0';
+import type { OutgoingAttachment } from '../../_shared/evolution-messages.ts';
 
 /**
  * Sends a WhatsApp message to a conversation
@@ -52,6 +53,49 @@ export async function sendWhatsAppMessage(
   return data;
 }
 
+/**
+ * Sends an attachment (location pin, image, contact card) to a conversation
+ *
+ * Same path as text messages (send-whatsapp-message), so the phone check
+ * and the storage in `messages` are identical.
+ *
+ * @param supabase - Supabase client
+ * @param conversationId - Conversation ID
+ * @param attachment - Attachment to send
+ * @param userId - User ID (owner of the conversation)
+ * @param expectedContactPhone - Expected contact phone for security validation
+ * @returns Response from send-whatsapp-message function
+ * @throws Error if sending fails
+ *
+ * @example
+ * await sendWhatsAppAttachment(supabase, conversation_id, { type: 'location', latitude: 46.2, longitude: 6.14 }, user_id, phone);
+ */
+export async function sendWhatsAppAttachment(
+  supabase: SupabaseClient,
+  conversationId: string,
+  attachment: OutgoingAttachment,
+  userId: string,
+  expectedContactPhone: string
+): Promise<any> {
+  console.log('[whatsapp] Sending', attachment.type, 'to conversation:', conversationId);
+
+  const { data, error } = await supabase.functions.invoke('send-whatsapp-message', {
+    body: {
+      conversation_id: conversationId,
+      attachment,
+      user_id: userId,
+      expected_contact_phone: expectedContactPhone
+    }
+  });
+
+  if (error) {
+    console.error('[whatsapp] Error sending attachment:', error);
+    throw new Error(`Failed to send WhatsApp ${attachment.type}: ${error.message}`);
+  }
+
+  return data;
+}
+
 /**
  * Sends a WhatsApp message with retry logic
  * Retries up to 3 times with exponential backoff
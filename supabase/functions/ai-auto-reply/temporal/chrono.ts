@@ -3,12 +3,21 @@
  * Local parser, no external API dependency
  * 
  * Chrono-node is a JavaScript library for parsing natural language dates
- * We use the French parser (chrono.fr) for French temporal expressions
+ * We use the parser of the client language (chrono.fr, chrono.en.GB, chrono.de, chrono.it)
  */
 
 import * as chrono from 'https://esm.sh/chrono-node@2.9.0';
+import { DEFAULT_LANGUAGE, type SupportedLanguage } from '../../_shared/language.ts';
 import type { TemporalEntity, ChronoResult } from '../types.ts';
 
+// en.GB reads "05/12" as 5 December, like clients in Switzerland write it
+const CHRONO_PARSERS: Record<SupportedLanguage, chrono.Chrono> = {
+  fr: chrono.fr.casual,
+  en: chrono.en.GB,
+  de: chrono.de.casual,
+  it: chrono.it.casual
+};
+
 /**
  * Parses temporal entities using Chrono-node (local parser)
  * This is the fallback when Duckling API is unavailable or fails
@@ -18,6 +27,7 @@ import type { TemporalEntity, ChronoResult } from '../types.ts';
  * 
  * @param text - Text to parse for temporal expressions
  * @param referenceTime - Reference time for relative expressions (optional)
+ * @param language - Client language, picks the parser
  * @returns Array of temporal entities in Duckling-compatible format
  * 
  * @example
@@ -26,7 +36,8 @@ import type { TemporalEntity, ChronoResult } from '../types.ts';
  */
 export function parseChronoEntities(
   text: string,
-  referenceTime?: Date
+  referenceTime?: Date,
+  language: SupportedLanguage = DEFAULT_LANGUAGE
 ): TemporalEntity[] {
   const refTime = referenceTime || new Date();
 
@@ -34,8 +45,7 @@ export function parseChronoEntities(
   console.log('[chrono] Reference time:', refTime.toISOString());
 
   try {
-    // Use French parser for French temporal expressions
-    const results: ChronoResult[] = chrono.fr.parse(text, refTime);
+    const results: ChronoResult[] = CHRONO_PARSERS[language].parse(text, refTime);
 
     console.log('[chrono] Found', results.length, 'temporal entities');
 
@@ -70,10 +80,15 @@ export function parseChronoEntities(
  * 
  * @param text - Text to check
  * @param referenceTime - Reference time (optional)
+ * @param language - Client language
  * @returns true if temporal expressions found, false otherwise
  */
-export function hasTemporalExpression(text: string, referenceTime?: Date): boolean {
+export function hasTemporalExpression(
+  text: string,
+  referenceTime?: Date,
+  language: SupportedLanguage = DEFAULT_LANGUAGE
+): boolean {
   const refTime = referenceTime || new Date();
-  const results = chrono.fr.parse(text, refTime);
+  const results = CHRONO_PARSERS[language].parse(text, refTime);
   return results.length > 0;
 }
@@ -21,7 +21,7 @@
  * - Skip temporal enrichment if DURATION context
  */
 
-import type { Message } from '../types.ts';
+import type { Message, LLMProvider, OpenAIResponseFormat } from '../types.ts';
 
 /**
  * Context type returned by analysis
@@ -38,6 +38,27 @@ export interface ContextAnalysisResult {
   latencyMs: number;
 }
 
+/**
+ * JSON schema of the analysis answer
+ */
+const CONTEXT_ANALYSIS_FORMAT: OpenAIResponseFormat = {
+  type: 'json_schema',
+  json_schema: {
+    name: 'context_analysis',
+    strict: true,
+    schema: {
+      type: 'object',
+      properties: {
+        context_type: { type: 'string', enum: ['DURATION', 'TIME', 'UNKNOWN'] },
+        confidence: { type: 'string', enum: ['high', 'medium', 'low'] },
+        reasoning: { type: 'string' }
+      },
+      required: ['context_type', 'confidence', 'reasoning'],
+      additionalProperties: false
+    }
+  }
+};
+
 /**
  * Type guard to check if value is a non-null object
  */
@@ -72,11 +93,11 @@ function validateConfidence(value: unknown): 'high' | 'medium' | 'low' | null {
  * 
  * @param messages - Recent conversation history (chronological order, oldest first)
  * @param currentMessage - Current client message to analyze
- * @param openaiApiKey - OpenAI API key
+ * @param provider - LLM provider (same as the conversation, see createLLMProvider)
  * @returns Context analysis result
  * 
  * @example
- * const result = await analyzeConversationContext(messages, "1h", apiKey);
+ * const result = await analyzeConversationContext(messages, "1h", provider);
  * if (result.contextType === 'DURATION') {
  *   // Don't enrich - it's a duration, not a time
  * }
@@ -84,7 +105,7 @@ function validateConfidence(value: unknown): 'high' | 'medium' | 'low' | null {
 export async function analyzeConversationContext(
   messages: Message[],
   currentMessage: string,
-  openaiApiKey: string
+  provider: LLMProvider
 ): Promise<ContextAnalysisResult> {
   const startTime = Date.now();
 
@@ -119,59 +140,23 @@ export async function analyzeConversationContext(
   const recentMessages = messages.slice(-5);
   console.log('[context-analyzer] Using', recentMessages.length, 'recent messages');
 
-  // Build prompt for OpenAI
+  // Build prompt for the LLM
   const systemPrompt = buildSystemPrompt();
   const userPrompt = buildUserPrompt(recentMessages, currentMessage);
 
   try {
-    // Call OpenAI for analysis
-    const response = await fetch('https://api.openai.com/v1/chat/completions', {
-      method: 'POST',
-      headers: {
-        'Authorization': `Bearer ${openaiApiKey}`,
-        'Content-Type': 'application/json'
-      },
-      body: JSON.stringify({
-        model: 'gpt-4o-mini',
-        messages: [
-          { role: 'system', content: systemPrompt },
-          { role: 'user', content: userPrompt }
-        ],
-        temperature: 0.0,  // Deterministic
-        max_tokens: 150,   // Enough space for complete JSON response
-        response_format: { type: 'json_object' }  // Structured output
-      })
+    // Call the LLM for analysis (provider errors are caught below → UNKNOWN)
+    const data: unknown = await provider.chat({
+      model: provider.model,
+      messages: [
+        { role: 'system', content: systemPrompt },
+        { role: 'user', content: userPrompt }
+      ],
+      temperature: 0.0,  // Deterministic
+      max_tokens: 150,   // Enough space for complete JSON response
+      response_format: CONTEXT_ANALYSIS_FORMAT  // Structured output
     });
 
-    if (!response.ok) {
-      const errorText = await response.text();
-      console.error('[context-analyzer] ❌ OpenAI API error:', response.status, errorText);
-      
-      // Fallback to UNKNOWN on error
-      return {
-        contextType: 'UNKNOWN',
-        confidence: 'low',
-        reasoning: 'API error: ' + errorText.substring(0, 100),
-        latencyMs: Date.now() - startTime
-      };
-    }
-
-    // Parse and validate OpenAI response with comprehensive error handling
-    let data: unknown;
-    try {
-      data = await response.json();
-    } catch (parseError) {
-      const latencyMs = Date.now() - startTime;
-      console.error('[context-analyzer] ❌ Failed to parse JSON response:', parseError);
-      console.log('[context-analyzer] Latency:', latencyMs, 'ms');
-      return {
-        contextType: 'UNKNOWN',
-        confidence: 'low',
-        reasoning: 'Failed to parse API response',
-        latencyMs
-      };
-    }
-
     // Validate response structure
     if (!isObject(data)) {
       const latencyMs = Date.now() - startTime;
@@ -7,6 +7,7 @@
  */
 
 import { TEMPORAL_CONFIG } from '../config.ts';
+import { DEFAULT_LANGUAGE, type SupportedLanguage } from '../../_shared/language.ts';
 import type { TemporalEntity, DucklingResponse } from '../types.ts';
 
 /**
@@ -18,6 +19,7 @@ import type { TemporalEntity, DucklingResponse } from '../types.ts';
  * 2. Form-urlencoded WITH dims parameter for specificity
  * 
  * @param text - Text to parse for temporal expressions
+ * @param language - Client language, picks the Duckling locale
  * @returns Array of temporal entities found in the text
  * @throws Error if all request formats fail
  * 
@@ -26,12 +28,14 @@ import type { TemporalEntity, DucklingResponse } from '../types.ts';
  * // [{ body: "dans 1h", dim: "time", value: { value: "2025-01-15T15:00:00.000Z" }, ... }]
  */
 export async function parseDucklingEntities(
-  text: string
+  text: string,
+  language: SupportedLanguage = DEFAULT_LANGUAGE
 ): Promise<TemporalEntity[]> {
   const ducklingUrl = Deno.env.get('DUCKLING_API_URL') || 
     'https://duckling-production-0c9c.up.railway.app/parse';
+  const locale = TEMPORAL_CONFIG.LOCALES[language];
 
-  console.log('[duckling] Parsing text:', text);
+  console.log('[duckling] Parsing text:', text, `(${locale})`);
   console.log('[duckling] URL:', ducklingUrl);
 
   try {
@@ -41,7 +45,7 @@ export async function parseDucklingEntities(
       async () => {
         const params = new URLSearchParams({
           text,
-          locale: TEMPORAL_CONFIG.LOCALE,
+          locale,
           tz: 'Europe/Paris'  // CRITICAL: Set correct timezone
           // Note: reftime causes 502 on rasa/duckling Docker image
         });
@@ -60,7 +64,7 @@ export async function parseDucklingEntities(
       async () => {
         const params = new URLSearchParams({
           text,
-          locale: TEMPORAL_CONFIG.LOCALE,
+          locale,
           dims: 'time',
           tz: 'Europe/Paris'  // CRITICAL: Set correct timezone
         });
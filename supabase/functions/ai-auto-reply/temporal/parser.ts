@@ -6,6 +6,7 @@
 import { parseDucklingEntities } from './duckling.ts';
 import { parseChronoEntities } from './chrono.ts';
 import { enrichMessageWithTemporal } from './enrichment.ts';
+import { DEFAULT_LANGUAGE, type SupportedLanguage } from '../../_shared/language.ts';
 import type { TemporalEntity, TemporalParseResult } from '../types.ts';
 
 /**
@@ -19,6 +20,7 @@ import type { TemporalEntity, TemporalParseResult } from '../types.ts';
  * 
  * @param text - Text to parse for temporal expressions
  * @param referenceTime - Reference time for relative expressions (optional)
+ * @param language - Client language (Duckling locale, Chrono parser)
  * @returns Object with entities and the parsing method that produced them
  * 
  * @example
@@ -27,7 +29,8 @@ import type { TemporalEntity, TemporalParseResult } from '../types.ts';
  */
 export async function parseTemporalEntities(
   text: string,
-  referenceTime?: Date
+  referenceTime?: Date,
+  language: SupportedLanguage = DEFAULT_LANGUAGE
 ): Promise<TemporalParseResult> {
   const refTime = referenceTime || new Date();
   
@@ -37,7 +40,7 @@ export async function parseTemporalEntities(
   // 1️⃣ Try Duckling first (more accurate for French)
   try {
     console.log('[temporal] Trying Duckling (primary)...');
-    const ducklingEntities = await parseDucklingEntities(text);
+    const ducklingEntities = await parseDucklingEntities(text, language);
     
     if (ducklingEntities && ducklingEntities.length > 0) {
       console.log('[temporal] ✅ Duckling succeeded with', ducklingEntities.length, 'entities');
@@ -52,7 +55,7 @@ export async function parseTemporalEntities(
   // 2️⃣ Fallback to Chrono-node (local, no external API dependency)
   try {
     console.log('[temporal] Using Chrono-node fallback...');
-    const chronoEntities = await parseChronoEntities(text, refTime);
+    const chronoEntities = await parseChronoEntities(text, refTime, language);
 
     console.log('[temporal] Chrono-node found', chronoEntities.length, 'temporal entities');
 
@@ -79,6 +82,7 @@ export async function parseTemporalEntities(
  * 
  * @param text - Text to parse
  * @param referenceTime - Reference time (optional)
+ * @param language - Client language
  * @returns Object with entities, enriched message, and parsing method used
  * 
  * @example
@@ -91,7 +95,8 @@ export async function parseTemporalEntities(
  */
 export async function parseAndEnrichMessage(
   text: string,
-  referenceTime?: Date
+  referenceTime?: Date,
+  language: SupportedLanguage = DEFAULT_LANGUAGE
 ): Promise<{
   entities: TemporalEntity[];
   enrichedMessage: string;
@@ -100,7 +105,7 @@ export async function parseAndEnrichMessage(
   const refTime = referenceTime || new Date();
 
   // Parse entities - the parser now returns which method it actually used
-  const { entities, method } = await parseTemporalEntities(text, refTime);
+  const { entities, method } = await parseTemporalEntities(text, refTime, language);
 
   // Enrich message
   const enrichedMessage = enrichMessageWithTemporal(text, entities);
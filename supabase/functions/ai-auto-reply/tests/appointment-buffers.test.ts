@@ -0,0 +1,73 @@
+/**
+ * Tests for buffer time around appointments
+ * Tests the buffers of a booking and their effect on availability and validation
+ */
+
+import { assertEquals } from 'https://deno.land/std@0.208.0/assert/mod.ts';
+import { getAppointmentBuffers } from '../availability/buffers.ts';
+import { computeAvailabilityDays } from '../availability/calculator.ts';
+import { validateAppointmentTimeDetailed } from '../availability/validator.ts';
+import type { Availability, OccupiedSlot, UserInformation } from '../types.ts';
+
+// Monday 01/12/2025, 09:00 in Paris
+const NOW = new Date('2025-12-01T08:00:00Z');
+
+const wednesday: Availability = {
+  id: 'avail-1',
+  user_id: 'test-user',
+  day_of_week: 3,
+  start_time: '10:00',
+  end_time: '18:00',
+  is_active: true,
+  created_at: NOW.toISOString(),
+  updated_at: NOW.toISOString()
+};
+
+// 12:00-13:00, booked with 15 minutes of cleaning after
+const lunchAppointment: OccupiedSlot = {
+  appointment_date: '2025-12-03',
+  start_time: '12:00',
+  end_time: '13:00',
+  buffer_before_minutes: 0,
+  buffer_after_minutes: 15
+};
+
+Deno.test('getAppointmentBuffers - defaults plus tarif and extras after the appointment', () => {
+  const userInfo: UserInformation = {
+    user_id: 'test-user',
+    prestations: [],
+    extras: [{ name: 'Massage', price: 50, buffer_minutes: 5 }, { name: 'Duo', price: 100 }],
+    taboos: [],
+    tarifs: [{ duration: '1h', price: 150 }, { duration: '2h', price: 250, buffer_minutes: 20 }],
+    adresse: '',
+    buffer_before_minutes: 10,
+    buffer_after_minutes: 5
+  };
+
+  assertEquals(getAppointmentBuffers(userInfo, '2h', ['Massage', 'Duo']), { before: 10, after: 30 });
+  assertEquals(getAppointmentBuffers(userInfo, '1h', ['aucun']), { before: 10, after: 5 });
+});
+
+Deno.test('computeAvailabilityDays - occupied slots widened by both sides buffers', () => {
+  const days = computeAvailabilityDays([wednesday], [lunchAppointment], NOW, [], { before: 10, after: 20 });
+  const day = days.find((d) => d.date === '2025-12-03');
+
+  // 11:40 (12:00 - 20 after the new one) to 13:25 (13:00 + 15 + 10 before the new one)
+  assertEquals(day?.ranges, [{ start: 600, end: 700 }, { start: 805, end: 1080 }]);
+});
+
+Deno.test('validateAppointmentTimeDetailed - too close to an appointment is a BUFFER error', () => {
+  const buffers = { before: 10, after: 20 };
+  const days = computeAvailabilityDays([wednesday], [lunchAppointment], NOW, [], buffers);
+
+  const tooClose = validateAppointmentTimeDetailed('13:15', '2025-12-03', 60, days, [lunchAppointment], NOW, [], buffers);
+  assertEquals(tooClose.errorCode, 'BUFFER');
+
+  const overlapping = validateAppointmentTimeDetailed('12:30', '2025-12-03', 60, days, [lunchAppointment], NOW, [], buffers);
+  assertEquals(overlapping.errorCode, 'CONFLICT');
+
+  assertEquals(
+    validateAppointmentTimeDetailed('13:25', '2025-12-03', 60, days, [lunchAppointment], NOW, [], buffers).isValid,
+    true
+  );
+});
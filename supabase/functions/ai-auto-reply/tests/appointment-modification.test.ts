@@ -0,0 +1,70 @@
+/**
+ * Tests for appointment modification
+ * Tests which appointment a client can cancel or reschedule
+ */
+
+import { assertEquals } from 'https://deno.land/std@0.208.0/assert/mod.ts';
+import { findUpcomingAppointment, formatAppointmentForPrompt } from '../appointments/modification.ts';
+import type { Appointment } from '../types.ts';
+
+/**
+ * Helper: Create test appointment
+ */
+function createAppointment(
+  id: string,
+  conversationId: string,
+  date: string,
+  startTime: string
+): Appointment {
+  return {
+    id,
+    user_id: 'user-1',
+    conversation_id: conversationId,
+    contact_name: 'Client',
+    contact_phone: '+41790000000',
+    appointment_date: date,
+    start_time: startTime,
+    end_time: startTime,
+    duration_minutes: 60,
+    service: 'Toutes prestations incluses',
+    selected_extras: [],
+    base_price: 200,
+    extras_total: 0,
+    total_price: 200,
+    status: 'confirmed'
+  };
+}
+
+Deno.test('findUpcomingAppointment - skips started appointments and other conversations', () => {
+  // 2025-01-15 14:00 in France (UTC+1)
+  const now = new Date('2025-01-15T13:00:00Z');
+  const appointments = [
+    createAppointment('past', 'conv-1', '2025-01-15', '12:00:00'),
+    createAppointment('other', 'conv-2', '2025-01-15', '16:00:00'),
+    createAppointment('later', 'conv-1', '2025-01-17', '20:00:00'),
+    createAppointment('next', 'conv-1', '2025-01-15', '22:00:00')
+  ];
+
+  const upcoming = findUpcomingAppointment(appointments, 'conv-1', now);
+
+  assertEquals(upcoming?.id, 'next');
+});
+
+Deno.test('findUpcomingAppointment - returns null without upcoming appointment', () => {
+  const now = new Date('2025-01-15T13:00:00Z');
+  const appointments = [
+    createAppointment('past', 'conv-1', '2025-01-14', '22:00:00'),
+    createAppointment('other', 'conv-2', '2025-01-16', '16:00:00')
+  ];
+
+  assertEquals(findUpcomingAppointment(appointments, 'conv-1', now), null);
+});
+
+Deno.test('formatAppointmentForPrompt - day name, date and time', () => {
+  const appointment = createAppointment('a', 'conv-1', '2025-01-16', '22:00:00');
+
+  assertEquals(
+    formatAppointmentForPrompt(appointment),
+    'Jeudi 16/01 à 22:00 (60min, Toutes prestations incluses)'
+  );
+});
@@ -0,0 +1,24 @@
+/**
+ * Tests for appointment reminder replies
+ * Tests which answers are handled without the AI
+ */
+
+import { assertEquals } from 'https://deno.land/std@0.208.0/assert/mod.ts';
+import { isReminderConfirmation } from '../appointments/reminders.ts';
+
+Deno.test('isReminderConfirmation - plain confirmations', () => {
+  assertEquals(isReminderConfirmation('Oui'), true);
+  assertEquals(isReminderConfirmation("Oui c'est toujours bon 😘"), true);
+  assertEquals(isReminderConfirmation('ok à demain bb'), true);
+  assertEquals(isReminderConfirmation('Ça marche !'), true);
+  assertEquals(isReminderConfirmation('yes still good'), true);
+  assertEquals(isReminderConfirmation('👍'), true);
+});
+
+Deno.test('isReminderConfirmation - anything else goes to the AI', () => {
+  assertEquals(isReminderConfirmation("c'est plus bon, je dois annuler"), false);
+  assertEquals(isReminderConfirmation('ok mais je serai en retard'), false);
+  assertEquals(isReminderConfirmation('on peut décaler à 23h ?'), false);
+  assertEquals(isReminderConfirmation('ça marche pas'), false);
+  assertEquals(isReminderConfirmation('😘'), false);
+});
@@ -4,8 +4,13 @@
  */
 
 import { assertEquals } from 'https://deno.land/std@0.208.0/assert/mod.ts';
-import { computeAvailableRanges } from '../availability/calculator.ts';
-import type { Availability, Appointment } from '../types.ts';
+import {
+  computeAvailableRanges,
+  computeAvailabilityDays,
+  isSlotInAvailabilityDays
+} from '../availability/calculator.ts';
+import { getTimeOffPeriods } from '../availability/exceptions.ts';
+import type { Availability, AvailabilityException, Appointment } from '../types.ts';
 
 /**
  * Helper: Create test availability
@@ -57,6 +62,28 @@ function createAppointment(
   };
 }
 
+/**
+ * Helper: Create test availability exception
+ */
+function createException(
+  type: 'blocked' | 'extra_hours',
+  startDate: string,
+  endDate: string,
+  startTime: string | null = null,
+  endTime: string | null = null
+): AvailabilityException {
+  return {
+    id: crypto.randomUUID(),
+    user_id: 'test-user',
+    exception_type: type,
+    start_date: startDate,
+    end_date: endDate,
+    start_time: startTime,
+    end_time: endTime,
+    reason: null
+  };
+}
+
 Deno.test('computeAvailableRanges - no availabilities', () => {
   const currentDate = new Date('2025-01-15T14:00:00+01:00'); // Wednesday
   const result = computeAvailableRanges([], [], currentDate);
@@ -152,3 +179,126 @@ Deno.test('computeAvailableRanges - past availability window', () => {
   // All time in the past, no available slots
   assertEquals(result, 'Aucun créneau dispo aujourd\'hui');
 });
+
+Deno.test('computeAvailabilityDays - covers the lookahead window from today', () => {
+  const currentDate = new Date('2025-01-15T10:00:00+01:00'); // Wednesday 10:00
+  const availabilities = [
+    createAvailability(6, '14:00', '18:00') // Saturday 14h-18h
+  ];
+  const days = computeAvailabilityDays(availabilities, [], currentDate);
+
+  assertEquals(days.length, 7);
+  assertEquals(days[0].date, '2025-01-15');
+  assertEquals(days[6].date, '2025-01-21');
+
+  const saturday = days.find((d) => d.date === '2025-01-18');
+  assertEquals(saturday?.dayOfWeek, 6);
+  assertEquals(saturday?.ranges, [{ start: 840, end: 1080 }]);
+  assertEquals(days[0].ranges, []);
+});
+
+Deno.test('computeAvailabilityDays - appointments only block their own date', () => {
+  const currentDate = new Date('2025-01-15T10:00:00+01:00'); // Wednesday 10:00
+  const availabilities = [
+    createAvailability(4, '14:00', '18:00') // Thursday 14h-18h
+  ];
+  const appointments = [
+    createAppointment('2025-01-16', '15:00', 60), // Thursday 15h-16h
+    createAppointment('2025-01-23', '14:00', 240) // Next Thursday, out of the window
+  ];
+  const [, thursday] = computeAvailabilityDays(availabilities, appointments, currentDate);
+
+  assertEquals(thursday.ranges, [
+    { start: 840, end: 900 },
+    { start: 960, end: 1080 }
+  ]);
+});
+
+Deno.test('computeAvailabilityDays - midnight crossing window blocked by next day appointment', () => {
+  const currentDate = new Date('2025-01-15T10:00:00+01:00'); // Wednesday 10:00
+  const availabilities = [
+    createAvailability(5, '22:00', '02:00') // Friday 22h to Saturday 2h
+  ];
+  const appointments = [
+    createAppointment('2025-01-18', '00:30', 60) // Saturday 0h30-1h30
+  ];
+  const friday = computeAvailabilityDays(availabilities, appointments, currentDate)
+    .find((d) => d.date === '2025-01-17');
+
+  assertEquals(friday?.ranges, [
+    { start: 1320, end: 1470 },
+    { start: 1530, end: 1560 }
+  ]);
+});
+
+Deno.test('computeAvailabilityDays - previous day appointment running past midnight', () => {
+  const currentDate = new Date('2025-01-15T10:00:00+01:00'); // Wednesday 10:00
+  const availabilities = [
+    createAvailability(4, '00:00', '03:00') // Thursday 0h-3h
+  ];
+  const appointments = [
+    createAppointment('2025-01-15', '23:30', 90) // Wednesday 23h30 to Thursday 1h
+  ];
+  const [, thursday] = computeAvailabilityDays(availabilities, appointments, currentDate);
+
+  assertEquals(thursday.ranges, [{ start: 60, end: 180 }]);
+});
+
+Deno.test('isSlotInAvailabilityDays - future date and after-midnight times', () => {
+  const currentDate = new Date('2025-01-15T10:00:00+01:00'); // Wednesday 10:00
+  const availabilities = [
+    createAvailability(5, '22:00', '02:00') // Friday 22h to Saturday 2h
+  ];
+  const days = computeAvailabilityDays(availabilities, [], currentDate);
+
+  assertEquals(isSlotInAvailabilityDays('2025-01-17', '22:30', days), true);
+  assertEquals(isSlotInAvailabilityDays('2025-01-18', '01:30', days), true);
+  assertEquals(isSlotInAvailabilityDays('2025-01-18', '02:00', days), false);
+  assertEquals(isSlotInAvailabilityDays('2025-01-16', '22:30', days), false);
+});
+
+Deno.test('computeAvailabilityDays - vacation closes every covered day', () => {
+  const currentDate = new Date('2025-01-15T10:00:00+01:00'); // Wednesday 10:00
+  const availabilities = [0, 1, 2, 3, 4, 5, 6].map((day) => createAvailability(day, '14:00', '18:00'));
+  const exceptions = [createException('blocked', '2025-01-17', '2025-01-19')];
+  const days = computeAvailabilityDays(availabilities, [], currentDate, exceptions);
+
+  assertEquals(days.filter((d) => d.ranges.length === 0).map((d) => d.date), [
+    '2025-01-17',
+    '2025-01-18',
+    '2025-01-19'
+  ]);
+  assertEquals(days[0].ranges, [{ start: 840, end: 1080 }]);
+});
+
+Deno.test('computeAvailabilityDays - extra hours and blocked slot on a date', () => {
+  const currentDate = new Date('2025-01-15T10:00:00+01:00'); // Wednesday 10:00
+  const availabilities = [
+    createAvailability(4, '14:00', '18:00') // Thursday 14h-18h
+  ];
+  const exceptions = [
+    createException('extra_hours', '2025-01-16', '2025-01-16', '18:00', '20:00'),
+    createException('blocked', '2025-01-16', '2025-01-16', '15:00', '16:00'),
+    createException('extra_hours', '2025-01-18', '2025-01-18', '10:00', '12:00') // Saturday, no weekly slot
+  ];
+  const days = computeAvailabilityDays(availabilities, [], currentDate, exceptions);
+
+  assertEquals(days[1].ranges, [
+    { start: 840, end: 900 },
+    { start: 960, end: 1200 }
+  ]);
+  assertEquals(days[3].ranges, [{ start: 600, end: 720 }]);
+});
+
+Deno.test('getTimeOffPeriods - merges back-to-back days off and computes reopen date', () => {
+  const exceptions = [
+    createException('blocked', '2025-01-20', '2025-01-24'),
+    createException('blocked', '2025-01-25', '2025-01-26'),
+    createException('blocked', '2025-01-10', '2025-01-12'), // Already over
+    createException('blocked', '2025-01-22', '2025-01-22', '10:00', '12:00') // Slot only, not a day off
+  ];
+
+  assertEquals(getTimeOffPeriods(exceptions, '2025-01-15'), [
+    { startDate: '2025-01-20', endDate: '2025-01-26', reopenDate: '2025-01-27' }
+  ]);
+});
@@ -0,0 +1,61 @@
+/**
+ * Tests for the availability lookup (check_availability tool)
+ * Tests closest free slots, including across midnight
+ */
+
+import { assertEquals } from 'https://deno.land/std@0.208.0/assert/mod.ts';
+import { checkAvailability, findClosestSlots } from '../availability/lookup.ts';
+import type { Appointment, DayAvailability } from '../types.ts';
+
+// Wednesday 15/01 nothing, Thursday 16/01 18h-21h and 22h-2h (21h-22h booked), Friday 17/01 20h-23h
+const DAYS: DayAvailability[] = [
+  { date: '2025-01-15', dayOfWeek: 3, ranges: [] },
+  { date: '2025-01-16', dayOfWeek: 4, ranges: [{ start: 1080, end: 1260 }, { start: 1320, end: 1560 }] },
+  { date: '2025-01-17', dayOfWeek: 5, ranges: [{ start: 1200, end: 1380 }] }
+];
+
+const BOOKED = [
+  {
+    id: 'apt-1',
+    appointment_date: '2025-01-16',
+    start_time: '21:00',
+    end_time: '22:00',
+    duration_minutes: 60,
+    status: 'confirmed'
+  }
+] as Appointment[];
+
+// Wednesday 15/01/2025 12:00 France time
+const NOW = new Date('2025-01-15T11:00:00Z');
+
+Deno.test('findClosestSlots - around the requested time, whole duration must fit', () => {
+  assertEquals(findClosestSlots(DAYS, '2025-01-16', 120, '21:00'), [
+    { date: '2025-01-16', time: '19:00' },
+    { date: '2025-01-16', time: '22:00' },
+    { date: '2025-01-16', time: '22:30' }
+  ]);
+
+  // After midnight belongs to the next date
+  assertEquals(findClosestSlots(DAYS, '2025-01-17', 60, '01:30', 2), [
+    { date: '2025-01-17', time: '00:30' },
+    { date: '2025-01-17', time: '01:00' }
+  ]);
+
+  // No time: earliest slots from that date on
+  assertEquals(findClosestSlots(DAYS, '2025-01-15', 60, null, 1), [{ date: '2025-01-16', time: '18:00' }]);
+});
+
+Deno.test('checkAvailability - conflict gives a reason and the closest slots', () => {
+  const busy = checkAvailability('2025-01-16', '21:00', 60, DAYS, BOOKED, NOW);
+  assertEquals(busy.available, false);
+  assertEquals(busy.reason, 'CONFLICT');
+  assertEquals(busy.closest_slots.map((slot) => slot.time), ['19:30', '20:00', '22:00']);
+
+  const free = checkAvailability('2025-01-17', '21:00', 60, DAYS, BOOKED, NOW);
+  assertEquals(free.available, true);
+  assertEquals(free.closest_slots, []);
+
+  const wholeDay = checkAvailability('2025-01-17', null, 60, DAYS, BOOKED, NOW);
+  assertEquals(wholeDay.available, null);
+  assertEquals(wholeDay.free_ranges, '20h-23h');
+});
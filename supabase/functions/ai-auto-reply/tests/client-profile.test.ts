@@ -0,0 +1,64 @@
+/**
+ * Tests for the client profile summary
+ * Tests what the WORKFLOW prompt learns about returning clients
+ */
+
+import { assertEquals } from 'https://deno.land/std@0.208.0/assert/mod.ts';
+import { formatClientSummaryForPrompt } from '../data/client.ts';
+import type { ClientProfile } from '../types.ts';
+
+function profile(overrides: Partial<ClientProfile> = {}): ClientProfile {
+  return {
+    id: 'contact-1',
+    phone: '41791234567',
+    name: 'Marc',
+    notes: null,
+    tags: [],
+    visit_count: 0,
+    total_spent: 0,
+    last_visit_date: null,
+    next_appointment_date: null,
+    cancelled_count: 0,
+    no_show_count: 0,
+    blocked: false,
+    flag_reason: null,
+    ...overrides
+  };
+}
+
+Deno.test('formatClientSummaryForPrompt - unknown and new clients', () => {
+  assertEquals(formatClientSummaryForPrompt(null), '');
+  assertEquals(formatClientSummaryForPrompt(profile()), 'Nouveau client (jamais venu)');
+});
+
+Deno.test('formatClientSummaryForPrompt - returning client with tags and notes', () => {
+  const summary = formatClientSummaryForPrompt(profile({
+    visit_count: 4,
+    total_spent: 1200,
+    last_visit_date: '2025-11-12',
+    cancelled_count: 1,
+    tags: ['Régulier', 'VIP'],
+    notes: 'Préfère tard le soir.\nToujours ponctuel'
+  }));
+
+  assertEquals(summary, [
+    'Client déjà venu 4 fois (dernière visite le 12/11), CHF 1200 au total',
+    'RDV annulés : 1',
+    'Tags : Régulier, VIP',
+    'Notes : Préfère tard le soir. Toujours ponctuel'
+  ].join('\n'));
+});
+
+Deno.test('formatClientSummaryForPrompt - no-shows and abuse flag', () => {
+  const summary = formatClientSummaryForPrompt(profile({
+    visit_count: 1,
+    no_show_count: 2,
+    flag_reason: 'abuse'
+  }));
+
+  assertEquals(summary, [
+    'Client déjà venu 1 fois',
+    'RDV non honorés (lapins) : 2',
+    'Déjà signalé pour messages déplacés'
+  ].join('\n'));
+});
@@ -0,0 +1,52 @@
+/**
+ * Tests for the no-show deposit policy
+ * Tests which clients must pay before booking
+ */
+
+import { assertEquals } from 'https://deno.land/std@0.208.0/assert/mod.ts';
+import { getDepositRequirement } from '../appointments/deposit.ts';
+import type { ClientProfile, UserInformation } from '../types.ts';
+
+const USER_INFO: UserInformation = {
+  user_id: 'user-1',
+  prestations: [],
+  extras: [],
+  taboos: [],
+  tarifs: [],
+  adresse: '',
+  no_show_deposit_threshold: 2,
+  no_show_deposit_type: 'deposit',
+  no_show_deposit_amount: 50
+};
+
+function profile(noShowCount: number): ClientProfile {
+  return {
+    id: 'contact-1',
+    phone: '41791234567',
+    name: null,
+    notes: null,
+    tags: [],
+    visit_count: 1,
+    total_spent: 200,
+    last_visit_date: '2025-11-12',
+    next_appointment_date: null,
+    cancelled_count: 0,
+    no_show_count: noShowCount,
+    blocked: false,
+    flag_reason: null
+  };
+}
+
+Deno.test('getDepositRequirement - below threshold, unknown client or policy off', () => {
+  assertEquals(getDepositRequirement(USER_INFO, profile(1)), null);
+  assertEquals(getDepositRequirement(USER_INFO, null), null);
+  assertEquals(getDepositRequirement({ ...USER_INFO, no_show_deposit_threshold: 0 }, profile(5)), null);
+});
+
+Deno.test('getDepositRequirement - deposit, or prepayment when no amount is set', () => {
+  assertEquals(getDepositRequirement(USER_INFO, profile(2)), { type: 'deposit', amount: 50, noShowCount: 2 });
+  assertEquals(
+    getDepositRequirement({ ...USER_INFO, no_show_deposit_amount: null }, profile(3)),
+    { type: 'prepayment', amount: null, noShowCount: 3 }
+  );
+});
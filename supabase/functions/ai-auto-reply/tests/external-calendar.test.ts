@@ -0,0 +1,84 @@
+/**
+ * Tests for external calendars (busy times imported from ICS)
+ * Tests the import of a fixture calendar and its effect on availability
+ */
+
+import { assertEquals } from 'https://deno.land/std@0.208.0/assert/mod.ts';
+import { extractBusySlots } from '../../_shared/ical-import.ts';
+import { computeAvailabilityDays } from '../availability/calculator.ts';
+import { validateAppointmentTimeDetailed } from '../availability/validator.ts';
+import type { Availability } from '../types.ts';
+
+// Monday 01/12/2025, 09:00 in Paris
+const NOW = new Date('2025-12-01T08:00:00Z');
+const WINDOW_END = new Date('2025-12-31T00:00:00Z');
+
+const loadFixture = () => Deno.readTextFile(new URL('./fixtures/external-calendar.ics', import.meta.url));
+
+Deno.test('extractBusySlots - fixture calendar as France local slots', async () => {
+  const slots = extractBusySlots(await loadFixture(), NOW, WINDOW_END);
+
+  assertEquals(slots, [
+    // Weekly lunch: 08/12 excluded (EXDATE), 15/12 moved to 16:00 (RECURRENCE-ID)
+    { busy_date: '2025-12-01', start_time: '12:00', end_time: '13:00' },
+    { busy_date: '2025-12-03', start_time: '14:00', end_time: '15:00' },
+    // 17:00-19:00 UTC
+    { busy_date: '2025-12-04', start_time: '18:00', end_time: '20:00' },
+    // All-day weekend, whole days end at midnight
+    { busy_date: '2025-12-06', start_time: '00:00', end_time: '00:00' },
+    { busy_date: '2025-12-07', start_time: '00:00', end_time: '00:00' },
+    // 23:00-01:00 split at midnight
+    { busy_date: '2025-12-10', start_time: '23:00', end_time: '00:00' },
+    { busy_date: '2025-12-11', start_time: '00:00', end_time: '01:00' },
+    { busy_date: '2025-12-15', start_time: '16:00', end_time: '17:00' },
+    { busy_date: '2025-12-22', start_time: '12:00', end_time: '13:00' }
+  ]);
+});
+
+Deno.test('extractBusySlots - recurring event keeps its local time across DST', () => {
+  const ics = [
+    'BEGIN:VCALENDAR',
+    'BEGIN:VEVENT',
+    'UID:yoga@example.com',
+    'DTSTART;TZID=Europe/Paris:20260323T190000',
+    'DURATION:PT1H',
+    'RRULE:FREQ=WEEKLY;UNTIL=20260331T000000Z',
+    'END:VEVENT',
+    'END:VCALENDAR'
+  ].join('\r\n');
+
+  const slots = extractBusySlots(ics, new Date('2026-03-20T00:00:00Z'), new Date('2026-04-10T00:00:00Z'));
+
+  assertEquals(slots, [
+    { busy_date: '2026-03-23', start_time: '19:00', end_time: '20:00' },
+    { busy_date: '2026-03-30', start_time: '19:00', end_time: '20:00' }
+  ]);
+});
+
+Deno.test('external busy times - subtracted from availability and rejected at booking', async () => {
+  const wednesday: Availability = {
+    id: 'avail-1',
+    user_id: 'test-user',
+    day_of_week: 3,
+    start_time: '10:00',
+    end_time: '18:00',
+    is_active: true,
+    created_at: NOW.toISOString(),
+    updated_at: NOW.toISOString()
+  };
+  const busyTimes = extractBusySlots(await loadFixture(), NOW, WINDOW_END).map((slot) => ({
+    appointment_date: slot.busy_date,
+    start_time: slot.start_time,
+    end_time: slot.end_time
+  }));
+
+  const days = computeAvailabilityDays([wednesday], busyTimes, NOW);
+  const dentistDay = days.find((d) => d.date === '2025-12-03');
+
+  assertEquals(dentistDay?.ranges, [{ start: 600, end: 840 }, { start: 900, end: 1080 }]);
+  assertEquals(
+    validateAppointmentTimeDetailed('13:30', '2025-12-03', 60, days, busyTimes, NOW).errorCode,
+    'CONFLICT'
+  );
+  assertEquals(validateAppointmentTimeDetailed('15:00', '2025-12-03', 60, days, busyTimes, NOW).isValid, true);
+});
@@ -0,0 +1,180 @@
+/**
+ * Golden conversations
+ * Whole conversations replayed through the orchestrator (tests/support/scenario-runner.ts):
+ * the appointments, WhatsApp messages and ai_events they leave must not change silently
+ * when a prompt, a tool or a validation rule is modified
+ */
+
+import { assertEquals } from 'https://deno.land/std@0.208.0/assert/mod.ts';
+import {
+  runScenario,
+  SCENARIO_CONTACT_PHONE,
+  SCENARIO_CONVERSATION_ID,
+  SCENARIO_USER_ID
+} from './support/scenario-runner.ts';
+import type { TemporalEntity } from '../types.ts';
+
+// Monday 01/12/2025, 18:00 in Paris
+const NOW = '2025-12-01T17:00:00Z';
+
+function ducklingTime(text: string, body: string, value: string): TemporalEntity[] {
+  const start = text.indexOf(body);
+  return [{ body, dim: 'time', value: { value, grain: 'hour', type: 'value' }, start, end: start + body.length }];
+}
+
+function existingAppointment(id: string, conversationId: string, date: string, startTime: string, endTime: string) {
+  return {
+    id,
+    user_id: SCENARIO_USER_ID,
+    conversation_id: conversationId,
+    contact_name: 'Marc',
+    contact_phone: SCENARIO_CONTACT_PHONE,
+    appointment_date: date,
+    start_time: startTime,
+    end_time: endTime,
+    duration_minutes: 60,
+    service: 'Massage',
+    selected_extras: [],
+    base_price: 200,
+    extras_total: 0,
+    total_price: 200,
+    status: 'confirmed',
+    notes: null
+  };
+}
+
+Deno.test({
+  name: 'golden - availability check then booking',
+  // AbortSignal.timeout of the Duckling call outlives the test
+  sanitizeOps: false,
+  fn: async () => {
+    const result = await runScenario({
+      now: NOW,
+      turns: [
+        {
+          client: "Salut, t'es dispo demain vers 20h ?",
+          duckling: ducklingTime("Salut, t'es dispo demain vers 20h ?", 'demain vers 20h', '2025-12-02T20:00:00.000+01:00'),
+          llm: [
+            {
+              tool_calls: [{
+                name: 'check_availability',
+                arguments: { date: '2025-12-02', time: '20:00', duration: '1h', reschedule: false }
+              }]
+            },
+            { content: "Oui demain 20h c'est bon, tu veux venir pour combien de temps ?" }
+          ]
+        },
+        {
+          client: '1h sans extra',
+          context: 'DURATION',
+          llm: [{
+            tool_calls: [{
+              name: 'create_appointment_summary',
+              arguments: { duration: '1h', selected_extras: [], appointment_date: '2025-12-02', appointment_time: '20:00' }
+            }]
+          }]
+        }
+      ]
+    });
+
+    assertEquals(result.appointments.map((a) => ({
+      conversation_id: a.conversation_id,
+      contact_phone: a.contact_phone,
+      appointment_date: a.appointment_date,
+      start_time: a.start_time,
+      end_time: a.end_time,
+      total_price: a.total_price,
+      status: a.status
+    })), [{
+      conversation_id: SCENARIO_CONVERSATION_ID,
+      contact_phone: SCENARIO_CONTACT_PHONE,
+      appointment_date: '2025-12-02',
+      start_time: '20:00',
+      end_time: '21:00',
+      total_price: 200,
+      status: 'confirmed'
+    }]);
+    assertEquals(result.sent, [
+      "Oui demain 20h c'est bon, tu veux venir pour combien de temps ?",
+      "C'est confirmé ! Demain 20:00, 1h (CHF 200) = CHF 200."
+    ]);
+    const lookup = result.llmRequests[1].messages;
+    assertEquals(JSON.parse(lookup[lookup.length - 1].content).available, true);
+    assertEquals(result.events, ['temporal_enriched', 'openai_call', 'openai_call', 'appointment_created', 'openai_call']);
+    assertEquals(result.notifications, []);
+  }
+});
+
+Deno.test({
+  name: 'golden - slot taken, the model offers another time',
+  sanitizeOps: false,
+  fn: async () => {
+    const result = await runScenario({
+      now: NOW,
+      tables: {
+        appointments: [existingAppointment('other-client', 'other-conversation', '2025-12-02', '20:00', '21:00')]
+      },
+      turns: [
+        {
+          client: 'Je peux venir demain à 20h pour 1h ?',
+          duckling: ducklingTime('Je peux venir demain à 20h pour 1h ?', 'demain à 20h', '2025-12-02T20:00:00.000+01:00'),
+          llm: [
+            {
+              tool_calls: [{
+                name: 'create_appointment_summary',
+                arguments: { duration: '1h', selected_extras: [], appointment_date: '2025-12-02', appointment_time: '20:00' }
+              }]
+            },
+            { content: "20h c'est déjà pris, 21h ça te va ?" }
+          ]
+        },
+        {
+          client: 'Ok 21h',
+          duckling: ducklingTime('Ok 21h', '21h', '2025-12-01T21:00:00.000+01:00'),
+          llm: [{
+            tool_calls: [{
+              name: 'create_appointment_summary',
+              arguments: { duration: '1h', selected_extras: [], appointment_date: '2025-12-02', appointment_time: '21:00' }
+            }]
+          }]
+        }
+      ]
+    });
+
+    assertEquals(
+      result.appointments.map((a) => [a.id === 'other-client' ? 'other-client' : 'new', a.appointment_date, a.start_time, a.status]),
+      [['other-client', '2025-12-02', '20:00', 'confirmed'], ['new', '2025-12-02', '21:00', 'confirmed']]
+    );
+    // The failed booking goes back to the model, which answers with another time
+    const retry = result.llmRequests[1].messages;
+    assertEquals(JSON.parse(retry[retry.length - 1].content).error, 'slot_taken');
+    assertEquals(result.sent, ["20h c'est déjà pris, 21h ça te va ?", "C'est confirmé ! Demain 21:00, 1h (CHF 200) = CHF 200."]);
+    assertEquals(result.events, [
+      'temporal_enriched', 'validation_error', 'openai_call', 'openai_call',
+      'temporal_enriched', 'appointment_created', 'openai_call'
+    ]);
+  }
+});
+
+Deno.test({
+  name: 'golden - cancellation of the upcoming appointment',
+  sanitizeOps: false,
+  fn: async () => {
+    const result = await runScenario({
+      now: NOW,
+      tables: {
+        appointments: [existingAppointment('upcoming', SCENARIO_CONVERSATION_ID, '2025-12-03', '21:00', '22:00')]
+      },
+      turns: [{
+        client: 'Je ne pourrai pas venir mercredi, désolé',
+        duckling: ducklingTime('Je ne pourrai pas venir mercredi, désolé', 'mercredi', '2025-12-03T00:00:00.000+01:00'),
+        llm: [{ tool_calls: [{ name: 'cancel_appointment', arguments: { reason: 'Empêchement' } }] }]
+      }]
+    });
+
+    assertEquals(result.appointments.map((a) => [a.id, a.status, a.notes]), [['upcoming', 'cancelled', 'Annulé par le client : Empêchement']]);
+    assertEquals(result.sent, ["C'est noté, ton RDV est annulé. Écris-moi quand tu veux en reprendre un 😘"]);
+    assertEquals(result.events, ['temporal_enriched', 'appointment_cancelled', 'openai_call']);
+    assertEquals(result.notifications, ['appointment_cancelled']);
+  }
+});
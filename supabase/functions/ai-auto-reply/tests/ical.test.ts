@@ -0,0 +1,48 @@
+/**
+ * Tests for the iCalendar export
+ * Tests the events of the calendar feed (Paris times, cancellations, line folding)
+ */
+
+import { assertEquals } from 'https://deno.land/std@0.208.0/assert/mod.ts';
+import { buildAppointmentEvent, foldLine } from '../../_shared/ical.ts';
+
+const APPOINTMENT = {
+  id: 'apt-1',
+  appointment_date: '2025-11-28',
+  start_time: '23:30:00',
+  end_time: '00:30:00',
+  contact_name: 'Marc',
+  contact_phone: '41791234567',
+  service: 'Massage',
+  status: 'confirmed',
+  total_price: 250,
+  notes: null,
+  updated_at: '2025-11-20T10:00:00Z',
+  created_at: '2025-11-20T09:00:00Z'
+};
+
+Deno.test('buildAppointmentEvent - Paris local times, ends the next day past midnight', () => {
+  const event = buildAppointmentEvent(APPOINTMENT);
+
+  assertEquals(event.includes('DTSTART;TZID=Europe/Paris:20251128T233000'), true);
+  assertEquals(event.includes('DTEND;TZID=Europe/Paris:20251129T003000'), true);
+  assertEquals(event.includes('STATUS:CONFIRMED'), true);
+});
+
+Deno.test('buildAppointmentEvent - a cancellation updates the same event', () => {
+  const before = buildAppointmentEvent(APPOINTMENT);
+  const after = buildAppointmentEvent({ ...APPOINTMENT, status: 'cancelled', updated_at: '2025-11-21T10:00:00Z' });
+  const sequence = (lines: string[]) => Number(lines.find((l) => l.startsWith('SEQUENCE:'))?.slice(9));
+
+  assertEquals(after[1], before[1]); // UID
+  assertEquals(after.includes('STATUS:CANCELLED'), true);
+  assertEquals(sequence(after) > sequence(before), true);
+});
+
+Deno.test('foldLine - 75 octets per line, accents never split', () => {
+  const folded = foldLine(`DESCRIPTION:${'é'.repeat(60)}`);
+  const encoder = new TextEncoder();
+
+  assertEquals(folded.split('\r\n ').every((line, i) => encoder.encode(line).length <= (i === 0 ? 75 : 74)), true);
+  assertEquals(folded.replace(/\r\n /g, ''), `DESCRIPTION:${'é'.repeat(60)}`);
+});
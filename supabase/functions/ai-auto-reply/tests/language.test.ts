@@ -0,0 +1,53 @@
+/**
+ * Tests for the client language
+ * Tests detection, the language kept for a conversation and localised confirmations
+ */
+
+import { assertEquals } from 'https://deno.land/std@0.208.0/assert/mod.ts';
+import { detectLanguage } from '../../_shared/language.ts';
+import { resolveConversationLanguage } from '../data/conversation.ts';
+import { buildCancellationMessage, buildConfirmationMessage } from '../appointments/confirmation.ts';
+import type { Message, UserInformation } from '../types.ts';
+
+Deno.test('detectLanguage - recognises fr/en/de/it, null when unsure', () => {
+  assertEquals(detectLanguage("Salut, t'es dispo ce soir ?"), 'fr');
+  assertEquals(detectLanguage('Hi, are you available tonight?'), 'en');
+  assertEquals(detectLanguage('Hallo, hast du heute Abend Zeit?'), 'de');
+  assertEquals(detectLanguage('Ciao, sei disponibile stasera?'), 'it');
+  assertEquals(detectLanguage('ok'), null);
+  assertEquals(detectLanguage('22h ?'), null);
+});
+
+Deno.test('resolveConversationLanguage - short turns keep the known language', () => {
+  const history: Message[] = [
+    { conversation_id: 'conv-1', direction: 'incoming', content: 'Hallo, wie viel kostet eine Stunde?', timestamp: '2025-12-01T10:00:00Z' },
+    { conversation_id: 'conv-1', direction: 'outgoing', content: '200 CHF', timestamp: '2025-12-01T10:01:00Z' }
+  ];
+
+  assertEquals(resolveConversationLanguage('en', 'ok', history), 'en');
+  assertEquals(resolveConversationLanguage(null, 'ok', history), 'de');
+  assertEquals(resolveConversationLanguage('fr', 'Hi, can I come tonight?', history), 'en');
+  assertEquals(resolveConversationLanguage(null, '👍', []), 'fr');
+});
+
+Deno.test('buildConfirmationMessage - written in the client language', () => {
+  const userInfo: UserInformation = {
+    user_id: 'test-user',
+    prestations: [],
+    extras: [],
+    taboos: [],
+    tarifs: [{ duration: '1h', price: 200 }],
+    adresse: 'Rue du Rhône 1, Genève'
+  };
+  const priceMappings = { durationToPriceMap: { '1h': 200 }, extraToPriceMap: {} };
+
+  assertEquals(
+    buildConfirmationMessage('2030-03-16', '21:00', '1h', [], 200, userInfo, priceMappings, null, 'en'),
+    "It's confirmed! Saturday 16 March 21:00, 1h (CHF 200) = CHF 200.\n\nMy address: Rue du Rhône 1, Genève"
+  );
+  assertEquals(
+    buildConfirmationMessage('2030-03-16', '21:00', '1h', [], 200, userInfo, priceMappings),
+    "C'est confirmé ! samedi 16 mars 21:00, 1h (CHF 200) = CHF 200.\n\nMon adresse: Rue du Rhône 1, Genève"
+  );
+  assertEquals(buildCancellationMessage('it'), 'Segnato, il tuo appuntamento è annullato. Scrivimi quando vuoi prenderne un altro 😘');
+});
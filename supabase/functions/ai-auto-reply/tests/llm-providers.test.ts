@@ -0,0 +1,92 @@
+/**
+ * Tests for LLM providers
+ * Tests the Anthropic mapping, the fake provider and the provider selection
+ */
+
+import { assertEquals } from 'https://deno.land/std@0.208.0/assert/mod.ts';
+import { buildAnthropicRequest, parseAnthropicResponse } from '../ai/providers/anthropic.ts';
+import { createFakeProvider } from '../ai/providers/fake.ts';
+import { resolveLLMConfig } from '../ai/providers/factory.ts';
+import { buildOpenAIRequest } from '../ai/openai.ts';
+import { buildCancelAppointmentTool } from '../appointments/tool.ts';
+import type { AIMode } from '../config.ts';
+import type { Env } from '../config/env.ts';
+import type { OpenAIRequestBody } from '../types.ts';
+
+function makeRequest(aiMode: AIMode = 'WORKFLOW'): OpenAIRequestBody {
+  return buildOpenAIRequest(
+    'Tu es Lily',
+    [
+      { role: 'assistant', content: 'Coucou' },
+      { role: 'user', content: 'Dispo ce soir ?' },
+      { role: 'user', content: 'Vers 22h' }
+    ],
+    aiMode,
+    [buildCancelAppointmentTool()],
+    'claude-3-5-haiku-latest'
+  );
+}
+
+Deno.test('buildAnthropicRequest - system prompt and alternating turns', () => {
+  const request = buildAnthropicRequest(makeRequest());
+
+  assertEquals(request.system, 'Tu es Lily');
+  assertEquals(request.messages.map((m) => m.role), ['user', 'assistant', 'user']);
+  assertEquals(request.messages[2].content, 'Dispo ce soir ?\nVers 22h');
+  assertEquals(request.tools?.map((t) => t.name), ['cancel_appointment']);
+  assertEquals(request.tool_choice, { type: 'auto' });
+});
+
+Deno.test('buildAnthropicRequest - WAITING JSON schema becomes a required tool', () => {
+  const request = buildAnthropicRequest(makeRequest('WAITING'));
+
+  assertEquals(request.tools?.map((t) => t.name), ['cancel_appointment', 'ai_waiting_response']);
+  assertEquals(request.tool_choice, { type: 'any' });
+});
+
+Deno.test('parseAnthropicResponse - response tool is content, other tools are tool_calls', () => {
+  const response = parseAnthropicResponse(
+    {
+      id: 'msg_1',
+      model: 'claude-3-5-haiku-latest',
+      content: [
+        { type: 'tool_use', id: 'tu_1', name: 'ai_waiting_response', input: { message: 'Ok 😘' } },
+        { type: 'tool_use', id: 'tu_2', name: 'cancel_appointment', input: { reason: '' } }
+      ],
+      stop_reason: 'tool_use',
+      usage: { input_tokens: 10, output_tokens: 5 }
+    },
+    'ai_waiting_response'
+  );
+
+  const choice = response.choices[0];
+  assertEquals(choice.message.content, '{"message":"Ok 😘"}');
+  assertEquals(choice.message.tool_calls?.map((c) => c.function.name), ['cancel_appointment']);
+  assertEquals(choice.finish_reason, 'tool_calls');
+  assertEquals(response.usage.total_tokens, 15);
+});
+
+Deno.test('createFakeProvider - scripted replies then defaults, requests recorded', async () => {
+  const provider = createFakeProvider([
+    { tool_calls: [{ name: 'cancel_appointment', arguments: { reason: 'malade' } }] }
+  ]);
+
+  const first = await provider.chat(makeRequest());
+  assertEquals(first.choices[0].message.tool_calls?.[0].function.arguments, '{"reason":"malade"}');
+
+  const second = await provider.chat(makeRequest('WAITING'));
+  assertEquals(JSON.parse(second.choices[0].message.content).client_has_arrived, false);
+
+  assertEquals(provider.requests.length, 2);
+});
+
+Deno.test('resolveLLMConfig - user choice, then env default when not configured', () => {
+  const env = { OPENAI_API_KEY: 'sk-test', LLM_MODEL: 'gpt-4o' } as Env;
+
+  assertEquals(resolveLLMConfig(env).model, 'gpt-4o');
+  assertEquals(resolveLLMConfig(env, { ai_provider: 'openai', ai_model: 'gpt-4o-mini' }).model, 'gpt-4o-mini');
+
+  const fallback = resolveLLMConfig(env, { ai_provider: 'anthropic', ai_model: 'claude-3-5-haiku-latest' });
+  assertEquals(fallback.provider, 'openai');
+  assertEquals(fallback.model, 'gpt-4o');
+});
@@ -0,0 +1,49 @@
+/**
+ * Tests for the automated message templates
+ * Tests validation of overrides, rendering and the fallback to the default texts
+ */
+
+import { assertEquals } from 'https://deno.land/std@0.208.0/assert/mod.ts';
+import {
+  getDefaultTemplate,
+  renderTemplate,
+  resolveTemplate,
+  validateTemplate
+} from '../../_shared/message-templates.ts';
+
+Deno.test('validateTemplate - rejects unknown variables and empty templates', () => {
+  assertEquals(validateTemplate('access_info', 'Code : {door_code}, étage {floor}').valid, true);
+
+  const invalid = validateTemplate('access_info', 'Code : {door_code}, étage {etage} {etage}');
+  assertEquals(invalid.valid, false);
+  assertEquals(invalid.unknownVariables, ['etage']);
+
+  // Variables of another template are unknown too
+  assertEquals(validateTemplate('late_nudge', 'Tu arrives à {time} ? Code {door_code}').unknownVariables, ['door_code']);
+  assertEquals(validateTemplate('confirmation', '   ').valid, false);
+});
+
+Deno.test('renderTemplate - fills variables and drops lines whose variables are all empty', () => {
+  const message = renderTemplate(getDefaultTemplate('access_info', 'fr'), {
+    floor: '3',
+    elevator_info: null,
+    door_code: '4521',
+    access_instructions: ''
+  });
+
+  assertEquals(message, 'Parfait, tu peux monter ! 🎉\n\n🏢 Étage : 3\n🔑 Code : 4521');
+});
+
+Deno.test('resolveTemplate - uses valid overrides, falls back to the default otherwise', () => {
+  const overrides = {
+    confirmation: { fr: 'Top, à {date} {time} !', en: 'See you {date} at {hour}' },
+    provider_client_arrived: { fr: '🚪 {client_name} est là' }
+  };
+
+  assertEquals(resolveTemplate('confirmation', 'fr', overrides), 'Top, à {date} {time} !');
+  // {hour} is not a variable: the override is ignored
+  assertEquals(resolveTemplate('confirmation', 'en', overrides), getDefaultTemplate('confirmation', 'en'));
+  assertEquals(resolveTemplate('confirmation', 'de', overrides), getDefaultTemplate('confirmation', 'de'));
+  // Provider notifications only exist in French
+  assertEquals(resolveTemplate('provider_client_arrived', 'it', overrides), '🚪 {client_name} est là');
+});
@@ -0,0 +1,58 @@
+/**
+ * Tests for payment links
+ * Tests the payment asked with a booking and the mock gateway round trip
+ */
+
+import { assertEquals } from 'https://deno.land/std@0.208.0/assert/mod.ts';
+import { getPaymentDue } from '../appointments/payment.ts';
+import { createMockPaymentGateway } from '../../_shared/payment-gateway-mock.ts';
+import type { UserInformation } from '../types.ts';
+
+const USER_INFO: UserInformation = {
+  user_id: 'user-1',
+  prestations: [],
+  extras: [],
+  taboos: [],
+  tarifs: [],
+  adresse: '',
+  payment_links: 'no_show_policy'
+};
+
+const DEPOSIT = { type: 'deposit' as const, amount: 50, noShowCount: 2 };
+
+Deno.test('getPaymentDue - follows payment_links and the deposit policy', () => {
+  assertEquals(getPaymentDue(USER_INFO, DEPOSIT, 300), { kind: 'deposit', amount: 50 });
+  assertEquals(getPaymentDue(USER_INFO, { ...DEPOSIT, type: 'prepayment', amount: null }, 300), { kind: 'full', amount: 300 });
+  assertEquals(getPaymentDue(USER_INFO, null, 300), null);
+  assertEquals(getPaymentDue({ ...USER_INFO, payment_links: 'all' }, null, 300), { kind: 'full', amount: 300 });
+  assertEquals(getPaymentDue({ ...USER_INFO, payment_links: 'off' }, DEPOSIT, 300), null);
+});
+
+Deno.test('mock gateway - checkout page posts a signed event the webhook accepts', async () => {
+  const webhookUrl = 'http://localhost:54321/functions/v1/payment-webhook';
+  const gateway = createMockPaymentGateway(webhookUrl, 'test-secret');
+
+  const link = await gateway.createPaymentLink({
+    appointmentId: 'apt-1',
+    amount: 50,
+    currency: 'CHF',
+    kind: 'deposit',
+    description: 'Acompte du 2025-11-28'
+  });
+
+  const page = await gateway.renderCheckout?.(new Request(link.url));
+  const html = (await page?.text()) ?? '';
+  const signature = html.match(/name="status" value="paid">\s*<input type="hidden" name="signature" value="([0-9a-f]+)"/)?.[1] ?? '';
+
+  const post = (fields: Record<string, string>) => gateway.parseWebhook(new Request(link.url, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+    body: new URLSearchParams(fields).toString()
+  }));
+
+  assertEquals(await post({ reference: link.reference, status: 'paid', signature }), { reference: link.reference, status: 'paid' });
+
+  let error = '';
+  await post({ reference: link.reference, status: 'failed', signature }).catch((e) => error = e.message);
+  assertEquals(error, 'Invalid signature');
+});
@@ -0,0 +1,54 @@
+/**
+ * Tests for the reply queue
+ * Tests how messages sent in a row are merged into one turn
+ */
+
+import { assertEquals } from 'https://deno.land/std@0.208.0/assert/mod.ts';
+import { mergePendingMessages } from '../messaging/reply-queue.ts';
+import type { Message } from '../types.ts';
+
+function message(direction: Message['direction'], content: string, minute: number): Message {
+  return {
+    conversation_id: 'conv-1',
+    direction,
+    content,
+    timestamp: `2025-11-23T21:${String(minute).padStart(2, '0')}:00Z`
+  };
+}
+
+const HISTORY = [
+  message('incoming', 'Salut', 0),
+  message('outgoing', 'Coucou 😘', 1)
+];
+
+Deno.test('mergePendingMessages - burst answered as one turn', () => {
+  const turn = mergePendingMessages(
+    [...HISTORY, message('incoming', 'hey', 10), message('incoming', 'dispo ce soir ?', 10), message('incoming', 'pour 1h', 11)],
+    'pour 1h',
+    'text'
+  );
+
+  assertEquals(turn.count, 3);
+  assertEquals(turn.text, 'hey\ndispo ce soir ?\npour 1h');
+  assertEquals(turn.type, 'text');
+  assertEquals(turn.messages.map((m) => m.content), ['Salut', 'Coucou 😘', 'hey\ndispo ce soir ?\npour 1h']);
+  assertEquals(turn.messages[2].timestamp, '2025-11-23T21:11:00Z');
+});
+
+Deno.test('mergePendingMessages - single message unchanged', () => {
+  const messages = [...HISTORY, message('incoming', '[Localisation] (46.20978, 6.14238)', 10)];
+  const turn = mergePendingMessages(messages, '[Localisation] (46.20978, 6.14238)', 'location');
+
+  assertEquals(turn.count, 1);
+  assertEquals(turn.type, 'location');
+  assertEquals(turn.messages, messages);
+});
+
+Deno.test('mergePendingMessages - request not about the latest message', () => {
+  const messages = [...HISTORY, message('incoming', 'hey', 10), message('incoming', 'dispo ?', 10)];
+  const turn = mergePendingMessages(messages, 'Test depuis le dashboard', 'text');
+
+  assertEquals(turn.count, 1);
+  assertEquals(turn.text, 'Test depuis le dashboard');
+  assertEquals(turn.messages, messages);
+});
@@ -0,0 +1,92 @@
+/**
+ * Tests for the sandbox ("Tester mon assistant" page)
+ * Tests reading the test conversation and the in-memory sandbox appointments
+ */
+
+import { assertEquals, assertThrows } from 'https://deno.land/std@0.208.0/assert/mod.ts';
+import { buildAppointmentRecord } from '../appointments/creation.ts';
+import { buildPriceMappings } from '../utils/pricing.ts';
+import {
+  activeSandboxAppointments,
+  buildSandboxAppointment,
+  openSandbox,
+  updateSandboxAppointment,
+  SANDBOX_CONVERSATION_ID
+} from '../data/sandbox.ts';
+import type { UserInformation } from '../types.ts';
+
+// Monday 01/12/2025, 09:00 in Paris
+const NOW = new Date('2025-12-01T08:00:00Z');
+
+const userInfo: UserInformation = {
+  user_id: 'test-user',
+  prestations: [],
+  extras: [{ name: 'Massage', price: 50 }],
+  taboos: [],
+  tarifs: [{ duration: '1h', price: 150 }],
+  adresse: '',
+  buffer_before_minutes: 10
+};
+
+function sandboxBooking(date: string, time: string) {
+  const priceMappings = buildPriceMappings(userInfo.tarifs, userInfo.extras);
+  const record = buildAppointmentRecord(
+    { appointment_date: date, appointment_time: time, duration: '1h', selected_extras: ['Massage'] },
+    SANDBOX_CONVERSATION_ID,
+    'test-user',
+    'sandbox',
+    'Client test',
+    userInfo,
+    priceMappings
+  );
+  return buildSandboxAppointment(record, priceMappings);
+}
+
+Deno.test('openSandbox - the test conversation must end with a client message', () => {
+  const sandbox = openSandbox({
+    messages: [
+      { direction: 'incoming', content: 'Salut' },
+      { direction: 'outgoing', content: 'Coucou 😘' },
+      { direction: 'incoming', content: '  dispo ce soir ?  ' }
+    ],
+    language: 'fr'
+  }, 'test-user', NOW);
+
+  assertEquals(sandbox.messageText, 'dispo ce soir ?');
+  assertEquals(sandbox.conversation.messages.length, 3);
+  assertEquals(sandbox.conversation.language, 'fr');
+
+  assertThrows(() => openSandbox({ messages: [{ direction: 'outgoing', content: 'Coucou' }] }, 'test-user', NOW));
+  assertThrows(() => openSandbox({ messages: [] }, 'test-user', NOW));
+});
+
+Deno.test('openSandbox - keeps sandbox appointments only, today confirmed one means WAITING', () => {
+  const today = sandboxBooking('2025-12-01', '10:00');
+  const real = { ...sandboxBooking('2025-12-02', '10:00'), id: '9b2f0c1e-real-appointment' };
+
+  const sandbox = openSandbox({
+    messages: [{ direction: 'incoming', content: 'Je suis en bas' }],
+    appointments: [today, real, { ...today, id: 'sandbox-broken', start_time: 'demain' }]
+  }, 'other-user', NOW);
+
+  assertEquals(sandbox.session.appointments.map((a) => a.id), [today.id]);
+  assertEquals(sandbox.session.appointments[0].user_id, 'other-user');
+  assertEquals(sandbox.conversation.todayAppointment?.id, today.id);
+});
+
+Deno.test('buildSandboxAppointment - priced like a booking, changes stay in the session', () => {
+  const appointment = sandboxBooking('2025-12-03', '14:00');
+
+  assertEquals(appointment.id.startsWith('sandbox-'), true);
+  assertEquals(appointment.end_time, '15:00');
+  assertEquals(appointment.selected_extras, [{ name: 'Massage', price: 50 }]);
+  assertEquals([appointment.base_price, appointment.extras_total, appointment.total_price], [150, 50, 200]);
+  assertEquals(appointment.buffer_before_minutes, 10);
+
+  const session = { appointments: [appointment], skipped: [] };
+  updateSandboxAppointment(session, appointment.id, { status: 'cancelled' });
+
+  assertEquals(session.appointments[0].status, 'cancelled');
+  assertEquals(activeSandboxAppointments(session), []);
+  assertThrows(() => updateSandboxAppointment(session, 'some-real-id', { status: 'cancelled' }));
+});
@@ -0,0 +1,269 @@
+/**
+ * In-memory Supabase double
+ * Tables are plain arrays; covers the part of the query builder the pipeline uses
+ * (select / insert / update / delete, eq, in, range filters, order, limit, single)
+ * and records the edge functions it invokes
+ */
+
+import { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2.76.1';
+
+export type Row = Record<string, any>;
+
+export interface QueryError {
+  message: string;
+  code?: string;
+}
+
+export interface QueryResult {
+  data: unknown;
+  error: QueryError | null;
+  count?: number | null;
+}
+
+/**
+ * Stand-in for an edge function called with supabase.functions.invoke
+ */
+export type FunctionStub = (body: Row, tables: Record<string, Row[]>) => { data?: unknown; error?: QueryError | null };
+
+export interface FunctionInvocation {
+  name: string;
+  body: Row;
+}
+
+export interface MemorySupabase {
+  client: SupabaseClient;
+  tables: Record<string, Row[]>;
+  invocations: FunctionInvocation[];
+}
+
+type Filter = (row: Row) => boolean;
+
+// Only plain column lists ('*' or 'a, b, c'), no embedded resources
+function project(row: Row, columns: string): Row {
+  if (columns.trim() === '*') return { ...row };
+  return Object.fromEntries(
+    columns.split(',').map((column) => column.trim()).map((column) => [column, row[column] ?? null])
+  );
+}
+
+class MemoryQuery implements PromiseLike<QueryResult> {
+  private action: 'select' | 'insert' | 'update' | 'delete' = 'select';
+  private values: Row | Row[] = {};
+  private columns = '*';
+  private returning = false;
+  private countOnly = false;
+  private filters: Filter[] = [];
+  private orders: { column: string; ascending: boolean }[] = [];
+  private maxRows: number | null = null;
+  private mode: 'many' | 'single' | 'maybeSingle' = 'many';
+
+  constructor(private rows: Row[]) {}
+
+  select(columns = '*', options: { count?: string; head?: boolean } = {}): this {
+    this.columns = columns;
+    if (this.action === 'select') {
+      this.countOnly = options.head === true;
+    } else {
+      // insert(...).select(): return the written rows
+      this.returning = true;
+    }
+    return this;
+  }
+
+  insert(values: Row | Row[]): this {
+    this.action = 'insert';
+    this.values = values;
+    return this;
+  }
+
+  update(values: Row): this {
+    this.action = 'update';
+    this.values = values;
+    return this;
+  }
+
+  delete(): this {
+    this.action = 'delete';
+    return this;
+  }
+
+  eq(column: string, value: unknown): this {
+    this.filters.push((row) => row[column] === value);
+    return this;
+  }
+
+  neq(column: string, value: unknown): this {
+    this.filters.push((row) => row[column] !== value);
+    return this;
+  }
+
+  in(column: string, values: unknown[]): this {
+    this.filters.push((row) => values.includes(row[column]));
+    return this;
+  }
+
+  is(column: string, value: null | boolean): this {
+    this.filters.push((row) => (row[column] ?? null) === value);
+    return this;
+  }
+
+  gt(column: string, value: string | number): this {
+    this.filters.push((row) => row[column] !== null && row[column] > value);
+    return this;
+  }
+
+  gte(column: string, value: string | number): this {
+    this.filters.push((row) => row[column] !== null && row[column] >= value);
+    return this;
+  }
+
+  lt(column: string, value: string | number): this {
+    this.filters.push((row) => row[column] !== null && row[column] < value);
+    return this;
+  }
+
+  lte(column: string, value: string | number): this {
+    this.filters.push((row) => row[column] !== null && row[column] <= value);
+    return this;
+  }
+
+  order(column: string, options: { ascending?: boolean } = {}): this {
+    this.orders.push({ column, ascending: options.ascending !== false });
+    return this;
+  }
+
+  limit(count: number): this {
+    this.maxRows = count;
+    return this;
+  }
+
+  single(): this {
+    this.mode = 'single';
+    return this;
+  }
+
+  maybeSingle(): this {
+    this.mode = 'maybeSingle';
+    return this;
+  }
+
+  then<TResult1 = QueryResult, TResult2 = never>(
+    onfulfilled?: ((value: QueryResult) => TResult1 | PromiseLike<TResult1>) | null,
+    onrejected?: ((reason: unknown) => TResult2 | PromiseLike<TResult2>) | null
+  ): PromiseLike<TResult1 | TResult2> {
+    return Promise.resolve().then(() => this.execute()).then(onfulfilled, onrejected);
+  }
+
+  private matching(): Row[] {
+    return this.rows.filter((row) => this.filters.every((filter) => filter(row)));
+  }
+
+  private execute(): QueryResult {
+    let result: Row[];
+
+    switch (this.action) {
+      case 'insert': {
+        const now = new Date().toISOString();
+        result = (Array.isArray(this.values) ? this.values : [this.values]).map((values) => ({
+          id: crypto.randomUUID(),
+          created_at: now,
+          ...structuredClone(values)
+        }));
+        this.rows.push(...result);
+        break;
+      }
+      case 'update':
+        result = this.matching();
+        for (const row of result) {
+          Object.assign(row, structuredClone(this.values));
+        }
+        break;
+      case 'delete':
+        result = this.matching();
+        for (const row of result) {
+          this.rows.splice(this.rows.indexOf(row), 1);
+        }
+        break;
+      default:
+        result = this.matching();
+        if (this.countOnly) {
+          return { data: null, error: null, count: result.length };
+        }
+        result = [...result].sort((a, b) => {
+          for (const { column, ascending } of this.orders) {
+            if (a[column] === b[column]) continue;
+            return (a[column] > b[column] ? 1 : -1) * (ascending ? 1 : -1);
+          }
+          return 0;
+        });
+        if (this.maxRows !== null) {
+          result = result.slice(0, this.maxRows);
+        }
+    }
+
+    if (this.action !== 'select' && !this.returning) {
+      return { data: null, error: null };
+    }
+
+    // Copies: callers never hold a reference to a stored row
+    const data = result.map((row) => structuredClone(project(row, this.columns)));
+
+    if (this.mode === 'many') {
+      return { data, error: null };
+    }
+    if (data.length > 1 || (data.length === 0 && this.mode === 'single')) {
+      return {
+        data: null,
+        error: { message: `JSON object requested, ${data.length} rows returned`, code: 'PGRST116' }
+      };
+    }
+    return { data: data[0] ?? null, error: null };
+  }
+}
+
+/**
+ * Creates an in-memory Supabase client
+ *
+ * @param seed - Initial rows per table (copied)
+ * @param functions - Edge function stand-ins by name; invoking any other function fails
+ * @returns Client for the pipeline, its tables and the functions invoked
+ *
+ * @example
+ * const db = createMemorySupabase(
+ *   { user_informations: [{ user_id: 'u1', tarifs: [] }] },
+ *   { 'send-provider-notification': () => ({ data: { success: true } }) }
+ * );
+ * await db.client.from('ai_events').insert({ event_type: 'openai_call' });
+ * db.tables.ai_events.length; // 1
+ */
+export function createMemorySupabase(
+  seed: Record<string, Row[]> = {},
+  functions: Record<string, FunctionStub> = {}
+): MemorySupabase {
+  const tables: Record<string, Row[]> = structuredClone(seed);
+  const invocations: FunctionInvocation[] = [];
+
+  const client = {
+    from(table: string) {
+      tables[table] ??= [];
+      return new MemoryQuery(tables[table]);
+    },
+
+    functions: {
+      invoke(name: string, options: { body?: Row } = {}) {
+        const body = structuredClone(options.body ?? {});
+        invocations.push({ name, body });
+
+        const stub = functions[name];
+        if (!stub) {
+          return Promise.resolve({ data: null, error: { message: `Function not stubbed: ${name}` } });
+        }
+
+        const { data = null, error = null } = stub(body, tables);
+        return Promise.resolve({ data, error });
+      }
+    }
+  };
+
+  return { client: client as unknown as SupabaseClient, tables, invocations };
+}
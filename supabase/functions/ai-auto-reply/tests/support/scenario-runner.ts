@@ -0,0 +1,210 @@
+/**
+ * Golden conversation runner
+ * Replays a scripted client conversation through the whole orchestrator (handler.ts):
+ * scripted model answers (fake provider), in-memory Supabase, stubbed Duckling and
+ * WhatsApp sending (send-whatsapp-message → Evolution API), clock frozen on the scenario date
+ */
+
+import { FakeTime } from 'https://deno.land/std@0.208.0/testing/time.ts';
+import { handleRequest, type HandlerDependencies } from '../../handler.ts';
+import { createFakeProvider, type FakeLLMReply } from '../../ai/providers/fake.ts';
+import { createMemorySupabase, type Row } from './memory-supabase.ts';
+import type { OpenAIRequestBody, TemporalEntity, UserInformation } from '../../types.ts';
+
+export const SCENARIO_USER_ID = 'golden-user';
+export const SCENARIO_CONVERSATION_ID = 'golden-conversation';
+export const SCENARIO_CONTACT_PHONE = '+41791234567';
+
+const SERVICE_ROLE_KEY = 'ey-golden-service-role-key';
+
+export interface ScenarioTurn {
+  client: string;                             // Client message, stored then answered like the webhook does
+  context?: 'TIME' | 'DURATION' | 'UNKNOWN';  // Context analysis answer (default UNKNOWN)
+  duckling?: TemporalEntity[];                // Duckling answer for this message (default none: Chrono fallback)
+  llm: FakeLLMReply[];                        // Model answers of the tool loop, all of them must be used
+}
+
+export interface ConversationScenario {
+  now: string;                                // Clock at the first client message (UTC ISO), +1 min per turn
+  userInfo?: Partial<UserInformation>;        // Over the default provider (1h/2h tarifs, open 10:00-23:00)
+  tables?: Record<string, Row[]>;             // Extra rows: existing appointments, exceptions...
+  turns: ScenarioTurn[];
+}
+
+export interface ScenarioResult {
+  sent: string[];                             // WhatsApp messages sent to the client, attachments as [type]
+  appointments: Row[];                        // appointments table at the end
+  events: string[];                           // ai_events types, in order
+  notifications: string[];                    // Provider notifications, in order
+  llmRequests: OpenAIRequestBody[];           // Tool loop requests (tool results included)
+  tables: Record<string, Row[]>;
+}
+
+const DEFAULT_USER_INFO: UserInformation = {
+  user_id: SCENARIO_USER_ID,
+  prestations: [{ name: 'Massage' }],
+  extras: [{ name: 'Huiles chaudes', price: 50 }],
+  taboos: [],
+  tarifs: [{ duration: '1h', price: 200 }, { duration: '2h', price: 350 }],
+  adresse: ''
+};
+
+function seedTables(scenario: ConversationScenario): Record<string, Row[]> {
+  const seed: Record<string, Row[]> = {
+    user_informations: [{ ...DEFAULT_USER_INFO, ...scenario.userInfo }],
+    availabilities: [0, 1, 2, 3, 4, 5, 6].map((day) => ({
+      id: `availability-${day}`,
+      user_id: SCENARIO_USER_ID,
+      day_of_week: day,
+      start_time: '10:00',
+      end_time: '23:00',
+      is_active: true
+    })),
+    conversations: [{
+      id: SCENARIO_CONVERSATION_ID,
+      user_id: SCENARIO_USER_ID,
+      contact_phone: SCENARIO_CONTACT_PHONE,
+      contact_name: 'Marc',
+      language: null,
+      ai_reply_token: null
+    }],
+    messages: [],
+    appointments: [],
+    ai_events: []
+  };
+
+  for (const [table, rows] of Object.entries(scenario.tables ?? {})) {
+    seed[table] = [...(seed[table] ?? []), ...rows];
+  }
+  return seed;
+}
+
+/**
+ * Replays a scenario and returns what the conversation left behind
+ *
+ * @param scenario - Clock, provider settings, existing rows and client turns
+ * @returns Messages sent, appointments, ai_events and provider notifications
+ * @throws Error if a turn does not answer 200 or does not use exactly its scripted model answers
+ *
+ * @example
+ * const result = await runScenario({
+ *   now: '2025-12-01T17:00:00Z',
+ *   turns: [{ client: 'Salut', llm: [{ content: 'Coucou 😘' }] }]
+ * });
+ * // result.sent: ['Coucou 😘'], result.events: ['openai_call']
+ */
+export async function runScenario(scenario: ConversationScenario): Promise<ScenarioResult> {
+  const db = createMemorySupabase(seedTables(scenario), {
+    // send-whatsapp-message: stored as the function does once the Evolution API accepted it
+    // (never fails: the retry backoff would wait on the frozen clock)
+    'send-whatsapp-message': (body, tables) => {
+      tables.messages.push({
+        conversation_id: body.conversation_id,
+        direction: 'outgoing',
+        content: body.message ?? '',
+        message_type: body.attachment?.type ?? 'text',
+        timestamp: new Date().toISOString()
+      });
+      return { data: { success: true } };
+    },
+    'send-provider-notification': () => ({ data: { success: true } })
+  });
+
+  let turnNumber = 0;
+  let turn: ScenarioTurn = scenario.turns[0];
+  let pendingReplies: FakeLLMReply[] = [];
+
+  const provider = createFakeProvider((requestBody) => {
+    if (requestBody.response_format?.json_schema.name === 'context_analysis') {
+      return {
+        content: JSON.stringify({ context_type: turn.context ?? 'UNKNOWN', confidence: 'high', reasoning: 'Scenario' })
+      };
+    }
+    const reply = pendingReplies.shift();
+    if (!reply) {
+      throw new Error(`Turn ${turnNumber}: the model was called more often than scripted`);
+    }
+    return reply;
+  });
+
+  const dependencies: HandlerDependencies = {
+    env: {
+      SUPABASE_URL: 'http://localhost:54321',
+      SUPABASE_SERVICE_ROLE_KEY: SERVICE_ROLE_KEY,
+      JWT_SECRET: 'golden-conversations-jwt-secret-0000',
+      LLM_PROVIDER: 'fake'
+    },
+    createSupabaseClient: () => db.client,
+    createLLMProvider: () => provider
+  };
+
+  // Duckling answers from the script, any other network call fails the scenario
+  const realFetch = globalThis.fetch;
+  globalThis.fetch = (input: string | URL | Request) => {
+    const url = input instanceof Request ? input.url : String(input);
+    if (new URL(url).pathname === '/parse') {
+      return Promise.resolve(new Response(JSON.stringify(turn.duckling ?? []), { status: 200 }));
+    }
+    return Promise.reject(new Error(`Unexpected network call in a scenario: ${url}`));
+  };
+
+  const time = new FakeTime(scenario.now);
+
+  try {
+    for (turn of scenario.turns) {
+      turnNumber++;
+      pendingReplies = [...turn.llm];
+
+      db.tables.messages.push({
+        conversation_id: SCENARIO_CONVERSATION_ID,
+        direction: 'incoming',
+        content: turn.client,
+        message_type: 'text',
+        timestamp: new Date().toISOString()
+      });
+      // Answer one second later, so the history keeps its order
+      time.tick(1000);
+
+      const response = await handleRequest(
+        new Request('http://localhost/functions/v1/ai-auto-reply', {
+          method: 'POST',
+          headers: { 'Authorization': `Bearer ${SERVICE_ROLE_KEY}`, 'Content-Type': 'application/json' },
+          body: JSON.stringify({
+            user_id: SCENARIO_USER_ID,
+            conversation_id: SCENARIO_CONVERSATION_ID,
+            message_text: turn.client
+          })
+        }),
+        dependencies
+      );
+
+      if (response.status !== 200) {
+        throw new Error(`Turn ${turnNumber} failed (${response.status}): ${await response.text()}`);
+      }
+      await response.body?.cancel();
+
+      if (pendingReplies.length > 0) {
+        throw new Error(`Turn ${turnNumber}: ${pendingReplies.length} scripted model answer(s) not used`);
+      }
+
+      // The client answers a minute later
+      time.tick(59_000);
+    }
+  } finally {
+    time.restore();
+    globalThis.fetch = realFetch;
+  }
+
+  return {
+    sent: db.invocations
+      .filter((invocation) => invocation.name === 'send-whatsapp-message')
+      .map(({ body }) => body.message ?? `[${body.attachment?.type}]`),
+    appointments: db.tables.appointments,
+    events: db.tables.ai_events.map((event) => event.event_type),
+    notifications: db.invocations
+      .filter((invocation) => invocation.name === 'send-provider-notification')
+      .map(({ body }) => body.notification_type),
+    llmRequests: provider.requests.filter((request) => request.response_format?.json_schema.name !== 'context_analysis'),
+    tables: db.tables
+  };
+}
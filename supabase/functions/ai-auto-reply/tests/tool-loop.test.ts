@@ -0,0 +1,86 @@
+/**
+ * Tests for the tool loop
+ * Tests that tool results go back to the model and that the loop is bounded
+ */
+
+import { assertEquals } from 'https://deno.land/std@0.208.0/assert/mod.ts';
+import { buildOpenAIRequest, runToolLoop } from '../ai/openai.ts';
+import { createFakeProvider } from '../ai/providers/fake.ts';
+import { buildAnthropicRequest } from '../ai/providers/anthropic.ts';
+import { buildRescheduleAppointmentTool } from '../appointments/tool.ts';
+import type { ToolExecutionResult } from '../types.ts';
+
+const RESCHEDULE = { name: 'reschedule_appointment', arguments: { appointment_date: '2025-01-15', appointment_time: '23:00' } };
+
+function makeRequest() {
+  return buildOpenAIRequest(
+    'Tu es Lily',
+    [{ role: 'user', content: 'On décale à 23h ?' }],
+    'WORKFLOW',
+    [buildRescheduleAppointmentTool()]
+  );
+}
+
+Deno.test('runToolLoop - failed validation is sent back, the model answers', async () => {
+  const provider = createFakeProvider([
+    { tool_calls: [RESCHEDULE] },
+    { content: "23h c'est pris, 23h30 ça te va ?" }
+  ]);
+  const failed: ToolExecutionResult = { output: { success: false, error: 'time_validation' } };
+
+  const result = await runToolLoop(makeRequest(), provider, () => Promise.resolve(failed));
+
+  assertEquals(result.reply, null);
+  assertEquals(result.response.choices[0].message.content, "23h c'est pris, 23h30 ça te va ?");
+  assertEquals(result.toolCalls.length, 1);
+  assertEquals(result.llmCalls.length, 2);
+
+  const followUp = provider.requests[1].messages;
+  assertEquals(followUp[followUp.length - 2].tool_calls?.[0].function.name, 'reschedule_appointment');
+  assertEquals(followUp[followUp.length - 1].role, 'tool');
+  assertEquals(JSON.parse(followUp[followUp.length - 1].content).error, 'time_validation');
+});
+
+Deno.test('runToolLoop - a tool reply ends the loop', async () => {
+  const provider = createFakeProvider([{ tool_calls: [RESCHEDULE] }]);
+
+  const result = await runToolLoop(makeRequest(), provider, () =>
+    Promise.resolve({ output: { success: true }, reply: 'Ok, je te décale à 23:00 😘' })
+  );
+
+  assertEquals(result.reply, 'Ok, je te décale à 23:00 😘');
+  assertEquals(provider.requests.length, 1);
+});
+
+Deno.test('runToolLoop - bounded, last call cannot use tools', async () => {
+  const provider = createFakeProvider(() => ({ tool_calls: [RESCHEDULE] }));
+  const failed: ToolExecutionResult = { output: { success: false, error: 'time_validation' } };
+
+  const result = await runToolLoop(makeRequest(), provider, () => Promise.resolve(failed), 3);
+
+  assertEquals(provider.requests.length, 3);
+  assertEquals(provider.requests[2].tool_choice, 'none');
+  assertEquals(result.toolCalls.length, 2);
+  assertEquals(result.reply, null);
+
+  // Same history for Anthropic: tool_use answered by a tool_result, tools still declared
+  const anthropic = buildAnthropicRequest(provider.requests[2]);
+  assertEquals(anthropic.messages.map((m) => m.role), ['user', 'assistant', 'user', 'assistant', 'user']);
+  assertEquals(anthropic.tool_choice, { type: 'none' });
+});
+
+Deno.test('runToolLoop - tool attachments are collected, the model still answers', async () => {
+  const provider = createFakeProvider([
+    { tool_calls: [{ name: 'share_address_location', arguments: {} }] },
+    { content: "Je t'envoie ma position 📍" }
+  ]);
+  const pin = { type: 'location' as const, latitude: 46.2, longitude: 6.14, name: null, address: 'Rue du Mont-Blanc 1, Genève' };
+
+  const result = await runToolLoop(makeRequest(), provider, () =>
+    Promise.resolve({ output: { success: true }, attachments: [pin] })
+  );
+
+  assertEquals(result.reply, null);
+  assertEquals(result.attachments, [pin]);
+  assertEquals(result.response.choices[0].message.content, "Je t'envoie ma position 📍");
+});
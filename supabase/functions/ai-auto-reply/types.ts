@@ -4,6 +4,8 @@
  */
 
 import { AIMode, AppointmentStatus } from './config.ts';
+import type { OutgoingAttachment } from '../_shared/evolution-messages.ts';
+import type { PaymentKind } from '../_shared/payment-gateway.ts';
 
 // ============================================================================
 // User Information Types
@@ -20,6 +22,7 @@ export interface Extra {
   price: number;
   description?: string;
   keywords?: string[];
+  buffer_minutes?: number;  // Extra time kept free after the appointment when booked
 }
 
 export interface Taboo {
@@ -30,6 +33,7 @@ export interface Taboo {
 export interface Tarif {
   duration: string;  // e.g., "30min", "1h", "2h"
   price: number;
+  buffer_minutes?: number;  // Extra time kept free after an appointment of this duration
 }
 
 export interface AccessInfo {
@@ -47,10 +51,35 @@ export interface UserInformation {
   tarifs: Tarif[];
   adresse: string;
   access_info?: AccessInfo;
+  require_booking_approval?: boolean;  // Bookings wait for the provider's approval (status 'pending')
+  ai_provider?: LLMProviderName | null;  // Per-user LLM override (null = environment default)
+  ai_model?: string | null;
+  no_show_deposit_threshold?: number;  // No-shows before a deposit is required (0 = never)
+  no_show_deposit_type?: DepositType;
+  no_show_deposit_amount?: number | null; // CHF, for 'deposit'
+  payment_links?: PaymentLinksMode;  // Clients who get a payment link with their confirmation
+  buffer_before_minutes?: number;  // Kept free before every appointment (travel, setup)
+  buffer_after_minutes?: number;   // Kept free after every appointment (cleaning, reset)
+  ai_persona?: AiPersona | null;   // Provider's tone and phrases for the prompts (null = default persona)
   created_at?: string;
   updated_at?: string;
 }
 
+export type EmojiPolicy = 'none' | 'few' | 'free';
+
+/**
+ * How the assistant talks, set by the provider (user_informations.ai_persona)
+ * Composed into the prompts on top of the fixed booking and safety rules
+ */
+export interface AiPersona {
+  tone?: string;                 // e.g. "douce et joueuse", replaces "friendly/cool/complice"
+  greeting?: string;             // First words to a new client, e.g. "Coucou mon chou"
+  intro?: string;                // First line of the presentation message, replaces "Alors voici ce que je propose:"
+  signature_phrases?: string[];  // Expressions the provider often uses
+  emoji_policy?: EmojiPolicy;    // Unset = mode default (none in WORKFLOW, free in WAITING)
+  extra_rules?: string;          // Free text, never above the fixed rules
+}
+
 // ============================================================================
 // Availability Types
 // ============================================================================
@@ -66,6 +95,30 @@ export interface Availability {
   updated_at?: string;
 }
 
+export type AvailabilityExceptionType = 'blocked' | 'extra_hours';
+
+export interface AvailabilityException {
+  id: string;
+  user_id: string;
+  exception_type: AvailabilityExceptionType;
+  start_date: string;         // YYYY-MM-DD
+  end_date: string;           // YYYY-MM-DD (inclusive, same as start_date for a single day)
+  start_time: string | null;  // HH:MM, null = whole day (blocked only)
+  end_time: string | null;    // HH:MM, may be <= start_time when crossing midnight
+  reason?: string | null;
+  created_at?: string;
+  updated_at?: string;
+}
+
+/**
+ * Consecutive days off (vacation, holidays) derived from whole-day blocked exceptions
+ */
+export interface TimeOffPeriod {
+  startDate: string;   // YYYY-MM-DD
+  endDate: string;     // YYYY-MM-DD (inclusive)
+  reopenDate: string;  // YYYY-MM-DD, first day bookable again
+}
+
 // ============================================================================
 // Appointment Types
 // ============================================================================
@@ -96,10 +149,46 @@ export interface Appointment {
   client_arrival_detected_at?: string;
   provider_ready_to_receive?: boolean;
   provider_ready_at?: string;
+  buffer_before_minutes?: number;  // Buffers stored at booking (availability/buffers.ts)
+  buffer_after_minutes?: number;
   created_at?: string;
   updated_at?: string;
 }
 
+/**
+ * Time taken in the provider's day, subtracted from the availabilities:
+ * an appointment or a busy time of an external calendar (external_busy_times)
+ */
+export type OccupiedSlot = Pick<Appointment, 'appointment_date' | 'start_time' | 'end_time'> &
+  Partial<Pick<Appointment, 'buffer_before_minutes' | 'buffer_after_minutes'>>;
+
+/**
+ * Minutes kept free around an appointment
+ */
+export interface BufferMinutes {
+  before: number;
+  after: number;
+}
+
+/**
+ * Reminder sent to a client before their appointment (send-appointment-reminders)
+ */
+export type ReminderType = 'day_before' | 'before_start';
+
+export type ReminderResponse = 'confirmed' | 'cancelled';
+
+export interface AppointmentReminder {
+  id: string;
+  appointment_id: string;
+  user_id: string;
+  reminder_type: ReminderType;
+  message_text: string;
+  sent_at: string;
+  status: 'sent' | 'failed';
+  client_response: ReminderResponse | null;
+  responded_at: string | null;
+}
+
 // ============================================================================
 // Conversation Types
 // ============================================================================
@@ -122,6 +211,25 @@ export interface Conversation {
   updated_at?: string;
 }
 
+/**
+ * Client profile (contact_summaries view): provider's notes/tags + history from appointments
+ */
+export interface ClientProfile {
+  id: string;
+  phone: string;
+  name: string | null;
+  notes: string | null;
+  tags: string[];
+  visit_count: number;
+  total_spent: number;
+  last_visit_date: string | null;      // YYYY-MM-DD
+  next_appointment_date: string | null; // YYYY-MM-DD
+  cancelled_count: number;
+  no_show_count: number;               // Confirmed appointments the client didn't come to
+  blocked: boolean;                    // Blocked by the provider: no AI reply, no booking
+  flag_reason: 'no_show' | 'abuse' | null;
+}
+
 // ============================================================================
 // Temporal Parsing Types
 // ============================================================================
@@ -160,8 +268,10 @@ export interface TemporalParseResult {
 // ============================================================================
 
 export interface OpenAIMessage {
-  role: 'system' | 'user' | 'assistant';
+  role: 'system' | 'user' | 'assistant' | 'tool';
   content: string;
+  tool_calls?: OpenAIToolCall[];  // assistant turn asking for tools
+  tool_call_id?: string;          // tool turn: which call this result answers
 }
 
 export interface OpenAITool {
@@ -236,6 +346,75 @@ export interface OpenAIResponse {
   usage: OpenAIUsage;
 }
 
+// ============================================================================
+// Tool Loop Types
+// ============================================================================
+
+/**
+ * Result of one tool call
+ * output is sent back to the model as the tool message;
+ * reply, when set, is the final message for the client and ends the loop
+ */
+export interface ToolExecutionResult {
+  output: Record<string, unknown>;
+  reply?: string;
+  attachments?: OutgoingAttachment[]; // Sent after the final message (address pin...)
+}
+
+/**
+ * Runs a tool call requested by the model
+ */
+export type ToolExecutor = (toolCall: OpenAIToolCall) => Promise<ToolExecutionResult>;
+
+export interface ExecutedToolCall {
+  name: string;
+  arguments: string;
+  output: Record<string, unknown>;
+}
+
+/**
+ * Outcome of the tool loop
+ */
+export interface ToolLoopResult {
+  response: OpenAIResponse;      // Last model response
+  reply: string | null;          // Final message set by a tool, if any
+  attachments: OutgoingAttachment[];
+  toolCalls: ExecutedToolCall[];
+  llmCalls: { response: OpenAIResponse; latencyMs: number }[];
+  latencyMs: number;             // Total time spent in the provider
+}
+
+// ============================================================================
+// LLM Provider Types
+// ============================================================================
+
+/**
+ * Supported LLM backends
+ * - openai: api.openai.com
+ * - openai_compatible: any server speaking the OpenAI chat API (self-hosted model, local mock)
+ * - anthropic: Anthropic Messages API
+ * - fake: deterministic offline provider (tests, local runs)
+ */
+export type LLMProviderName = 'openai' | 'openai_compatible' | 'anthropic' | 'fake';
+
+export interface LLMProviderConfig {
+  provider: LLMProviderName;
+  model: string;
+  apiKey?: string;
+  baseUrl?: string;
+}
+
+/**
+ * The OpenAI chat format is our internal wire format:
+ * every provider takes an OpenAI request body and returns an OpenAI response,
+ * so tools, WAITING JSON schema and response handling stay provider-agnostic
+ */
+export interface LLMProvider {
+  name: LLMProviderName;
+  model: string;
+  chat(requestBody: OpenAIRequestBody): Promise<OpenAIResponse>;
+}
+
 // ============================================================================
 // Appointment Creation Types
 // ============================================================================
@@ -245,6 +424,28 @@ export interface AppointmentToolData {
   selected_extras: string[];  // Array of extra names
   appointment_date: string;   // YYYY-MM-DD
   appointment_time: string;   // HH:MM
+  deposit_confirmed?: boolean; // Only asked when a deposit is required
+}
+
+export type DepositType = 'deposit' | 'prepayment';
+
+/**
+ * Deposit asked from a client with too many no-shows
+ */
+export interface DepositRequirement {
+  type: DepositType;
+  amount: number | null;  // CHF for a deposit, null = whole appointment paid in advance
+  noShowCount: number;
+}
+
+export type PaymentLinksMode = 'off' | 'no_show_policy' | 'all';
+
+/**
+ * Payment asked with a booking (appointments.payment_kind / payment_amount)
+ */
+export interface PaymentDue {
+  kind: PaymentKind;
+  amount: number;  // CHF
 }
 
 export interface PriceMappings {
@@ -356,6 +557,17 @@ export interface TimeRange {
   end: number;    // Minutes from midnight
 }
 
+/**
+ * Free time ranges for one calendar date of the lookahead window
+ * Ranges are expressed in minutes from that date's midnight; a range
+ * from a midnight-crossing window ends after 1440 (e.g. 18:30-02:00 = 1110-1560)
+ */
+export interface DayAvailability {
+  date: string;        // YYYY-MM-DD (France timezone)
+  dayOfWeek: number;   // 0 = Sunday, 6 = Saturday
+  ranges: TimeRange[];
+}
+
 export interface AvailabilityCalculationContext {
   availabilities: Availability[];
   appointments: Appointment[];
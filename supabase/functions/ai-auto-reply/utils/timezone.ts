@@ -193,3 +193,35 @@ export function toFranceTimeString(date: Date): string {
   const { hour, minute } = getFranceComponents(date);
   return `${hour}:${minute}`;
 }
+
+/**
+ * Adds a number of calendar days to an ISO date string (YYYY-MM-DD)
+ * Works on the calendar date only, so DST transitions never shift the result
+ * 
+ * @param isoDate - Date string (YYYY-MM-DD)
+ * @param days - Number of days to add (can be negative)
+ * @returns New ISO date string (YYYY-MM-DD)
+ * 
+ * @example
+ * addDaysToISODate("2025-01-31", 1);  // "2025-02-01"
+ * addDaysToISODate("2025-01-01", -1); // "2024-12-31"
+ */
+export function addDaysToISODate(isoDate: string, days: number): string {
+  const [year, month, day] = isoDate.split('-').map(Number);
+  const date = new Date(Date.UTC(year, month - 1, day + days));
+  return date.toISOString().split('T')[0];
+}
+
+/**
+ * Gets the day of week of an ISO date string (YYYY-MM-DD)
+ * 
+ * @param isoDate - Date string (YYYY-MM-DD)
+ * @returns Day of week (0 = Sunday, 6 = Saturday)
+ * 
+ * @example
+ * getDayOfWeekFromISODate("2025-01-15"); // 3 (Wednesday)
+ */
+export function getDayOfWeekFromISODate(isoDate: string): number {
+  const [year, month, day] = isoDate.split('-').map(Number);
+  return new Date(Date.UTC(year, month - 1, day)).getUTCDay();
+}
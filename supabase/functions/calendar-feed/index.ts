@@ -0,0 +1,115 @@
+// supabase/functions/calendar-feed/index.ts
+// Serves a provider's appointments as iCalendar (see _shared/ical.ts).
+// - GET ?token=<calendar_feeds.token>: feed the provider subscribes to in their phone's calendar
+//   (no JWT: calendar apps can't send one, deploy with --no-verify-jwt)
+// - GET with the user JWT: one-off .ics export from the Appointments page
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2.76.1";
+import { buildCalendar, type CalendarAppointment } from "../_shared/ical.ts";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
+  "Access-Control-Expose-Headers": "content-disposition",
+};
+
+// Past appointments kept in the subscribed feed, the export has the whole history
+const FEED_HISTORY_DAYS = 90;
+
+const APPOINTMENT_COLUMNS =
+  "id, appointment_date, start_time, end_time, contact_name, contact_phone, service, status, total_price, notes, updated_at, created_at";
+
+function errorResponse(error: string, status: number): Response {
+  return new Response(JSON.stringify({ success: false, error }), {
+    headers: { ...corsHeaders, "Content-Type": "application/json" },
+    status,
+  });
+}
+
+Deno.serve(async (req) => {
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  if (req.method !== "GET") {
+    return errorResponse("Method not allowed", 405);
+  }
+
+  try {
+    const supabase = createClient(
+      Deno.env.get("SUPABASE_URL") ?? "",
+      Deno.env.get("SUPABASE_SERVICE_ROLE_KEY") ?? ""
+    );
+
+    const token = new URL(req.url).searchParams.get("token");
+    const isFeed = !!token;
+    let userId: string;
+
+    if (token) {
+      const { data: feed, error: feedError } = await supabase
+        .from("calendar_feeds")
+        .select("user_id")
+        .eq("token", token)
+        .maybeSingle();
+
+      if (feedError) {
+        console.error("[calendar-feed] Feed lookup error:", feedError);
+        throw new Error("Failed to read calendar feed");
+      }
+
+      // Rotated or unknown token: same answer, so tokens can't be probed
+      if (!feed) {
+        return errorResponse("Calendar feed not found", 404);
+      }
+      userId = feed.user_id;
+    } else {
+      const jwt = req.headers.get("Authorization")?.replace("Bearer ", "").trim();
+      if (!jwt) {
+        return errorResponse("Missing token or authorization header", 401);
+      }
+
+      const {
+        data: { user },
+        error: authError,
+      } = await supabase.auth.getUser(jwt);
+      if (authError || !user) {
+        return errorResponse("Unauthorized", 401);
+      }
+      userId = user.id;
+    }
+
+    let query = supabase
+      .from("appointments")
+      .select(APPOINTMENT_COLUMNS)
+      .eq("user_id", userId)
+      .order("appointment_date", { ascending: false })
+      .order("start_time", { ascending: false });
+
+    if (isFeed) {
+      const since = new Date(Date.now() - FEED_HISTORY_DAYS * 24 * 60 * 60 * 1000);
+      query = query.gte("appointment_date", since.toISOString().slice(0, 10));
+    }
+
+    const { data: appointments, error: appointmentsError } = await query;
+
+    if (appointmentsError) {
+      console.error("[calendar-feed] Appointments fetch error:", appointmentsError);
+      throw new Error("Failed to fetch appointments");
+    }
+
+    console.log("[calendar-feed]", isFeed ? "Feed" : "Export", "for user", userId, "-", appointments.length, "appointments");
+
+    const calendar = buildCalendar(appointments as CalendarAppointment[], "Mes rendez-vous");
+
+    return new Response(calendar, {
+      headers: {
+        ...corsHeaders,
+        "Content-Type": "text/calendar; charset=utf-8",
+        "Cache-Control": "no-store",
+        ...(isFeed ? {} : { "Content-Disposition": 'attachment; filename="rendez-vous.ics"' }),
+      },
+    });
+  } catch (error) {
+    console.error("[calendar-feed] Error:", error);
+    return errorResponse(error instanceof Error ? error.message : "Internal server error", 500);
+  }
+});
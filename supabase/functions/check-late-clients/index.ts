@@ -1,5 +1,12 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2.39.3";
+import {
+  getDefaultTemplate,
+  loadTemplate,
+  pickTemplateVariant,
+  renderTemplate,
+} from "../_shared/message-templates.ts";
+import { toSupportedLanguage } from "../_shared/language.ts";
 
 const corsHeaders = {
   "Access-Control-Allow-Origin": "*",
@@ -10,6 +17,12 @@ const corsHeaders = {
 // Timezone configuration - All users are in France
 const USER_TIMEZONE = 'Europe/Paris';
 
+// Confirmed appointments are closed (completed / no_show) this long after their end
+const CLOSE_GRACE_MINUTES = 30;
+
+// No-shows before a client gets flagged
+const NO_SHOW_FLAG_THRESHOLD = 2;
+
 // Helper function to convert UTC Date to France timezone
 function toFranceTime(utcDate: Date): Date {
   // Use Intl API to get France time string
@@ -39,7 +52,10 @@ function toFranceTime(utcDate: Date): Date {
  * - Client has not indicated arrival (client_arrived = false)
  * - No message from client since appointment start time
  *
- * Sends automatic reminder message: "T'es en route ? 😊" or similar
+ * Sends automatic reminder message: "T'es en route ? 😊" or similar (late_nudge template)
+ *
+ * Also closes finished appointments: completed if the client came, no_show if the
+ * reminder stayed unanswered (close_past_appointments), then flags repeat no-shows
  */
 serve(async (req) => {
   // Handle CORS preflight requests
@@ -66,6 +82,31 @@ serve(async (req) => {
 
     console.log(`[check-late-clients] Running at ${currentTime} (France time)`);
 
+    const { data: closedAppointments, error: closeError } = await supabaseClient.rpc(
+      "close_past_appointments",
+      { grace_minutes: CLOSE_GRACE_MINUTES }
+    );
+
+    if (closeError) {
+      console.error("Error closing past appointments:", closeError);
+    } else {
+      console.log("[check-late-clients] Closed past appointments:", closedAppointments);
+    }
+
+    // Flag clients who repeatedly didn't show up (no-shows counted in contact_summaries)
+    const { data: flaggedContacts, error: flagError } = await supabaseClient.rpc(
+      "flag_repeat_no_show_contacts",
+      { threshold: NO_SHOW_FLAG_THRESHOLD }
+    );
+
+    if (flagError) {
+      console.error("Error flagging no-show contacts:", flagError);
+    } else if (flaggedContacts > 0) {
+      console.log(
+        `[check-late-clients] Flagged ${flaggedContacts} contact(s) for repeated no-shows`
+      );
+    }
+
     // Find appointments that are 5+ minutes late
     // Current time minus 5 minutes (in France timezone)
     const fiveMinutesAgo = new Date(now.getTime() - 5 * 60 * 1000);
@@ -110,6 +151,8 @@ serve(async (req) => {
           success: true,
           message: "No late appointments",
           checked_at: now.toISOString(),
+          appointments_closed: closedAppointments ?? null,
+          contacts_flagged: flaggedContacts ?? 0,
         }),
         {
           headers: { ...corsHeaders, "Content-Type": "application/json" },
@@ -123,12 +166,6 @@ serve(async (req) => {
     );
 
     const results = [];
-    const reminderMessages = [
-      "T'es en route ? 😊",
-      "Tu es là ? 🙂",
-      "T'arrives bientôt ? 😊",
-      "Tout va bien ? T'es en chemin ? 🙂",
-    ];
 
     for (const appointment of lateAppointments) {
       try {
@@ -142,6 +179,7 @@ serve(async (req) => {
             contact_phone,
             instance_id,
             last_message_at,
+            language,
             evolution_instances (
               id,
               instance_name,
@@ -215,9 +253,23 @@ serve(async (req) => {
           continue;
         }
 
-        // Send reminder message
+        // Send reminder message: one variant of the provider's template, in the
+        // language of the conversation
+        const language = toSupportedLanguage(conversation.language);
+        const template = await loadTemplate(
+          supabaseClient,
+          appointment.user_id,
+          "late_nudge",
+          language
+        );
+        const values = {
+          time: appointment.start_time.substring(0, 5),
+          client_name: appointment.contact_name,
+        };
+        // A variant made only of empty variables (no client name) renders nothing
         const randomMessage =
-          reminderMessages[Math.floor(Math.random() * reminderMessages.length)];
+          renderTemplate(pickTemplateVariant(template), values) ||
+          renderTemplate(pickTemplateVariant(getDefaultTemplate("late_nudge", language)), values);
 
         const evolutionApiBaseUrl =
           Deno.env.get("EVOLUTION_API_BASE_URL") ||
@@ -340,6 +392,8 @@ serve(async (req) => {
         success: true,
         checked_at: now.toISOString(),
         appointments_checked: lateAppointments.length,
+        appointments_closed: closedAppointments ?? null,
+        contacts_flagged: flaggedContacts ?? 0,
         results,
       }),
       {
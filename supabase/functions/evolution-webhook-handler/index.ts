@@ -8,7 +8,12 @@ import {
   sanitizeError,
   validateWebhookPayload,
 } from "../_shared/webhook-security.ts";
-import { normalizePhoneNumber } from "../_shared/normalize-phone.ts";
+import { normalizePhoneNumber, arePhoneNumbersEqual } from "../_shared/normalize-phone.ts";
+import { buildMessageContent } from "../_shared/message-content.ts";
+import { isAiPaused, pauseAiForTakeover } from "../_shared/ai-takeover.ts";
+import { getContactBlockStatus, type ContactBlockStatus } from "../_shared/contact-blocklist.ts";
+import { parseMessage } from "./media.ts";
+import { createSpeechToText, transcribeVoiceMessage } from "./transcription.ts";
 
 const corsHeaders = {
   "Access-Control-Allow-Origin": "*",
@@ -208,6 +213,177 @@ async function handleConnectionEvent(
   }
 }
 
+// Provider answer to an approval request: "OK", "non", "OK A1B2" (code = start of the appointment id).
+const APPROVAL_REPLY_REGEX =
+  /^\s*(ok|oui|accept[eé]|accepter|non|refus[eé]|refuser)(?:\s+([0-9a-f]{4}))?\s*[.!]*\s*$/i;
+
+function parseApprovalReply(
+  text: string
+): { decision: "approve" | "decline"; code: string | null } | null {
+  const match = text.match(APPROVAL_REPLY_REGEX);
+  if (!match) return null;
+
+  const decision = /^(non|refus)/i.test(match[1]) ? "decline" : "approve";
+  return { decision, code: match[2] ? match[2].toLowerCase() : null };
+}
+
+// Approval mode: the provider approves/declines a pending booking by answering the
+// notification from their notification_phone. Returns true when the message was such an
+// answer and has been handed to review-appointment (it must not reach the AI then).
+async function handleProviderApprovalReply(
+  supabase: ReturnType<typeof createClient>,
+  instance: any,
+  senderPhone: string,
+  messageText: string,
+  message: any
+): Promise<boolean> {
+  const reply = parseApprovalReply(messageText);
+  if (!reply) return false;
+
+  const { data: userInfo } = await supabase
+    .from("user_informations")
+    .select("notification_phone")
+    .eq("user_id", instance.user_id)
+    .maybeSingle();
+
+  if (!arePhoneNumbersEqual(userInfo?.notification_phone, senderPhone)) {
+    return false;
+  }
+
+  let appointmentId: string | null = null;
+
+  // 1. Reply quoting the approval request (WhatsApp "reply" feature)
+  const quotedMessageId = message.extendedTextMessage?.contextInfo?.stanzaId;
+  if (quotedMessageId) {
+    const { data: notification } = await supabase
+      .from("appointment_notifications")
+      .select("appointment_id")
+      .eq("user_id", instance.user_id)
+      .eq("message_id", quotedMessageId)
+      .eq("notification_type", "approval_request")
+      .maybeSingle();
+
+    appointmentId = notification?.appointment_id ?? null;
+  }
+
+  // 2. Code typed by the provider, or the only pending booking
+  if (!appointmentId) {
+    const { data: pending } = await supabase
+      .from("appointments")
+      .select("id")
+      .eq("user_id", instance.user_id)
+      .eq("status", "pending");
+
+    const candidates = (pending || []).filter(
+      (a: { id: string }) => !reply.code || a.id.startsWith(reply.code)
+    );
+
+    if (candidates.length === 1) {
+      appointmentId = candidates[0].id;
+    } else {
+      console.warn(
+        `[webhook] Approval reply from provider ignored: ${candidates.length} matching pending appointments`
+      );
+      return false;
+    }
+  }
+
+  console.log(`[webhook] Provider ${reply.decision} for appointment ${appointmentId}`);
+
+  const { error } = await supabase.functions.invoke("review-appointment", {
+    body: {
+      appointment_id: appointmentId,
+      decision: reply.decision,
+      user_id: instance.user_id,
+    },
+  });
+
+  if (error) {
+    console.error("[webhook] review-appointment invocation error:", error);
+  }
+
+  return true;
+}
+
+// The sender stores the message once Evolution answered, its webhook echo can be faster
+const ECHO_RETRY_DELAY_MS = 1500;
+
+// Messages sent through the API (AI, dashboard, reminders) come back as fromMe messages.
+// They are already stored by the function that sent them, with Evolution's key.id as message_id.
+// Any other fromMe message was typed by the provider on their phone.
+async function isApiSentMessage(
+  supabase: ReturnType<typeof createClient>,
+  instanceId: string,
+  messageId: string | undefined
+): Promise<boolean> {
+  if (!messageId) return false;
+
+  for (let attempt = 0; attempt < 2; attempt++) {
+    if (attempt > 0) {
+      await new Promise((resolve) => setTimeout(resolve, ECHO_RETRY_DELAY_MS));
+    }
+
+    const { data, error } = await supabase
+      .from("messages")
+      .select("id")
+      .eq("instance_id", instanceId)
+      .eq("message_id", messageId)
+      .limit(1);
+
+    if (error) {
+      console.error("[webhook] Error looking up sent message:", error);
+      return false;
+    }
+
+    if (data && data.length > 0) return true;
+  }
+
+  return false;
+}
+
+// Blocked numbers get the provider's refusal message once per block, then silence
+async function replyToBlockedContact(
+  supabase: ReturnType<typeof createClient>,
+  contact: ContactBlockStatus,
+  conversationId: string,
+  userId: string,
+  contactPhone: string
+): Promise<void> {
+  if (contact.block_reply_sent_at) return;
+
+  const { data: userInfo } = await supabase
+    .from("user_informations")
+    .select("blocked_contact_reply")
+    .eq("user_id", userId)
+    .maybeSingle();
+
+  const reply = userInfo?.blocked_contact_reply?.trim();
+  if (!reply) return;
+
+  // Claimed before sending: a burst of messages must not send it twice
+  const { data: claimed } = await supabase
+    .from("contacts")
+    .update({ block_reply_sent_at: new Date().toISOString() })
+    .eq("id", contact.id)
+    .is("block_reply_sent_at", null)
+    .select("id");
+
+  if (!claimed || claimed.length === 0) return;
+
+  const { error } = await supabase.functions.invoke("send-whatsapp-message", {
+    body: {
+      conversation_id: conversationId,
+      user_id: userId,
+      message: reply,
+      expected_contact_phone: contactPhone,
+    },
+  });
+
+  if (error) {
+    console.error("[webhook] Error sending blocked contact reply:", error);
+  }
+}
+
 async function handleMessageEvent(
   supabase: ReturnType<typeof createClient>,
   instance: any,
@@ -228,28 +404,12 @@ async function handleMessageEvent(
   const fromMe = key.fromMe ?? false;
   const messageType = messageData.messageType || "unknown";
 
-  let messageText = "";
-  if (message.conversation) {
-    messageText = message.conversation;
-  } else if (message.extendedTextMessage?.text) {
-    messageText = message.extendedTextMessage.text;
-  } else if (message.text?.text) {
-    messageText = message.text.text;
-  } else if (message.imageMessage?.caption) {
-    messageText = message.imageMessage.caption || "[Image]";
-  } else if (message.videoMessage?.caption) {
-    messageText = message.videoMessage.caption || "[Video]";
-  } else if (message.documentMessage?.caption) {
-    messageText = message.documentMessage.caption || "[Document]";
-  } else if (message.ephemeralMessage?.message?.extendedTextMessage?.text) {
-    messageText = message.ephemeralMessage.message.extendedTextMessage.text;
-  }
-
+  const parsed = parseMessage(message);
   const pushName = messageData.pushName || null;
 
-  if (!messageText || !remoteJid) {
+  if (!parsed || !remoteJid) {
     console.log(
-      `[evolution-webhook-handler] Message ignored - no text content. Type: ${messageType}, remoteJid: ${remoteJid}`
+      `[evolution-webhook-handler] Message ignored - unsupported content. Type: ${messageType}, remoteJid: ${remoteJid}`
     );
     return new Response(JSON.stringify({ success: true }), {
       headers: { ...corsHeaders, "Content-Type": "application/json" },
@@ -280,6 +440,35 @@ async function handleMessageEvent(
     });
   }
 
+  if (fromMe && (await isApiSentMessage(supabase, instance.id, key.id))) {
+    console.log("[webhook] Echo of a message sent through the API, already stored");
+    return new Response(JSON.stringify({ success: true }), {
+      headers: { ...corsHeaders, "Content-Type": "application/json" },
+    });
+  }
+
+  if (
+    !fromMe &&
+    parsed.type === "text" &&
+    (await handleProviderApprovalReply(supabase, instance, normalizedKey, parsed.text, message))
+  ) {
+    return new Response(JSON.stringify({ success: true }), {
+      headers: { ...corsHeaders, "Content-Type": "application/json" },
+    });
+  }
+
+  // Voice notes from clients are transcribed so the AI (and the provider) can read them
+  if (!fromMe && parsed.type === "audio" && parsed.media) {
+    parsed.media = await transcribeVoiceMessage(
+      createSpeechToText(),
+      instance,
+      messageData,
+      parsed.media
+    );
+  }
+
+  const messageText = buildMessageContent(parsed);
+
   let instancePhone = normalizeJid(instance.phone_number || "");
 
   if (!instancePhone && payload.sender) {
@@ -307,6 +496,7 @@ async function handleMessageEvent(
     messageParticipant: messageData.participant,
     fromMe,
     messageType,
+    contentType: parsed.type,
     textLength: messageText.length,
     instancePhone,
     pushName,
@@ -464,6 +654,10 @@ async function handleMessageEvent(
     receiver_phone: fromMe ? normalizedKey : instancePhone || normalizedKey,
     direction: fromMe ? "outgoing" : "incoming",
     content: messageText,
+    message_type: parsed.type,
+    media_metadata: parsed.media,
+    location: parsed.location,
+    contact: parsed.contact,
     status: "delivered",
     timestamp: messageTimestamp,
   });
@@ -476,13 +670,47 @@ async function handleMessageEvent(
 
   const { data: conversation, error: convError } = await supabase
     .from("conversations")
-    .select("ai_enabled")
+    .select("ai_enabled, ai_paused_until")
     .eq("id", conversationId)
     .single();
 
+  if (fromMe && conversation?.ai_enabled) {
+    // Provider answering from their phone: the AI steps back for a while
+    await pauseAiForTakeover(supabase, conversationId, instance.user_id);
+    return;
+  }
+
+  if (!fromMe) {
+    const contact = await getContactBlockStatus(supabase, instance.user_id, normalizedKey);
+    if (contact?.blocked) {
+      console.log("[webhook] Contact is blocked, message stored without AI reply");
+      await replyToBlockedContact(supabase, contact, conversationId, instance.user_id, normalizedKey);
+      return;
+    }
+  }
+
+  if (!fromMe && conversation?.ai_enabled && isAiPaused(conversation.ai_paused_until)) {
+    console.log(
+      `[webhook] AI paused on this conversation until ${conversation.ai_paused_until} (provider took over)`
+    );
+    return;
+  }
+
   if (!fromMe && conversation && conversation.ai_enabled) {
     console.log("[webhook] AI auto-reply enabled for this conversation, triggering...");
 
+    // Newest message owns the reply: earlier invocations still waiting or running give up
+    // and this one answers all the pending messages (see ai-auto-reply/messaging/reply-queue.ts)
+    const replyToken = crypto.randomUUID();
+    const { error: tokenError } = await supabase
+      .from("conversations")
+      .update({ ai_reply_token: replyToken })
+      .eq("id", conversationId);
+
+    if (tokenError) {
+      console.error("[webhook] Error updating AI reply token:", tokenError);
+    }
+
     supabase.functions
       .invoke("ai-auto-reply", {
         body: {
@@ -490,8 +718,10 @@ async function handleMessageEvent(
           instance_id: instance.id,
           user_id: instance.user_id,
           message_text: messageText,
+          message_type: parsed.type,
           contact_name: pushName || normalizedKey,
           contact_phone: normalizedKey,
+          reply_token: tokenError ? null : replyToken,
         },
       })
       .catch((error: unknown) => {
@@ -0,0 +1,215 @@
+// supabase/functions/evolution-webhook-handler/media.ts
+// Reads an Evolution message as a type + text + structured data (media metadata, location,
+// contact card). buildMessageContent (_shared/message-content.ts) then gives the readable text
+// stored in messages.content, so the UI previews and the AI history can follow voice notes and pins.
+import type { MediaMetadata, MessageContent } from "../_shared/message-content.ts";
+
+// Incoming messages use the shared content shape (same columns as outgoing ones)
+export type ParsedMessage = MessageContent;
+
+// The webhook waits for the download before storing the message and asking for a reply
+const DOWNLOAD_TIMEOUT_MS = 15000;
+
+// Wrappers WhatsApp puts around the real message (disappearing, view once, captioned document)
+const WRAPPER_KEYS = [
+  "ephemeralMessage",
+  "viewOnceMessage",
+  "viewOnceMessageV2",
+  "viewOnceMessageV2Extension",
+  "documentWithCaptionMessage",
+];
+
+function unwrapMessage(message: any): any {
+  let current = message;
+  for (let depth = 0; depth < 3; depth++) {
+    const wrapper = WRAPPER_KEYS.find((wrapperKey) => current?.[wrapperKey]?.message);
+    if (!wrapper) break;
+    current = current[wrapper].message;
+  }
+  return current;
+}
+
+// fileLength comes as a number, a string or a protobuf Long ({ low, high }) depending on the version
+function toNumber(value: unknown): number | undefined {
+  if (typeof value === "number") return value;
+  if (typeof value === "string" && value.trim() !== "" && !isNaN(Number(value))) {
+    return Number(value);
+  }
+  if (value && typeof value === "object" && "low" in value) {
+    return Number((value as { low: number }).low);
+  }
+  return undefined;
+}
+
+function mediaMetadata(media: any, extra: MediaMetadata = {}): MediaMetadata {
+  const metadata: MediaMetadata = {
+    mimetype: media.mimetype || undefined,
+    file_length: toNumber(media.fileLength),
+    ...extra,
+  };
+
+  // Drop undefined keys so the JSONB column stays tidy
+  return Object.fromEntries(
+    Object.entries(metadata).filter(([, value]) => value !== undefined)
+  ) as MediaMetadata;
+}
+
+/**
+ * Parses the `message` object of a messages.upsert event.
+ * Returns null for what we don't store (reactions, protocol messages, polls...).
+ */
+export function parseMessage(rawMessage: any): ParsedMessage | null {
+  const message = unwrapMessage(rawMessage);
+  if (!message) return null;
+
+  const text =
+    message.conversation || message.extendedTextMessage?.text || message.text?.text || "";
+  if (text) {
+    return { type: "text", text, media: null, location: null, contact: null };
+  }
+
+  if (message.audioMessage) {
+    const audio = message.audioMessage;
+    return {
+      type: "audio",
+      text: "",
+      media: mediaMetadata(audio, { seconds: toNumber(audio.seconds), ptt: audio.ptt ?? false }),
+      location: null,
+      contact: null,
+    };
+  }
+
+  const pin = message.locationMessage || message.liveLocationMessage;
+  if (pin && typeof pin.degreesLatitude === "number" && typeof pin.degreesLongitude === "number") {
+    return {
+      type: "location",
+      text: pin.caption || "",
+      media: null,
+      location: {
+        latitude: pin.degreesLatitude,
+        longitude: pin.degreesLongitude,
+        name: pin.name || null,
+        address: pin.address || null,
+        url: pin.url || null,
+        live: Boolean(message.liveLocationMessage),
+      },
+      contact: null,
+    };
+  }
+
+  if (message.imageMessage) {
+    const image = message.imageMessage;
+    return {
+      type: "image",
+      text: image.caption || "",
+      media: mediaMetadata(image, { width: image.width, height: image.height }),
+      location: null,
+      contact: null,
+    };
+  }
+
+  if (message.videoMessage) {
+    const video = message.videoMessage;
+    return {
+      type: "video",
+      text: video.caption || "",
+      media: mediaMetadata(video, { seconds: toNumber(video.seconds) }),
+      location: null,
+      contact: null,
+    };
+  }
+
+  if (message.documentMessage) {
+    const document = message.documentMessage;
+    return {
+      type: "document",
+      text: document.caption || "",
+      media: mediaMetadata(document, { file_name: document.fileName || document.title }),
+      location: null,
+      contact: null,
+    };
+  }
+
+  if (message.stickerMessage) {
+    return {
+      type: "sticker",
+      text: "",
+      media: mediaMetadata(message.stickerMessage),
+      location: null,
+      contact: null,
+    };
+  }
+
+  const card = message.contactMessage || message.contactsArrayMessage?.contacts?.[0];
+  if (card) {
+    // waid= holds the WhatsApp number in the vCard, TEL the displayed one
+    const vcard: string = card.vcard || "";
+    const phone = vcard.match(/waid=(\d+)/)?.[1] || vcard.match(/TEL[^:]*:([+\d\s-]+)/)?.[1]?.trim();
+    return {
+      type: "contact",
+      text: "",
+      media: null,
+      location: null,
+      contact: { full_name: card.displayName || "Contact", phone: phone || null },
+    };
+  }
+
+  return null;
+}
+
+/**
+ * Downloads a media as base64.
+ * Uses the payload when the instance sends media in the webhook ("webhook base64"),
+ * otherwise asks Evolution API for it.
+ */
+export async function downloadMedia(
+  instance: any,
+  messageData: any
+): Promise<{ base64: string; mimetype: string } | null> {
+  const content = unwrapMessage(messageData.message) ?? {};
+  const mimetype =
+    (Object.values(content) as any[]).find((part) => part?.mimetype)?.mimetype ||
+    "application/octet-stream";
+
+  if (typeof messageData.message?.base64 === "string" && messageData.message.base64) {
+    return { base64: messageData.message.base64, mimetype };
+  }
+
+  const baseUrl = (
+    Deno.env.get("EVOLUTION_API_BASE_URL") ??
+    "https://cst-evolution-api-kaezwnkk.usecloudstation.com"
+  ).replace(/\/$/, "");
+
+  try {
+    const response = await fetch(
+      `${baseUrl}/chat/getBase64FromMediaMessage/${instance.instance_name}`,
+      {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          apikey: instance.instance_token || Deno.env.get("EVOLUTION_API_KEY") || "",
+        },
+        body: JSON.stringify({ message: { key: messageData.key }, convertToMp4: false }),
+        signal: AbortSignal.timeout(DOWNLOAD_TIMEOUT_MS),
+      }
+    );
+
+    if (!response.ok) {
+      console.error(
+        `[media] Evolution API error while downloading media: ${response.status} ${await response.text()}`
+      );
+      return null;
+    }
+
+    const data = await response.json();
+    if (!data?.base64) {
+      return null;
+    }
+
+    return { base64: data.base64, mimetype: data.mimetype || mimetype };
+  } catch (error) {
+    // Timeout or network error: the message is stored without its transcript
+    console.error("[media] Media download failed:", error);
+    return null;
+  }
+}
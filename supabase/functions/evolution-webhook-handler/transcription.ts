@@ -0,0 +1,153 @@
+// supabase/functions/evolution-webhook-handler/transcription.ts
+// Speech-to-text for voice notes, behind a small interface so the backend can be swapped.
+// STT_PROVIDER picks it: "openai" (Whisper or any OpenAI-compatible /audio/transcriptions),
+// "stub" (fixed transcript, for local runs without an API key) or "none".
+import type { MediaMetadata } from "../_shared/message-content.ts";
+import { downloadMedia } from "./media.ts";
+
+export interface AudioInput {
+  base64: string;
+  mimetype: string;
+}
+
+export interface SpeechToText {
+  name: string;
+  transcribe(audio: AudioInput): Promise<string>;
+}
+
+// Longer audio is not transcribed (cost + webhook latency)
+const DEFAULT_MAX_SECONDS = 300;
+// The webhook waits for the transcript before storing the message and asking for a reply
+const TRANSCRIPTION_TIMEOUT_MS = 30000;
+
+function decodeBase64(base64: string): Uint8Array {
+  const binary = atob(base64.replace(/^data:[^,]*,/, ""));
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return bytes;
+}
+
+function fileExtension(mimetype: string): string {
+  const subtype = mimetype.split(";")[0].split("/")[1] || "ogg";
+  return subtype === "mpeg" ? "mp3" : subtype;
+}
+
+function createOpenAISpeechToText(apiKey: string): SpeechToText {
+  const baseUrl = (Deno.env.get("STT_BASE_URL") ?? "https://api.openai.com/v1").replace(/\/$/, "");
+  const model = Deno.env.get("STT_MODEL") ?? "whisper-1";
+  // Unset: Whisper detects the language, the transcript is what ai-auto-reply's language detection reads
+  const language = Deno.env.get("STT_LANGUAGE");
+
+  return {
+    name: `openai:${model}`,
+    async transcribe(audio) {
+      const form = new FormData();
+      form.append(
+        "file",
+        new Blob([decodeBase64(audio.base64)], { type: audio.mimetype }),
+        `voice.${fileExtension(audio.mimetype)}`
+      );
+      form.append("model", model);
+      if (language) {
+        form.append("language", language);
+      }
+
+      const response = await fetch(`${baseUrl}/audio/transcriptions`, {
+        method: "POST",
+        headers: { Authorization: `Bearer ${apiKey}` },
+        body: form,
+        signal: AbortSignal.timeout(TRANSCRIPTION_TIMEOUT_MS),
+      });
+
+      if (!response.ok) {
+        throw new Error(`Transcription API error ${response.status}: ${await response.text()}`);
+      }
+
+      const data = await response.json();
+      return (data.text ?? "").trim();
+    },
+  };
+}
+
+function createStubSpeechToText(): SpeechToText {
+  const transcript = Deno.env.get("STT_STUB_TRANSCRIPT") ?? "Je peux passer ce soir vers 22h ?";
+
+  return {
+    name: "stub",
+    transcribe: () => Promise.resolve(transcript),
+  };
+}
+
+/**
+ * Returns the configured backend, or null when transcription is off.
+ * Without STT_PROVIDER, Whisper is used as soon as OPENAI_API_KEY is set.
+ */
+export function createSpeechToText(): SpeechToText | null {
+  const apiKey = Deno.env.get("STT_API_KEY") ?? Deno.env.get("OPENAI_API_KEY");
+  const provider = Deno.env.get("STT_PROVIDER") ?? (apiKey ? "openai" : "none");
+
+  if (provider === "stub") {
+    return createStubSpeechToText();
+  }
+
+  if (provider === "openai") {
+    if (!apiKey) {
+      console.warn("[stt] STT_PROVIDER=openai but no STT_API_KEY / OPENAI_API_KEY, transcription disabled");
+      return null;
+    }
+    return createOpenAISpeechToText(apiKey);
+  }
+
+  if (provider !== "none") {
+    console.warn(`[stt] Unknown STT_PROVIDER "${provider}", transcription disabled`);
+  }
+  return null;
+}
+
+/**
+ * Transcribes a voice note and returns its metadata completed with the transcript.
+ * Never throws: on failure the message is still stored (as "[Message vocal]"),
+ * with the reason in transcription_error.
+ */
+export async function transcribeVoiceMessage(
+  speechToText: SpeechToText | null,
+  instance: any,
+  messageData: any,
+  media: MediaMetadata
+): Promise<MediaMetadata> {
+  if (!speechToText) {
+    return media;
+  }
+
+  const maxSeconds = Number(Deno.env.get("STT_MAX_SECONDS") ?? DEFAULT_MAX_SECONDS);
+  if (media.seconds && media.seconds > maxSeconds) {
+    console.log(`[stt] Voice note too long to transcribe (${media.seconds}s)`);
+    return { ...media, transcription_error: "too_long" };
+  }
+
+  try {
+    const audio = await downloadMedia(instance, messageData);
+    if (!audio) {
+      return { ...media, transcription_error: "download_failed" };
+    }
+
+    const startTime = Date.now();
+    const transcript = await speechToText.transcribe(audio);
+    console.log(
+      `[stt] ✓ Transcribed ${media.seconds ?? "?"}s with ${speechToText.name} in ${Date.now() - startTime}ms`
+    );
+
+    return transcript
+      ? { ...media, transcript, transcription_provider: speechToText.name }
+      : { ...media, transcription_provider: speechToText.name, transcription_error: "empty" };
+  } catch (error) {
+    console.error("[stt] ❌ Transcription failed:", error);
+    return {
+      ...media,
+      transcription_provider: speechToText.name,
+      transcription_error: (error instanceof Error ? error.message : String(error)).slice(0, 200),
+    };
+  }
+}
@@ -0,0 +1,143 @@
+// supabase/functions/message-templates/index.ts
+// Templates of the automated messages for the "Messages automatiques" page (see _shared/message-templates.ts).
+// - GET: every template with its variables, default text and the provider's override, per language
+// - POST { template_key, language, body }: saves an override, rejected when it uses unknown variables
+// - DELETE { template_key, language }: back to the default text
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2.76.1";
+import {
+  fetchTemplateOverrides,
+  getDefaultTemplate,
+  getTemplateLanguages,
+  TEMPLATE_DEFINITIONS,
+  TEMPLATE_VARIABLE_LABELS,
+  validateTemplate,
+  type TemplateKey,
+} from "../_shared/message-templates.ts";
+import type { SupportedLanguage } from "../_shared/language.ts";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
+  "Access-Control-Allow-Methods": "GET, POST, DELETE, OPTIONS",
+};
+
+interface TemplateRequest {
+  template_key?: string;
+  language?: string;
+  body?: string;
+}
+
+function jsonResponse(body: Record<string, unknown>, status = 200): Response {
+  return new Response(JSON.stringify(body), {
+    headers: { ...corsHeaders, "Content-Type": "application/json" },
+    status,
+  });
+}
+
+function errorResponse(error: string, status: number, details: Record<string, unknown> = {}): Response {
+  return jsonResponse({ success: false, error, ...details }, status);
+}
+
+Deno.serve(async (req) => {
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const supabase = createClient(
+      Deno.env.get("SUPABASE_URL") ?? "",
+      Deno.env.get("SUPABASE_SERVICE_ROLE_KEY") ?? ""
+    );
+
+    const jwt = req.headers.get("Authorization")?.replace("Bearer ", "").trim();
+    if (!jwt) {
+      return errorResponse("Missing authorization header", 401);
+    }
+
+    const {
+      data: { user },
+      error: authError,
+    } = await supabase.auth.getUser(jwt);
+    if (authError || !user) {
+      return errorResponse("Unauthorized", 401);
+    }
+
+    if (req.method === "GET") {
+      const overrides = await fetchTemplateOverrides(supabase, user.id);
+
+      const templates = (Object.keys(TEMPLATE_DEFINITIONS) as TemplateKey[]).map((key) => {
+        const definition = TEMPLATE_DEFINITIONS[key];
+        return {
+          key,
+          label: definition.label,
+          description: definition.description,
+          audience: definition.audience,
+          variants: definition.variants ?? false,
+          variables: definition.variables.map((name) => ({ name, label: TEMPLATE_VARIABLE_LABELS[name] })),
+          languages: getTemplateLanguages(key).map((language) => ({
+            language,
+            default: getDefaultTemplate(key, language),
+            override: overrides[key]?.[language] ?? null,
+          })),
+        };
+      });
+
+      return jsonResponse({ success: true, templates });
+    }
+
+    if (req.method !== "POST" && req.method !== "DELETE") {
+      return errorResponse("Method not allowed", 405);
+    }
+
+    const { template_key, language, body }: TemplateRequest = await req.json();
+
+    if (!template_key || !(template_key in TEMPLATE_DEFINITIONS)) {
+      return errorResponse("Unknown template_key", 400);
+    }
+    const key = template_key as TemplateKey;
+
+    if (!getTemplateLanguages(key).includes(language as SupportedLanguage)) {
+      return errorResponse(`Template ${key} has no ${language} version`, 400);
+    }
+
+    if (req.method === "DELETE") {
+      const { error: deleteError } = await supabase
+        .from("message_templates")
+        .delete()
+        .eq("user_id", user.id)
+        .eq("template_key", key)
+        .eq("language", language);
+
+      if (deleteError) {
+        console.error("[message-templates] Delete error:", deleteError);
+        throw new Error("Failed to reset template");
+      }
+
+      console.log("[message-templates] Reset", key, language, "for user", user.id);
+      return jsonResponse({ success: true, template_key: key, language, override: null });
+    }
+
+    const validation = validateTemplate(key, typeof body === "string" ? body : "");
+    if (!validation.valid) {
+      return errorResponse(validation.error ?? "Invalid template", 400, {
+        unknown_variables: validation.unknownVariables,
+      });
+    }
+
+    const { error: saveError } = await supabase.from("message_templates").upsert(
+      { user_id: user.id, template_key: key, language, body },
+      { onConflict: "user_id,template_key,language" }
+    );
+
+    if (saveError) {
+      console.error("[message-templates] Save error:", saveError);
+      throw new Error("Failed to save template");
+    }
+
+    console.log("[message-templates] Saved", key, language, "for user", user.id);
+    return jsonResponse({ success: true, template_key: key, language, override: body });
+  } catch (error) {
+    console.error("[message-templates] Error:", error);
+    return errorResponse(error instanceof Error ? error.message : "Internal server error", 500);
+  }
+});
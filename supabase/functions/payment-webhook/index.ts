@@ -0,0 +1,134 @@
+// supabase/functions/payment-webhook/index.ts
+// Reconciles payment links (appointments.payment_*) with the gateway's webhook events.
+// Called by the payment gateway, not by users: deploy with --no-verify-jwt, every event is
+// authenticated by the gateway itself (see _shared/payment-gateway.ts).
+// The mock gateway's payment page is served here too (GET ?checkout=...).
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2.76.1";
+import { getPaymentGateway, type PaymentEvent } from "../_shared/payment-gateway.ts";
+
+interface PaymentWebhookResponse {
+  success: boolean;
+  status?: string;
+  already_processed?: boolean;
+  error?: string;
+}
+
+function jsonResponse(body: PaymentWebhookResponse, status = 200): Response {
+  return new Response(JSON.stringify(body), {
+    headers: { "Content-Type": "application/json" },
+    status,
+  });
+}
+
+Deno.serve(async (req) => {
+  try {
+    const gateway = getPaymentGateway();
+    if (!gateway) {
+      return jsonResponse({ success: false, error: "Payment links are not configured" }, 404);
+    }
+
+    const checkoutPage = await gateway.renderCheckout?.(req);
+    if (checkoutPage) {
+      return checkoutPage;
+    }
+
+    if (req.method !== "POST") {
+      return jsonResponse({ success: false, error: "Method not allowed" }, 405);
+    }
+
+    let event: PaymentEvent;
+    try {
+      event = await gateway.parseWebhook(req);
+    } catch (parseError) {
+      console.error("[payment-webhook] Rejected event:", parseError);
+      return jsonResponse(
+        { success: false, error: parseError instanceof Error ? parseError.message : "Invalid event" },
+        400
+      );
+    }
+
+    console.log("[payment-webhook] Event:", { gateway: gateway.name, ...event });
+
+    const supabase = createClient(
+      Deno.env.get("SUPABASE_URL") ?? "",
+      Deno.env.get("SUPABASE_SERVICE_ROLE_KEY") ?? ""
+    );
+
+    const { data: appointment, error: appointmentError } = await supabase
+      .from("appointments")
+      .select("id, user_id, conversation_id, payment_status, payment_kind, payment_amount")
+      .eq("payment_reference", event.reference)
+      .eq("payment_provider", gateway.name)
+      .maybeSingle();
+
+    if (appointmentError) {
+      console.error("[payment-webhook] Appointment fetch error:", appointmentError);
+      throw new Error("Failed to fetch appointment");
+    }
+
+    if (!appointment) {
+      return jsonResponse({ success: false, error: "Unknown payment reference" }, 404);
+    }
+
+    // Gateways retry their webhooks: a payment is only recorded once, and a late
+    // failure never overrides a successful payment
+    if (appointment.payment_status === "paid" || appointment.payment_status === event.status) {
+      return jsonResponse({ success: true, status: appointment.payment_status, already_processed: true });
+    }
+
+    const { data: updated, error: updateError } = await supabase
+      .from("appointments")
+      .update({
+        payment_status: event.status,
+        paid_at: event.status === "paid" ? new Date().toISOString() : null,
+      })
+      .eq("id", appointment.id)
+      .neq("payment_status", "paid")
+      .select("id")
+      .maybeSingle();
+
+    if (updateError) {
+      console.error("[payment-webhook] Update error:", updateError);
+      throw new Error("Failed to update appointment");
+    }
+
+    if (!updated) {
+      return jsonResponse({ success: true, status: "paid", already_processed: true });
+    }
+
+    await supabase.from("ai_logs").insert({
+      user_id: appointment.user_id,
+      conversation_id: appointment.conversation_id,
+      appointment_id: appointment.id,
+      event_type: event.status === "paid" ? "payment_received" : "payment_failed",
+      event_data: {
+        gateway: gateway.name,
+        reference: event.reference,
+        kind: appointment.payment_kind,
+        amount: appointment.payment_amount,
+      },
+      created_at: new Date().toISOString(),
+    });
+
+    if (event.status === "paid") {
+      const { error: notifyError } = await supabase.functions.invoke("send-provider-notification", {
+        body: { appointment_id: appointment.id, notification_type: "payment_received" },
+      });
+
+      if (notifyError) {
+        // The payment is recorded, the notification is a bonus
+        console.error("[payment-webhook] Failed to notify provider:", notifyError);
+      }
+    }
+
+    console.log("[payment-webhook] ✅ Appointment", appointment.id, "payment", event.status);
+
+    return jsonResponse({ success: true, status: event.status });
+  } catch (error) {
+    console.error("[payment-webhook] Error:", error);
+    return jsonResponse(
+      { success: false, error: error instanceof Error ? error.message : "Internal server error" },
+      500
+    );
+  }
+});
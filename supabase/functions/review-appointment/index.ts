@@ -0,0 +1,224 @@
+// supabase/functions/review-appointment/index.ts
+// Approves or declines a pending booking (provider approval mode) and tells the client.
+// Called from the Appointments page (user JWT) or by evolution-webhook-handler when the
+// provider answers an approval request on WhatsApp (service role key + user_id in body).
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2.76.1";
+import { CLIENT_MESSAGES } from "../_shared/client-messages.ts";
+import {
+  DEFAULT_LANGUAGE,
+  fetchConversationLanguage,
+  formatLongDate,
+  type SupportedLanguage,
+} from "../_shared/language.ts";
+import {
+  formatPaymentLinkMessage,
+  issuePaymentLink,
+  type IssuedPaymentLink,
+} from "../_shared/payment-gateway.ts";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
+};
+
+type ReviewDecision = "approve" | "decline";
+
+interface ReviewAppointmentRequest {
+  appointment_id: string;
+  decision: ReviewDecision;
+  // Internal calls only (service role key)
+  user_id?: string;
+}
+
+interface ReviewAppointmentResponse {
+  success: boolean;
+  status?: string;
+  client_notified?: boolean;
+  error?: string;
+}
+
+function jsonResponse(body: ReviewAppointmentResponse, status = 200): Response {
+  return new Response(JSON.stringify(body), {
+    headers: { ...corsHeaders, "Content-Type": "application/json" },
+    status,
+  });
+}
+
+// Helper to format time (HH:MM:SS to HH:MM)
+function formatTime(timeString: string): string {
+  const parts = timeString.split(":");
+  return `${parts[0]}:${parts[1]}`;
+}
+
+function buildClientMessage(
+  decision: ReviewDecision,
+  appointment: { appointment_date: string; start_time: string },
+  adresse: string | null,
+  payment: IssuedPaymentLink | null,
+  language: SupportedLanguage = DEFAULT_LANGUAGE
+): string {
+  const messages = CLIENT_MESSAGES[language];
+
+  if (decision === "decline") {
+    return messages.declined;
+  }
+
+  let message = messages.confirmedShort(
+    formatLongDate(appointment.appointment_date, language),
+    formatTime(appointment.start_time)
+  );
+  if (adresse) {
+    message += `\n\n${messages.address(adresse)}`;
+  }
+  if (payment) {
+    message += `\n\n${formatPaymentLinkMessage(payment, language)}`;
+  }
+  return message;
+}
+
+Deno.serve(async (req) => {
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const authHeader = req.headers.get("Authorization");
+    if (!authHeader) {
+      throw new Error("Missing authorization header");
+    }
+
+    const supabase = createClient(
+      Deno.env.get("SUPABASE_URL") ?? "",
+      Deno.env.get("SUPABASE_SERVICE_ROLE_KEY") ?? ""
+    );
+
+    const { appointment_id, decision, user_id: providedUserId }: ReviewAppointmentRequest =
+      await req.json();
+
+    if (!appointment_id || (decision !== "approve" && decision !== "decline")) {
+      return jsonResponse(
+        { success: false, error: "appointment_id and decision (approve|decline) are required" },
+        400
+      );
+    }
+
+    // Internal call (webhook) only with the exact service role key, otherwise validate the JWT
+    const token = authHeader.replace("Bearer ", "").trim();
+    const isInternalCall = token === Deno.env.get("SUPABASE_SERVICE_ROLE_KEY");
+    let userId: string;
+
+    if (isInternalCall) {
+      if (!providedUserId) {
+        return jsonResponse({ success: false, error: "Missing user_id for internal call" }, 400);
+      }
+      userId = providedUserId;
+      console.log("[review-appointment] Internal call for user:", userId);
+    } else {
+      const {
+        data: { user },
+        error: authError,
+      } = await supabase.auth.getUser(token);
+      if (authError || !user) {
+        throw new Error("Unauthorized");
+      }
+      userId = user.id;
+    }
+
+    console.log("[review-appointment] Processing:", { appointment_id, decision });
+
+    const { data: appointment, error: appointmentError } = await supabase
+      .from("appointments")
+      .select("id, user_id, conversation_id, contact_phone, appointment_date, start_time, status")
+      .eq("id", appointment_id)
+      .eq("user_id", userId)
+      .single();
+
+    if (appointmentError || !appointment) {
+      console.error("[review-appointment] Appointment fetch error:", appointmentError);
+      return jsonResponse({ success: false, error: "Appointment not found" }, 404);
+    }
+
+    // Already handled (e.g. from the app, then a late WhatsApp reply): never notify twice
+    if (appointment.status !== "pending") {
+      return jsonResponse(
+        { success: false, status: appointment.status, error: "Appointment is not pending" },
+        409
+      );
+    }
+
+    const newStatus = decision === "approve" ? "confirmed" : "cancelled";
+
+    // Guard on status so two concurrent reviews cannot both go through
+    const { data: updated, error: updateError } = await supabase
+      .from("appointments")
+      .update({ status: newStatus })
+      .eq("id", appointment_id)
+      .eq("status", "pending")
+      .select("id")
+      .maybeSingle();
+
+    if (updateError) {
+      console.error("[review-appointment] Update error:", updateError);
+      throw new Error("Failed to update appointment");
+    }
+
+    if (!updated) {
+      return jsonResponse({ success: false, error: "Appointment is not pending" }, 409);
+    }
+
+    // Tell the client (bookings created by hand have no conversation)
+    let clientNotified = false;
+
+    if (appointment.conversation_id) {
+      const { data: userInfo } = await supabase
+        .from("user_informations")
+        .select("adresse")
+        .eq("user_id", userId)
+        .maybeSingle();
+
+      // Payment asked at booking time (ai-auto-reply) is only requested once accepted
+      const payment = decision === "approve" ? await issuePaymentLink(supabase, appointment_id) : null;
+      const language = await fetchConversationLanguage(supabase, appointment.conversation_id);
+
+      const { error: sendError } = await supabase.functions.invoke("send-whatsapp-message", {
+        body: {
+          conversation_id: appointment.conversation_id,
+          message: buildClientMessage(decision, appointment, userInfo?.adresse ?? null, payment, language),
+          user_id: userId,
+          expected_contact_phone: appointment.contact_phone,
+        },
+      });
+
+      if (sendError) {
+        // Don't fail the review, the status change is what matters
+        console.error("[review-appointment] Failed to notify client:", sendError);
+      } else {
+        clientNotified = true;
+      }
+    }
+
+    await supabase.from("ai_logs").insert({
+      user_id: userId,
+      conversation_id: appointment.conversation_id,
+      appointment_id: appointment_id,
+      event_type: decision === "approve" ? "appointment_approved" : "appointment_declined",
+      event_data: {
+        appointment_date: appointment.appointment_date,
+        start_time: appointment.start_time,
+        client_notified: clientNotified,
+        via: isInternalCall ? "whatsapp" : "app",
+      },
+      created_at: new Date().toISOString(),
+    });
+
+    console.log("[review-appointment] ✅ Appointment", newStatus, "- client notified:", clientNotified);
+
+    return jsonResponse({ success: true, status: newStatus, client_notified: clientNotified });
+  } catch (error) {
+    console.error("[review-appointment] Error:", error);
+    return jsonResponse(
+      { success: false, error: error instanceof Error ? error.message : "Internal server error" },
+      500
+    );
+  }
+});
@@ -1,5 +1,10 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2.39.3";
+import { buildMessageContent } from "../_shared/message-content.ts";
+import { sendEvolutionMessage, toMessageContent } from "../_shared/evolution-messages.ts";
+import { getAddressLocation } from "../_shared/address-location.ts";
+import { loadTemplate, renderTemplate } from "../_shared/message-templates.ts";
+import { toSupportedLanguage } from "../_shared/language.ts";
 
 const corsHeaders = {
   "Access-Control-Allow-Origin": "*",
@@ -199,6 +204,7 @@ serve(async (req) => {
         id,
         contact_phone,
         instance_id,
+        language,
         evolution_instances (
           id,
           instance_name,
@@ -222,77 +228,76 @@ serve(async (req) => {
       throw new Error("WhatsApp instance is not connected");
     }
 
-    // Build the access info message
-    let messageText = "Parfait, tu peux monter ! 🎉\n\n";
-
-    if (userInfo.floor) {
-      messageText += `🏢 Étage : ${userInfo.floor}\n`;
-    }
-
-    if (userInfo.elevator_info) {
-      messageText += `🛗 Ascenseur : ${userInfo.elevator_info}\n`;
-    }
-
-    if (userInfo.door_code) {
-      messageText += `🔑 Code : ${userInfo.door_code}\n`;
-    }
-
-    if (userInfo.access_instructions) {
-      messageText += `\nℹ️ Instructions : ${userInfo.access_instructions}`;
-    }
+    // Build the access info message from the provider's template, in the language of the
+    // conversation (lines of the fields left empty are dropped)
+    const template = await loadTemplate(
+      supabaseClient,
+      user.id,
+      "access_info",
+      toSupportedLanguage(conversation.language)
+    );
+    const messageText = renderTemplate(template, {
+      time: appointment.start_time?.substring(0, 5),
+      client_name: appointment.contact_name,
+      floor: userInfo.floor,
+      elevator_info: userInfo.elevator_info,
+      door_code: userInfo.door_code,
+      access_instructions: userInfo.access_instructions,
+    });
 
     // Send message via Evolution API
-    const evolutionApiBaseUrl =
-      Deno.env.get("EVOLUTION_API_BASE_URL") ||
-      "https://cst-evolution-api-kaezwnkk.usecloudstation.com";
-    const evolutionApiKey = Deno.env.get("EVOLUTION_API_KEY");
-
-    if (!evolutionApiKey) {
+    if (!Deno.env.get("EVOLUTION_API_KEY")) {
       throw new Error("Evolution API key not configured");
     }
 
-    const sendMessageUrl = `${evolutionApiBaseUrl}/message/sendText/${instance.instance_name}`;
     const normalizedPhone = conversation.contact_phone.includes("@")
       ? conversation.contact_phone
       : `${conversation.contact_phone}@s.whatsapp.net`;
 
-    const evolutionResponse = await fetch(sendMessageUrl, {
-      method: "POST",
-      headers: {
-        "Content-Type": "application/json",
-        apikey: evolutionApiKey,
-      },
-      body: JSON.stringify({
-        number: normalizedPhone,
-        text: messageText,
-      }),
-    });
-
-    if (!evolutionResponse.ok) {
-      const errorText = await evolutionResponse.text();
-      console.error("Evolution API error:", errorText);
-      throw new Error(`Failed to send message via Evolution API: ${errorText}`);
+    // Address as a map pin first (so the client finds the building), then the access codes
+    const addressPin = await getAddressLocation(supabaseClient, user.id);
+    const outgoing = addressPin
+      ? [toMessageContent("", addressPin), toMessageContent(messageText)]
+      : [toMessageContent(messageText)];
+
+    for (const content of outgoing) {
+      let evolutionData;
+      try {
+        evolutionData = await sendEvolutionMessage(
+          instance.instance_name,
+          normalizedPhone,
+          content.text,
+          content.type === "location" ? addressPin : null
+        );
+      } catch (sendError) {
+        // The pin is a bonus: the access codes must still go out
+        if (content.type === "location") {
+          console.error("[send-access-info] Address pin not sent:", sendError);
+          continue;
+        }
+        throw new Error(`Failed to send message via Evolution API: ${sendError.message}`);
+      }
+      console.log("Message sent via Evolution API:", evolutionData);
+
+      // Store the message in the database
+      const messageId =
+        evolutionData.key?.id || `msg_${Date.now()}_${Math.random()}`;
+
+      await supabaseClient.from("messages").insert({
+        conversation_id: conversation.id,
+        instance_id: instance.id,
+        message_id: messageId,
+        sender_phone: instance.instance_name,
+        receiver_phone: conversation.contact_phone,
+        direction: "outgoing",
+        content: buildMessageContent(content),
+        message_type: content.type,
+        location: content.location,
+        status: "sent",
+        timestamp: new Date().toISOString(),
+      });
     }
 
-    const evolutionData = await evolutionResponse.json();
-    console.log("Message sent via Evolution API:", evolutionData);
-
-    // Store the message in the database
-    const messageId =
-      evolutionData.key?.id || `msg_${Date.now()}_${Math.random()}`;
-
-    await supabaseClient.from("messages").insert({
-      conversation_id: conversation.id,
-      instance_id: instance.id,
-      message_id: messageId,
-      sender_phone: instance.instance_name,
-      receiver_phone: conversation.contact_phone,
-      direction: "outgoing",
-      content: messageText,
-      status: "sent",
-      timestamp: new Date().toISOString(),
-    });
-
     // Update conversation's last message
     await supabaseClient
       .from("conversations")
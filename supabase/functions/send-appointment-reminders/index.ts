@@ -0,0 +1,297 @@
+// supabase/functions/send-appointment-reminders/index.ts
+// Cron job: sends the reminders configured by each provider before an appointment
+// (the evening before and/or N minutes before the start) through send-whatsapp-message.
+// Client replies ("toujours ok", "je dois annuler") are handled by ai-auto-reply.
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2.76.1";
+import { CLIENT_MESSAGES } from "../_shared/client-messages.ts";
+import { fetchConversationLanguage, type SupportedLanguage } from "../_shared/language.ts";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
+};
+
+// Timezone configuration - All users are in France
+const USER_TIMEZONE = "Europe/Paris";
+
+type ReminderType = "day_before" | "before_start";
+
+interface ReminderSettings {
+  user_id: string;
+  reminder_day_before: boolean;
+  reminder_day_before_time: string;
+  reminder_minutes_before: number | null;
+}
+
+interface ReminderAppointment {
+  id: string;
+  user_id: string;
+  conversation_id: string;
+  contact_phone: string;
+  appointment_date: string;
+  start_time: string;
+  created_at: string;
+}
+
+// France wall clock of a date as "YYYY-MM-DD HH:MM" (sortable string)
+function toFranceWallClock(date: Date): string {
+  const parts = new Intl.DateTimeFormat("en-CA", {
+    timeZone: USER_TIMEZONE,
+    year: "numeric",
+    month: "2-digit",
+    day: "2-digit",
+    hour: "2-digit",
+    minute: "2-digit",
+    hourCycle: "h23",
+  }).formatToParts(date);
+  const get = (type: string) => parts.find((p) => p.type === type)?.value ?? "00";
+  return `${get("year")}-${get("month")}-${get("day")} ${get("hour")}:${get("minute")}`;
+}
+
+// Shifts a wall clock date/time by a number of minutes ("YYYY-MM-DD HH:MM")
+function shiftWallClock(date: string, time: string, minutes: number): string {
+  const [year, month, day] = date.split("-").map(Number);
+  const [hour, minute] = time.split(":").map(Number);
+  const shifted = new Date(Date.UTC(year, month - 1, day, hour, minute) + minutes * 60000);
+  return shifted.toISOString().slice(0, 16).replace("T", " ");
+}
+
+/**
+ * Returns the reminder to send now for an appointment, if any.
+ * A reminder is due once its send time has passed and before the appointment starts,
+ * but only if the booking already existed at that time (no reminder right after booking).
+ * The closest reminder wins: once the "before start" one is due, the evening one is dropped.
+ */
+function getDueReminder(
+  appointment: ReminderAppointment,
+  settings: ReminderSettings,
+  now: string
+): ReminderType | null {
+  const startTime = appointment.start_time.substring(0, 5);
+  const startsAt = `${appointment.appointment_date} ${startTime}`;
+  const createdAt = toFranceWallClock(new Date(appointment.created_at));
+
+  if (now >= startsAt) {
+    return null;
+  }
+
+  if (settings.reminder_minutes_before) {
+    const dueAt = shiftWallClock(
+      appointment.appointment_date,
+      startTime,
+      -settings.reminder_minutes_before
+    );
+    if (now >= dueAt) {
+      return createdAt < dueAt ? "before_start" : null;
+    }
+  }
+
+  if (settings.reminder_day_before) {
+    const dueAt = shiftWallClock(
+      appointment.appointment_date,
+      settings.reminder_day_before_time.substring(0, 5),
+      -24 * 60
+    );
+    if (now >= dueAt && createdAt < dueAt) {
+      return "day_before";
+    }
+  }
+
+  return null;
+}
+
+function buildReminderMessage(
+  type: ReminderType,
+  appointment: ReminderAppointment,
+  today: string,
+  language: SupportedLanguage
+): string {
+  const time = appointment.start_time.substring(0, 5).replace(/^0/, "");
+  const messages = CLIENT_MESSAGES[language];
+
+  if (type === "before_start") {
+    return messages.reminderBeforeStart(time);
+  }
+
+  return messages.reminderDayBefore(appointment.appointment_date === today, time);
+}
+
+Deno.serve(async (req) => {
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    // Use service role key for cron jobs (no user auth required)
+    const supabase = createClient(
+      Deno.env.get("SUPABASE_URL") ?? "",
+      Deno.env.get("SUPABASE_SERVICE_ROLE_KEY") ?? ""
+    );
+
+    const now = toFranceWallClock(new Date());
+    const today = now.substring(0, 10);
+    const tomorrow = shiftWallClock(today, "00:00", 24 * 60).substring(0, 10);
+
+    console.log(`[send-appointment-reminders] Running at ${now} (France time)`);
+
+    const { data: settingsRows, error: settingsError } = await supabase
+      .from("user_informations")
+      .select("user_id, reminder_day_before, reminder_day_before_time, reminder_minutes_before")
+      .or("reminder_day_before.eq.true,reminder_minutes_before.not.is.null");
+
+    if (settingsError) {
+      console.error("[send-appointment-reminders] Error fetching settings:", settingsError);
+      throw settingsError;
+    }
+
+    const settingsByUser = new Map<string, ReminderSettings>(
+      (settingsRows ?? []).map((row) => [row.user_id, row as ReminderSettings])
+    );
+
+    if (settingsByUser.size === 0) {
+      console.log("[send-appointment-reminders] No provider with reminders enabled");
+      return new Response(JSON.stringify({ success: true, checked_at: now, results: [] }), {
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+        status: 200,
+      });
+    }
+
+    // Reminders are at most 12h (or an evening) ahead: today and tomorrow cover them all
+    const { data: appointments, error: appointmentsError } = await supabase
+      .from("appointments")
+      .select("id, user_id, conversation_id, contact_phone, appointment_date, start_time, created_at")
+      .in("user_id", [...settingsByUser.keys()])
+      .in("appointment_date", [today, tomorrow])
+      .eq("status", "confirmed")
+      .not("conversation_id", "is", null);
+
+    if (appointmentsError) {
+      console.error("[send-appointment-reminders] Error fetching appointments:", appointmentsError);
+      throw appointmentsError;
+    }
+
+    const dueReminders = (appointments ?? [])
+      .map((appointment) => ({
+        appointment: appointment as ReminderAppointment,
+        type: getDueReminder(
+          appointment as ReminderAppointment,
+          settingsByUser.get(appointment.user_id)!,
+          now
+        ),
+      }))
+      .filter((due): due is { appointment: ReminderAppointment; type: ReminderType } =>
+        due.type !== null
+      );
+
+    if (dueReminders.length === 0) {
+      console.log("[send-appointment-reminders] No reminder due");
+      return new Response(JSON.stringify({ success: true, checked_at: now, results: [] }), {
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+        status: 200,
+      });
+    }
+
+    // Check which reminders were already sent (prevent duplicates)
+    const { data: sentReminders } = await supabase
+      .from("appointment_reminders")
+      .select("appointment_id, reminder_type")
+      .in(
+        "appointment_id",
+        dueReminders.map((due) => due.appointment.id)
+      );
+
+    const alreadySent = new Set(
+      (sentReminders ?? []).map((r) => `${r.appointment_id}:${r.reminder_type}`)
+    );
+
+    const results = [];
+
+    for (const { appointment, type } of dueReminders) {
+      if (alreadySent.has(`${appointment.id}:${type}`)) {
+        continue;
+      }
+
+      const language = await fetchConversationLanguage(supabase, appointment.conversation_id);
+      const messageText = buildReminderMessage(type, appointment, today, language);
+
+      try {
+        const { error: sendError } = await supabase.functions.invoke("send-whatsapp-message", {
+          body: {
+            conversation_id: appointment.conversation_id,
+            message: messageText,
+            user_id: appointment.user_id,
+            expected_contact_phone: appointment.contact_phone,
+          },
+        });
+
+        await supabase.from("appointment_reminders").insert({
+          appointment_id: appointment.id,
+          user_id: appointment.user_id,
+          reminder_type: type,
+          message_text: messageText,
+          status: sendError ? "failed" : "sent",
+          error_details: sendError ? { error: sendError.message } : null,
+        });
+
+        if (sendError) {
+          console.error(
+            `[send-appointment-reminders] Failed to send ${type} reminder for ${appointment.id}:`,
+            sendError
+          );
+          results.push({ appointment_id: appointment.id, type, success: false, error: sendError.message });
+          continue;
+        }
+
+        await supabase.from("ai_logs").insert({
+          user_id: appointment.user_id,
+          conversation_id: appointment.conversation_id,
+          appointment_id: appointment.id,
+          event_type: "appointment_reminder_sent",
+          event_data: {
+            reminder_type: type,
+            appointment_date: appointment.appointment_date,
+            start_time: appointment.start_time,
+            reminder_message: messageText,
+          },
+          created_at: new Date().toISOString(),
+        });
+
+        console.log(`[send-appointment-reminders] ✅ ${type} reminder sent for ${appointment.id}`);
+        results.push({ appointment_id: appointment.id, type, success: true });
+      } catch (error) {
+        console.error(`[send-appointment-reminders] Error processing ${appointment.id}:`, error);
+        results.push({
+          appointment_id: appointment.id,
+          type,
+          success: false,
+          error: error instanceof Error ? error.message : String(error),
+        });
+      }
+    }
+
+    return new Response(
+      JSON.stringify({
+        success: true,
+        checked_at: now,
+        reminders_due: dueReminders.length,
+        results,
+      }),
+      {
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+        status: 200,
+      }
+    );
+  } catch (error) {
+    console.error("[send-appointment-reminders] Error:", error);
+    return new Response(
+      JSON.stringify({
+        success: false,
+        error: error instanceof Error ? error.message : "Internal server error",
+      }),
+      {
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+        status: 500,
+      }
+    );
+  }
+});
@@ -1,6 +1,13 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2.39.3";
 import { normalizePhoneNumber } from "../_shared/normalize-phone.ts";
+import {
+  loadTemplate,
+  renderTemplate,
+  TEMPLATE_DEFINITIONS,
+  type TemplateKey,
+  type TemplateValues,
+} from "../_shared/message-templates.ts";
 
 const corsHeaders = {
   "Access-Control-Allow-Origin": "*",
@@ -10,7 +17,19 @@ const corsHeaders = {
 
 interface NotificationRequest {
   appointment_id: string;
-  notification_type: "new_appointment" | "client_arrived" | "access_info_sent";
+  notification_type:
+    | "new_appointment"
+    | "client_arrived"
+    | "access_info_sent"
+    | "appointment_cancelled"
+    | "appointment_rescheduled"
+    | "approval_request"
+    | "payment_received";
+  // Slot before the move (appointment_rescheduled only)
+  previous_appointment_date?: string;
+  previous_start_time?: string;
+  // Reason given by the client (appointment_cancelled only)
+  reason?: string;
 }
 
 interface NotificationResponse {
@@ -38,6 +57,12 @@ function formatDateFrench(dateString: string): string {
   return date.toLocaleDateString("fr-FR", options);
 }
 
+// Short code the provider can type to approve/decline without quoting the message
+// (first 4 characters of the appointment id, matched by evolution-webhook-handler)
+function getApprovalCode(appointmentId: string): string {
+  return appointmentId.substring(0, 4).toUpperCase();
+}
+
 // Helper to format time (HH:MM:SS to HH:MM)
 function formatTime(timeString: string): string {
   if (!timeString) return "";
@@ -77,8 +102,13 @@ serve(async (req) => {
       Deno.env.get("SUPABASE_SERVICE_ROLE_KEY") ?? ""
     );
 
-    const { appointment_id, notification_type }: NotificationRequest =
-      await req.json();
+    const {
+      appointment_id,
+      notification_type,
+      previous_appointment_date,
+      previous_start_time,
+      reason,
+    }: NotificationRequest = await req.json();
 
     if (!appointment_id || !notification_type) {
       throw new Error("appointment_id and notification_type are required");
@@ -108,7 +138,13 @@ serve(async (req) => {
           status,
           client_arrived,
           provider_ready_to_receive,
-          notes
+          notes,
+          selected_extras,
+          base_price,
+          extras_total,
+          total_price,
+          payment_kind,
+          payment_amount
         `
         )
         .eq("id", appointment_id)
@@ -170,12 +206,16 @@ serve(async (req) => {
     });
 
     // Check if notification already sent (prevent duplicates)
-    const { data: existingNotification } = await supabaseClient
-      .from("appointment_notifications")
-      .select("id")
-      .eq("appointment_id", appointment_id)
-      .eq("notification_type", notification_type)
-      .single();
+    // A booking can be moved several times, every reschedule is notified
+    const { data: existingNotification } =
+      notification_type === "appointment_rescheduled"
+        ? { data: null }
+        : await supabaseClient
+            .from("appointment_notifications")
+            .select("id")
+            .eq("appointment_id", appointment_id)
+            .eq("notification_type", notification_type)
+            .single();
 
     if (existingNotification) {
       console.log(
@@ -219,66 +259,62 @@ serve(async (req) => {
       );
     }
 
-    // Format the message based on notification type
-    let messageText = "";
+    // Format the message from the provider's template for this notification type
+    const templateKey = `provider_${notification_type}` as TemplateKey;
+    if (!(templateKey in TEMPLATE_DEFINITIONS)) {
+      throw new Error(`Unknown notification type: ${notification_type}`);
+    }
+
+    const values: TemplateValues = {
+      client_name: appointment.contact_name,
+      client_phone: appointment.contact_phone,
+      date: formatDateFrench(appointment.appointment_date),
+      time: formatTime(appointment.start_time),
+      end_time: formatTime(appointment.end_time),
+      duration: `${appointment.duration_minutes ||
+        calculateDuration(appointment.start_time, appointment.end_time)}min`,
+      service: appointment.service || "Prestation",
+      total_price: appointment.total_price !== null && appointment.total_price !== undefined
+        ? formatPrice(appointment.total_price)
+        : null,
+      code: getApprovalCode(appointment.id),
+      reason: reason ?? null,
+    };
 
     switch (notification_type) {
       case "new_appointment": {
-        const duration = appointment.duration_minutes ||
-          calculateDuration(appointment.start_time, appointment.end_time);
-
-        messageText = `🤖 Nouveau RDV
-
-👤 Client : ${appointment.contact_name} (${appointment.contact_phone})
-📅 Date : ${formatDateFrench(appointment.appointment_date)}
-🕐 Heure : ${formatTime(appointment.start_time)} - ${formatTime(appointment.end_time)} (${duration}min)
-
-📋 Service : ${appointment.service || "Prestation"}`;
-
-        // Display structured extras with prices if available
-        if (appointment.selected_extras && Array.isArray(appointment.selected_extras) && appointment.selected_extras.length > 0) {
-          messageText += `\n\n💎 Extras :`;
-          appointment.selected_extras.forEach((extra: any) => {
-            messageText += `\n• ${extra.name} (${formatPrice(extra.price)})`;
-          });
+        // Structured extras with their prices, and the price breakdown
+        if (Array.isArray(appointment.selected_extras) && appointment.selected_extras.length > 0) {
+          values.extras = appointment.selected_extras
+            .map((extra: any) => `${extra.name} (${formatPrice(extra.price)})`)
+            .join(", ");
         }
-
-        // Display price breakdown if available
-        if (appointment.total_price !== null && appointment.total_price !== undefined) {
-          messageText += `\n\n💰 Prix total : ${formatPrice(appointment.total_price)}`;
-
-          if (appointment.base_price !== null && appointment.base_price !== undefined) {
-            messageText += `\n   (Base: ${formatPrice(appointment.base_price)}`;
-            if (appointment.extras_total && appointment.extras_total > 0) {
-              messageText += ` + Extras: ${formatPrice(appointment.extras_total)}`;
-            }
-            messageText += `)`;
-          }
+        if (values.total_price && appointment.base_price !== null && appointment.base_price !== undefined) {
+          values.price_details = appointment.extras_total && appointment.extras_total > 0
+            ? `Base: ${formatPrice(appointment.base_price)} + Extras: ${formatPrice(appointment.extras_total)}`
+            : `Base: ${formatPrice(appointment.base_price)}`;
         }
-
         break;
       }
 
-      case "client_arrived": {
-        messageText = `🚶 Client arrivé !
-
-👤 ${appointment.contact_name} est arrivé pour le rendez-vous de ${formatTime(appointment.start_time)}.
-
-📱 Rendez-vous dans l'app pour envoyer les infos d'accès.`;
+      case "appointment_rescheduled": {
+        if (previous_appointment_date && previous_start_time) {
+          values.previous_date = formatDateFrench(previous_appointment_date);
+          values.previous_time = formatTime(previous_start_time);
+        }
         break;
       }
 
-      case "access_info_sent": {
-        messageText = `✅ Infos d'accès envoyées
-
-Les informations d'accès ont été envoyées à ${appointment.contact_name} pour le RDV de ${formatTime(appointment.start_time)}.`;
+      case "payment_received": {
+        values.payment_kind = appointment.payment_kind === "deposit" ? "Acompte" : "Paiement";
+        values.amount = formatPrice(appointment.payment_amount);
         break;
       }
-
-      default:
-        throw new Error(`Unknown notification type: ${notification_type}`);
     }
 
+    const template = await loadTemplate(supabaseClient, appointment.user_id, templateKey);
+    const messageText = renderTemplate(template, values);
+
     console.log("[send-provider-notification] Message formatted:", {
       type: notification_type,
       length: messageText.length,
@@ -349,11 +385,13 @@ Les informations d'accès ont été envoyées à ${appointment.contact_name} pou
     );
 
     // Log successful notification
+    // message_id lets evolution-webhook-handler match a reply quoting this message
     await supabaseClient.from("appointment_notifications").insert({
       appointment_id: appointment_id,
       user_id: appointment.user_id,
       notification_type: notification_type,
       message_text: messageText,
+      message_id: evolutionData?.key?.id ?? null,
       status: "sent",
       sent_at: new Date().toISOString(),
     });
@@ -1,5 +1,18 @@
 import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.76.1';
 import { normalizePhoneNumber, arePhoneNumbersEqual } from '../_shared/normalize-phone.ts';
+import { buildMessageContent } from '../_shared/message-content.ts';
+import {
+  sendEvolutionMessage,
+  toMessageContent,
+  validateAttachment,
+  type OutgoingAttachment,
+} from '../_shared/evolution-messages.ts';
+import { getAddressLocation } from '../_shared/address-location.ts';
+import { pauseAiForTakeover } from '../_shared/ai-takeover.ts';
+
+// Outgoing files are uploaded by the dashboard to this bucket, under "<user_id>/"
+const MEDIA_BUCKET = 'message-media';
+const MEDIA_URL_TTL_SECONDS = 60 * 60;
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
@@ -19,7 +32,10 @@ Deno.serve(async (req) => {
 
     // Récupérer le user_id depuis le body ou depuis le token
     const bodyData = await req.json();
-    const { conversation_id, message, user_id: providedUserId, expected_contact_phone } = bodyData;
+    const { conversation_id, user_id: providedUserId, expected_contact_phone } = bodyData;
+    // Text, or caption of the attachment (image, document, location pin, contact card)
+    const message: string = typeof bodyData.message === 'string' ? bodyData.message : '';
+    let attachment: OutgoingAttachment | null = bodyData.attachment ?? null;
 
     let userId: string;
 
@@ -42,13 +58,32 @@ Deno.serve(async (req) => {
       userId = user.id;
     }
 
-    if (!conversation_id || !message) {
+    // "Mon adresse" from the dashboard: pin of user_informations.adresse
+    if (bodyData.share_address === true) {
+      attachment = await getAddressLocation(supabase, userId);
+      if (!attachment) {
+        return new Response(JSON.stringify({ error: 'Address not configured or not found on the map' }), {
+          status: 400,
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+        });
+      }
+    }
+
+    if (!conversation_id || (!message && !attachment)) {
       return new Response(JSON.stringify({ error: 'Missing required fields' }), {
         status: 400,
         headers: { ...corsHeaders, 'Content-Type': 'application/json' },
       });
     }
 
+    const attachmentError = attachment ? validateAttachment(attachment) : null;
+    if (attachmentError) {
+      return new Response(JSON.stringify({ error: attachmentError }), {
+        status: 400,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      });
+    }
+
     // Récupérer la conversation avec l'instance
     const { data: conversation, error: convError } = await supabase
       .from('conversations')
@@ -92,6 +127,7 @@ Deno.serve(async (req) => {
             expected_phone: expectedPhone,
             conversation_id,
             blocked_message: message.substring(0, 500),
+            blocked_attachment: attachment?.type ?? null,
             severity: 'CRITICAL',
             timestamp: new Date().toISOString()
           },
@@ -122,33 +158,43 @@ Deno.serve(async (req) => {
       });
     }
 
-    // Envoyer via Evolution API
-    const baseUrl = (Deno.env.get('EVOLUTION_API_BASE_URL') ?? 'https://cst-evolution-api-kaezwnkk.usecloudstation.com').replace(/\/$/, '');
-    const evolutionUrl = `${baseUrl}/message/sendText/${instance.instance_name}`;
-    console.log(`[send-message] Sending to ${conversation.contact_phone}`);
-
-    const evolutionResponse = await fetch(evolutionUrl, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-        'apikey': Deno.env.get('EVOLUTION_API_KEY') ?? '',
-      },
-      body: JSON.stringify({
-        number: `${conversation.contact_phone}@s.whatsapp.net`,
-        text: message,
-      }),
-    });
+    // Fichier du bucket : lien signé pour qu'Evolution puisse le télécharger
+    let evolutionAttachment = attachment;
+    if (attachment && 'storage_path' in attachment && attachment.storage_path) {
+      if (!attachment.storage_path.startsWith(`${userId}/`)) {
+        return new Response(JSON.stringify({ error: 'Forbidden storage path' }), {
+          status: 403,
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+        });
+      }
+
+      const { data: signed, error: signError } = await supabase.storage
+        .from(MEDIA_BUCKET)
+        .createSignedUrl(attachment.storage_path, MEDIA_URL_TTL_SECONDS);
+
+      if (signError || !signed) {
+        console.error('[send-message] Could not sign media URL:', signError);
+        throw new Error('Media file not found');
+      }
 
-    if (!evolutionResponse.ok) {
-      const errorText = await evolutionResponse.text();
-      console.error('[send-message] Evolution API error:', errorText);
-      throw new Error(`Evolution API error: ${evolutionResponse.statusText}`);
+      evolutionAttachment = { ...attachment, url: signed.signedUrl };
     }
 
-    const responseData = await evolutionResponse.json();
+    // Envoyer via Evolution API
+    console.log(`[send-message] Sending ${attachment?.type ?? 'text'} to ${conversation.contact_phone}`);
+
+    const responseData = await sendEvolutionMessage(
+      instance.instance_name,
+      `${conversation.contact_phone}@s.whatsapp.net`,
+      message,
+      evolutionAttachment
+    );
     console.log('[send-message] Evolution response:', responseData);
 
     // Stocker le message dans la DB
+    const content = toMessageContent(message, attachment);
+    const contentText = buildMessageContent(content);
+
     const { error: msgError } = await supabase
       .from('messages')
       .insert({
@@ -156,8 +202,14 @@ Deno.serve(async (req) => {
         instance_id: instance.id,
         sender_phone: instance.phone_number,
         receiver_phone: conversation.contact_phone,
+        // Lets the webhook recognize the fromMe echo of this message
+        message_id: responseData?.key?.id || `msg_${Date.now()}_${Math.random()}`,
         direction: 'outgoing',
-        content: message,
+        content: contentText,
+        message_type: content.type,
+        media_metadata: content.media,
+        location: content.location,
+        contact: content.contact,
         status: 'sent',
         timestamp: new Date().toISOString(),
       });
@@ -171,13 +223,18 @@ Deno.serve(async (req) => {
     await supabase
       .from('conversations')
       .update({
-        last_message_text: message,
+        last_message_text: contentText,
         last_message_at: new Date().toISOString(),
       })
       .eq('id', conversation.id);
 
     console.log('[send-message] Message sent successfully');
 
+    // Sent by the provider from the dashboard (internal calls are the AI and automated messages)
+    if (!providedUserId && conversation.ai_enabled) {
+      await pauseAiForTakeover(supabase, conversation.id, userId);
+    }
+
     return new Response(JSON.stringify({ success: true, data: responseData }), {
       headers: { ...corsHeaders, 'Content-Type': 'application/json' },
     });
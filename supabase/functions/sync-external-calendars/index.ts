@@ -0,0 +1,291 @@
+// supabase/functions/sync-external-calendars/index.ts
+// Refreshes external_busy_times from the providers' external calendars (see _shared/ical-import.ts).
+// - Cron (service role key, empty body): the calendars attempted longest ago, see supabase/sql/setup-external-calendars-cron.sql
+// - Provider (user JWT, { calendar_id }): right after adding a calendar from the availability page
+import { createClient, type SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2.76.1";
+import { extractBusySlots } from "../_shared/ical-import.ts";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
+};
+
+// Busy times are kept from yesterday (midnight-crossing events) to well past the booking window
+const SYNC_WINDOW_DAYS = 30;
+const FETCH_TIMEOUT_MS = 15000;
+const MAX_ICS_LENGTH = 5 * 1024 * 1024;
+const MAX_REDIRECTS = 3;
+// Calendars per cron run: worst case SYNC_BATCH_SIZE * FETCH_TIMEOUT_MS stays under the cron's 120 s
+const SYNC_BATCH_SIZE = 6;
+
+// Names that only resolve inside the server's network
+const INTERNAL_HOST_PATTERN = /(^localhost$|\.localhost$|\.local$|\.internal$|\.lan$|\.home\.arpa$)/i;
+const IPV4_PATTERN = /^\d{1,3}(\.\d{1,3}){3}$/;
+
+interface ExternalCalendar {
+  id: string;
+  user_id: string;
+  name: string;
+  source_type: "url" | "file";
+  url: string | null;
+  ics_content: string | null;
+}
+
+interface SyncResult {
+  calendar_id: string;
+  busy_count?: number;
+  error?: string;
+}
+
+function jsonResponse(body: Record<string, unknown>, status = 200): Response {
+  return new Response(JSON.stringify(body), {
+    headers: { ...corsHeaders, "Content-Type": "application/json" },
+    status,
+  });
+}
+
+// Loopback, private, link-local (cloud metadata), CGNAT and multicast ranges
+function isPrivateAddress(address: string): boolean {
+  const ip = address.toLowerCase();
+
+  if (IPV4_PATTERN.test(ip)) {
+    const [a, b] = ip.split(".").map(Number);
+    return a === 0 || a === 10 || a === 127 || a >= 224 ||
+      (a === 100 && b >= 64 && b <= 127) ||
+      (a === 169 && b === 254) ||
+      (a === 172 && b >= 16 && b <= 31) ||
+      (a === 192 && b === 168);
+  }
+
+  if (ip.startsWith("::ffff:")) {
+    return isPrivateAddress(ip.slice("::ffff:".length));
+  }
+  return ip === "::" || ip === "::1" || /^f[c-d]/.test(ip) || /^fe[89ab]/.test(ip) || ip.startsWith("ff");
+}
+
+/**
+ * Checks that a calendar link points to a public HTTPS host
+ * The function fetches it with the service role, so a provider's link must never reach
+ * the metadata service or anything else on the internal network
+ */
+async function assertPublicUrl(rawUrl: string): Promise<URL> {
+  let url: URL;
+  try {
+    url = new URL(rawUrl);
+  } catch {
+    throw new Error("Invalid calendar URL");
+  }
+
+  if (url.protocol !== "https:") {
+    throw new Error("Calendar URL must use https");
+  }
+
+  // URL normalises decimal / hex IPv4 forms, IPv6 literals keep their brackets
+  const host = url.hostname.toLowerCase();
+  if (IPV4_PATTERN.test(host) || host.startsWith("[") || !host.includes(".") || INTERNAL_HOST_PATTERN.test(host)) {
+    throw new Error("Calendar URL must point to a public host");
+  }
+
+  const lookups = await Promise.allSettled([Deno.resolveDns(host, "A"), Deno.resolveDns(host, "AAAA")]);
+  const addresses = lookups.flatMap((lookup) => (lookup.status === "fulfilled" ? lookup.value : []));
+  if (addresses.length === 0) {
+    throw new Error("Calendar host not found");
+  }
+  if (addresses.some(isPrivateAddress)) {
+    throw new Error("Calendar URL must point to a public host");
+  }
+
+  return url;
+}
+
+async function loadIcs(calendar: ExternalCalendar): Promise<string> {
+  if (calendar.source_type === "file") {
+    return calendar.ics_content ?? "";
+  }
+
+  // Apple and Google share webcal:// links, they are plain HTTPS
+  let url = await assertPublicUrl((calendar.url ?? "").replace(/^webcal:\/\//i, "https://"));
+  // One deadline for the whole redirect chain
+  const signal = AbortSignal.timeout(FETCH_TIMEOUT_MS);
+  let response: Response;
+
+  // Redirects are followed by hand so that every hop is checked
+  for (let redirects = 0; ; redirects++) {
+    response = await fetch(url, {
+      headers: { Accept: "text/calendar" },
+      redirect: "manual",
+      signal,
+    });
+
+    const location = response.headers.get("Location");
+    if (response.status < 300 || response.status >= 400 || !location) break;
+
+    await response.body?.cancel();
+    if (redirects >= MAX_REDIRECTS) {
+      throw new Error("Calendar URL redirects too many times");
+    }
+    url = await assertPublicUrl(new URL(location, url).href);
+  }
+
+  if (!response.ok) {
+    throw new Error(`Calendar URL answered ${response.status}`);
+  }
+
+  return await readLimitedText(response, MAX_ICS_LENGTH);
+}
+
+/**
+ * Reads a response body, giving up as soon as it grows past maxBytes
+ * (announced by Content-Length or counted while streaming)
+ */
+async function readLimitedText(response: Response, maxBytes: number): Promise<string> {
+  const tooLarge = new Error("Calendar is too large");
+
+  if (Number(response.headers.get("Content-Length") ?? 0) > maxBytes) {
+    await response.body?.cancel();
+    throw tooLarge;
+  }
+  if (!response.body) return "";
+
+  const reader = response.body.getReader();
+  const chunks: Uint8Array[] = [];
+  let size = 0;
+
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+
+    size += value.byteLength;
+    if (size > maxBytes) {
+      await reader.cancel();
+      throw tooLarge;
+    }
+    chunks.push(value);
+  }
+
+  const bytes = new Uint8Array(size);
+  let offset = 0;
+  for (const chunk of chunks) {
+    bytes.set(chunk, offset);
+    offset += chunk.byteLength;
+  }
+  return new TextDecoder().decode(bytes);
+}
+
+/**
+ * Replaces the busy times of one calendar
+ * On error the previous busy times stay in place and the error is shown to the provider
+ */
+async function syncCalendar(
+  supabase: SupabaseClient,
+  calendar: ExternalCalendar,
+  now: Date
+): Promise<SyncResult> {
+  try {
+    const ics = await loadIcs(calendar);
+    if (!ics.includes("BEGIN:VCALENDAR")) {
+      throw new Error("Not an iCalendar (.ics) file");
+    }
+
+    const from = new Date(now.getTime() - 24 * 60 * 60 * 1000);
+    const to = new Date(now.getTime() + SYNC_WINDOW_DAYS * 24 * 60 * 60 * 1000);
+    const slots = extractBusySlots(ics, from, to);
+
+    // Delete and insert in one transaction, so a failed write keeps the previous slots
+    const { error: replaceError } = await supabase.rpc("replace_external_busy_times", {
+      p_calendar_id: calendar.id,
+      p_slots: slots,
+    });
+
+    if (replaceError) throw new Error(replaceError.message);
+
+    await supabase
+      .from("external_calendars")
+      .update({
+        last_synced_at: now.toISOString(),
+        last_sync_attempt_at: now.toISOString(),
+        last_sync_error: null,
+        busy_count: slots.length,
+      })
+      .eq("id", calendar.id);
+
+    console.log("[sync-external-calendars]", calendar.id, "-", slots.length, "busy slots");
+    return { calendar_id: calendar.id, busy_count: slots.length };
+  } catch (error) {
+    const message = error instanceof Error ? error.message : "Sync failed";
+    console.error("[sync-external-calendars] Calendar", calendar.id, "failed:", message);
+
+    await supabase
+      .from("external_calendars")
+      .update({ last_sync_error: message, last_sync_attempt_at: now.toISOString() })
+      .eq("id", calendar.id);
+
+    return { calendar_id: calendar.id, error: message };
+  }
+}
+
+Deno.serve(async (req) => {
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const serviceRoleKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY") ?? "";
+    const supabase = createClient(Deno.env.get("SUPABASE_URL") ?? "", serviceRoleKey);
+
+    const body = await req.json().catch(() => ({}));
+    const calendarId = typeof body.calendar_id === "string" ? body.calendar_id : null;
+    const jwt = req.headers.get("Authorization")?.replace("Bearer ", "").trim() ?? "";
+
+    let query = supabase
+      .from("external_calendars")
+      .select("id, user_id, name, source_type, url, ics_content");
+
+    if (calendarId) {
+      const {
+        data: { user },
+        error: authError,
+      } = await supabase.auth.getUser(jwt);
+      if (authError || !user) {
+        return jsonResponse({ success: false, error: "Unauthorized" }, 401);
+      }
+      query = query.eq("id", calendarId).eq("user_id", user.id);
+    } else if (jwt !== serviceRoleKey) {
+      // Syncing everyone is the cron's job only
+      return jsonResponse({ success: false, error: "Unauthorized" }, 401);
+    } else {
+      // Dead links are attempted too, so they move to the back of the queue instead of blocking it
+      query = query
+        .order("last_sync_attempt_at", { ascending: true, nullsFirst: true })
+        .limit(SYNC_BATCH_SIZE);
+    }
+
+    const { data: calendars, error: calendarsError } = await query;
+
+    if (calendarsError) {
+      console.error("[sync-external-calendars] Calendars fetch error:", calendarsError);
+      throw new Error("Failed to fetch calendars");
+    }
+
+    if (calendarId && calendars.length === 0) {
+      return jsonResponse({ success: false, error: "Calendar not found" }, 404);
+    }
+
+    const now = new Date();
+    const results: SyncResult[] = [];
+    // One at a time: a slow calendar server only delays the rest of the batch
+    for (const calendar of calendars as ExternalCalendar[]) {
+      results.push(await syncCalendar(supabase, calendar, now));
+    }
+
+    console.log("[sync-external-calendars] Synced", results.length, "calendars");
+
+    return jsonResponse({ success: true, results });
+  } catch (error) {
+    console.error("[sync-external-calendars] Error:", error);
+    return jsonResponse(
+      { success: false, error: error instanceof Error ? error.message : "Internal server error" },
+      500
+    );
+  }
+});
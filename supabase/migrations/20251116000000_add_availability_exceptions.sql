@@ -0,0 +1,60 @@
+-- Availability exceptions: one-off changes to the weekly schedule
+-- - 'blocked'     : closed (holiday, day off, vacation). Without times the whole day(s) are closed,
+--                   with times only that slot is removed from the weekly availabilities
+-- - 'extra_hours' : additional opening hours on specific date(s), on top of the weekly schedule
+-- A multi-day vacation is a single 'blocked' row spanning start_date..end_date
+
+CREATE TABLE public.availability_exceptions (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  exception_type TEXT NOT NULL CHECK (exception_type IN ('blocked', 'extra_hours')),
+  start_date DATE NOT NULL,
+  end_date DATE NOT NULL,
+  start_time TIME,
+  end_time TIME,
+  reason TEXT,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  CONSTRAINT valid_exception_date_range CHECK (end_date >= start_date),
+  -- Times go together; extra hours always need them
+  CONSTRAINT valid_exception_times CHECK (
+    (start_time IS NULL AND end_time IS NULL AND exception_type = 'blocked')
+    OR (start_time IS NOT NULL AND end_time IS NOT NULL)
+  )
+);
+
+-- Enable RLS
+ALTER TABLE public.availability_exceptions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own availability exceptions"
+ON public.availability_exceptions
+FOR SELECT
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert own availability exceptions"
+ON public.availability_exceptions
+FOR INSERT
+WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update own availability exceptions"
+ON public.availability_exceptions
+FOR UPDATE
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete own availability exceptions"
+ON public.availability_exceptions
+FOR DELETE
+USING (auth.uid() = user_id);
+
+CREATE TRIGGER update_availability_exceptions_updated_at
+BEFORE UPDATE ON public.availability_exceptions
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+-- The AI fetches exceptions overlapping its lookahead window
+CREATE INDEX idx_availability_exceptions_user_dates
+  ON public.availability_exceptions(user_id, end_date, start_date);
+
+COMMENT ON TABLE public.availability_exceptions IS 'One-off exceptions to the weekly availabilities: blocked dates/slots, vacations and extra opening hours';
+COMMENT ON COLUMN public.availability_exceptions.exception_type IS 'blocked = closed (whole day if no times), extra_hours = additional opening slot';
+COMMENT ON COLUMN public.availability_exceptions.start_time IS 'Slot start (France time). NULL with end_time NULL = whole day(s). Slots may cross midnight (e.g. 22:00-02:00)';
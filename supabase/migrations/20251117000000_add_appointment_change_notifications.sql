@@ -0,0 +1,30 @@
+-- =====================================================
+-- Migration: Notify providers of client cancellations and reschedules
+-- Date: 2025-11-17
+-- Description:
+--   - Allow 'appointment_cancelled' and 'appointment_rescheduled' notification types
+--   - A booking can be moved several times, so reschedules are exempt from the
+--     one-notification-per-type rule (each move must reach the provider)
+-- =====================================================
+
+ALTER TABLE appointment_notifications
+DROP CONSTRAINT IF EXISTS appointment_notifications_notification_type_check;
+
+ALTER TABLE appointment_notifications
+ADD CONSTRAINT appointment_notifications_notification_type_check
+CHECK (notification_type IN (
+  'new_appointment',
+  'client_arrived',
+  'access_info_sent',
+  'appointment_cancelled',
+  'appointment_rescheduled'
+));
+
+DROP INDEX IF EXISTS idx_prevent_duplicate_notifications;
+
+CREATE UNIQUE INDEX idx_prevent_duplicate_notifications
+ON appointment_notifications(appointment_id, notification_type)
+WHERE notification_type <> 'appointment_rescheduled';
+
+COMMENT ON INDEX idx_prevent_duplicate_notifications IS
+'One notification per appointment and type, except reschedules which are sent on every move';
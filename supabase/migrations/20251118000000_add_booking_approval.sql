@@ -0,0 +1,43 @@
+-- =====================================================
+-- Migration: Provider approval mode for AI-created bookings
+-- Date: 2025-11-18
+-- Description:
+--   - Add require_booking_approval setting to user_informations
+--     (AI bookings are created as 'pending' until the provider approves them)
+--   - Add 'approval_request' notification type
+--   - Store the WhatsApp message id of each notification, so a provider
+--     replying to an approval request can be matched to its appointment
+-- =====================================================
+
+-- 1. Per-provider setting
+ALTER TABLE user_informations
+ADD COLUMN IF NOT EXISTS require_booking_approval BOOLEAN NOT NULL DEFAULT false;
+
+COMMENT ON COLUMN user_informations.require_booking_approval IS
+'Si true, les RDV pris par l''IA sont créés en attente (pending) et doivent être acceptés par le provider';
+
+-- 2. Approval request notifications
+ALTER TABLE appointment_notifications
+DROP CONSTRAINT IF EXISTS appointment_notifications_notification_type_check;
+
+ALTER TABLE appointment_notifications
+ADD CONSTRAINT appointment_notifications_notification_type_check
+CHECK (notification_type IN (
+  'new_appointment',
+  'client_arrived',
+  'access_info_sent',
+  'appointment_cancelled',
+  'appointment_rescheduled',
+  'approval_request'
+));
+
+-- 3. WhatsApp message id (Evolution key.id) of the sent notification
+ALTER TABLE appointment_notifications
+ADD COLUMN IF NOT EXISTS message_id TEXT;
+
+CREATE INDEX IF NOT EXISTS idx_appointment_notifications_message_id
+ON appointment_notifications(message_id)
+WHERE message_id IS NOT NULL;
+
+COMMENT ON COLUMN appointment_notifications.message_id IS
+'WhatsApp message id returned by Evolution, used to match provider replies (quoted message) to the appointment';
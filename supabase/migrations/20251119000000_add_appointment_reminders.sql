@@ -0,0 +1,56 @@
+-- =====================================================
+-- Migration: Automated appointment reminders
+-- Date: 2025-11-19
+-- Description:
+--   - Add reminder settings to user_informations
+--     (evening-before reminder at a chosen time, and/or N minutes before the start)
+--   - Create appointment_reminders table: history of reminders sent to clients,
+--     one per appointment and type (same dedupe rule as appointment_notifications),
+--     plus the client's answer to it
+-- =====================================================
+
+-- 1. Per-provider settings
+ALTER TABLE user_informations
+ADD COLUMN IF NOT EXISTS reminder_day_before BOOLEAN NOT NULL DEFAULT false,
+ADD COLUMN IF NOT EXISTS reminder_day_before_time TIME NOT NULL DEFAULT '19:00',
+ADD COLUMN IF NOT EXISTS reminder_minutes_before INTEGER
+  CHECK (reminder_minutes_before IS NULL OR reminder_minutes_before BETWEEN 15 AND 720);
+
+COMMENT ON COLUMN user_informations.reminder_day_before IS
+'Si true, un rappel est envoyé au client la veille du RDV à reminder_day_before_time (heure France)';
+
+COMMENT ON COLUMN user_informations.reminder_minutes_before IS
+'Rappel envoyé au client N minutes avant le début du RDV (NULL = désactivé)';
+
+-- 2. Reminders sent to clients
+CREATE TABLE IF NOT EXISTS appointment_reminders (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  appointment_id UUID NOT NULL REFERENCES appointments(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  reminder_type TEXT NOT NULL CHECK (reminder_type IN ('day_before', 'before_start')),
+  message_text TEXT NOT NULL,
+  sent_at TIMESTAMPTZ DEFAULT NOW(),
+  status TEXT DEFAULT 'sent' CHECK (status IN ('sent', 'failed')),
+  error_details JSONB,
+  client_response TEXT CHECK (client_response IN ('confirmed', 'cancelled')),
+  responded_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_appointment_reminders_user
+ON appointment_reminders(user_id, created_at DESC);
+
+-- Prevent duplicate reminders for the same appointment and type
+CREATE UNIQUE INDEX IF NOT EXISTS idx_prevent_duplicate_reminders
+ON appointment_reminders(appointment_id, reminder_type);
+
+ALTER TABLE appointment_reminders ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can view their own reminders" ON appointment_reminders;
+CREATE POLICY "Users can view their own reminders"
+ON appointment_reminders FOR SELECT
+USING (auth.uid() = user_id);
+
+COMMENT ON TABLE appointment_reminders IS
+'Rappels envoyés aux clients avant leur RDV (cron send-appointment-reminders).
+Les lignes sont supprimées quand le RDV est déplacé, pour que le nouveau créneau soit rappelé.';
@@ -0,0 +1,61 @@
+-- =====================================================
+-- Migration: Per-user LLM provider and model
+-- Date: 2025-11-20
+-- Description:
+--   - Add ai_provider / ai_model to user_informations
+--     (NULL = provider/model configured on the ai-auto-reply function)
+--   - Only superadmins can change them (the model choice has a cost)
+-- =====================================================
+
+-- 1. Columns
+ALTER TABLE user_informations
+ADD COLUMN IF NOT EXISTS ai_provider TEXT
+CHECK (ai_provider IN ('openai', 'openai_compatible', 'anthropic'));
+
+ALTER TABLE user_informations
+ADD COLUMN IF NOT EXISTS ai_model TEXT;
+
+COMMENT ON COLUMN user_informations.ai_provider IS
+'Provider LLM utilisé pour les réponses IA de ce user (NULL = provider par défaut de la fonction)';
+
+COMMENT ON COLUMN user_informations.ai_model IS
+'Modèle LLM utilisé pour ce user (NULL = modèle par défaut du provider)';
+
+-- 2. Superadmins can set them
+DROP POLICY IF EXISTS "Superadmins can update all user informations" ON public.user_informations;
+CREATE POLICY "Superadmins can update all user informations"
+  ON public.user_informations
+  FOR UPDATE
+  USING (public.is_superadmin())
+  WITH CHECK (public.is_superadmin());
+
+-- 3. Users can still create and update their informations, but not choose their model
+CREATE OR REPLACE FUNCTION public.protect_user_ai_model()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF auth.uid() IS NULL OR public.is_superadmin() THEN
+    RETURN NEW;
+  END IF;
+
+  -- Providers create their own row from the Informations page: it starts on the default model
+  IF TG_OP = 'INSERT' THEN
+    IF NEW.ai_provider IS NOT NULL OR NEW.ai_model IS NOT NULL THEN
+      RAISE EXCEPTION 'Only superadmins can set ai_provider / ai_model';
+    END IF;
+  ELSIF NEW.ai_provider IS DISTINCT FROM OLD.ai_provider
+        OR NEW.ai_model IS DISTINCT FROM OLD.ai_model THEN
+    RAISE EXCEPTION 'Only superadmins can change ai_provider / ai_model';
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS protect_user_ai_model ON user_informations;
+CREATE TRIGGER protect_user_ai_model
+  BEFORE INSERT OR UPDATE ON user_informations
+  FOR EACH ROW
+  EXECUTE FUNCTION public.protect_user_ai_model();
@@ -0,0 +1,41 @@
+-- =====================================================
+-- Migration: Media, voice and location messages
+-- Date: 2025-11-21
+-- Description:
+--   - Add message_type to messages (text by default, existing rows stay text)
+--   - Add media_metadata (mimetype, size, duration, voice note transcript)
+--   - Add location (shared pins: latitude, longitude, name, address)
+--   - content keeps a readable text version ("[Message vocal] ...", "[Localisation] ...")
+--     used for the conversation list and the AI history
+-- =====================================================
+
+-- 1. Columns
+ALTER TABLE messages
+ADD COLUMN IF NOT EXISTS message_type TEXT NOT NULL DEFAULT 'text'
+CHECK (message_type IN ('text', 'image', 'video', 'audio', 'document', 'location', 'sticker'));
+
+ALTER TABLE messages
+ADD COLUMN IF NOT EXISTS media_metadata JSONB;
+
+ALTER TABLE messages
+ADD COLUMN IF NOT EXISTS location JSONB;
+
+COMMENT ON COLUMN messages.message_type IS
+'Type du message WhatsApp : text, image, video, audio, document, location, sticker';
+
+COMMENT ON COLUMN messages.media_metadata IS
+'Métadonnées du média : mimetype, file_length, seconds, file_name, ptt, transcript (vocaux), transcription_provider, transcription_error';
+
+COMMENT ON COLUMN messages.location IS
+'Position partagée : { latitude, longitude, name, address, url, live }';
+
+-- 2. Keep pins consistent with their type
+ALTER TABLE messages
+DROP CONSTRAINT IF EXISTS messages_location_check;
+
+ALTER TABLE messages
+ADD CONSTRAINT messages_location_check
+CHECK (
+  location IS NULL
+  OR (message_type = 'location' AND location ? 'latitude' AND location ? 'longitude')
+);
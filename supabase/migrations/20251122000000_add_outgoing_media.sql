@@ -0,0 +1,92 @@
+-- =====================================================
+-- Migration: Outgoing media and rich messages
+-- Date: 2025-11-22
+-- Description:
+--   - messages: new 'contact' type + contact column (vCards sent or received)
+--   - user_informations: coordinates of the address, to send it as a location pin
+--     (geocoded on first use, cleared when the address changes)
+--   - Storage bucket message-media for files sent from the dashboard
+-- =====================================================
+
+-- 1. Contact cards
+ALTER TABLE messages
+DROP CONSTRAINT IF EXISTS messages_message_type_check;
+
+ALTER TABLE messages
+ADD CONSTRAINT messages_message_type_check
+CHECK (message_type IN ('text', 'image', 'video', 'audio', 'document', 'location', 'sticker', 'contact'));
+
+ALTER TABLE messages
+ADD COLUMN IF NOT EXISTS contact JSONB;
+
+COMMENT ON COLUMN messages.contact IS
+'Carte de contact : { full_name, phone }';
+
+COMMENT ON COLUMN messages.media_metadata IS
+'Métadonnées du média : mimetype, file_length, seconds, file_name, ptt, storage_path (fichiers envoyés), transcript (vocaux), transcription_provider, transcription_error';
+
+-- 2. Address coordinates
+ALTER TABLE user_informations
+ADD COLUMN IF NOT EXISTS adresse_latitude DOUBLE PRECISION;
+
+ALTER TABLE user_informations
+ADD COLUMN IF NOT EXISTS adresse_longitude DOUBLE PRECISION;
+
+COMMENT ON COLUMN user_informations.adresse_latitude IS
+'Latitude de l''adresse (géocodée automatiquement, NULL = à géocoder)';
+
+COMMENT ON COLUMN user_informations.adresse_longitude IS
+'Longitude de l''adresse (géocodée automatiquement, NULL = à géocoder)';
+
+CREATE OR REPLACE FUNCTION public.reset_adresse_coordinates()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.adresse IS DISTINCT FROM OLD.adresse THEN
+    NEW.adresse_latitude := NULL;
+    NEW.adresse_longitude := NULL;
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS reset_adresse_coordinates ON user_informations;
+CREATE TRIGGER reset_adresse_coordinates
+  BEFORE UPDATE ON user_informations
+  FOR EACH ROW
+  EXECUTE FUNCTION public.reset_adresse_coordinates();
+
+-- 3. Files sent from the dashboard: "<user_id>/<conversation_id>/<file>"
+-- Private bucket, send-whatsapp-message gives Evolution a signed URL
+INSERT INTO storage.buckets (id, name, public, file_size_limit)
+VALUES ('message-media', 'message-media', false, 16777216)
+ON CONFLICT (id) DO NOTHING;
+
+CREATE POLICY "Users can upload their message media"
+  ON storage.objects
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    bucket_id = 'message-media'
+    AND (storage.foldername(name))[1] = auth.uid()::text
+  );
+
+CREATE POLICY "Users can view their message media"
+  ON storage.objects
+  FOR SELECT
+  TO authenticated
+  USING (
+    bucket_id = 'message-media'
+    AND (storage.foldername(name))[1] = auth.uid()::text
+  );
+
+CREATE POLICY "Users can delete their message media"
+  ON storage.objects
+  FOR DELETE
+  TO authenticated
+  USING (
+    bucket_id = 'message-media'
+    AND (storage.foldername(name))[1] = auth.uid()::text
+  );
@@ -0,0 +1,24 @@
+-- =====================================================
+-- Migration: Debounced AI replies
+-- Date: 2025-11-23
+-- Description:
+--   - user_informations.ai_reply_delay_seconds: quiet period before the AI answers,
+--     so messages sent in a row ("hey", "dispo ce soir ?", "pour 1h") get one reply
+--   - conversations.ai_reply_token: set by the webhook on every incoming message,
+--     only the ai-auto-reply invocation holding the latest token answers
+-- =====================================================
+
+-- 1. Per-provider quiet period
+ALTER TABLE user_informations
+ADD COLUMN IF NOT EXISTS ai_reply_delay_seconds INTEGER NOT NULL DEFAULT 5
+  CHECK (ai_reply_delay_seconds BETWEEN 0 AND 30);
+
+COMMENT ON COLUMN user_informations.ai_reply_delay_seconds IS
+'Délai (secondes) sans nouveau message du client avant que l''IA réponde. 0 = réponse immédiate';
+
+-- 2. Reply owner per conversation
+ALTER TABLE conversations
+ADD COLUMN IF NOT EXISTS ai_reply_token UUID;
+
+COMMENT ON COLUMN conversations.ai_reply_token IS
+'Jeton du dernier message client en attente de réponse IA. Une réponse IA dont le jeton ne correspond plus est abandonnée (le client a réécrit entre-temps)';
@@ -0,0 +1,29 @@
+-- =====================================================
+-- Migration: Human takeover pauses the AI
+-- Date: 2025-11-24
+-- Description:
+--   - conversations.ai_paused_until: set when the provider answers a client themself
+--     (from their phone or the dashboard), the AI stays quiet until then
+--   - user_informations.ai_takeover_pause_minutes: length of that pause
+--   - Index to recognize the webhook echo of messages sent through the API
+-- =====================================================
+
+-- 1. Pause per conversation
+ALTER TABLE conversations
+ADD COLUMN IF NOT EXISTS ai_paused_until TIMESTAMPTZ;
+
+COMMENT ON COLUMN conversations.ai_paused_until IS
+'L''IA ne répond pas avant cette date : le prestataire a répondu lui-même au client. NULL = pas de pause. Remis à NULL quand le prestataire relance l''IA';
+
+-- 2. Pause length per provider
+ALTER TABLE user_informations
+ADD COLUMN IF NOT EXISTS ai_takeover_pause_minutes INTEGER NOT NULL DEFAULT 60
+  CHECK (ai_takeover_pause_minutes BETWEEN 0 AND 1440);
+
+COMMENT ON COLUMN user_informations.ai_takeover_pause_minutes IS
+'Durée (minutes) de la pause de l''IA quand le prestataire répond lui-même à un client. 0 = pas de pause automatique';
+
+-- 3. Echo lookup (evolution-webhook-handler, fromMe messages)
+CREATE INDEX IF NOT EXISTS idx_messages_instance_message_id
+  ON public.messages(instance_id, message_id)
+  WHERE message_id IS NOT NULL;
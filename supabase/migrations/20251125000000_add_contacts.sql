@@ -0,0 +1,159 @@
+-- =====================================================
+-- Migration: Client CRM
+-- Date: 2025-11-25
+-- Description:
+--   - contacts: one row per client and provider (phone digits only), with the
+--     provider's private notes and tags ("Régulier", "No-show"...)
+--   - Filled automatically from conversations and appointments (triggers + backfill)
+--   - contact_summaries view: visits, total spent, last visit computed from appointments
+-- =====================================================
+
+-- 1. Same format as conversations.contact_phone (digits only, no @suffix)
+CREATE OR REPLACE FUNCTION public.normalize_contact_phone(phone TEXT)
+RETURNS TEXT
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT NULLIF(regexp_replace(split_part(phone, '@', 1), '[^0-9]', '', 'g'), '');
+$$;
+
+-- 2. Contacts
+CREATE TABLE IF NOT EXISTS contacts (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  phone TEXT NOT NULL,
+  name TEXT,
+  notes TEXT,
+  tags TEXT[] NOT NULL DEFAULT '{}',
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  UNIQUE (user_id, phone)
+);
+
+ALTER TABLE contacts ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can view their own contacts" ON contacts;
+CREATE POLICY "Users can view their own contacts"
+ON contacts FOR SELECT
+USING (auth.uid() = user_id);
+
+DROP POLICY IF EXISTS "Users can update their own contacts" ON contacts;
+CREATE POLICY "Users can update their own contacts"
+ON contacts FOR UPDATE
+USING (auth.uid() = user_id)
+WITH CHECK (auth.uid() = user_id);
+
+DROP POLICY IF EXISTS "Users can delete their own contacts" ON contacts;
+CREATE POLICY "Users can delete their own contacts"
+ON contacts FOR DELETE
+USING (auth.uid() = user_id);
+
+DROP TRIGGER IF EXISTS update_contacts_updated_at ON contacts;
+CREATE TRIGGER update_contacts_updated_at
+  BEFORE UPDATE ON contacts
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+COMMENT ON TABLE contacts IS
+'Fiches clients du prestataire. Créées automatiquement à la première conversation ou au premier RDV.
+Notes et tags sont privés : l''IA s''en sert pour reconnaître le client, sans jamais les citer.';
+
+COMMENT ON COLUMN contacts.phone IS
+'Numéro normalisé (chiffres uniquement), même format que conversations.contact_phone';
+
+-- 3. Automatic creation (conversation from the webhook, appointment from the AI or the dashboard)
+CREATE OR REPLACE FUNCTION public.upsert_contact_from_row()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  normalized_phone TEXT := public.normalize_contact_phone(NEW.contact_phone);
+BEGIN
+  IF normalized_phone IS NOT NULL THEN
+    INSERT INTO contacts (user_id, phone, name)
+    VALUES (NEW.user_id, normalized_phone, NULLIF(NEW.contact_name, NEW.contact_phone))
+    ON CONFLICT (user_id, phone) DO UPDATE
+      SET name = COALESCE(contacts.name, EXCLUDED.name);
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS upsert_contact_from_conversation ON conversations;
+CREATE TRIGGER upsert_contact_from_conversation
+  AFTER INSERT ON conversations
+  FOR EACH ROW
+  EXECUTE FUNCTION public.upsert_contact_from_row();
+
+DROP TRIGGER IF EXISTS upsert_contact_from_appointment ON appointments;
+CREATE TRIGGER upsert_contact_from_appointment
+  AFTER INSERT ON appointments
+  FOR EACH ROW
+  EXECUTE FUNCTION public.upsert_contact_from_row();
+
+-- 4. Existing clients
+INSERT INTO contacts (user_id, phone, name)
+SELECT DISTINCT ON (user_id, public.normalize_contact_phone(contact_phone))
+  user_id,
+  public.normalize_contact_phone(contact_phone),
+  NULLIF(contact_name, contact_phone)
+FROM (
+  SELECT user_id, contact_phone, contact_name, last_message_at AS seen_at FROM conversations
+  UNION ALL
+  SELECT user_id, contact_phone, contact_name, created_at AS seen_at FROM appointments
+) AS known_clients
+WHERE public.normalize_contact_phone(contact_phone) IS NOT NULL
+ORDER BY user_id, public.normalize_contact_phone(contact_phone), seen_at DESC NULLS LAST
+ON CONFLICT (user_id, phone) DO NOTHING;
+
+-- 5. Client history
+CREATE INDEX IF NOT EXISTS idx_appointments_user_contact_phone
+ON appointments(user_id, public.normalize_contact_phone(contact_phone));
+
+-- A visit is a completed appointment, or a confirmed one whose day is over (France time)
+CREATE OR REPLACE VIEW contact_summaries
+WITH (security_invoker = true) AS
+SELECT
+  c.id,
+  c.user_id,
+  c.phone,
+  c.name,
+  c.notes,
+  c.tags,
+  c.created_at,
+  c.updated_at,
+  COALESCE(stats.visit_count, 0)::INTEGER AS visit_count,
+  COALESCE(stats.total_spent, 0)::NUMERIC AS total_spent,
+  stats.last_visit_date,
+  stats.next_appointment_date,
+  COALESCE(stats.cancelled_count, 0)::INTEGER AS cancelled_count
+FROM contacts c
+LEFT JOIN LATERAL (
+  SELECT
+    COUNT(*) FILTER (WHERE visit) AS visit_count,
+    SUM(a.total_price) FILTER (WHERE visit) AS total_spent,
+    MAX(a.appointment_date) FILTER (WHERE visit) AS last_visit_date,
+    MIN(a.appointment_date) FILTER (
+      WHERE a.status IN ('pending', 'confirmed')
+        AND a.appointment_date >= (NOW() AT TIME ZONE 'Europe/Paris')::DATE
+    ) AS next_appointment_date,
+    COUNT(*) FILTER (WHERE a.status = 'cancelled') AS cancelled_count
+  FROM (
+    SELECT
+      appointments.*,
+      appointments.status = 'completed'
+        OR (
+          appointments.status = 'confirmed'
+          AND appointments.appointment_date < (NOW() AT TIME ZONE 'Europe/Paris')::DATE
+        ) AS visit
+    FROM appointments
+    WHERE appointments.user_id = c.user_id
+      AND public.normalize_contact_phone(appointments.contact_phone) = c.phone
+  ) AS a
+) AS stats ON true;
+
+COMMENT ON VIEW contact_summaries IS
+'Fiche client + historique calculé depuis appointments (visites = RDV terminés ou confirmés passés).
+security_invoker : les RLS de contacts et appointments s''appliquent.';
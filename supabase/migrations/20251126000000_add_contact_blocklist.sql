@@ -0,0 +1,122 @@
+-- =====================================================
+-- Migration: Client blocklist and automatic flags
+-- Date: 2025-11-26
+-- Description:
+--   - contacts.blocked: the AI ignores the number and never books it
+--   - user_informations.blocked_contact_reply: optional polite refusal, sent once per block
+--   - contacts.flag_reason: set automatically after repeated no-shows (check-late-clients)
+--     or abusive messages (ai-auto-reply), the provider decides whether to block
+-- =====================================================
+
+-- 1. Blocklist
+ALTER TABLE contacts
+ADD COLUMN IF NOT EXISTS blocked BOOLEAN NOT NULL DEFAULT false,
+ADD COLUMN IF NOT EXISTS blocked_at TIMESTAMPTZ,
+ADD COLUMN IF NOT EXISTS block_reply_sent_at TIMESTAMPTZ;
+
+COMMENT ON COLUMN contacts.blocked IS
+'Numéro bloqué par le prestataire : l''IA ne répond pas et aucun RDV ne peut être créé pour ce client';
+
+COMMENT ON COLUMN contacts.block_reply_sent_at IS
+'Date d''envoi du message de refus (une seule fois par blocage). Remis à NULL quand le numéro est bloqué à nouveau';
+
+ALTER TABLE user_informations
+ADD COLUMN IF NOT EXISTS blocked_contact_reply TEXT;
+
+COMMENT ON COLUMN user_informations.blocked_contact_reply IS
+'Message envoyé une fois à un numéro bloqué qui écrit. NULL = ignoré sans réponse';
+
+-- 2. Automatic flags
+ALTER TABLE contacts
+ADD COLUMN IF NOT EXISTS flag_reason TEXT CHECK (flag_reason IN ('no_show', 'abuse')),
+ADD COLUMN IF NOT EXISTS flagged_at TIMESTAMPTZ;
+
+COMMENT ON COLUMN contacts.flag_reason IS
+'Signalement automatique : no_show (lapins répétés) ou abuse (messages insultants/menaçants détectés par l''IA). NULL = rien à signaler';
+
+COMMENT ON COLUMN contacts.flagged_at IS
+'Date du dernier signalement. Conservée quand le prestataire retire le signalement, pour ne pas signaler à nouveau les mêmes lapins';
+
+-- 3. No-shows in the client history
+-- A no-show is a past confirmed appointment where the client was nudged by
+-- check-late-clients and never said they had arrived
+CREATE OR REPLACE VIEW contact_summaries
+WITH (security_invoker = true) AS
+SELECT
+  c.id,
+  c.user_id,
+  c.phone,
+  c.name,
+  c.notes,
+  c.tags,
+  c.created_at,
+  c.updated_at,
+  COALESCE(stats.visit_count, 0)::INTEGER AS visit_count,
+  COALESCE(stats.total_spent, 0)::NUMERIC AS total_spent,
+  stats.last_visit_date,
+  stats.next_appointment_date,
+  COALESCE(stats.cancelled_count, 0)::INTEGER AS cancelled_count,
+  c.blocked,
+  c.flag_reason,
+  c.flagged_at,
+  COALESCE(stats.no_show_count, 0)::INTEGER AS no_show_count
+FROM contacts c
+LEFT JOIN LATERAL (
+  SELECT
+    COUNT(*) FILTER (WHERE visit) AS visit_count,
+    SUM(a.total_price) FILTER (WHERE visit) AS total_spent,
+    MAX(a.appointment_date) FILTER (WHERE visit) AS last_visit_date,
+    MIN(a.appointment_date) FILTER (
+      WHERE a.status IN ('pending', 'confirmed')
+        AND a.appointment_date >= (NOW() AT TIME ZONE 'Europe/Paris')::DATE
+    ) AS next_appointment_date,
+    COUNT(*) FILTER (WHERE a.status = 'cancelled') AS cancelled_count,
+    COUNT(*) FILTER (WHERE no_show) AS no_show_count
+  FROM (
+    SELECT
+      appointments.*,
+      appointments.status = 'completed'
+        OR (
+          appointments.status = 'confirmed'
+          AND appointments.appointment_date < (NOW() AT TIME ZONE 'Europe/Paris')::DATE
+          AND (appointments.client_arrival_detected_at IS NULL OR appointments.client_arrived IS TRUE)
+        ) AS visit,
+      appointments.status = 'confirmed'
+        AND appointments.appointment_date < (NOW() AT TIME ZONE 'Europe/Paris')::DATE
+        AND appointments.client_arrival_detected_at IS NOT NULL
+        AND appointments.client_arrived IS NOT TRUE AS no_show
+    FROM appointments
+    WHERE appointments.user_id = c.user_id
+      AND public.normalize_contact_phone(appointments.contact_phone) = c.phone
+  ) AS a
+) AS stats ON true;
+
+COMMENT ON VIEW contact_summaries IS
+'Fiche client + historique calculé depuis appointments (visites = RDV terminés ou confirmés passés,
+lapins = RDV confirmés passés avec relance de retard restée sans réponse).
+security_invoker : les RLS de contacts et appointments s''appliquent.';
+
+-- 4. Called by check-late-clients on every run
+CREATE OR REPLACE FUNCTION public.flag_repeat_no_show_contacts(threshold INTEGER)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  flagged_count INTEGER;
+BEGIN
+  UPDATE contacts
+  SET flag_reason = 'no_show', flagged_at = NOW()
+  FROM contact_summaries s
+  WHERE s.id = contacts.id
+    AND contacts.flag_reason IS NULL
+    AND contacts.flagged_at IS NULL
+    AND s.no_show_count >= threshold;
+
+  GET DIAGNOSTICS flagged_count = ROW_COUNT;
+  RETURN flagged_count;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.flag_repeat_no_show_contacts(INTEGER) FROM PUBLIC, anon, authenticated;
@@ -0,0 +1,201 @@
+-- =====================================================
+-- Migration: No-show tracking and deposit policy
+-- Date: 2025-11-27
+-- Description:
+--   - appointments.status 'no_show': confirmed appointment the client didn't come to
+--   - Past appointments are closed as completed / no_show by check-late-clients
+--     (close_past_appointments) or by the provider (mark_appointment_no_show)
+--   - contact_summaries.no_show_count now counts no_show appointments
+--   - user_informations.no_show_deposit_*: deposit or prepayment asked by the AI
+--     from clients over a no-show threshold
+-- =====================================================
+
+-- 1. New status
+ALTER TABLE appointments DROP CONSTRAINT IF EXISTS appointments_status_check;
+ALTER TABLE appointments
+ADD CONSTRAINT appointments_status_check
+  CHECK (status IN ('pending', 'confirmed', 'cancelled', 'completed', 'no_show'));
+
+ALTER TABLE appointments
+ADD COLUMN IF NOT EXISTS closed_at TIMESTAMPTZ,
+ADD COLUMN IF NOT EXISTS closed_by TEXT CHECK (closed_by IN ('provider', 'auto'));
+
+COMMENT ON COLUMN appointments.closed_by IS
+'Qui a clôturé le RDV (terminé ou lapin) : provider = bouton de la page Rendez-vous, auto = check-late-clients après l''heure de fin';
+
+-- Any switch to completed / no_show is stamped, the provider unless the caller says otherwise
+CREATE OR REPLACE FUNCTION public.stamp_appointment_closing()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF NEW.status IN ('completed', 'no_show') AND NEW.status IS DISTINCT FROM OLD.status THEN
+    NEW.closed_at := NOW();
+    IF NEW.closed_by IS NOT DISTINCT FROM OLD.closed_by THEN
+      NEW.closed_by := 'provider';
+    END IF;
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS stamp_appointment_closing ON appointments;
+CREATE TRIGGER stamp_appointment_closing
+  BEFORE UPDATE OF status ON appointments
+  FOR EACH ROW
+  EXECUTE FUNCTION public.stamp_appointment_closing();
+
+-- Existing no-shows (late reminder sent, client never said they arrived)
+UPDATE appointments
+SET status = 'no_show', closed_by = 'auto'
+WHERE status = 'confirmed'
+  AND appointment_date < (NOW() AT TIME ZONE 'Europe/Paris')::DATE
+  AND client_arrival_detected_at IS NOT NULL
+  AND client_arrived IS NOT TRUE;
+
+-- 2. Automatic closing, called by check-late-clients on every run
+-- A client who said they arrived (or was let in) came. A client nudged by the late
+-- reminder who never answered didn't. Anything else is given the benefit of the doubt.
+CREATE OR REPLACE FUNCTION public.close_past_appointments(grace_minutes INTEGER)
+RETURNS JSON
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  completed_count INTEGER;
+  no_show_count INTEGER;
+BEGIN
+  WITH closed AS (
+    UPDATE appointments
+    SET
+      status = CASE
+        WHEN client_arrived IS TRUE OR provider_ready_to_receive IS TRUE THEN 'completed'
+        WHEN client_arrival_detected_at IS NOT NULL THEN 'no_show'
+        ELSE 'completed'
+      END,
+      closed_by = 'auto',
+      updated_at = NOW()
+    WHERE status = 'confirmed'
+      AND appointment_date + start_time + make_interval(mins => duration_minutes + grace_minutes)
+        < (NOW() AT TIME ZONE 'Europe/Paris')
+    RETURNING status, conversation_id
+  ),
+  unpinned AS (
+    UPDATE conversations
+    SET is_pinned = false, pinned_at = NULL
+    WHERE id IN (SELECT conversation_id FROM closed WHERE conversation_id IS NOT NULL)
+  )
+  SELECT
+    COUNT(*) FILTER (WHERE status = 'completed'),
+    COUNT(*) FILTER (WHERE status = 'no_show')
+  INTO completed_count, no_show_count
+  FROM closed;
+
+  RETURN json_build_object('completed', completed_count, 'no_show', no_show_count);
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.close_past_appointments(INTEGER) FROM PUBLIC, anon, authenticated;
+
+-- 3. Provider marks a no-show (Rendez-vous page), same unpinning as complete_appointment_and_unpin.
+-- Also corrects an appointment closed as completed by check-late-clients
+CREATE OR REPLACE FUNCTION public.mark_appointment_no_show(p_appointment_id UUID)
+RETURNS JSON
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_conversation_id UUID;
+BEGIN
+  UPDATE appointments
+  SET status = 'no_show', updated_at = NOW()
+  WHERE id = p_appointment_id
+    AND user_id = auth.uid()
+    AND status IN ('confirmed', 'completed')
+  RETURNING conversation_id INTO v_conversation_id;
+
+  IF NOT FOUND THEN
+    RETURN json_build_object('success', false, 'error', 'Appointment not found or already closed as no-show');
+  END IF;
+
+  IF v_conversation_id IS NOT NULL THEN
+    UPDATE conversations
+    SET is_pinned = false, pinned_at = NULL
+    WHERE id = v_conversation_id;
+  END IF;
+
+  RETURN json_build_object('success', true, 'appointment_id', p_appointment_id);
+END;
+$$;
+
+COMMENT ON FUNCTION public.mark_appointment_no_show IS
+'Marque un RDV confirmé ou terminé comme lapin (client pas venu) et désépingle la conversation';
+
+-- 4. No-shows per client
+CREATE OR REPLACE VIEW contact_summaries
+WITH (security_invoker = true) AS
+SELECT
+  c.id,
+  c.user_id,
+  c.phone,
+  c.name,
+  c.notes,
+  c.tags,
+  c.created_at,
+  c.updated_at,
+  COALESCE(stats.visit_count, 0)::INTEGER AS visit_count,
+  COALESCE(stats.total_spent, 0)::NUMERIC AS total_spent,
+  stats.last_visit_date,
+  stats.next_appointment_date,
+  COALESCE(stats.cancelled_count, 0)::INTEGER AS cancelled_count,
+  c.blocked,
+  c.flag_reason,
+  c.flagged_at,
+  COALESCE(stats.no_show_count, 0)::INTEGER AS no_show_count
+FROM contacts c
+LEFT JOIN LATERAL (
+  SELECT
+    COUNT(*) FILTER (WHERE visit) AS visit_count,
+    SUM(a.total_price) FILTER (WHERE visit) AS total_spent,
+    MAX(a.appointment_date) FILTER (WHERE visit) AS last_visit_date,
+    MIN(a.appointment_date) FILTER (
+      WHERE a.status IN ('pending', 'confirmed')
+        AND a.appointment_date >= (NOW() AT TIME ZONE 'Europe/Paris')::DATE
+    ) AS next_appointment_date,
+    COUNT(*) FILTER (WHERE a.status = 'cancelled') AS cancelled_count,
+    COUNT(*) FILTER (WHERE a.status = 'no_show') AS no_show_count
+  FROM (
+    SELECT
+      appointments.*,
+      appointments.status = 'completed'
+        OR (
+          appointments.status = 'confirmed'
+          AND appointments.appointment_date < (NOW() AT TIME ZONE 'Europe/Paris')::DATE
+        ) AS visit
+    FROM appointments
+    WHERE appointments.user_id = c.user_id
+      AND public.normalize_contact_phone(appointments.contact_phone) = c.phone
+  ) AS a
+) AS stats ON true;
+
+COMMENT ON VIEW contact_summaries IS
+'Fiche client + historique calculé depuis appointments (visites = RDV terminés ou confirmés passés,
+lapins = RDV no_show).
+security_invoker : les RLS de contacts et appointments s''appliquent.';
+
+-- 5. Deposit policy
+ALTER TABLE user_informations
+ADD COLUMN IF NOT EXISTS no_show_deposit_threshold INTEGER NOT NULL DEFAULT 0
+  CHECK (no_show_deposit_threshold BETWEEN 0 AND 10),
+ADD COLUMN IF NOT EXISTS no_show_deposit_type TEXT NOT NULL DEFAULT 'deposit'
+  CHECK (no_show_deposit_type IN ('deposit', 'prepayment')),
+ADD COLUMN IF NOT EXISTS no_show_deposit_amount NUMERIC
+  CHECK (no_show_deposit_amount > 0);
+
+COMMENT ON COLUMN user_informations.no_show_deposit_threshold IS
+'Nombre de lapins à partir duquel l''IA exige un acompte ou un prépaiement avant de réserver. 0 = jamais';
+
+COMMENT ON COLUMN user_informations.no_show_deposit_type IS
+'deposit = acompte de no_show_deposit_amount CHF, prepayment = totalité du RDV payée d''avance';
@@ -0,0 +1,58 @@
+-- =====================================================
+-- Migration: Payment links on appointments
+-- Date: 2025-11-28
+-- Description:
+--   - appointments.payment_*: deposit or full payment asked for a booking, the link sent
+--     to the client and its status, reconciled by the payment-webhook function
+--   - user_informations.payment_links: which clients get a payment link with their confirmation
+--   - 'payment_received' notification type (provider told when a client pays)
+-- =====================================================
+
+-- 1. Payment state of each appointment
+ALTER TABLE appointments
+ADD COLUMN IF NOT EXISTS payment_status TEXT NOT NULL DEFAULT 'not_required'
+  CHECK (payment_status IN ('not_required', 'unpaid', 'paid', 'failed')),
+ADD COLUMN IF NOT EXISTS payment_kind TEXT CHECK (payment_kind IN ('deposit', 'full')),
+ADD COLUMN IF NOT EXISTS payment_amount NUMERIC CHECK (payment_amount > 0),
+ADD COLUMN IF NOT EXISTS payment_provider TEXT,
+ADD COLUMN IF NOT EXISTS payment_reference TEXT,
+ADD COLUMN IF NOT EXISTS payment_url TEXT,
+ADD COLUMN IF NOT EXISTS paid_at TIMESTAMPTZ;
+
+-- The webhook finds the appointment from the gateway's reference
+CREATE UNIQUE INDEX IF NOT EXISTS idx_appointments_payment_reference
+ON appointments(payment_reference)
+WHERE payment_reference IS NOT NULL;
+
+COMMENT ON COLUMN appointments.payment_status IS
+'not_required = rien à payer, unpaid = paiement demandé (lien envoyé avec la confirmation), paid / failed = résultat reçu par payment-webhook';
+
+COMMENT ON COLUMN appointments.payment_kind IS
+'deposit = acompte (payment_amount déduit du total), full = totalité du RDV payée d''avance';
+
+COMMENT ON COLUMN appointments.payment_reference IS
+'Identifiant du lien chez le prestataire de paiement (payment_provider), utilisé par payment-webhook pour retrouver le RDV';
+
+-- 2. Per-provider setting
+ALTER TABLE user_informations
+ADD COLUMN IF NOT EXISTS payment_links TEXT NOT NULL DEFAULT 'off'
+  CHECK (payment_links IN ('off', 'no_show_policy', 'all'));
+
+COMMENT ON COLUMN user_informations.payment_links IS
+'off = aucun lien de paiement, no_show_policy = seulement les clients soumis à l''acompte (no_show_deposit_*), all = tous les clients (totalité du RDV, ou l''acompte pour les clients concernés)';
+
+-- 3. Provider notification when a client pays
+ALTER TABLE appointment_notifications
+DROP CONSTRAINT IF EXISTS appointment_notifications_notification_type_check;
+
+ALTER TABLE appointment_notifications
+ADD CONSTRAINT appointment_notifications_notification_type_check
+CHECK (notification_type IN (
+  'new_appointment',
+  'client_arrived',
+  'access_info_sent',
+  'appointment_cancelled',
+  'appointment_rescheduled',
+  'approval_request',
+  'payment_received'
+));
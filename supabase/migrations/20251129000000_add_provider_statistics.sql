@@ -0,0 +1,112 @@
+-- =====================================================
+-- Migration: Provider statistics
+-- Date: 2025-11-29
+-- Description:
+--   - get_provider_statistics(p_from, p_to): figures of the Statistiques page for the
+--     logged-in provider, aggregated in SQL (a year of ai_events is far over max_rows)
+-- =====================================================
+
+CREATE OR REPLACE FUNCTION public.get_provider_statistics(p_from DATE, p_to DATE)
+RETURNS JSON
+LANGUAGE sql
+STABLE
+SECURITY INVOKER
+SET search_path = public
+AS $$
+  WITH period_appointments AS (
+    SELECT *
+    FROM appointments
+    WHERE user_id = auth.uid()
+      AND appointment_date BETWEEN p_from AND p_to
+  ),
+  -- Same rule as contact_summaries: completed, or confirmed and already past
+  earned AS (
+    SELECT
+      appointment_date,
+      COALESCE(extras_total, 0) AS extras,
+      COALESCE(base_price, COALESCE(total_price, 0) - COALESCE(extras_total, 0)) AS base
+    FROM period_appointments
+    WHERE status = 'completed'
+      OR (status = 'confirmed' AND appointment_date < (NOW() AT TIME ZONE 'Europe/Paris')::DATE)
+  ),
+  booked AS (
+    SELECT * FROM period_appointments WHERE status <> 'cancelled'
+  ),
+  period_conversations AS (
+    SELECT c.id, EXISTS (SELECT 1 FROM appointments a WHERE a.conversation_id = c.id) AS booked
+    FROM conversations c
+    WHERE c.user_id = auth.uid()
+      AND (c.created_at AT TIME ZONE 'Europe/Paris')::DATE BETWEEN p_from AND p_to
+  )
+  SELECT json_build_object(
+    'revenue_by_day', COALESCE((
+      SELECT json_agg(r ORDER BY r.date)
+      FROM (
+        SELECT appointment_date AS date, SUM(base) AS base, SUM(extras) AS extras
+        FROM earned
+        GROUP BY appointment_date
+      ) AS r
+    ), '[]'::json),
+    'durations', COALESCE((
+      SELECT json_agg(d ORDER BY d.count DESC)
+      FROM (
+        SELECT duration_minutes, COUNT(*) AS count
+        FROM booked
+        GROUP BY duration_minutes
+      ) AS d
+    ), '[]'::json),
+    -- selected_extras holds names (AI bookings) or {name, price} objects
+    'extras', COALESCE((
+      SELECT json_agg(e ORDER BY e.count DESC)
+      FROM (
+        SELECT
+          CASE WHEN jsonb_typeof(extra) = 'object' THEN extra->>'name' ELSE extra #>> '{}' END AS name,
+          COUNT(*) AS count
+        FROM booked, jsonb_array_elements(COALESCE(booked.selected_extras, '[]'::jsonb)) AS extra
+        GROUP BY 1
+      ) AS e
+    ), '[]'::json),
+    'bookings_by_hour', COALESCE((
+      SELECT json_agg(h ORDER BY h.day_of_week, h.hour)
+      FROM (
+        SELECT
+          EXTRACT(DOW FROM appointment_date)::INTEGER AS day_of_week,
+          EXTRACT(HOUR FROM start_time)::INTEGER AS hour,
+          COUNT(*) AS count
+        FROM booked
+        GROUP BY 1, 2
+      ) AS h
+    ), '[]'::json),
+    'status_counts', (
+      SELECT json_build_object(
+        'total', COUNT(*),
+        'pending', COUNT(*) FILTER (WHERE status = 'pending'),
+        'confirmed', COUNT(*) FILTER (WHERE status = 'confirmed'),
+        'completed', COUNT(*) FILTER (WHERE status = 'completed'),
+        'cancelled', COUNT(*) FILTER (WHERE status = 'cancelled'),
+        'no_show', COUNT(*) FILTER (WHERE status = 'no_show')
+      )
+      FROM period_appointments
+    ),
+    'conversations', (
+      SELECT json_build_object('total', COUNT(*), 'booked', COUNT(*) FILTER (WHERE booked))
+      FROM period_conversations
+    ),
+    'ai_latency', (
+      SELECT json_build_object(
+        'calls', COUNT(*),
+        'avg_ms', ROUND(AVG((metadata->>'latency_ms')::NUMERIC))
+      )
+      FROM ai_events
+      WHERE user_id = auth.uid()
+        AND event_type = 'openai_call'
+        AND metadata ? 'latency_ms'
+        AND (created_at AT TIME ZONE 'Europe/Paris')::DATE BETWEEN p_from AND p_to
+    )
+  );
+$$;
+
+COMMENT ON FUNCTION public.get_provider_statistics IS
+'Statistiques de la page Statistiques pour le provider connecté (CA base/extras par jour, durées et extras les plus pris, conversion, annulations, lapins, heures chargées, latence IA)';
+
+GRANT EXECUTE ON FUNCTION public.get_provider_statistics(DATE, DATE) TO authenticated;
@@ -0,0 +1,49 @@
+-- =====================================================
+-- Migration: Subscribable calendar feed
+-- Date: 2025-11-30
+-- Description:
+--   - calendar_feeds: secret token of each provider's ICS feed (calendar-feed function)
+--   - rotate_calendar_feed_token(): creates or replaces the token, the old feed URL stops working
+-- =====================================================
+
+CREATE TABLE IF NOT EXISTS calendar_feeds (
+  user_id UUID PRIMARY KEY REFERENCES auth.users(id) ON DELETE CASCADE,
+  token TEXT NOT NULL UNIQUE,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  rotated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+COMMENT ON TABLE calendar_feeds IS
+'Jeton secret du flux iCalendar (calendar-feed?token=...) auquel le provider abonne son agenda. Quiconque a le lien voit les RDV : il se régénère depuis la page Rendez-vous';
+
+ALTER TABLE calendar_feeds ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own calendar feed"
+  ON calendar_feeds FOR SELECT
+  USING (auth.uid() = user_id);
+
+-- Tokens are only written by the function below, never by the client
+CREATE OR REPLACE FUNCTION public.rotate_calendar_feed_token()
+RETURNS TEXT
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_token TEXT := replace(gen_random_uuid()::TEXT || gen_random_uuid()::TEXT, '-', '');
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  INSERT INTO calendar_feeds (user_id, token)
+  VALUES (auth.uid(), v_token)
+  ON CONFLICT (user_id) DO UPDATE
+  SET token = EXCLUDED.token, rotated_at = NOW();
+
+  RETURN v_token;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.rotate_calendar_feed_token() FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.rotate_calendar_feed_token() TO authenticated;
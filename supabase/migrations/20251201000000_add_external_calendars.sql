@@ -0,0 +1,133 @@
+-- =====================================================
+-- Migration: External calendars as busy time
+-- Date: 2025-12-01
+-- Description:
+--   - external_calendars: ICS sources of a provider (subscription URL or uploaded .ics file)
+--   - external_busy_times: their events, expanded by the sync-external-calendars function
+--     into France local slots and subtracted from availabilities by ai-auto-reply
+-- =====================================================
+
+-- 1. Sources
+CREATE TABLE IF NOT EXISTS external_calendars (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  name TEXT NOT NULL,
+  source_type TEXT NOT NULL CHECK (source_type IN ('url', 'file')),
+  url TEXT CHECK (url ~* '^(https|webcal)://'),
+  ics_content TEXT,
+  last_synced_at TIMESTAMPTZ,
+  last_sync_attempt_at TIMESTAMPTZ,
+  last_sync_error TEXT,
+  busy_count INTEGER NOT NULL DEFAULT 0,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  CHECK (
+    (source_type = 'url' AND url IS NOT NULL) OR
+    (source_type = 'file' AND ics_content IS NOT NULL)
+  )
+);
+
+CREATE INDEX IF NOT EXISTS idx_external_calendars_user
+ON external_calendars(user_id);
+
+ALTER TABLE external_calendars ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can view their own external calendars" ON external_calendars;
+CREATE POLICY "Users can view their own external calendars"
+ON external_calendars FOR SELECT
+USING (auth.uid() = user_id);
+
+DROP POLICY IF EXISTS "Users can insert their own external calendars" ON external_calendars;
+CREATE POLICY "Users can insert their own external calendars"
+ON external_calendars FOR INSERT
+WITH CHECK (auth.uid() = user_id);
+
+DROP POLICY IF EXISTS "Users can delete their own external calendars" ON external_calendars;
+CREATE POLICY "Users can delete their own external calendars"
+ON external_calendars FOR DELETE
+USING (auth.uid() = user_id);
+
+DROP TRIGGER IF EXISTS update_external_calendars_updated_at ON external_calendars;
+CREATE TRIGGER update_external_calendars_updated_at
+  BEFORE UPDATE ON external_calendars
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+COMMENT ON TABLE external_calendars IS
+'Agendas externes du provider (lien ICS Google/Apple/Outlook ou fichier .ics importé). Leurs événements comptent comme indisponibilités, resynchronisés par sync-external-calendars';
+
+COMMENT ON COLUMN external_calendars.url IS
+'Lien d''abonnement HTTPS ou webcal:// (source_type = url). sync-external-calendars refuse les hôtes privés ou internes';
+
+COMMENT ON COLUMN external_calendars.ics_content IS
+'Contenu du fichier .ics importé (source_type = file), relu à chaque synchro pour suivre la fenêtre de réservation';
+
+COMMENT ON COLUMN external_calendars.last_sync_error IS
+'Erreur de la dernière synchro (lien mort, fichier invalide). Les créneaux de la synchro précédente restent en place';
+
+COMMENT ON COLUMN external_calendars.last_sync_attempt_at IS
+'Dernière tentative de synchro, réussie ou non. Le cron traite les agendas par lots, les plus anciennement tentés d''abord';
+
+CREATE INDEX IF NOT EXISTS idx_external_calendars_sync_attempt
+ON external_calendars(last_sync_attempt_at NULLS FIRST);
+
+-- 2. Busy slots, one row per France local day of an event
+CREATE TABLE IF NOT EXISTS external_busy_times (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  calendar_id UUID NOT NULL REFERENCES external_calendars(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  busy_date DATE NOT NULL,
+  start_time TIME NOT NULL,
+  end_time TIME NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_external_busy_times_user_date
+ON external_busy_times(user_id, busy_date);
+
+CREATE INDEX IF NOT EXISTS idx_external_busy_times_calendar
+ON external_busy_times(calendar_id);
+
+-- Written by sync-external-calendars (service role) only
+ALTER TABLE external_busy_times ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can view their own busy times" ON external_busy_times;
+CREATE POLICY "Users can view their own busy times"
+ON external_busy_times FOR SELECT
+USING (auth.uid() = user_id);
+
+COMMENT ON TABLE external_busy_times IS
+'Créneaux occupés issus des agendas externes, en heure de Paris. end_time <= start_time = jusqu''au lendemain (00:00 = minuit), comme les RDV';
+
+-- 3. Replacement of a calendar's busy slots, called by sync-external-calendars after each download.
+-- Delete and insert run in one transaction: if the insert fails, the previous slots stay in place
+CREATE OR REPLACE FUNCTION public.replace_external_busy_times(p_calendar_id UUID, p_slots JSONB)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_user_id UUID;
+  v_count INTEGER;
+BEGIN
+  SELECT user_id INTO v_user_id
+  FROM external_calendars
+  WHERE id = p_calendar_id;
+
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'Calendar not found';
+  END IF;
+
+  DELETE FROM external_busy_times
+  WHERE calendar_id = p_calendar_id;
+
+  INSERT INTO external_busy_times (calendar_id, user_id, busy_date, start_time, end_time)
+  SELECT p_calendar_id, v_user_id, slot.busy_date, slot.start_time, slot.end_time
+  FROM jsonb_to_recordset(p_slots) AS slot(busy_date DATE, start_time TIME, end_time TIME);
+
+  GET DIAGNOSTICS v_count = ROW_COUNT;
+  RETURN v_count;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.replace_external_busy_times(UUID, JSONB) FROM PUBLIC, anon, authenticated;
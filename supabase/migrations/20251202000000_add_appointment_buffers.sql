@@ -0,0 +1,101 @@
+-- =====================================================
+-- Migration: Buffer time between appointments
+-- Date: 2025-12-02
+-- Description:
+--   - user_informations.buffer_before_minutes / buffer_after_minutes: time kept free
+--     before (travel, setup) and after (cleaning, reset) every appointment
+--   - tarifs / extras entries (JSONB) may carry a buffer_minutes, added after the
+--     appointment when that duration or extra is booked
+--   - appointments.buffer_before_minutes / buffer_after_minutes: buffers of the
+--     appointment, stored at booking so later changes of settings don't move them
+--   - prevent_overlapping_appointments: refuses a pending/confirmed appointment whose
+--     padded slot overlaps another one of the same provider (unique_appointment_slot
+--     only catches the exact same start in the same conversation)
+-- =====================================================
+
+-- 1. Provider settings
+ALTER TABLE user_informations
+ADD COLUMN IF NOT EXISTS buffer_before_minutes INTEGER NOT NULL DEFAULT 0 CHECK (buffer_before_minutes >= 0),
+ADD COLUMN IF NOT EXISTS buffer_after_minutes INTEGER NOT NULL DEFAULT 0 CHECK (buffer_after_minutes >= 0);
+
+COMMENT ON COLUMN user_informations.buffer_before_minutes IS
+'Minutes gardées libres avant chaque RDV (trajet, préparation)';
+COMMENT ON COLUMN user_informations.buffer_after_minutes IS
+'Minutes gardées libres après chaque RDV (ménage, remise en place). Les tarifs et extras peuvent ajouter leur propre buffer_minutes';
+
+-- 2. Buffers of each appointment
+ALTER TABLE appointments
+ADD COLUMN IF NOT EXISTS buffer_before_minutes INTEGER NOT NULL DEFAULT 0 CHECK (buffer_before_minutes >= 0),
+ADD COLUMN IF NOT EXISTS buffer_after_minutes INTEGER NOT NULL DEFAULT 0 CHECK (buffer_after_minutes >= 0);
+
+COMMENT ON COLUMN appointments.buffer_before_minutes IS
+'Battement avant le RDV, figé à la réservation (réglage + tarif + extras)';
+COMMENT ON COLUMN appointments.buffer_after_minutes IS
+'Battement après le RDV, figé à la réservation (réglage + tarif + extras)';
+
+-- 3. Overlap prevention
+-- Slot of an appointment with its buffers, as timestamps in France local time
+-- (the end is computed from duration_minutes, so midnight crossing needs no special case)
+CREATE OR REPLACE FUNCTION public.appointment_padded_range(
+  appointment_date DATE,
+  start_time TIME,
+  duration_minutes INTEGER,
+  buffer_before_minutes INTEGER,
+  buffer_after_minutes INTEGER
+)
+RETURNS TSRANGE
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT tsrange(
+    appointment_date + start_time - make_interval(mins => buffer_before_minutes),
+    appointment_date + start_time + make_interval(mins => duration_minutes + buffer_after_minutes),
+    '[)'
+  );
+$$;
+
+CREATE OR REPLACE FUNCTION public.prevent_overlapping_appointments()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  overlapping_id UUID;
+BEGIN
+  IF NEW.status NOT IN ('pending', 'confirmed') THEN
+    RETURN NEW;
+  END IF;
+
+  -- Two bookings of the same provider at the same time would both pass the check
+  PERFORM pg_advisory_xact_lock(hashtext('appointments:' || NEW.user_id::TEXT));
+
+  SELECT id INTO overlapping_id
+  FROM appointments
+  WHERE user_id = NEW.user_id
+    AND id IS DISTINCT FROM NEW.id
+    AND status IN ('pending', 'confirmed')
+    -- Only neighbours can overlap, keeps the range check on a few rows
+    AND appointment_date BETWEEN NEW.appointment_date - 1 AND NEW.appointment_date + 1
+    AND appointment_padded_range(appointment_date, start_time, duration_minutes, buffer_before_minutes, buffer_after_minutes)
+      && appointment_padded_range(NEW.appointment_date, NEW.start_time, NEW.duration_minutes, NEW.buffer_before_minutes, NEW.buffer_after_minutes)
+  LIMIT 1;
+
+  IF overlapping_id IS NOT NULL THEN
+    RAISE EXCEPTION 'Appointment overlaps appointment % (buffers included)', overlapping_id
+      USING ERRCODE = 'exclusion_violation';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS prevent_overlapping_appointments ON appointments;
+CREATE TRIGGER prevent_overlapping_appointments
+  BEFORE INSERT OR UPDATE OF appointment_date, start_time, duration_minutes, buffer_before_minutes, buffer_after_minutes, status
+  ON appointments
+  FOR EACH ROW
+  EXECUTE FUNCTION public.prevent_overlapping_appointments();
+
+COMMENT ON FUNCTION public.prevent_overlapping_appointments() IS
+'Refuse un RDV en attente/confirmé dont le créneau, battements compris, chevauche un autre RDV de la prestataire';
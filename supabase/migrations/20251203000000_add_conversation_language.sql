@@ -0,0 +1,17 @@
+-- =====================================================
+-- Migration: Client language per conversation
+-- Date: 2025-12-03
+-- Description:
+--   - conversations.language: language the client writes in (fr, en, de, it),
+--     detected by ai-auto-reply from the client's messages and updated when the
+--     client switches language
+--   - Prompts, confirmations, reminders, access info, late nudges and review
+--     messages are sent in that language. NULL = not detected yet (French)
+-- =====================================================
+
+ALTER TABLE conversations
+ADD COLUMN IF NOT EXISTS language TEXT
+CHECK (language IS NULL OR language IN ('fr', 'en', 'de', 'it'));
+
+COMMENT ON COLUMN conversations.language IS
+'Langue du client détectée par l''IA (fr, en, de, it). NULL = pas encore détectée, messages en français';
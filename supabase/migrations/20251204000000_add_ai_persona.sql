@@ -0,0 +1,16 @@
+-- =====================================================
+-- Migration: Assistant persona
+-- Date: 2025-12-04
+-- Description:
+--   - user_informations.ai_persona: tone, greeting, presentation intro, signature phrases,
+--     emoji policy and extra rules chosen by the provider, composed by ai-auto-reply on top of the fixed
+--     booking and safety rules of the prompts
+--   - NULL keeps the default persona
+-- =====================================================
+
+ALTER TABLE user_informations
+ADD COLUMN IF NOT EXISTS ai_persona JSONB
+  CHECK (ai_persona IS NULL OR jsonb_typeof(ai_persona) = 'object');
+
+COMMENT ON COLUMN user_informations.ai_persona IS
+'Personnalité de l''assistant : {tone, greeting, intro, signature_phrases[], emoji_policy (none/few/free), extra_rules}. NULL = personnalité par défaut';
@@ -0,0 +1,56 @@
+-- =====================================================
+-- Migration: Templates of the automated messages
+-- Date: 2025-12-05
+-- Description:
+--   - message_templates: provider's own text for an automated message (booking confirmation,
+--     access info, late nudges, provider notifications), per client language
+--   - No row = default text (_shared/message-templates.ts)
+--   - Written by the message-templates function only, which rejects unknown {variables}
+-- =====================================================
+
+CREATE TABLE IF NOT EXISTS message_templates (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  template_key TEXT NOT NULL CHECK (template_key IN (
+    'confirmation',
+    'access_info',
+    'late_nudge',
+    'provider_new_appointment',
+    'provider_approval_request',
+    'provider_client_arrived',
+    'provider_access_info_sent',
+    'provider_appointment_cancelled',
+    'provider_appointment_rescheduled',
+    'provider_payment_received'
+  )),
+  language TEXT NOT NULL DEFAULT 'fr' CHECK (language IN ('fr', 'en', 'de', 'it')),
+  body TEXT NOT NULL CHECK (char_length(body) BETWEEN 1 AND 1000),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  UNIQUE (user_id, template_key, language)
+);
+
+ALTER TABLE message_templates ENABLE ROW LEVEL SECURITY;
+
+-- Saved through message-templates (service role) so the variables are always checked
+DROP POLICY IF EXISTS "Users can view their own message templates" ON message_templates;
+CREATE POLICY "Users can view their own message templates"
+ON message_templates FOR SELECT
+USING (auth.uid() = user_id);
+
+DROP POLICY IF EXISTS "Users can delete their own message templates" ON message_templates;
+CREATE POLICY "Users can delete their own message templates"
+ON message_templates FOR DELETE
+USING (auth.uid() = user_id);
+
+DROP TRIGGER IF EXISTS update_message_templates_updated_at ON message_templates;
+CREATE TRIGGER update_message_templates_updated_at
+  BEFORE UPDATE ON message_templates
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+COMMENT ON TABLE message_templates IS
+'Textes personnalisés des messages automatiques (confirmation, infos d''accès, relance retard, notifications prestataire), par langue du client. Sans ligne, le texte par défaut est utilisé';
+
+COMMENT ON COLUMN message_templates.body IS
+'Texte avec {variables} ({date}, {time}, {total_price}, {extras}, {door_code}...). Une ligne dont toutes les variables sont vides n''est pas envoyée';
@@ -0,0 +1,45 @@
+-- Setup script for the external calendars sync cron job
+-- Calls sync-external-calendars every 5 minutes: each run fetches again the calendars
+-- attempted longest ago (SYNC_BATCH_SIZE per run, so a run fits in the 120 s timeout)
+-- and expands them over the coming days (external_busy_times)
+
+-- Step 1: Enable required extensions
+CREATE EXTENSION IF NOT EXISTS pg_cron;
+CREATE EXTENSION IF NOT EXISTS pg_net;
+
+-- Step 2: Unschedule existing job if it exists (to allow re-running this script)
+SELECT cron.unschedule('sync-external-calendars')
+WHERE EXISTS (
+  SELECT 1 FROM cron.job WHERE jobname = 'sync-external-calendars'
+);
+
+-- Step 3: Create the cron job
+-- The function only syncs other providers' calendars when called with the service role key
+SELECT cron.schedule(
+  'sync-external-calendars', -- Job name
+  '*/5 * * * *',             -- Every 5 minutes
+  $$
+  SELECT
+    net.http_post(
+      url := current_setting('app.settings.supabase_url', true) || '/functions/v1/sync-external-calendars',
+      headers := jsonb_build_object(
+        'Content-Type', 'application/json',
+        'Authorization', 'Bearer ' || current_setting('app.settings.service_role_key', true)
+      ),
+      body := '{}'::jsonb,
+      timeout_milliseconds := 120000
+    );
+  $$
+);
+
+-- Step 4: Verify the cron job was created
+SELECT
+  jobid,
+  jobname,
+  schedule,
+  active
+FROM cron.job
+WHERE jobname = 'sync-external-calendars';
+
+-- To check the last syncs:
+-- SELECT name, last_sync_attempt_at, last_synced_at, last_sync_error, busy_count FROM external_calendars ORDER BY last_sync_attempt_at DESC;
@@ -0,0 +1,43 @@
+-- Setup script for the appointment reminders cron job
+-- Calls send-appointment-reminders every 5 minutes; the function itself decides
+-- which reminders are due (provider settings in user_informations)
+
+-- Step 1: Enable required extensions
+CREATE EXTENSION IF NOT EXISTS pg_cron;
+CREATE EXTENSION IF NOT EXISTS pg_net;
+
+-- Step 2: Unschedule existing job if it exists (to allow re-running this script)
+SELECT cron.unschedule('send-appointment-reminders')
+WHERE EXISTS (
+  SELECT 1 FROM cron.job WHERE jobname = 'send-appointment-reminders'
+);
+
+-- Step 3: Create the cron job
+SELECT cron.schedule(
+  'send-appointment-reminders', -- Job name
+  '*/5 * * * *',                -- Every 5 minutes
+  $$
+  SELECT
+    net.http_post(
+      url := current_setting('app.settings.supabase_url', true) || '/functions/v1/send-appointment-reminders',
+      headers := jsonb_build_object(
+        'Content-Type', 'application/json',
+        'Authorization', 'Bearer ' || current_setting('app.settings.service_role_key', true)
+      ),
+      body := '{}'::jsonb,
+      timeout_milliseconds := 60000
+    );
+  $$
+);
+
+-- Step 4: Verify the cron job was created
+SELECT
+  jobid,
+  jobname,
+  schedule,
+  active
+FROM cron.job
+WHERE jobname = 'send-appointment-reminders';
+
+-- To view recent reminders:
+-- SELECT * FROM appointment_reminders ORDER BY created_at DESC LIMIT 20;